@@ -1,10 +1,13 @@
-import { instantiateBuffer, ICanvasSYS } from "../src";
+import { instantiateBuffer, ICanvasSYS, CanvasRenderingContext2DBackend } from "../src";
 import { readFileSync } from "fs";
 import { ASUtil } from "assemblyscript/lib/loader";
 
 interface IBufferTestSuite {
   init(): void;
   writeThreeTimes(): number;
+  fillRects(count: number): void;
+  saveRestore(count: number): void;
+  polyline(count: number): void;
 }
 
 var buff = readFileSync("./build/Buffer.test.wasm");
@@ -26,4 +29,57 @@ describe("Buffers", () => {
     expect(data[2]).toBe(1);
     expect(data[3]).toBe(2);
   });
+
+  it("should flush instructions that do not fit in the buffer", () => {
+    var backend = new CanvasRenderingContext2DBackend(document.createElement("canvas").getContext("2d")!);
+    var fillStyle = jest.spyOn(backend, "fillStyle");
+    var fillRect = jest.spyOn(backend, "fillRect");
+    var trace = jest.fn();
+    wasm.useBackend("main", backend);
+    wasm.useTrace(trace);
+    wasm.init();
+    wasm.fillRects(20000);
+
+    expect(trace.mock.calls.length).toBeGreaterThan(1);
+    for (var i = 0; i < trace.mock.calls.length - 1; i++) {
+      expect(trace.mock.calls[i][1]).toMatch(/ Flush$/);
+    }
+    expect(trace.mock.calls[trace.mock.calls.length - 1][1]).toMatch(/ Commit$/);
+    var rects: number[][] = [];
+    var styles: string[][] = [];
+    for (var j = 0; j < 20000; j++) {
+      rects.push([j, 0, 1, 1]);
+      styles.push(["#" + j]);
+    }
+    expect(fillRect.mock.calls).toEqual(rects);
+    expect(fillStyle.mock.calls).toEqual(styles);
+  });
+
+  it("should grow the pools of a context", () => {
+    var backend = new CanvasRenderingContext2DBackend(document.createElement("canvas").getContext("2d")!);
+    var fillStyle = jest.spyOn(backend, "fillStyle");
+    var lineTo = jest.spyOn(backend, "lineTo");
+    var lineWidth = jest.spyOn(backend, "lineWidth");
+    var save = jest.spyOn(backend, "save");
+    var restore = jest.spyOn(backend, "restore");
+    var trace = jest.fn();
+    wasm.useBackend("main", backend, { bufferLength: 0x100, retainedLength: 2, pathLength: 2, stackLength: 2 });
+    wasm.useTrace(trace);
+    wasm.init();
+
+    wasm.fillRects(100);
+    expect(trace.mock.calls.length).toBeGreaterThan(1);
+    expect(fillStyle).toBeCalledTimes(100);
+    expect(fillStyle).lastCalledWith("#99");
+
+    wasm.saveRestore(10);
+    expect(save).toBeCalledTimes(10);
+    expect(restore).toBeCalledTimes(10);
+    // every restore() brings back the line width the next strokeRect() uses
+    expect(lineWidth.mock.calls).toEqual([[10]]);
+
+    wasm.polyline(100);
+    expect(lineTo).toBeCalledTimes(99);
+    expect(lineTo).lastCalledWith(99, 99);
+  });
 });
@@ -0,0 +1,71 @@
+import { instantiateBuffer, ICanvasSYS, SoftwareRasterizer } from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+let wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite;
+let ctx: CanvasRenderingContext2D;
+let layer: CanvasRenderingContext2D;
+let layerid: number;
+
+beforeEach(() => {
+  wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+  ctx = document.createElement("canvas").getContext("2d")!;
+  const canvas = document.createElement("canvas");
+  canvas.width = 40;
+  canvas.height = 30;
+  layer = canvas.getContext("2d")!;
+  wasm.useContext("main", ctx);
+  layerid = wasm.useContext("layer", layer);
+  wasm.init();
+  wasm.initLayer();
+});
+
+describe("CanvasImageSource", () => {
+  it("should draw the canvas of another context", () => {
+    wasm.layerFillRect(1, 2, 3, 4);
+    wasm.layerCommit();
+    wasm.drawLayer(5, 6);
+    wasm.commit();
+    expect(layer.fillRect).toBeCalledWith(1, 2, 3, 4);
+    expect(ctx.drawImage).toBeCalledWith(layer.canvas, 0, 0, 40, 30, 5, 6, 40, 30);
+  });
+
+  it("should draw a rectangle of the canvas of another context", () => {
+    wasm.drawLayerSource(1, 2, 3, 4, 5, 6, 7, 8);
+    wasm.commit();
+    expect(ctx.drawImage).toBeCalledWith(layer.canvas, 1, 2, 3, 4, 5, 6, 7, 8);
+  });
+
+  it("should use the id of the context in the instruction", () => {
+    const trace = jest.fn();
+    wasm.useTrace(trace);
+    wasm.drawLayer(5, 6);
+    wasm.commit();
+    const disassembly: string = trace.mock.calls[0][1];
+    expect(disassembly).toContain("DrawImage Image#" + layerid + "(40x30), 0, 0, 40, 30, 5, 6, 40, 30");
+  });
+
+  it("should create a pattern out of the canvas of another context", () => {
+    const createPattern = jest.spyOn(ctx, "createPattern");
+    const id = wasm.createLayerPattern();
+    expect(createPattern).toBeCalledWith(layer.canvas, "repeat");
+    expect(wasm.patterns[id]).toBe(createPattern.mock.results[0].value);
+  });
+
+  it("should throw when a pattern source cannot be found", () => {
+    delete wasm.contexts[layerid];
+    expect(() => wasm.createLayerPattern()).toThrow();
+  });
+
+  it("should throw when a context without a canvas is used as an image", () => {
+    wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+    wasm.useContext("main", ctx);
+    wasm.useBackend("layer", new SoftwareRasterizer(40, 30));
+    wasm.init();
+    wasm.initLayer();
+    wasm.drawLayer(5, 6);
+    expect(() => wasm.commit()).toThrow("Cannot use a context without a canvas as an image");
+  });
+});
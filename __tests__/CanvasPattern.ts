@@ -0,0 +1,36 @@
+import { instantiateBuffer, ICanvasSYS } from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+let wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite;
+let pattern: CanvasPattern;
+
+beforeEach(async () => {
+  wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+  wasm.useContext("main", document.createElement("canvas").getContext("2d")!);
+  wasm.init();
+  const imgid = wasm.createImage();
+  await wasm.loading[imgid];
+  pattern = wasm.patterns[wasm.createPattern()];
+});
+
+describe("CanvasPattern", () => {
+  it("should set the transform of the host pattern", () => {
+    wasm.createMatrix(1, 2, 3, 4, 5, 6);
+    wasm.setPatternTransform();
+    expect(pattern.setTransform).toBeCalledWith({ a: 1, b: 2, c: 3, d: 4, e: 5, f: 6 });
+  });
+
+  it("should reset the transform without a matrix", () => {
+    wasm.resetPatternTransform();
+    expect(pattern.setTransform).toBeCalledWith({ a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 });
+  });
+
+  it("should ignore matrices that are not finite", () => {
+    wasm.createMatrix(1, 0, 0, 1, NaN, 0);
+    wasm.setPatternTransform();
+    expect(pattern.setTransform).not.toBeCalled();
+  });
+});
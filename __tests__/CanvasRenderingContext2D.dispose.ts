@@ -0,0 +1,46 @@
+import { instantiateBuffer, ICanvasSYS } from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+let wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite;
+let layer: CanvasRenderingContext2D;
+
+beforeEach(() => {
+  wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+  wasm.useContext("main", document.createElement("canvas").getContext("2d")!);
+  wasm.init();
+  layer = document.createElement("canvas").getContext("2d")!;
+  wasm.useContext("layer", layer);
+  wasm.initLayer();
+});
+
+describe("dispose", () => {
+  it("should forget the name of the context", () => {
+    wasm.disposeLayer();
+    expect(() => wasm.initLayer()).toThrow("Cannot find context with name: layer");
+  });
+
+  it("should throw when the context draws after it is disposed", () => {
+    wasm.disposeLayer();
+    expect(() => wasm.layerFillRect(1, 2, 3, 4)).toThrow("Cannot use a disposed context");
+    expect(layer.fillRect).not.toBeCalled();
+  });
+
+  it("should throw when the context commits after it is disposed", () => {
+    wasm.disposeLayer();
+    expect(() => wasm.layerCommit()).toThrow("Cannot use a disposed context");
+  });
+
+  it("should discard the pending instructions", () => {
+    wasm.layerFillRect(1, 2, 3, 4);
+    wasm.disposeLayer();
+    expect(layer.fillRect).not.toBeCalled();
+  });
+
+  it("should do nothing when the context is disposed again", () => {
+    wasm.disposeLayer();
+    expect(() => wasm.disposeLayer()).not.toThrow();
+  });
+});
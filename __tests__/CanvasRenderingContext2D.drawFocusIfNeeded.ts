@@ -0,0 +1,55 @@
+import { instantiateBuffer, ICanvasSYS } from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+let wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite;
+let ctx: CanvasRenderingContext2D;
+let button: HTMLButtonElement;
+
+beforeEach(() => {
+  wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+  const canvas = document.createElement("canvas");
+  ctx = canvas.getContext("2d")!;
+  button = canvas.appendChild(document.createElement("button"));
+  wasm.useContext("main", ctx);
+  wasm.useElement("button", button);
+  wasm.init();
+});
+
+describe("drawFocusIfNeeded", () => {
+  it("should draw the focus ring of the current path", () => {
+    wasm.rect(1, 2, 3, 4);
+    wasm.drawFocusIfNeeded(wasm.__allocString("button"));
+    wasm.commit();
+    expect(ctx.rect).toBeCalledWith(1, 2, 3, 4);
+    expect(ctx.drawFocusIfNeeded).toBeCalledWith(button);
+  });
+
+  it("should do nothing without a current path", () => {
+    wasm.drawFocusIfNeeded(wasm.__allocString("button"));
+    wasm.commit();
+    expect(ctx.drawFocusIfNeeded).not.toBeCalled();
+  });
+
+  it("should draw the focus ring of a Path2D", () => {
+    wasm.createPath2D();
+    wasm.pathRect(1, 2, 3, 4);
+    wasm.drawFocusIfNeededPath(wasm.__allocString("button"));
+    wasm.commit();
+    expect(ctx.drawFocusIfNeeded).toBeCalledWith(expect.any(Path2D), button);
+  });
+
+  it("should give every element its own id", () => {
+    const link = document.createElement("a");
+    expect(wasm.useElement("link", link)).toBe(1);
+    expect(wasm.elements[0]).toBe(button);
+    expect(wasm.elements[1]).toBe(link);
+  });
+
+  it("should throw when the element was not provided", () => {
+    wasm.rect(1, 2, 3, 4);
+    expect(() => wasm.drawFocusIfNeeded(wasm.__allocString("missing"))).toThrow();
+  });
+});
@@ -0,0 +1,61 @@
+import { instantiateBuffer, ICanvasSYS, ICanvasState, LineCap, TextAlign } from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+let wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite;
+let ctx: CanvasRenderingContext2D;
+let ctxid: number;
+
+beforeEach(() => {
+  wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+  ctx = document.createElement("canvas").getContext("2d")!;
+  ctxid = wasm.useContext("main", ctx);
+  wasm.init();
+});
+
+describe("inspect", () => {
+  it("should call the inspector with the label and the host context state", () => {
+    const inspector = jest.fn();
+    wasm.useInspector(inspector);
+    wasm.translate(10, 20);
+    wasm.fillStyle(wasm.__allocString("#f00"));
+    wasm.lineCap(LineCap.round);
+    wasm.textAlign(TextAlign.right);
+    wasm.inspect(wasm.__allocString("before fill"));
+    wasm.commit();
+    expect(inspector).toHaveBeenCalledTimes(1);
+    const [id, label, state] = inspector.mock.calls[0] as [number, string, ICanvasState];
+    expect(id).toBe(ctxid);
+    expect(label).toBe("before fill");
+    expect(state).toMatchObject({
+      transform: [1, 0, 0, 1, 10, 20],
+      fillStyle: "#f00",
+      lineCap: LineCap.round,
+      textAlign: TextAlign.right,
+    });
+  });
+
+  it("should inspect the state in the order the instructions are written", () => {
+    const fillStyles: string[] = [];
+    wasm.useInspector((_id, _label, state) => fillStyles.push(state.fillStyle as string));
+    wasm.fillStyle(wasm.__allocString("#f00"));
+    wasm.inspect(wasm.__allocString("first"));
+    wasm.fillStyle(wasm.__allocString("#00f"));
+    wasm.inspect(wasm.__allocString("second"));
+    wasm.commit();
+    expect(fillStyles).toEqual(["#f00", "#00f"]);
+  });
+
+  it("should skip the instruction without an inspector", () => {
+    const inspector = jest.fn();
+    wasm.useInspector(inspector);
+    wasm.useInspector(null);
+    wasm.inspect(wasm.__allocString("ignored"));
+    wasm.fillRect(1, 2, 3, 4);
+    wasm.commit();
+    expect(inspector).not.toBeCalled();
+    expect(ctx.fillRect).toBeCalledWith(1, 2, 3, 4);
+  });
+});
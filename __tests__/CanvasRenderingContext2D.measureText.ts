@@ -1,4 +1,4 @@
-import { instantiateBuffer, ICanvasSYS } from "../src";
+import { instantiateBuffer, ICanvasSYS, TextAlign, TextBaseline, createTextMetrics } from "../src";
 import { readFileSync } from "fs";
 import { ASUtil } from "assemblyscript/lib/loader";
 // import { GlobalCompositeOperation } from "../src/shared/GlobalCompositeOperation";
@@ -42,4 +42,37 @@ describe("measureText", () => {
     expect(ctx.font).toBe(`16px "Times New Roman"`);
     expect(ctx.measureText).toBeCalledWith("test");
   });
+
+  it("should copy every metric from the host", () => {
+    jest.spyOn(ctx, "measureText").mockReturnValue(createTextMetrics({
+      width: 1,
+      actualBoundingBoxLeft: 2,
+      actualBoundingBoxRight: 3,
+      fontBoundingBoxAscent: 4,
+      fontBoundingBoxDescent: 5,
+      actualBoundingBoxAscent: 6,
+      actualBoundingBoxDescent: 7,
+      emHeightAscent: 8,
+      emHeightDescent: 9,
+      hangingBaseline: 10,
+      alphabeticBaseline: 11,
+      ideographicBaseline: 12,
+    }));
+    var metrics = wasm.__getFloat64Array(wasm.measureTextMetrics(wasm.__allocString("test")));
+    expect(Array.from(metrics)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]);
+  });
+
+  it("should write missing metrics as 0", () => {
+    jest.spyOn(ctx, "measureText").mockReturnValue({ width: 5 } as TextMetrics);
+    var metrics = wasm.__getFloat64Array(wasm.measureTextMetrics(wasm.__allocString("test")));
+    expect(Array.from(metrics)).toEqual([5, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]);
+  });
+
+  it("should update the text properties the metrics depend on", () => {
+    wasm.textAlign(TextAlign.center);
+    wasm.textBaseline(TextBaseline.middle);
+    wasm.measureText(wasm.__allocString("test"));
+    expect(ctx.textAlign).toBe("center");
+    expect(ctx.textBaseline).toBe("middle");
+  });
 });
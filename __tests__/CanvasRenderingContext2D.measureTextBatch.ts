@@ -0,0 +1,93 @@
+import { instantiateBuffer, ICanvasSYS, FontKerning } from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+let wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite;
+let ctx: CanvasRenderingContext2D & { [name: string]: any };
+
+beforeEach(() => {
+  wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+  ctx = document.createElement("canvas").getContext("2d")!;
+  wasm.useContext("main", ctx);
+  wasm.init();
+});
+
+function measureTextBatch(first: string, second: string, font: string): number[] {
+  const pointer = wasm.measureTextBatch(wasm.__allocString(first), wasm.__allocString(second), wasm.__allocString(font));
+  return Array.from(wasm.__getFloat64Array(pointer));
+}
+
+describe("measureTextBatch", () => {
+  it("should measure every string once in the given font", () => {
+    const fonts: string[] = [];
+    jest.spyOn(ctx, "measureText").mockImplementation((text: string) => {
+      fonts.push(ctx.font);
+      return { width: text.length } as TextMetrics;
+    });
+    expect(measureTextBatch("test", "ab", "12px serif")).toEqual([4, 2, 4]);
+    expect(ctx.measureText).toHaveBeenCalledTimes(2);
+    expect(fonts).toEqual(["12px serif", "12px serif"]);
+    expect(ctx.font).toBe("10px sans-serif");
+  });
+
+  it("should not commit the pending instructions", () => {
+    wasm.fillRect(1, 2, 3, 4);
+    measureTextBatch("test", "ab", "12px serif");
+    expect(ctx.fillRect).not.toBeCalled();
+    wasm.commit();
+    expect(ctx.fillRect).toBeCalledWith(1, 2, 3, 4);
+  });
+
+  it("should cache the metrics by font and text", () => {
+    measureTextBatch("test", "ab", "12px serif");
+    expect(ctx.measureText).toHaveBeenCalledTimes(2);
+    expect(measureTextBatch("ab", "test", "12px serif")).toEqual([2, 4, 2]);
+    expect(ctx.measureText).toHaveBeenCalledTimes(2);
+    measureTextBatch("test", "abc", "12px serif");
+    expect(ctx.measureText).toHaveBeenCalledTimes(3);
+    measureTextBatch("test", "ab", "14px serif");
+    expect(ctx.measureText).toHaveBeenCalledTimes(5);
+    wasm.clearTextMetricsCache();
+    measureTextBatch("test", "ab", "12px serif");
+    expect(ctx.measureText).toHaveBeenCalledTimes(7);
+  });
+
+  it("should measure with the current text style of the context", () => {
+    // the mock context does not provide the text style properties
+    ctx.letterSpacing = "0px";
+    ctx.fontKerning = "auto";
+    const styles: string[][] = [];
+    jest.spyOn(ctx, "measureText").mockImplementation((text: string) => {
+      styles.push([ctx.letterSpacing, ctx.fontKerning]);
+      return { width: text.length } as TextMetrics;
+    });
+    wasm.letterSpacing(wasm.__allocString("2px"));
+    wasm.fontKerning(FontKerning.none);
+    measureTextBatch("test", "ab", "12px serif");
+    expect(styles).toEqual([["2px", "none"], ["2px", "none"]]);
+  });
+
+  it("should cache the metrics by text style", () => {
+    measureTextBatch("test", "ab", "12px serif");
+    expect(ctx.measureText).toHaveBeenCalledTimes(2);
+    wasm.letterSpacing(wasm.__allocString("2px"));
+    measureTextBatch("test", "ab", "12px serif");
+    expect(ctx.measureText).toHaveBeenCalledTimes(4);
+    wasm.letterSpacing(wasm.__allocString("0px"));
+    measureTextBatch("test", "ab", "12px serif");
+    expect(ctx.measureText).toHaveBeenCalledTimes(4);
+  });
+
+  it("should empty the cache when it holds more than 4096 metrics", () => {
+    for (let i = 0; i < 2048; i++) measureTextBatch("a" + i, "b" + i, "12px serif");
+    expect(ctx.measureText).toHaveBeenCalledTimes(4096);
+    measureTextBatch("a0", "b0", "12px serif");
+    expect(ctx.measureText).toHaveBeenCalledTimes(4096);
+    measureTextBatch("c", "d", "12px serif");
+    expect(ctx.measureText).toHaveBeenCalledTimes(4098);
+    measureTextBatch("a0", "b0", "12px serif");
+    expect(ctx.measureText).toHaveBeenCalledTimes(4100);
+  });
+});
@@ -103,4 +103,41 @@ describe("pathing operations", () => {
     wasm.commit();
     expect(ctx.rect).toBeCalledWith(1, 2, 3, 4);
   });
+
+  it("should draw paths far longer than the initial path element pool", () => {
+    wasm.moveTo(0, 0);
+    for (let i = 1; i <= 50000; i++) wasm.lineTo(i, i % 7);
+    wasm.stroke();
+    wasm.commit();
+    expect(ctx.moveTo).toBeCalledTimes(1);
+    expect(ctx.lineTo).toBeCalledTimes(50000);
+    expect(ctx.lineTo).toHaveBeenNthCalledWith(4096, 4096, 4096 % 7);
+    expect(ctx.lineTo).lastCalledWith(50000, 50000 % 7);
+    expect(ctx.stroke).toBeCalledTimes(1);
+  });
+
+  it("should keep the transform of every element of a long path", () => {
+    for (let i = 0; i < 10000; i++) {
+      wasm.setTransform(1, 0, 0, 1, i, 0);
+      wasm.lineTo(i, i);
+    }
+    wasm.fill();
+    wasm.commit();
+    expect(ctx.lineTo).toBeCalledTimes(10000);
+    expect(ctx.setTransform).lastCalledWith(1, 0, 0, 1, 9999, 0);
+  });
+
+  it("should only write the new elements of a long path that was already drawn", () => {
+    wasm.moveTo(0, 0);
+    for (let i = 1; i <= 10000; i++) wasm.lineTo(i, i);
+    wasm.stroke();
+    for (let i = 10001; i <= 20000; i++) wasm.lineTo(i, i);
+    wasm.closePath();
+    wasm.fill();
+    wasm.commit();
+    expect(ctx.lineTo).toBeCalledTimes(20000);
+    expect(ctx.closePath).toBeCalledTimes(1);
+    expect(ctx.stroke).toBeCalledTimes(1);
+    expect(ctx.fill).toBeCalledTimes(1);
+  });
 });
@@ -0,0 +1,142 @@
+import { instantiateBuffer, ICanvasSYS } from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+let wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite;
+let ctx: CanvasRenderingContext2D & { reset?(): void };
+let trace: jest.Mock;
+
+beforeEach(() => {
+  wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+  ctx = document.createElement("canvas").getContext("2d")!;
+  wasm.useContext("main", ctx);
+  wasm.init();
+  trace = jest.fn();
+  wasm.useTrace(trace);
+});
+
+/**
+ * Obtain the names and arguments of the traced instructions that follow the host reset.
+ */
+function afterReset(): string[] {
+  const lines: string[] = trace.mock.calls[0][1].split("\n").map((line: string) => line.trim().split(" ").slice(1).join(" "));
+  return lines.slice(lines.indexOf("Reset") + 1);
+}
+
+describe("reset", () => {
+  it("should reset the host context", () => {
+    const reset = ctx.reset = jest.fn();
+    wasm.reset();
+    wasm.commit();
+    expect(reset).toBeCalled();
+  });
+
+  it("should resize the canvas when the native reset is missing", () => {
+    const width = jest.spyOn(ctx.canvas, "width", "set");
+    wasm.reset();
+    wasm.commit();
+    expect(width).toBeCalledWith(ctx.canvas.width);
+  });
+
+  it("should restore the default state without writing it again", () => {
+    ctx.reset = jest.fn();
+    wasm.fillStyle(wasm.__allocString("#f00"));
+    wasm.lineWidth(5);
+    wasm.translate(10, 20);
+    wasm.rect(1, 2, 3, 4);
+    wasm.fill();
+    wasm.reset();
+    wasm.fillStyle(wasm.__allocString("#000"));
+    wasm.lineWidth(1);
+    wasm.rect(5, 6, 7, 8);
+    wasm.stroke();
+    wasm.commit();
+    expect(afterReset()).toEqual([
+      "BeginPath",
+      "Rect 5, 6, 7, 8",
+      "Stroke",
+      "Commit",
+    ]);
+  });
+
+  it("should discard the saved states", () => {
+    ctx.reset = jest.fn();
+    wasm.save(1);
+    wasm.lineWidth(5);
+    wasm.save(1);
+    wasm.reset();
+    wasm.restore();
+    wasm.strokeRect(1, 2, 3, 4);
+    wasm.commit();
+    expect(afterReset()).toEqual([
+      "StrokeRect 1, 2, 3, 4",
+      "Commit",
+    ]);
+  });
+});
+
+describe("isContextLost", () => {
+  it("should follow the contextlost and contextrestored events of the canvas", () => {
+    expect(wasm.isContextLost()).toBe(0);
+    ctx.canvas.dispatchEvent(new Event("contextlost"));
+    expect(wasm.isContextLost()).toBe(1);
+    ctx.canvas.dispatchEvent(new Event("contextrestored"));
+    expect(wasm.isContextLost()).toBe(0);
+  });
+
+  it("should reset the context and notify the module when the context is restored", () => {
+    const reset = ctx.reset = jest.fn();
+    wasm.lineWidth(5);
+    ctx.canvas.dispatchEvent(new Event("contextlost"));
+    ctx.canvas.dispatchEvent(new Event("contextrestored"));
+    expect(wasm.__getString(wasm.getRestoredContext())).toBe("main");
+    wasm.strokeRect(1, 2, 3, 4);
+    wasm.commit();
+    expect(reset).toBeCalled();
+    expect(afterReset()).toEqual([
+      "StrokeRect 1, 2, 3, 4",
+      "Commit",
+    ]);
+  });
+
+  it("should discard the instructions that are committed or flushed while the context is lost", () => {
+    wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+    wasm.useContext("main", ctx, { bufferLength: 16 });
+    wasm.init();
+    wasm.useTrace(trace);
+    ctx.canvas.dispatchEvent(new Event("contextlost"));
+    for (let i = 0; i < 10; i++) wasm.fillRect(i, 2, 3, 4);
+    wasm.commit();
+    expect(trace).not.toBeCalled();
+    expect(ctx.fillRect).not.toBeCalled();
+  });
+
+  it("should discard the pending instructions when the context is restored", () => {
+    ctx.canvas.dispatchEvent(new Event("contextlost"));
+    wasm.fillRect(1, 2, 3, 4);
+    ctx.canvas.dispatchEvent(new Event("contextrestored"));
+    wasm.strokeRect(1, 2, 3, 4);
+    wasm.commit();
+    expect(trace).toBeCalledTimes(1);
+    expect(trace.mock.calls[0][1]).not.toContain("FillRect");
+    expect(afterReset()).toEqual([
+      "StrokeRect 1, 2, 3, 4",
+      "Commit",
+    ]);
+  });
+
+  it("should stop following the events of the canvas when the context is disposed", () => {
+    const layer = document.createElement("canvas").getContext("2d")!;
+    wasm.useContext("layer", layer);
+    wasm.initLayer();
+    const contextLost = jest.spyOn(wasm, "__context_lost");
+    const contextRestored = jest.spyOn(wasm, "__context_restored");
+    wasm.disposeLayer();
+    layer.canvas.dispatchEvent(new Event("contextlost"));
+    layer.canvas.dispatchEvent(new Event("contextrestored"));
+    expect(contextLost).not.toBeCalled();
+    expect(contextRestored).not.toBeCalled();
+  });
+});
@@ -0,0 +1,101 @@
+import { instantiateBuffer, ICanvasSYS, IRoundRectContext } from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+let wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite;
+let ctx: CanvasRenderingContext2D & IRoundRectContext;
+
+beforeEach(() => {
+  wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+  ctx = document.createElement("canvas").getContext("2d")!;
+  wasm.useContext("main", ctx);
+  wasm.init();
+});
+
+describe("roundRect", () => {
+  it("should call the native roundRect with a radius for every corner", () => {
+    const roundRect = ctx.roundRect = jest.fn();
+    wasm.roundRect(1, 2, 30, 40, 5);
+    wasm.fill();
+    wasm.commit();
+    expect(roundRect).toBeCalledWith(1, 2, 30, 40, [
+      { x: 5, y: 5 },
+      { x: 5, y: 5 },
+      { x: 5, y: 5 },
+      { x: 5, y: 5 },
+    ]);
+  });
+
+  it("should expand the radii like the border-radius property", () => {
+    const roundRect = ctx.roundRect = jest.fn();
+    wasm.roundRectRadii(0, 0, 30, 40, 2, 1, 2, 0, 0);
+    wasm.roundRectRadii(0, 0, 30, 40, 3, 1, 2, 3, 0);
+    wasm.roundRectRadii(0, 0, 30, 40, 4, 1, 2, 3, 4);
+    wasm.fill();
+    wasm.commit();
+    const radii = roundRect.mock.calls.map(args => args[4].map((point: DOMPointInit) => point.x));
+    expect(radii).toEqual([
+      [1, 2, 1, 2],
+      [1, 2, 3, 2],
+      [1, 2, 3, 4],
+    ]);
+  });
+
+  it("should use elliptical radii", () => {
+    const roundRect = ctx.roundRect = jest.fn();
+    wasm.roundRectPoints(0, 0, 30, 40, 2, 1, 2, 3, 4);
+    wasm.fill();
+    wasm.commit();
+    expect(roundRect).toBeCalledWith(0, 0, 30, 40, [
+      { x: 1, y: 2 },
+      { x: 3, y: 4 },
+      { x: 1, y: 2 },
+      { x: 3, y: 4 },
+    ]);
+  });
+
+  it("should draw elliptical arcs when the native roundRect is missing", () => {
+    wasm.roundRect(0, 0, 30, 40, 5);
+    wasm.fill();
+    wasm.commit();
+    expect(ctx.moveTo).toHaveBeenNthCalledWith(1, 5, 0);
+    expect(ctx.lineTo).toHaveBeenNthCalledWith(1, 25, 0);
+    expect(ctx.ellipse).toHaveBeenNthCalledWith(1, 25, 5, 5, 5, 0, -Math.PI / 2, 0, false);
+    expect(ctx.ellipse).toHaveBeenNthCalledWith(3, 5, 35, 5, 5, 0, Math.PI / 2, Math.PI, false);
+    expect(ctx.closePath).toBeCalled();
+    expect(ctx.moveTo).toHaveBeenNthCalledWith(2, 0, 0);
+  });
+
+  it("should scale down radii that do not fit in the rectangle", () => {
+    wasm.roundRectRadii(10, 0, -10, 10, 2, 20, 0, 0, 0);
+    wasm.fill();
+    wasm.commit();
+    // the rectangle is flipped, so the top-left radius is drawn on the top-right corner
+    expect(ctx.moveTo).toHaveBeenNthCalledWith(1, 0, 0);
+    expect(ctx.ellipse).toHaveBeenNthCalledWith(1, 0, 10, 10, 10, 0, -Math.PI / 2, 0, false);
+    expect(ctx.moveTo).toHaveBeenNthCalledWith(2, 10, 0);
+  });
+
+  it("should not add a rounded rectangle with a value that is not finite", () => {
+    const roundRect = ctx.roundRect = jest.fn();
+    wasm.roundRect(NaN, 0, 30, 40, 5);
+    wasm.roundRect(0, 0, Infinity, 40, 5);
+    wasm.roundRectRadii(0, 0, 30, 40, 2, 1, NaN, 0, 0);
+    wasm.roundRectPoints(0, 0, 30, 40, 1, 1, Infinity, 0, 0);
+    wasm.fill();
+    wasm.commit();
+    expect(roundRect).not.toBeCalled();
+  });
+
+  it("should throw when a radius is negative", () => {
+    expect(() => wasm.roundRect(0, 0, 30, 40, -1)).toThrow();
+    expect(() => wasm.roundRectRadii(0, 0, 30, 40, 2, 1, -1, 0, 0)).toThrow();
+    expect(() => wasm.roundRectPoints(0, 0, 30, 40, 1, 1, -1, 0, 0)).toThrow();
+  });
+
+  it("should throw when no radii are given", () => {
+    expect(() => wasm.roundRectRadii(0, 0, 30, 40, 0, 0, 0, 0, 0)).toThrow();
+  });
+});
@@ -0,0 +1,13 @@
+import { run } from "./__setup__/saveRestore";
+import { FontKerning } from "../src";
+
+run<FontKerning>({
+  name: "fontKerning",
+  values: [FontKerning.auto, FontKerning.normal, FontKerning.none, FontKerning.auto],
+  getValue(wasm): FontKerning {
+    return wasm.getFontKerning();
+  },
+  setValue(wasm, value): void {
+    wasm.setFontKerning(value);
+  },
+});
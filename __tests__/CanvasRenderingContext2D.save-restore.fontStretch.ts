@@ -0,0 +1,13 @@
+import { run } from "./__setup__/saveRestore";
+import { FontStretch } from "../src";
+
+run<FontStretch>({
+  name: "fontStretch",
+  values: [FontStretch.condensed, FontStretch.normal, FontStretch.ultra_expanded, FontStretch.semi_condensed],
+  getValue(wasm): FontStretch {
+    return wasm.getFontStretch();
+  },
+  setValue(wasm, value): void {
+    wasm.setFontStretch(value);
+  },
+});
@@ -0,0 +1,13 @@
+import { run } from "./__setup__/saveRestore";
+import { FontVariantCaps } from "../src";
+
+run<FontVariantCaps>({
+  name: "fontVariantCaps",
+  values: [FontVariantCaps.small_caps, FontVariantCaps.normal, FontVariantCaps.titling_caps, FontVariantCaps.unicase],
+  getValue(wasm): FontVariantCaps {
+    return wasm.getFontVariantCaps();
+  },
+  setValue(wasm, value): void {
+    wasm.setFontVariantCaps(value);
+  },
+});
@@ -0,0 +1,13 @@
+import { run } from "./__setup__/saveRestore";
+import { TextRendering } from "../src";
+
+run<TextRendering>({
+  name: "textRendering",
+  values: [TextRendering.optimizeSpeed, TextRendering.auto, TextRendering.geometricPrecision, TextRendering.optimizeLegibility],
+  getValue(wasm): TextRendering {
+    return wasm.getTextRendering();
+  },
+  setValue(wasm, value): void {
+    wasm.setTextRendering(value);
+  },
+});
@@ -0,0 +1,12 @@
+import { run } from "./__setup__/saveRestore";
+
+run<string>({
+  name: "wordSpacing",
+  values: ["1px", "2px", "0.5em", "0px", "3px"],
+  getValue(wasm): string {
+    return wasm.__getString(wasm.getWordSpacing());
+  },
+  setValue(wasm, value): void {
+    wasm.setWordSpacing(wasm.__allocString(value));
+  },
+});
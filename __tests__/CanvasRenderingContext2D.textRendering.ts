@@ -0,0 +1,79 @@
+import {
+  instantiateBuffer,
+  ICanvasSYS,
+  FontKerning,
+  FontStretch,
+  FontVariantCaps,
+  TextRendering,
+} from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+let wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite;
+let ctx: CanvasRenderingContext2D & { [name: string]: any };
+
+beforeEach(() => {
+  wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+  ctx = document.createElement("canvas").getContext("2d")!;
+  wasm.useContext("main", ctx);
+  wasm.init();
+});
+
+function setTextProperties(): void {
+  wasm.letterSpacing(wasm.__allocString("2px"));
+  wasm.wordSpacing(wasm.__allocString("4px"));
+  wasm.fontKerning(FontKerning.none);
+  wasm.fontStretch(FontStretch.condensed);
+  wasm.fontVariantCaps(FontVariantCaps.small_caps);
+  wasm.textRendering(TextRendering.optimizeLegibility);
+}
+
+describe("text rendering properties", () => {
+  it("should set the text rendering properties before drawing text", () => {
+    setTextProperties();
+    wasm.fillText(wasm.__allocString("hello"), 1, 2);
+    wasm.commit();
+    expect(ctx).toMatchObject({
+      letterSpacing: "2px",
+      wordSpacing: "4px",
+      fontKerning: "none",
+      fontStretch: "condensed",
+      fontVariantCaps: "small-caps",
+      textRendering: "optimizeLegibility",
+    });
+  });
+
+  it("should only write the text rendering properties when they change", () => {
+    const trace = jest.fn();
+    wasm.useTrace(trace);
+    setTextProperties();
+    wasm.fillRect(1, 2, 3, 4);
+    wasm.fillText(wasm.__allocString("hello"), 1, 2);
+    wasm.strokeText(wasm.__allocString("hello"), 1, 2);
+    wasm.commit();
+    const names = ["FontKerning", "FontStretch", "FontVariantCaps", "LetterSpacing", "TextRendering", "WordSpacing"];
+    const lines: string[] = trace.mock.calls[0][1].split("\n")
+      .map((line: string) => line.trim().split(" ").slice(1).join(" "))
+      .filter((line: string) => names.includes(line.split(" ")[0]));
+    expect(lines).toEqual([
+      "FontKerning none",
+      "FontStretch condensed",
+      "FontVariantCaps small_caps",
+      "LetterSpacing \"2px\"",
+      "TextRendering optimizeLegibility",
+      "WordSpacing \"4px\"",
+    ]);
+  });
+
+  it("should flush the text rendering properties before measuring text", () => {
+    wasm.letterSpacing(wasm.__allocString("3px"));
+    const measureText = jest.spyOn(ctx, "measureText").mockImplementation(() => {
+      expect(ctx.letterSpacing).toBe("3px");
+      return { width: 1 } as TextMetrics;
+    });
+    wasm.measureText(wasm.__allocString("hello"));
+    expect(measureText).toBeCalledWith("hello");
+  });
+});
@@ -0,0 +1,133 @@
+import { instantiateBuffer, ICanvasSYS } from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+let wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite;
+let ctx: CanvasRenderingContext2D;
+
+beforeEach(() => {
+  wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+  ctx = document.createElement("canvas").getContext("2d")!;
+  wasm.useContext("main", ctx);
+  wasm.init();
+});
+
+/**
+ * The 16 column major values of a 2D matrix.
+ */
+function matrix2D(a: number, b: number, c: number, d: number, e: number, f: number): number[] {
+  return [a, b, 0, 0, c, d, 0, 0, 0, 0, 1, 0, e, f, 0, 1];
+}
+
+function values(): number[] {
+  return Array.from(wasm.__getFloat64Array(wasm.matrixValues()));
+}
+
+function expectValues(expected: number[]): void {
+  const actual = values();
+  expect(actual.length).toBe(16);
+  for (let i = 0; i < 16; i++) expect(actual[i]).toBeCloseTo(expected[i], 10);
+}
+
+describe("DOMMatrix", () => {
+  it("should be created from 6 or 16 values", () => {
+    wasm.createMatrix(1, 2, 3, 4, 5, 6);
+    expect(values()).toEqual(matrix2D(1, 2, 3, 4, 5, 6));
+    expect(wasm.matrixIs2D()).toBe(1);
+    expect(wasm.matrixIsIdentity()).toBe(0);
+    wasm.createMatrix(1, 0, 0, 1, 0, 0);
+    expect(wasm.matrixIsIdentity()).toBe(1);
+    wasm.createMatrix3D();
+    expect(values()).toEqual([3, 10, 6, 2, 9, 5, 1, 8, 4, 0, 7, 3, 10, 6, 2, 9]);
+    expect(wasm.matrixIs2D()).toBe(0);
+  });
+
+  it("should multiply and pre-multiply matrices", () => {
+    wasm.createMatrix(1, 2, 3, 4, 5, 6);
+    wasm.matrixMultiply(7, 8, 9, 10, 11, 12);
+    expect(values()).toEqual(matrix2D(31, 46, 39, 58, 52, 76));
+    wasm.createMatrix(1, 2, 3, 4, 5, 6);
+    wasm.matrixPreMultiply(7, 8, 9, 10, 11, 12);
+    expect(values()).toEqual(matrix2D(25, 28, 57, 64, 100, 112));
+  });
+
+  it("should translate", () => {
+    wasm.createMatrix(2, 0, 0, 3, 1, 1);
+    wasm.matrixTranslate(1, 1, 0);
+    expect(values()).toEqual(matrix2D(2, 0, 0, 3, 3, 4));
+    expect(wasm.matrixIs2D()).toBe(1);
+    wasm.matrixTranslate(0, 0, 5);
+    expect(values()[14]).toBe(5);
+    expect(wasm.matrixIs2D()).toBe(0);
+  });
+
+  it("should scale around an origin", () => {
+    wasm.createMatrix(1, 0, 0, 1, 0, 0);
+    wasm.matrixScale(2, 3, 1, 1);
+    expect(values()).toEqual(matrix2D(2, 0, 0, 3, -1, -2));
+    wasm.createMatrix(1, 0, 0, 1, 0, 0);
+    wasm.matrixScaleUniform(2);
+    expect(values()).toEqual(matrix2D(2, 0, 0, 2, 0, 0));
+  });
+
+  it("should rotate in degrees", () => {
+    wasm.createMatrix(1, 0, 0, 1, 0, 0);
+    wasm.matrixRotate(90);
+    expectValues(matrix2D(0, 1, -1, 0, 0, 0));
+    expect(wasm.matrixIs2D()).toBe(1);
+    wasm.createMatrix(1, 0, 0, 1, 0, 0);
+    wasm.matrixRotate3D(90, 0, 0);
+    expect(wasm.matrixIs2D()).toBe(0);
+    const point = Array.from(wasm.__getFloat64Array(wasm.matrixTransformPoint(0, 1, 0, 1)));
+    expect(point[0]).toBeCloseTo(0, 10);
+    expect(point[1]).toBeCloseTo(0, 10);
+    expect(point[2]).toBeCloseTo(1, 10);
+  });
+
+  it("should skew and flip", () => {
+    wasm.createMatrix(1, 0, 0, 1, 0, 0);
+    wasm.matrixSkewX(45);
+    expectValues(matrix2D(1, 0, 1, 1, 0, 0));
+    wasm.createMatrix(1, 0, 0, 1, 0, 0);
+    wasm.matrixSkewY(45);
+    expectValues(matrix2D(1, 1, 0, 1, 0, 0));
+    wasm.createMatrix(1, 2, 3, 4, 5, 6);
+    wasm.matrixFlipX();
+    expectValues(matrix2D(-1, -2, 3, 4, 5, 6));
+    wasm.matrixFlipY();
+    expectValues(matrix2D(-1, -2, -3, -4, 5, 6));
+  });
+
+  it("should invert matrices", () => {
+    wasm.createMatrix(2, 0, 0, 4, 6, 8);
+    wasm.matrixInvert();
+    expectValues(matrix2D(0.5, 0, 0, 0.25, -3, -2));
+    wasm.createMatrix3D();
+    wasm.matrixMultiplyInverse();
+    expectValues(matrix2D(1, 0, 0, 1, 0, 0));
+    wasm.createMatrix(1, 2, 2, 4, 0, 0);
+    wasm.matrixInvert();
+    expect(values().every(isNaN)).toBeTruthy();
+    expect(wasm.matrixIs2D()).toBe(0);
+  });
+
+  it("should transform points", () => {
+    wasm.createMatrix(1, 2, 3, 4, 5, 6);
+    expect(Array.from(wasm.__getFloat64Array(wasm.matrixTransformPoint(1, 1, 0, 1)))).toEqual([9, 12, 0, 1]);
+  });
+
+  it("should map points into the space of the current transform", () => {
+    wasm.setTransform(2, 0, 0, 2, 10, 10);
+    expect(Array.from(wasm.__getFloat64Array(wasm.inverseTransformPoint(30, 50)))).toEqual([10, 20, 0, 1]);
+  });
+
+  it("should set the transform of the context", () => {
+    wasm.createMatrix(1, 2, 3, 4, 5, 6);
+    wasm.setTransformMatrix();
+    wasm.fillRect(0, 0, 1, 1);
+    wasm.commit();
+    expect(ctx.setTransform).toBeCalledWith(1, 2, 3, 4, 5, 6);
+  });
+});
@@ -0,0 +1,236 @@
+import {
+  instantiateBuffer,
+  ICanvasSYS,
+  CanvasInstruction,
+  CanvasRenderingContext2DBackend,
+  FrameRecorder,
+  RecordType,
+  RECORDING_VERSION,
+  SVGExporter,
+  SoftwareRasterizer,
+  readRecording,
+  replayRecording,
+} from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+let wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite;
+let ctx: CanvasRenderingContext2D;
+let recorder: FrameRecorder;
+
+beforeEach(() => {
+  wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+  ctx = document.createElement("canvas").getContext("2d")!;
+  recorder = new FrameRecorder();
+  wasm.useContext("main", ctx);
+  wasm.useRecorder(recorder);
+  wasm.init();
+});
+
+/**
+ * Replace a string in the header of a recording with another string of the same length.
+ */
+function patchName(buffer: ArrayBuffer, from: string, to: string): void {
+  const bytes = new DataView(buffer);
+  for (let offset = 8; offset < 0x1000; offset++) {
+    let match = true;
+    for (let i = 0; i < from.length && match; i++) {
+      match = bytes.getUint16(offset + i * 2, true) === from.charCodeAt(i);
+    }
+    if (!match) continue;
+    for (let i = 0; i < to.length; i++) bytes.setUint16(offset + i * 2, to.charCodeAt(i), true);
+    return;
+  }
+  throw new Error("Cannot find " + from);
+}
+
+describe("FrameRecorder", () => {
+  it("should write a header with the version and the instruction names", () => {
+    const recording = readRecording(recorder.toArrayBuffer());
+    expect(recording.version).toBe(RECORDING_VERSION);
+    expect(recording.instructions[CanvasInstruction.Commit]).toBe("Commit");
+    expect(recording.instructions[CanvasInstruction.Transform]).toBe("Transform");
+    expect(recording.records).toEqual([]);
+  });
+
+  it("should record frames with the strings and arrays they reference", () => {
+    wasm.fillStyle(wasm.__allocString("red"));
+    wasm.setLineDash(1, 2, 3);
+    wasm.fillRect(1, 2, 3, 4);
+    wasm.strokeRect(1, 2, 3, 4);
+    wasm.commit();
+    const recording = readRecording(recorder.toArrayBuffer());
+    expect(recording.records.length).toBe(1);
+    const frame = recording.records[0];
+    if (frame.type !== RecordType.Frame) throw new Error("Expected a frame record.");
+    expect(frame.ctxid).toBe(0);
+    expect(frame.data[frame.data.length - 2]).toBe(CanvasInstruction.Commit);
+    expect(Object.values(frame.strings)).toEqual(["red"]);
+    expect(Object.values(frame.arrays).map(e => Array.from(e))).toEqual([[1, 2, 3]]);
+  });
+
+  it("should stop recording", () => {
+    wasm.useRecorder(null);
+    wasm.fillRect(1, 2, 3, 4);
+    wasm.commit();
+    expect(readRecording(recorder.toArrayBuffer()).records).toEqual([]);
+  });
+
+  it("should replay frames into another backend", async () => {
+    wasm.fillStyle(wasm.__allocString("#0f0"));
+    wasm.fillRect(0, 0, 10, 10);
+    wasm.commit();
+    const rasterizer = new SoftwareRasterizer(20, 20);
+    await replayRecording(recorder.toArrayBuffer(), rasterizer);
+    expect(Array.from(rasterizer.data.subarray(0, 4))).toEqual([0, 255, 0, 255]);
+    expect(Array.from(rasterizer.data.subarray(rasterizer.data.length - 4))).toEqual([0, 0, 0, 0]);
+  });
+
+  it("should skip contexts without a backend", async () => {
+    wasm.fillRect(0, 0, 10, 10);
+    wasm.commit();
+    const rasterizer = new SoftwareRasterizer(20, 20);
+    await replayRecording(recorder.toArrayBuffer(), id => id === 1 ? rasterizer : undefined);
+    expect(rasterizer.data.every(e => e === 0)).toBeTruthy();
+  });
+
+  it("should replay gradients", async () => {
+    wasm.createRadialGradient(1, 2, 3, 4, 5, 6);
+    wasm.fillGradient();
+    wasm.fillRect(0, 0, 10, 10);
+    wasm.commit();
+    const replayCtx = document.createElement("canvas").getContext("2d")!;
+    await replayRecording(recorder.toArrayBuffer(), new CanvasRenderingContext2DBackend(replayCtx));
+    expect(replayCtx.createRadialGradient).toBeCalledWith(1, 2, 3, 4, 5, 6);
+    expect(replayCtx.fillStyle).toBeInstanceOf(CanvasGradient);
+    expect(replayCtx.fillRect).toBeCalledWith(0, 0, 10, 10);
+  });
+
+  it("should replay conic gradients", async () => {
+    Object.assign(ctx, { createConicGradient: jest.fn(() => ctx.createLinearGradient(0, 0, 0, 0)) });
+    wasm.createConicGradient(1, 2, 3);
+    wasm.strokeGradient();
+    wasm.strokeRect(0, 0, 10, 10);
+    wasm.commit();
+    const recording = readRecording(recorder.toArrayBuffer());
+    expect(recording.records[0]).toEqual({ type: RecordType.ConicGradient, ctxid: 0, id: 1, startAngle: 1, x: 2, y: 3 });
+    const replayBackend = new SVGExporter(10, 10);
+    const createConicGradient = jest.spyOn(replayBackend, "createConicGradient");
+    await replayRecording(recorder.toArrayBuffer(), replayBackend);
+    expect(createConicGradient).toBeCalledWith(1, 2, 3);
+  });
+
+  it("should replay pattern transforms", async () => {
+    const imgid = wasm.createImage();
+    await wasm.loading[imgid];
+    const id = wasm.createPattern();
+    wasm.createMatrix(2, 0, 0, 2, 1, 1);
+    wasm.setPatternTransform();
+    const recording = readRecording(recorder.toArrayBuffer());
+    expect(recording.records.filter(e => e.type === RecordType.PatternTransform)).toEqual([
+      { type: RecordType.PatternTransform, id, a: 2, b: 0, c: 0, d: 2, e: 1, f: 1 },
+    ]);
+    const replayCtx = document.createElement("canvas").getContext("2d")!;
+    await replayRecording(recorder.toArrayBuffer(), new CanvasRenderingContext2DBackend(replayCtx));
+    const pattern: CanvasPattern = (replayCtx.createPattern as jest.Mock).mock.results[0].value;
+    expect(pattern.setTransform).toBeCalledWith({ a: 2, b: 0, c: 0, d: 2, e: 1, f: 1 });
+  });
+
+  it("should replay patterns and images", async () => {
+    const imgid = wasm.createImage();
+    await wasm.loading[imgid];
+    wasm.createPattern();
+    wasm.fillPattern();
+    wasm.fillRect(0, 0, 10, 10);
+    wasm.drawImage(1, 2);
+    wasm.commit();
+    const recording = readRecording(recorder.toArrayBuffer());
+    expect(recording.records.filter(e => e.type === RecordType.Image).length).toBe(1);
+    const replayCtx = document.createElement("canvas").getContext("2d")!;
+    await replayRecording(recorder.toArrayBuffer(), new CanvasRenderingContext2DBackend(replayCtx));
+    expect(replayCtx.createPattern).toBeCalled();
+    expect(replayCtx.fillStyle).toBeInstanceOf(CanvasPattern);
+    expect(replayCtx.drawImage).toBeCalled();
+  });
+
+  it("should record the canvas of a context in every frame that draws it", async () => {
+    const layer = document.createElement("canvas").getContext("2d")!;
+    const layerid = wasm.useContext("layer", layer);
+    wasm.initLayer();
+    wasm.drawLayer(1, 2);
+    wasm.drawLayer(3, 4);
+    wasm.commit();
+    wasm.drawLayer(5, 6);
+    wasm.commit();
+    const recording = readRecording(recorder.toArrayBuffer());
+    const images = recording.records.filter(e => e.type === RecordType.Image);
+    expect(images.length).toBe(2);
+    expect(images.every(e => e.type === RecordType.Image && e.id === layerid)).toBe(true);
+    const first = {} as ImageBitmap;
+    const second = {} as ImageBitmap;
+    const createImage = jest.fn().mockResolvedValueOnce(first).mockResolvedValueOnce(second);
+    const replayBackend = new CanvasRenderingContext2DBackend(document.createElement("canvas").getContext("2d")!);
+    const drawImage = jest.spyOn(replayBackend, "drawImage").mockImplementation(() => {});
+    await replayRecording(recorder.toArrayBuffer(), replayBackend, createImage);
+    expect(drawImage.mock.calls.map(call => call[0])).toEqual([first, first, second]);
+  });
+
+  it("should replay paths", async () => {
+    wasm.fillStyle(wasm.__allocString("#0f0"));
+    const id = wasm.createPath2D();
+    wasm.pathAddRect(0, 0, 5, 5, 5, 5);
+    wasm.fillPath(0);
+    wasm.commit();
+    const recording = readRecording(recorder.toArrayBuffer());
+    const record = recording.records.find(e => e.type === RecordType.Path2D);
+    if (!record || record.type !== RecordType.Path2D) throw new Error("Expected a path record.");
+    expect(record.id).toBe(id);
+    expect(record.data[0]).toBe(CanvasInstruction.AddPath);
+    expect(record.data[8]).toBe(CanvasInstruction.Rect);
+    const rasterizer = new SoftwareRasterizer(20, 20);
+    await replayRecording(recorder.toArrayBuffer(), rasterizer);
+    expect(Array.from(rasterizer.data.subarray(0, 4))).toEqual([0, 0, 0, 0]);
+    const index = (7 * 20 + 7) * 4;
+    expect(Array.from(rasterizer.data.subarray(index, index + 4))).toEqual([0, 255, 0, 255]);
+  });
+
+  it("should replay image data", async () => {
+    wasm.createImageData(1, 1);
+    wasm.fillImageData(0, 255, 0, 255);
+    wasm.putImageData(1, 1);
+    wasm.commit();
+    const frame = readRecording(recorder.toArrayBuffer()).records[0];
+    if (frame.type !== RecordType.Frame) throw new Error("Expected a frame record.");
+    expect(Object.values(frame.pixels).map(e => Array.from(e))).toEqual([[0, 255, 0, 255]]);
+    const rasterizer = new SoftwareRasterizer(2, 2);
+    await replayRecording(recorder.toArrayBuffer(), rasterizer);
+    expect(Array.from(rasterizer.data.subarray(12, 16))).toEqual([0, 255, 0, 255]);
+  });
+
+  it("should translate instructions that were renumbered or removed", () => {
+    wasm.moveTo(1, 2);
+    wasm.lineTo(3, 4);
+    wasm.fillRect(1, 2, 3, 4);
+    wasm.stroke();
+    wasm.commit();
+    const buffer = recorder.toArrayBuffer();
+    patchName(buffer, "MoveTo", "LineTo");
+    patchName(buffer, "FillRect", "Unknown!");
+    const frame = readRecording(buffer).records[0];
+    if (frame.type !== RecordType.Frame) throw new Error("Expected a frame record.");
+    const instructions: number[] = [];
+    for (let i = 0; frame.data[i] !== CanvasInstruction.Commit; i = frame.data[i + 1]) instructions.push(frame.data[i]);
+    expect(instructions).not.toContain(CanvasInstruction.MoveTo);
+    expect(instructions).not.toContain(CanvasInstruction.FillRect);
+    expect(instructions).toContain(-1);
+  });
+
+  it("should reject invalid recordings", () => {
+    expect(() => readRecording(new ArrayBuffer(16))).toThrow();
+    const buffer = recorder.toArrayBuffer();
+    new DataView(buffer).setUint16(4, RECORDING_VERSION + 1, true);
+    expect(() => readRecording(buffer)).toThrow();
+  });
+});
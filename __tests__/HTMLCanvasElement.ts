@@ -0,0 +1,150 @@
+import { instantiateBuffer, ICanvasSYS } from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+let wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite;
+let canvas: HTMLCanvasElement;
+let ctx: CanvasRenderingContext2D;
+let trace: string[];
+
+function setup(): void {
+  wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+  canvas = document.createElement("canvas");
+  canvas.width = 40;
+  canvas.height = 30;
+  Object.defineProperty(canvas, "clientWidth", { configurable: true, value: 20 });
+  Object.defineProperty(canvas, "clientHeight", { configurable: true, value: 15 });
+  ctx = canvas.getContext("2d")!;
+  wasm.useContext("main", ctx);
+  wasm.init();
+  trace = [];
+  wasm.useTrace((_id, disassembly) => trace.push(...disassembly.split("\n").map(line => line.trim().split(" ")[1])));
+}
+
+beforeEach(setup);
+
+describe("HTMLCanvasElement", () => {
+  it("should expose the size of the host canvas", () => {
+    expect(wasm.canvasWidth()).toBe(40);
+    expect(wasm.canvasHeight()).toBe(30);
+    expect(wasm.canvasClientWidth()).toBe(20);
+    expect(wasm.canvasClientHeight()).toBe(15);
+    expect(wasm.canvasDevicePixelRatio()).toBe(1);
+  });
+
+  it("should resize the host canvas and reset the context", () => {
+    wasm.setCanvasSize(80, 60);
+    expect(canvas.width).toBe(80);
+    expect(canvas.height).toBe(60);
+    expect(wasm.canvasWidth()).toBe(80);
+    expect(wasm.canvasHeight()).toBe(60);
+    wasm.fillRect(1, 2, 3, 4);
+    wasm.commit();
+    expect(trace).toContain("Reset");
+    expect(trace.slice(trace.lastIndexOf("Reset") + 1)).toEqual(["FillRect", "Commit"]);
+  });
+
+  it("should notify the module when the host canvas is resized", () => {
+    canvas.width = 80;
+    Object.defineProperty(canvas, "clientWidth", { configurable: true, value: 40 });
+    (window as any).devicePixelRatio = 2;
+    try {
+      window.dispatchEvent(new Event("resize"));
+    } finally {
+      (window as any).devicePixelRatio = 1;
+    }
+    expect(wasm.canvasWidth()).toBe(80);
+    expect(wasm.canvasClientWidth()).toBe(40);
+    expect(wasm.canvasDevicePixelRatio()).toBe(2);
+    expect(wasm.__getString(wasm.getResizedContext())).toBe("main");
+    wasm.commit();
+    expect(trace).toContain("Reset");
+  });
+
+  it("should not reset the context when only the CSS size changes", () => {
+    Object.defineProperty(canvas, "clientWidth", { configurable: true, value: 40 });
+    window.dispatchEvent(new Event("resize"));
+    expect(wasm.canvasClientWidth()).toBe(40);
+    wasm.commit();
+    expect(trace).not.toContain("Reset");
+  });
+
+  it("should observe the canvas with a ResizeObserver when it is available", () => {
+    let callback: () => void = () => {};
+    const observe = jest.fn();
+    (global as any).ResizeObserver = jest.fn((value: () => void) => {
+      callback = value;
+      return { observe, disconnect: jest.fn() };
+    });
+    try {
+      setup();
+    } finally {
+      delete (global as any).ResizeObserver;
+    }
+    expect(observe).toBeCalledWith(canvas);
+    canvas.height = 60;
+    callback();
+    expect(wasm.canvasHeight()).toBe(60);
+    expect(wasm.__getString(wasm.getResizedContext())).toBe("main");
+  });
+
+  it("should disconnect the ResizeObserver when the context is disposed", () => {
+    const disconnect = jest.fn();
+    (global as any).ResizeObserver = jest.fn(() => ({ observe: jest.fn(), disconnect }));
+    try {
+      wasm.useContext("layer", document.createElement("canvas").getContext("2d")!);
+    } finally {
+      delete (global as any).ResizeObserver;
+    }
+    wasm.initLayer();
+    wasm.disposeLayer();
+    expect(disconnect).toBeCalled();
+  });
+
+  it("should stop listening to the window when the context is disposed", () => {
+    const layer = document.createElement("canvas").getContext("2d")!;
+    wasm.useContext("layer", layer);
+    wasm.initLayer();
+    wasm.disposeLayer();
+    layer.canvas.width = 80;
+    const canvasResized = jest.spyOn(wasm, "__canvas_resized");
+    window.dispatchEvent(new Event("resize"));
+    expect(canvasResized).toBeCalledTimes(1);
+  });
+
+  it("should share a single window listener between the contexts", () => {
+    const addEventListener = jest.spyOn(window, "addEventListener");
+    const removeEventListener = jest.spyOn(window, "removeEventListener");
+    try {
+      setup();
+      wasm.useContext("layer", document.createElement("canvas").getContext("2d")!);
+      wasm.initLayer();
+      expect(addEventListener.mock.calls.filter(call => call[0] === "resize").length).toBe(1);
+      wasm.disposeLayer();
+      expect(removeEventListener).not.toBeCalledWith("resize", expect.anything());
+      canvas.width = 80;
+      window.dispatchEvent(new Event("resize"));
+      expect(wasm.canvasWidth()).toBe(80);
+      wasm.dispose();
+      expect(removeEventListener).toBeCalledWith("resize", addEventListener.mock.calls[0][1]);
+    } finally {
+      addEventListener.mockRestore();
+      removeEventListener.mockRestore();
+    }
+  });
+
+  it("should notify the module when it resizes a created canvas", () => {
+    const layer = document.createElement("canvas").getContext("2d")!;
+    Object.defineProperty(layer.canvas, "clientWidth", { configurable: true, value: 25 });
+    wasm.useCanvasFactory(() => layer);
+    const id = wasm.createLayer(40, 30);
+    const canvasResized = jest.spyOn(wasm, "__canvas_resized");
+    wasm.setLayerSize(80, 60);
+    expect(layer.canvas.width).toBe(80);
+    expect(layer.canvas.height).toBe(60);
+    expect(canvasResized).toHaveBeenLastCalledWith(id, 80, 60, 25, 0, 1);
+    expect(wasm.layerClientWidth()).toBe(25);
+  });
+});
@@ -0,0 +1,83 @@
+import { instantiateBuffer, ICanvasSYS, SoftwareRasterizer } from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+let wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite;
+
+beforeEach(() => {
+  wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+});
+
+function pixels(): number[] {
+  return Array.from(wasm.__getUint8ClampedArray(wasm.imageDataPixels()));
+}
+
+function useRasterizer(width: number, height: number): SoftwareRasterizer {
+  const rasterizer = new SoftwareRasterizer(width, height);
+  wasm.useBackend("main", rasterizer);
+  wasm.init();
+  return rasterizer;
+}
+
+function useContext(): CanvasRenderingContext2D {
+  const ctx = document.createElement("canvas").getContext("2d")!;
+  wasm.useContext("main", ctx);
+  wasm.init();
+  return ctx;
+}
+
+describe("ImageData", () => {
+  it("should create transparent black image data", () => {
+    useContext();
+    wasm.createImageData(-2, 3);
+    expect(wasm.imageDataWidth()).toBe(2);
+    expect(wasm.imageDataHeight()).toBe(3);
+    expect(pixels()).toEqual(new Array(24).fill(0));
+  });
+
+  it("should read the pixels of the canvas", () => {
+    useRasterizer(4, 4);
+    wasm.fillStyle(wasm.__allocString("red"));
+    wasm.fillRect(1, 1, 2, 2);
+    wasm.getImageData(0, 0, 2, 2);
+    expect(pixels()).toEqual([
+      0, 0, 0, 0, 0, 0, 0, 0,
+      0, 0, 0, 0, 255, 0, 0, 255,
+    ]);
+    wasm.getImageData(4, 2, -2, -2);
+    expect(wasm.imageDataWidth()).toBe(2);
+    expect(pixels()).toEqual([
+      0, 0, 0, 0, 0, 0, 0, 0,
+      255, 0, 0, 255, 0, 0, 0, 0,
+    ]);
+  });
+
+  it("should copy the pixels when they are put", () => {
+    const ctx = useContext();
+    // the pixels are only readable while the instructions are dispatched
+    let data: number[] = [];
+    (ctx.putImageData as jest.Mock).mockImplementation((imageData: ImageData) => data = Array.from(imageData.data));
+    wasm.createImageData(2, 1);
+    wasm.fillImageData(0, 0, 255, 255);
+    wasm.putImageData(3, 4);
+    wasm.fillImageData(0, 0, 0, 0);
+    wasm.commit();
+    expect(ctx.putImageData).toBeCalledWith(expect.any(ImageData), 3, 4, 0, 0, 2, 1);
+    expect(data).toEqual([0, 0, 255, 255, 0, 0, 255, 255]);
+  });
+
+  it("should only put the pixels of the dirty rectangle", () => {
+    const rasterizer = useRasterizer(3, 2);
+    wasm.translate(1, 1);
+    wasm.createImageData(2, 2);
+    wasm.fillImageData(0, 255, 0, 255);
+    wasm.putImageDataDirty(1, 0, 2, 1, -1, 5);
+    wasm.commit();
+    expect(Array.from(rasterizer.data)).toEqual([
+      0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0,
+      0, 0, 0, 0, 0, 0, 0, 0, 0, 255, 0, 255,
+    ]);
+  });
+});
@@ -0,0 +1,159 @@
+import { instantiateBuffer, ICanvasSYS, CanvasInstruction, CanvasRenderingContext2DBackend, FillRule } from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+let wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite;
+let ctx: CanvasRenderingContext2D;
+let backend: CanvasRenderingContext2DBackend;
+
+beforeEach(() => {
+  wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+  ctx = document.createElement("canvas").getContext("2d")!;
+  backend = new CanvasRenderingContext2DBackend(ctx);
+  jest.spyOn(backend, "createPath2D");
+  wasm.useBackend("main", backend);
+  wasm.init();
+});
+
+describe("Path2D", () => {
+  it("should fill, stroke and clip a host Path2D", () => {
+    wasm.createPath2D();
+    wasm.pathMoveTo(1, 2);
+    wasm.pathLineTo(3, 4);
+    wasm.pathClosePath();
+    wasm.fillPath(FillRule.evenodd);
+    wasm.strokePath();
+    wasm.clipPath(FillRule.nonzero);
+    wasm.commit();
+    expect(ctx.fill).toBeCalledWith(expect.any(Path2D), "evenodd");
+    const path: Path2D = (ctx.fill as jest.Mock).mock.calls[0][0];
+    expect(path.moveTo).toBeCalledWith(1, 2);
+    expect(path.lineTo).toBeCalledWith(3, 4);
+    expect(path.closePath).toBeCalled();
+    expect(ctx.stroke).toBeCalledWith(path);
+    expect(ctx.clip).toBeCalledWith(path, "nonzero");
+  });
+
+  it("should not write the current path", () => {
+    wasm.moveTo(1, 2);
+    wasm.createPath2D();
+    wasm.pathRect(1, 2, 3, 4);
+    wasm.fillPath(FillRule.nonzero);
+    wasm.commit();
+    expect(ctx.moveTo).not.toBeCalled();
+    expect(ctx.fill).toBeCalledTimes(1);
+  });
+
+  it("should create the host path once while the path is unchanged", () => {
+    const id = wasm.createPath2D();
+    wasm.pathRect(1, 2, 3, 4);
+    wasm.fillPath(FillRule.nonzero);
+    wasm.commit();
+    wasm.fillPath(FillRule.nonzero);
+    wasm.commit();
+    expect(backend.createPath2D).toBeCalledTimes(1);
+    expect(Array.from(wasm.paths[id])).toEqual([CanvasInstruction.Rect, 6, 1, 2, 3, 4]);
+    const calls = (ctx.fill as jest.Mock).mock.calls;
+    expect(calls[0][0]).toBe(calls[1][0]);
+  });
+
+  it("should flush the instructions that refer to a path before it changes", () => {
+    const render = jest.fn();
+    wasm.useTrace((_ctxid, disassembly) => render(disassembly));
+    const id = wasm.createPath2D();
+    wasm.pathRect(1, 2, 3, 4);
+    wasm.fillPath(FillRule.nonzero);
+    wasm.pathRect(5, 6, 7, 8);
+    wasm.fillPath(FillRule.nonzero);
+    wasm.commit();
+    expect(render).toBeCalledTimes(2);
+    expect(render.mock.calls[0][0]).toContain("Flush");
+    expect(backend.createPath2D).toBeCalledTimes(2);
+    const calls = (ctx.fill as jest.Mock).mock.calls;
+    expect(calls[0][0].rect).toBeCalledTimes(1);
+    expect(calls[1][0].rect).toBeCalledTimes(2);
+    expect(wasm.paths[id].length).toBe(12);
+  });
+
+  it("should flush every context that refers to a path before it changes", () => {
+    const render = jest.fn();
+    wasm.useTrace((ctxid, disassembly) => render(ctxid, disassembly));
+    const layerid = wasm.createLayer(40, 30);
+    const layer = wasm.contexts[layerid];
+    wasm.createPath2D();
+    wasm.pathRect(1, 2, 3, 4);
+    wasm.layerFillPath();
+    wasm.pathRect(5, 6, 7, 8);
+    wasm.fillPath(FillRule.nonzero);
+    expect(render).toBeCalledTimes(1);
+    expect(render.mock.calls[0][0]).toBe(layerid);
+    expect(render.mock.calls[0][1]).toContain("Flush");
+    wasm.commit();
+    wasm.layerCommit();
+    expect((layer.fill as jest.Mock).mock.calls[0][0].rect).toBeCalledTimes(1);
+    expect((ctx.fill as jest.Mock).mock.calls[0][0].rect).toBeCalledTimes(2);
+  });
+
+  it("should not flush the instructions that were already committed", () => {
+    const render = jest.fn();
+    wasm.useTrace((_ctxid, disassembly) => render(disassembly));
+    wasm.createPath2D();
+    wasm.pathRect(1, 2, 3, 4);
+    wasm.fillPath(FillRule.nonzero);
+    wasm.commit();
+    wasm.pathRect(5, 6, 7, 8);
+    wasm.fillPath(FillRule.nonzero);
+    wasm.commit();
+    expect(render).toBeCalledTimes(2);
+    expect(render.mock.calls[1][0]).not.toContain("Flush");
+  });
+
+  it("should forget a disposed context that refers to a path before it changes", () => {
+    const render = jest.fn();
+    wasm.useTrace((ctxid, disassembly) => render(ctxid, disassembly));
+    const layerid = wasm.createLayer(40, 30);
+    wasm.createPath2D();
+    wasm.pathRect(1, 2, 3, 4);
+    wasm.layerFillPath();
+    wasm.disposeLayer();
+    wasm.pathRect(5, 6, 7, 8);
+    expect(() => wasm.fillPath(FillRule.nonzero)).not.toThrow();
+    wasm.commit();
+    expect(render).toBeCalledTimes(1);
+    expect(render.mock.calls[0][0]).not.toBe(layerid);
+    expect((ctx.fill as jest.Mock).mock.calls[0][0].rect).toBeCalledTimes(2);
+  });
+
+  it("should add paths with a transform", () => {
+    wasm.createPath2D();
+    wasm.pathMoveTo(0, 0);
+    wasm.pathAddRect(1, 2, 3, 4, 5, 6);
+    wasm.pathLineTo(7, 8);
+    wasm.fillPath(FillRule.nonzero);
+    wasm.commit();
+    const path: Path2D = (ctx.fill as jest.Mock).mock.calls[0][0];
+    expect(path.addPath).toBeCalledWith(expect.any(Path2D), { a: 1, b: 0, c: 0, d: 1, e: 5, f: 6 });
+    const child: Path2D = (path.addPath as jest.Mock).mock.calls[0][0];
+    expect(child.rect).toBeCalledWith(1, 2, 3, 4);
+    expect(child.lineTo).not.toBeCalled();
+    expect(path.lineTo).toBeCalledWith(7, 8);
+  });
+
+  it("should hit test a path", () => {
+    wasm.createPath2D();
+    wasm.pathRect(0, 0, 10, 10);
+    wasm.isPointInPathObject(5, 5, FillRule.evenodd);
+    expect(ctx.isPointInPath).toBeCalledWith(expect.any(Path2D), 5, 5, "evenodd");
+  });
+
+  it("should dispose paths", () => {
+    const id = wasm.createPath2D();
+    wasm.pathRect(0, 0, 10, 10);
+    wasm.fillPath(FillRule.nonzero);
+    wasm.commit();
+    wasm.disposePath2D();
+    expect(wasm.paths[id]).toBeUndefined();
+  });
+});
@@ -0,0 +1,104 @@
+import { instantiateBuffer, ICanvasSYS, TextAlign, TextBaseline } from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+let wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite;
+let ctx: CanvasRenderingContext2D;
+
+beforeEach(() => {
+  wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+  ctx = document.createElement("canvas").getContext("2d")!;
+  wasm.useContext("main", ctx);
+  wasm.init();
+});
+
+function addSpan(text: string, font: string, fillStyle: string | null = null, strokeStyle: string | null = null, underline: 0 | 1 = 0, strikethrough: 0 | 1 = 0): void {
+  const allocString = (value: string | null) => value === null ? 0 : wasm.__allocString(value);
+  wasm.addSpan(wasm.__allocString(text), wasm.__allocString(font), allocString(fillStyle), allocString(strokeStyle), underline, strikethrough);
+}
+
+// in the testing environment measureText returns the text length as the width
+function runs(): [string, ...number[]][] {
+  const result: [string, ...number[]][] = [];
+  for (let i = 0; i < wasm.richTextRunCount(); i++) {
+    result.push([wasm.__getString(wasm.richTextRunText(i)), ...Array.from(wasm.__getFloat64Array(wasm.richTextRunValues(i)))]);
+  }
+  return result;
+}
+
+function box(): number[] {
+  return Array.from(wasm.__getFloat64Array(wasm.richTextBox()));
+}
+
+describe("RichTextLayout", () => {
+  it("should break spans into lines of runs", () => {
+    addSpan("hello ", "bold 12px serif");
+    addSpan("world wide", "12px serif", "red");
+    wasm.layoutRichText(0, 0, 12, 10, TextAlign.left, TextBaseline.top);
+    expect(box()).toEqual([0, 0, 11, 20, 2]);
+    expect(runs()).toEqual([
+      ["hello ", 0, 0, 5, 6],
+      ["world", 0, 6, 5, 5],
+      ["wide", 1, 0, 15, 4],
+    ]);
+  });
+
+  it("should keep words that are not separated by a space on the same line", () => {
+    addSpan("@alice", "bold 12px serif", "blue");
+    addSpan(", hi there", "12px serif");
+    wasm.layoutRichText(0, 0, 8, 10, TextAlign.left, TextBaseline.top);
+    expect(runs().map(run => run.slice(0, 2))).toEqual([
+      ["@alice", 0],
+      [",", 0],
+      ["hi there", 1],
+    ]);
+  });
+
+  it("should break lines at newlines and inside long words", () => {
+    addSpan("ab\nabcdef", "12px serif");
+    wasm.layoutRichText(10, 0, 4, 10, TextAlign.right, TextBaseline.top);
+    expect(runs().map(run => run.slice(0, 3))).toEqual([
+      ["ab", 0, 8],
+      ["abcd", 1, 6],
+      ["ef", 2, 8],
+    ]);
+  });
+
+  it("should center the text in the line height", () => {
+    jest.spyOn(ctx, "measureText").mockImplementation((text: string) => ({ width: text.length, fontBoundingBoxAscent: 8, fontBoundingBoxDescent: 2 }) as TextMetrics);
+    addSpan("ab\ncd", "12px serif");
+    wasm.layoutRichText(0, 30, 0, 20, TextAlign.center, TextBaseline.alphabetic);
+    expect(box()).toEqual([-1, 17, 2, 40, 2]);
+    expect(runs()).toEqual([
+      ["ab", 0, -1, 30, 2],
+      ["cd", 1, -1, 50, 2],
+    ]);
+    wasm.layoutRichText(0, 30, 0, 20, TextAlign.left, TextBaseline.middle);
+    expect(box()).toEqual([0, 10, 2, 40, 2]);
+  });
+
+  it("should draw every run with the style of its span", () => {
+    jest.spyOn(ctx, "measureText").mockImplementation((text: string) => ({ width: text.length, fontBoundingBoxAscent: 12 }) as TextMetrics);
+    const fills: [string, string, string][] = [];
+    jest.spyOn(ctx, "fillText").mockImplementation((text: string) => fills.push([text, ctx.font, ctx.fillStyle as string]));
+    wasm.fillStyle(wasm.__allocString("#0f0"));
+    addSpan("ab ", "bold 12px serif", "#f00", null, 1);
+    addSpan("cd", "bold 12px serif", null, "#00f", 0, 1);
+    wasm.layoutRichText(0, 0, 0, 12, TextAlign.left, TextBaseline.top);
+    const font = jest.spyOn(ctx, "font", "set");
+    wasm.drawRichText();
+    wasm.commit();
+    expect(fills).toEqual([
+      ["ab ", "bold 12px serif", "#f00"],
+      ["cd", "bold 12px serif", "#0f0"],
+    ]);
+    // the runs share a font, so it is only written once
+    expect(font).toHaveBeenCalledTimes(1);
+    expect(ctx.strokeText).toHaveBeenCalledTimes(1);
+    expect(ctx.strokeText).toBeCalledWith("cd", 3, 12);
+    expect(ctx.fillRect).toHaveBeenNthCalledWith(1, 0, 13, 3, 1);
+    expect(ctx.fillRect).toHaveBeenNthCalledWith(2, 3, 7.9, 2, 1);
+  });
+});
@@ -0,0 +1,347 @@
+import {
+  instantiateBuffer,
+  ICanvasSYS,
+  SVGExporter,
+  SVGGradient,
+  CanvasInstruction,
+  CanvasPatternRepetition,
+  FillRule,
+  FontStretch,
+  FontVariantCaps,
+  GlobalCompositeOperation,
+  LineCap,
+  TextAlign,
+  TextBaseline,
+  TextRendering,
+  dispatchInstructions,
+  IResourceResolver,
+} from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+
+/**
+ * Encode a list of instructions using the same layout the AssemblyScript Buffer class writes.
+ */
+function encode(...instructions: number[][]): Float64Array {
+  var values: number[] = [];
+  for (const [inst, ...args] of instructions) {
+    values.push(inst, values.length + 2 + args.length, ...args);
+  }
+  values.push(CanvasInstruction.Commit, values.length + 2);
+  return new Float64Array(values);
+}
+
+const strings: { [pointer: number]: string } = {
+  1: "red",
+  2: "rgba(0, 0, 255, 0.5)",
+  3: "Hello <world> & \"friends\"",
+  4: "bold 12px serif",
+  5: "blur(2px)",
+  6: "2px",
+};
+const image = { width: 4, height: 2 } as ImageBitmap;
+const imageSource = () => "data:image/png;base64,AAAA";
+let gradient: CanvasGradient;
+
+function render(exporter: SVGExporter, data: Float64Array): string {
+  const resolver: IResourceResolver = {
+    getString: (pointer: number) => strings[pointer],
+    getFloat64Array: () => new Float64Array([4, 2]),
+    getUint8ClampedArray: () => new Uint8ClampedArray(4),
+    getImage: () => image,
+    getGradient: () => gradient,
+    getPattern: () => exporter.createPattern(image, CanvasPatternRepetition.repeat_x),
+    getPath: () => exporter.createPath2D(new Float64Array([
+      CanvasInstruction.MoveTo, 4, 0, 0,
+      CanvasInstruction.LineTo, 8, 2, 0,
+      CanvasInstruction.AddPath, 22, 1, 0, 0, 1, 5, 5,
+      CanvasInstruction.Rect, 6, 0, 0, 1, 1,
+    ])),
+    getElement: () => null,
+  };
+  dispatchInstructions(data, exporter, resolver);
+  return exporter.toString();
+}
+
+describe("SVGExporter", () => {
+  it("should create an empty document", () => {
+    const exporter = new SVGExporter(100, 50);
+    expect(exporter.toString()).toBe(
+      "<svg xmlns=\"http://www.w3.org/2000/svg\" xmlns:xlink=\"http://www.w3.org/1999/xlink\" "
+      + "width=\"100\" height=\"50\" viewBox=\"0 0 100 50\"></svg>",
+    );
+  });
+
+  it("should change the size and erase the document when it is resized", () => {
+    const exporter = new SVGExporter(100, 50);
+    exporter.fillRect(1, 2, 3, 4);
+    exporter.resize(20, 10);
+    expect(exporter.width).toBe(20);
+    expect(exporter.height).toBe(10);
+    expect(exporter.toString()).toBe(
+      "<svg xmlns=\"http://www.w3.org/2000/svg\" xmlns:xlink=\"http://www.w3.org/1999/xlink\" "
+      + "width=\"20\" height=\"10\" viewBox=\"0 0 20 10\"></svg>",
+    );
+  });
+
+  it("should fill rectangles using the fillStyle and globalAlpha", () => {
+    const svg = render(new SVGExporter(10, 10), encode(
+      [CanvasInstruction.FillRect, 1, 2, 3, 4],
+      [CanvasInstruction.FillStyle, 1],
+      [CanvasInstruction.GlobalAlpha, 0.5],
+      [CanvasInstruction.FillRect, 0, 0, 1, 1],
+    ));
+    expect(svg).toContain("<path d=\"M1 2L4 2L4 6L1 6Z\" fill=\"rgb(0,0,0)\"/>");
+    expect(svg).toContain("<path d=\"M0 0L1 0L1 1L0 1Z\" fill=\"rgb(255,0,0)\" fill-opacity=\"0.5\"/>");
+  });
+
+  it("should fill paths using the fill rule", () => {
+    const svg = render(new SVGExporter(10, 10), encode(
+      [CanvasInstruction.MoveTo, 0, 0],
+      [CanvasInstruction.LineTo, 10, 0],
+      [CanvasInstruction.QuadraticCurveTo, 10, 10, 5, 10],
+      [CanvasInstruction.BezierCurveTo, 4, 10, 2, 8, 0, 5],
+      [CanvasInstruction.ClosePath],
+      [CanvasInstruction.Fill, FillRule.evenodd],
+    ));
+    expect(svg).toContain("<path d=\"M0 0L10 0Q10 10 5 10C4 10 2 8 0 5Z\" fill=\"rgb(0,0,0)\" fill-rule=\"evenodd\"/>");
+  });
+
+  it("should convert arcs to bezier curves", () => {
+    const svg = render(new SVGExporter(10, 10), encode(
+      [CanvasInstruction.Arc, 5, 5, 5, 0, Math.PI * 2, 0],
+      [CanvasInstruction.Fill, FillRule.nonzero],
+    ));
+    const d = /d="([^"]*)"/.exec(svg)![1];
+    expect(d.startsWith("M10 5C10 7.761")).toBeTruthy();
+    expect(d.match(/C/g)!.length).toBe(4);
+    expect(d.endsWith("10 5")).toBeTruthy();
+  });
+
+  it("should round corners with arcTo", () => {
+    const svg = render(new SVGExporter(10, 10), encode(
+      [CanvasInstruction.MoveTo, 0, 0],
+      [CanvasInstruction.ArcTo, 10, 0, 10, 10, 5],
+      [CanvasInstruction.Stroke],
+    ));
+    expect(svg).toContain("d=\"M0 0L5 0C7.761 0 10 2.239 10 5\"");
+  });
+
+  it("should write the transform as an attribute", () => {
+    const svg = render(new SVGExporter(10, 10), encode(
+      [CanvasInstruction.SetTransform, 2, 0, 0, 2, 1, 1],
+      [CanvasInstruction.Rect, 0, 0, 2, 2],
+      [CanvasInstruction.SetTransform, 1, 0, 0, 1, 0, 0],
+      [CanvasInstruction.Rect, 0, 0, 1, 1],
+      [CanvasInstruction.SetTransform, 2, 0, 0, 2, 0, 0],
+      [CanvasInstruction.Fill, FillRule.nonzero],
+    ));
+    expect(svg).toContain("d=\"M0.5 0.5L2.5 0.5L2.5 2.5L0.5 2.5ZM0 0L0.5 0L0.5 0.5L0 0.5Z\" transform=\"matrix(2 0 0 2 0 0)\"");
+  });
+
+  it("should skip drawing when the transform is not invertible", () => {
+    const exporter = new SVGExporter(10, 10);
+    const svg = render(exporter, encode(
+      [CanvasInstruction.SetTransform, 0, 0, 0, 0, 0, 0],
+      [CanvasInstruction.FillRect, 0, 0, 1, 1],
+    ));
+    expect(svg).not.toContain("<path");
+  });
+
+  it("should stroke paths using the line styles", () => {
+    const svg = render(new SVGExporter(10, 10), encode(
+      [CanvasInstruction.StrokeStyle, 2],
+      [CanvasInstruction.LineWidth, 3],
+      [CanvasInstruction.LineCap, LineCap.round],
+      [CanvasInstruction.LineDash, 0],
+      [CanvasInstruction.LineDashOffset, 1],
+      [CanvasInstruction.StrokeRect, 1, 1, 2, 2],
+    ));
+    expect(svg).toContain(
+      "<path d=\"M1 1L3 1L3 3L1 3Z\" fill=\"none\" stroke=\"rgb(0,0,255)\" stroke-opacity=\"0.5\" stroke-width=\"3\" "
+      + "stroke-linecap=\"round\" stroke-dasharray=\"4 2\" stroke-dashoffset=\"1\"/>",
+    );
+  });
+
+  it("should save and restore the drawing state", () => {
+    const svg = render(new SVGExporter(10, 10), encode(
+      [CanvasInstruction.Save],
+      [CanvasInstruction.FillStyle, 1],
+      [CanvasInstruction.Restore],
+      [CanvasInstruction.Restore],
+      [CanvasInstruction.FillRect, 0, 0, 1, 1],
+    ));
+    expect(svg).toContain("fill=\"rgb(0,0,0)\"");
+  });
+
+  it("should write gradients as paint servers", () => {
+    const exporter = new SVGExporter(10, 10);
+    gradient = exporter.createLinearGradient(0, 0, 10, 0);
+    gradient.addColorStop(0, "red");
+    gradient.addColorStop(1, "rgba(0, 0, 255, 0.5)");
+    gradient.addColorStop(1, "not a color");
+    const radial = exporter.createRadialGradient(1, 2, 3, 4, 5, 6);
+    expect(radial).toBeInstanceOf(SVGGradient);
+    const svg = render(exporter, encode(
+      [CanvasInstruction.FillGradient, 0],
+      [CanvasInstruction.FillRect, 0, 0, 10, 10],
+      [CanvasInstruction.StrokeGradient, 0],
+      [CanvasInstruction.StrokeRect, 0, 0, 10, 10],
+    ));
+    expect(svg).toContain(
+      "<linearGradient id=\"gradient0\" gradientUnits=\"userSpaceOnUse\" x1=\"0\" y1=\"0\" x2=\"10\" y2=\"0\">"
+      + "<stop offset=\"0\" stop-color=\"rgb(255,0,0)\"/>"
+      + "<stop offset=\"1\" stop-color=\"rgb(0,0,255)\" stop-opacity=\"0.5\"/>"
+      + "</linearGradient>",
+    );
+    expect(svg).toContain("<radialGradient id=\"gradient1\" gradientUnits=\"userSpaceOnUse\" fx=\"1\" fy=\"2\" fr=\"3\" cx=\"4\" cy=\"5\" r=\"6\"></radialGradient>");
+    expect(svg).toContain("fill=\"url(#gradient0)\"");
+    expect(svg).toContain("stroke=\"url(#gradient0)\"");
+  });
+
+  it("should report the drawing state", () => {
+    const exporter = new SVGExporter(10, 10);
+    gradient = exporter.createLinearGradient(0, 0, 10, 0);
+    render(exporter, encode(
+      [CanvasInstruction.FillStyle, 2],
+      [CanvasInstruction.StrokeGradient, 0],
+      [CanvasInstruction.LineCap, LineCap.round],
+      [CanvasInstruction.Font, 4],
+      [CanvasInstruction.SetTransform, 1, 0, 0, 1, 1, 2],
+    ));
+    expect(exporter.getState()).toMatchObject({
+      transform: [1, 0, 0, 1, 1, 2],
+      fillStyle: "rgba(0,0,255,0.5)",
+      strokeStyle: "url(#gradient0)",
+      lineCap: LineCap.round,
+      font: "bold 12px serif",
+    });
+  });
+
+  it("should not paint shapes that use a conic gradient", () => {
+    const exporter = new SVGExporter(10, 10);
+    gradient = exporter.createConicGradient(0, 5, 5);
+    gradient.addColorStop(0, "red");
+    const svg = render(exporter, encode(
+      [CanvasInstruction.FillGradient, 0],
+      [CanvasInstruction.FillRect, 0, 0, 10, 10],
+    ));
+    expect(svg).toContain("fill=\"none\"");
+    expect(svg).not.toContain("<defs>");
+  });
+
+  it("should write patterns and images as definitions", () => {
+    const exporter = new SVGExporter(10, 10, imageSource);
+    const svg = render(exporter, encode(
+      [CanvasInstruction.FillPattern, 0],
+      [CanvasInstruction.FillRect, 0, 0, 10, 10],
+      [CanvasInstruction.DrawImage, 0, 0, 0, 4, 2, 1, 1, 8, 4],
+    ));
+    expect(svg).toContain("<image id=\"image1\" width=\"4\" height=\"2\" xlink:href=\"data:image/png;base64,AAAA\"/>");
+    expect(svg).toContain("<pattern id=\"pattern0\" patternUnits=\"userSpaceOnUse\" width=\"4\" height=\"1000000\"><use xlink:href=\"#image1\"/></pattern>");
+    expect(svg).toContain("fill=\"url(#pattern0)\"");
+    expect(svg).toContain("<g><svg x=\"1\" y=\"1\" width=\"8\" height=\"4\" viewBox=\"0 0 4 2\" preserveAspectRatio=\"none\"><use xlink:href=\"#image1\"/></svg></g>");
+    expect(svg.match(/<image /g)!.length).toBe(1);
+  });
+
+  it("should write pattern transforms", () => {
+    const exporter = new SVGExporter(10, 10, imageSource);
+    const pattern = exporter.createPattern(image, CanvasPatternRepetition.no_repeat);
+    pattern.setTransform({ a: 2, d: 2, e: 1 });
+    expect(pattern.toString()).toContain("width=\"1000000\" height=\"1000000\" patternTransform=\"matrix(2 0 0 2 1 0)\"");
+    pattern.setTransform();
+    expect(pattern.toString()).not.toContain("patternTransform");
+  });
+
+  it("should clip drawing operations", () => {
+    const svg = render(new SVGExporter(10, 10), encode(
+      [CanvasInstruction.Rect, 0, 0, 5, 5],
+      [CanvasInstruction.Clip],
+      [CanvasInstruction.BeginPath],
+      [CanvasInstruction.Rect, 1, 1, 5, 5],
+      [CanvasInstruction.Clip],
+      [CanvasInstruction.FillRect, 0, 0, 10, 10],
+    ));
+    expect(svg).toContain("<clipPath id=\"clip0\"><path d=\"M0 0L5 0L5 5L0 5Z\"/></clipPath>");
+    expect(svg).toContain("<clipPath id=\"clip1\" clip-path=\"url(#clip0)\"><path d=\"M1 1L6 1L6 6L1 6Z\"/></clipPath>");
+    expect(svg).toContain("<g clip-path=\"url(#clip1)\"><path d=\"M0 0L10 0L10 10L0 10Z\" fill=\"rgb(0,0,0)\"/></g>");
+  });
+
+  it("should draw and clip Path2D objects", () => {
+    const svg = render(new SVGExporter(10, 10), encode(
+      [CanvasInstruction.FillPath, 1, FillRule.evenodd],
+      [CanvasInstruction.StrokePath, 1],
+      [CanvasInstruction.ClipPath, 1, FillRule.evenodd],
+    ));
+    expect(svg).toContain("<path d=\"M0 0L2 0M5 5L6 5L6 6L5 6Z\" fill=\"rgb(0,0,0)\" fill-rule=\"evenodd\"/>");
+    expect(svg).toContain("<path d=\"M0 0L2 0M5 5L6 5L6 6L5 6Z\" fill=\"none\" stroke=\"rgb(0,0,0)\" stroke-width=\"1\"/>");
+    expect(svg).toContain("<clipPath id=\"clip0\"><path d=\"M0 0L2 0M5 5L6 5L6 6L5 6Z\" clip-rule=\"evenodd\"/></clipPath>");
+  });
+
+  it("should write blend modes and filters", () => {
+    const svg = render(new SVGExporter(10, 10), encode(
+      [CanvasInstruction.GlobalCompositeOperation, GlobalCompositeOperation.multiply],
+      [CanvasInstruction.Filter, 5],
+      [CanvasInstruction.FillRect, 0, 0, 1, 1],
+    ));
+    expect(svg).toContain("<g style=\"mix-blend-mode:multiply;filter:blur(2px)\"><path");
+  });
+
+  it("should write text", () => {
+    const svg = render(new SVGExporter(10, 10), encode(
+      [CanvasInstruction.Font, 4],
+      [CanvasInstruction.TextAlign, TextAlign.center],
+      [CanvasInstruction.TextBaseline, TextBaseline.top],
+      [CanvasInstruction.FillText, 3, 1, 2],
+      [CanvasInstruction.TextAlign, TextAlign.left],
+      [CanvasInstruction.Direction, 1],
+      [CanvasInstruction.StrokeTextWidth, 3, 1, 2, 100],
+    ));
+    expect(svg).toContain(
+      "<text x=\"1\" y=\"2\" style=\"font:bold 12px serif\" text-anchor=\"middle\" dominant-baseline=\"text-before-edge\" "
+      + "fill=\"rgb(0,0,0)\">Hello &lt;world&gt; &amp; &quot;friends&quot;</text>",
+    );
+    expect(svg).toContain("direction=\"rtl\" text-anchor=\"end\" dominant-baseline=\"text-before-edge\" fill=\"none\" stroke=\"rgb(0,0,0)\"");
+  });
+
+  it("should write the text rendering properties", () => {
+    const svg = render(new SVGExporter(10, 10), encode(
+      [CanvasInstruction.Font, 4],
+      [CanvasInstruction.FontStretch, FontStretch.expanded],
+      [CanvasInstruction.FontVariantCaps, FontVariantCaps.all_small_caps],
+      [CanvasInstruction.LetterSpacing, 6],
+      [CanvasInstruction.TextRendering, TextRendering.geometricPrecision],
+      [CanvasInstruction.FillText, 3, 1, 2],
+    ));
+    expect(svg).toContain(
+      "style=\"font:bold 12px serif;font-stretch:expanded;font-variant-caps:all-small-caps\" "
+      + "letter-spacing=\"2px\" text-rendering=\"geometricPrecision\" fill=\"rgb(0,0,0)\"",
+    );
+  });
+
+  it("should only clear the document when the whole surface is cleared", () => {
+    const exporter = new SVGExporter(10, 10);
+    render(exporter, encode(
+      [CanvasInstruction.FillRect, 0, 0, 1, 1],
+      [CanvasInstruction.ClearRect, 0, 0, 5, 5],
+    ));
+    expect(exporter.toString()).toContain("<path");
+    render(exporter, encode([CanvasInstruction.ClearRect, 0, 0, 10, 10]));
+    expect(exporter.toString()).not.toContain("<path");
+  });
+
+  it("should export frames committed by the wasm module", () => {
+    let wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite;
+    wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+    const exporter = new SVGExporter(20, 20);
+    wasm.useBackend("main", exporter);
+    wasm.init();
+    wasm.fillStyle(wasm.__allocString("#0f0"));
+    wasm.fillRect(0, 0, 10, 10);
+    wasm.commit();
+    expect(exporter.toString()).toContain("<path d=\"M0 0L10 0L10 10L0 10Z\" fill=\"rgb(0,255,0)\"/>");
+  });
+});
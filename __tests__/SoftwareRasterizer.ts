@@ -0,0 +1,505 @@
+import { instantiateBuffer, ICanvasSYS, SoftwareRasterizer, CanvasInstruction, FillRule, LineCap, LineJoin, parseColor, dispatchInstructions, IResourceResolver, RecordedPath2D } from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+
+/**
+ * Encode a list of instructions using the same layout the AssemblyScript Buffer class writes.
+ */
+function encode(...instructions: number[][]): Float64Array {
+  var values: number[] = [];
+  for (const [inst, ...args] of instructions) {
+    values.push(inst, values.length + 2 + args.length, ...args);
+  }
+  values.push(CanvasInstruction.Commit, values.length + 2);
+  return new Float64Array(values);
+}
+
+function pixel(rasterizer: SoftwareRasterizer, x: number, y: number): number[] {
+  const index = (y * rasterizer.width + x) * 4;
+  return Array.from(rasterizer.data.subarray(index, index + 4));
+}
+
+const strings: { [pointer: number]: string } = {
+  1: "red",
+  2: "#00f",
+  3: "rgba(0, 255, 0, 0.5)",
+  4: "not a color",
+};
+const paths: { [id: number]: Float64Array } = {
+  // a 4x4 rectangle, and a 2x2 rectangle added with a (5, 5) translation
+  1: new Float64Array([
+    CanvasInstruction.Rect, 6, 0, 0, 4, 4,
+    CanvasInstruction.AddPath, 20, 1, 0, 0, 1, 5, 5,
+    CanvasInstruction.Rect, 6, 0, 0, 2, 2,
+  ]),
+};
+const pixels: { [pointer: number]: Uint8ClampedArray } = {
+  // a 2x2 image with a red, a green, a blue and a white pixel
+  1: new Uint8ClampedArray([
+    255, 0, 0, 255, 0, 255, 0, 255,
+    0, 0, 255, 255, 255, 255, 255, 255,
+  ]),
+};
+const resolver: IResourceResolver = {
+  getString: (pointer: number) => strings[pointer],
+  getFloat64Array: () => new Float64Array(0),
+  getUint8ClampedArray: (pointer: number) => pixels[pointer],
+  getImage: () => { throw new Error("Images are not used in these tests."); },
+  getGradient: () => { throw new Error("Gradients are not used in these tests."); },
+  getPattern: () => { throw new Error("Patterns are not used in these tests."); },
+  getPath: (id: number) => new RecordedPath2D(paths[id]),
+  getElement: () => null,
+};
+
+function render(rasterizer: SoftwareRasterizer, data: Float64Array): void {
+  dispatchInstructions(data, rasterizer, resolver);
+}
+
+describe("SoftwareRasterizer", () => {
+  it("should start transparent", () => {
+    const rasterizer = new SoftwareRasterizer(10, 10);
+    expect(rasterizer.data.length).toBe(400);
+    expect(rasterizer.data.every(e => e === 0)).toBeTruthy();
+  });
+
+  it("should replace the surface and reset the state when it is resized", () => {
+    const rasterizer = new SoftwareRasterizer(10, 10);
+    rasterizer.fillStyle("red");
+    rasterizer.fillRect(0, 0, 10, 10);
+    rasterizer.resize(20, 5);
+    expect(rasterizer.width).toBe(20);
+    expect(rasterizer.height).toBe(5);
+    expect(rasterizer.data.length).toBe(400);
+    expect(rasterizer.data.every(e => e === 0)).toBeTruthy();
+    rasterizer.fillRect(15, 0, 5, 5);
+    expect(pixel(rasterizer, 17, 2)).toEqual([0, 0, 0, 255]);
+  });
+
+  it("should fill rectangles with the default fillStyle", () => {
+    const rasterizer = new SoftwareRasterizer(10, 10);
+    render(rasterizer, encode([CanvasInstruction.FillRect, 2, 2, 4, 4]));
+    expect(pixel(rasterizer, 3, 3)).toEqual([0, 0, 0, 255]);
+    expect(pixel(rasterizer, 1, 1)).toEqual([0, 0, 0, 0]);
+    expect(pixel(rasterizer, 6, 6)).toEqual([0, 0, 0, 0]);
+  });
+
+  it("should use the fillStyle and ignore invalid colors", () => {
+    const rasterizer = new SoftwareRasterizer(10, 10);
+    render(rasterizer, encode(
+      [CanvasInstruction.FillStyle, 1],
+      [CanvasInstruction.FillStyle, 4],
+      [CanvasInstruction.FillRect, 0, 0, 10, 10],
+    ));
+    expect(pixel(rasterizer, 5, 5)).toEqual([255, 0, 0, 255]);
+  });
+
+  it("should not paint while the fill or stroke style is a gradient or a pattern", () => {
+    const rasterizer = new SoftwareRasterizer(20, 20);
+    rasterizer.fillStyle("red");
+    rasterizer.fillGradient({} as CanvasGradient);
+    rasterizer.fillRect(0, 0, 10, 10);
+    rasterizer.strokeStyle("red");
+    rasterizer.strokePattern({} as CanvasPattern);
+    rasterizer.lineWidth(2);
+    rasterizer.strokeRect(12, 12, 4, 4);
+    expect(rasterizer.data.every(e => e === 0)).toBeTruthy();
+    rasterizer.fillStyle("#00f");
+    rasterizer.fillRect(0, 0, 10, 10);
+    rasterizer.strokeStyle("#00f");
+    rasterizer.strokeRect(12, 12, 4, 4);
+    expect(pixel(rasterizer, 5, 5)).toEqual([0, 0, 255, 255]);
+    expect(pixel(rasterizer, 12, 14)).toEqual([0, 0, 255, 255]);
+  });
+
+  it("should anti-alias partially covered pixels", () => {
+    const rasterizer = new SoftwareRasterizer(10, 10);
+    render(rasterizer, encode([CanvasInstruction.FillRect, 0, 0, 2.5, 10]));
+    expect(pixel(rasterizer, 2, 5)[3]).toBe(128);
+  });
+
+  it("should apply globalAlpha", () => {
+    const rasterizer = new SoftwareRasterizer(10, 10);
+    render(rasterizer, encode(
+      [CanvasInstruction.GlobalAlpha, 0.5],
+      [CanvasInstruction.FillRect, 0, 0, 10, 10],
+    ));
+    expect(pixel(rasterizer, 5, 5)).toEqual([0, 0, 0, 128]);
+  });
+
+  it("should blend colors using source-over", () => {
+    const rasterizer = new SoftwareRasterizer(10, 10);
+    render(rasterizer, encode(
+      [CanvasInstruction.FillStyle, 1],
+      [CanvasInstruction.FillRect, 0, 0, 10, 10],
+      [CanvasInstruction.FillStyle, 3],
+      [CanvasInstruction.FillRect, 0, 0, 10, 10],
+    ));
+    expect(pixel(rasterizer, 5, 5)).toEqual([128, 128, 0, 255]);
+  });
+
+  it("should fill paths using the nonzero and evenodd fill rules", () => {
+    const nonzero = new SoftwareRasterizer(20, 20);
+    const evenodd = new SoftwareRasterizer(20, 20);
+    const path = [
+      [CanvasInstruction.BeginPath],
+      [CanvasInstruction.Rect, 0, 0, 20, 20],
+      [CanvasInstruction.Rect, 5, 5, 10, 10],
+    ];
+    render(nonzero, encode(...path, [CanvasInstruction.Fill, FillRule.nonzero]));
+    render(evenodd, encode(...path, [CanvasInstruction.Fill, FillRule.evenodd]));
+    expect(pixel(nonzero, 10, 10)[3]).toBe(255);
+    expect(pixel(evenodd, 10, 10)[3]).toBe(0);
+    expect(pixel(evenodd, 2, 2)[3]).toBe(255);
+  });
+
+  it("should fill rounded rectangles", () => {
+    const rasterizer = new SoftwareRasterizer(20, 20);
+    render(rasterizer, encode(
+      [CanvasInstruction.RoundRect, 0, 0, 20, 20, 8, 8, 0, 0, 8, 8, 0, 0],
+      [CanvasInstruction.Fill, FillRule.nonzero],
+    ));
+    expect(pixel(rasterizer, 0, 0)).toEqual([0, 0, 0, 0]);
+    expect(pixel(rasterizer, 19, 19)).toEqual([0, 0, 0, 0]);
+    expect(pixel(rasterizer, 19, 0)).toEqual([0, 0, 0, 255]);
+    expect(pixel(rasterizer, 0, 19)).toEqual([0, 0, 0, 255]);
+    expect(pixel(rasterizer, 10, 10)).toEqual([0, 0, 0, 255]);
+  });
+
+  it("should fill triangles made of lines", () => {
+    const rasterizer = new SoftwareRasterizer(20, 20);
+    render(rasterizer, encode(
+      [CanvasInstruction.BeginPath],
+      [CanvasInstruction.MoveTo, 0, 0],
+      [CanvasInstruction.LineTo, 20, 0],
+      [CanvasInstruction.LineTo, 0, 20],
+      [CanvasInstruction.ClosePath],
+      [CanvasInstruction.Fill, FillRule.nonzero],
+    ));
+    expect(pixel(rasterizer, 2, 2)[3]).toBe(255);
+    expect(pixel(rasterizer, 17, 17)[3]).toBe(0);
+  });
+
+  it("should fill arcs and ellipses", () => {
+    const circle = new SoftwareRasterizer(20, 20);
+    render(circle, encode(
+      [CanvasInstruction.BeginPath],
+      [CanvasInstruction.Arc, 10, 10, 8, 0, Math.PI * 2, 0],
+      [CanvasInstruction.Fill, FillRule.nonzero],
+    ));
+    expect(pixel(circle, 10, 10)[3]).toBe(255);
+    expect(pixel(circle, 0, 0)[3]).toBe(0);
+
+    const ellipse = new SoftwareRasterizer(40, 20);
+    render(ellipse, encode(
+      [CanvasInstruction.BeginPath],
+      [CanvasInstruction.Ellipse, 20, 10, 18, 4, 0, 0, Math.PI * 2, 0],
+      [CanvasInstruction.Fill, FillRule.nonzero],
+    ));
+    expect(pixel(ellipse, 35, 10)[3]).toBe(255);
+    expect(pixel(ellipse, 20, 2)[3]).toBe(0);
+  });
+
+  it("should fill bezier and quadratic curves", () => {
+    const rasterizer = new SoftwareRasterizer(20, 20);
+    render(rasterizer, encode(
+      [CanvasInstruction.BeginPath],
+      [CanvasInstruction.MoveTo, 0, 20],
+      [CanvasInstruction.QuadraticCurveTo, 10, -20, 20, 20],
+      [CanvasInstruction.BezierCurveTo, 15, 30, 5, 30, 0, 20],
+      [CanvasInstruction.Fill, FillRule.nonzero],
+    ));
+    expect(pixel(rasterizer, 10, 10)[3]).toBe(255);
+    expect(pixel(rasterizer, 1, 1)[3]).toBe(0);
+  });
+
+  it("should round corners with arcTo", () => {
+    const rasterizer = new SoftwareRasterizer(20, 20);
+    render(rasterizer, encode(
+      [CanvasInstruction.BeginPath],
+      [CanvasInstruction.MoveTo, 0, 20],
+      [CanvasInstruction.ArcTo, 0, 0, 20, 0, 10],
+      [CanvasInstruction.LineTo, 20, 20],
+      [CanvasInstruction.Fill, FillRule.nonzero],
+    ));
+    expect(pixel(rasterizer, 0, 0)[3]).toBe(0);
+    expect(pixel(rasterizer, 10, 10)[3]).toBe(255);
+  });
+
+  it("should transform paths", () => {
+    const rasterizer = new SoftwareRasterizer(20, 20);
+    render(rasterizer, encode(
+      [CanvasInstruction.SetTransform, 2, 0, 0, 2, 10, 10],
+      [CanvasInstruction.FillRect, 0, 0, 2, 2],
+    ));
+    expect(pixel(rasterizer, 12, 12)[3]).toBe(255);
+    expect(pixel(rasterizer, 9, 9)[3]).toBe(0);
+    expect(pixel(rasterizer, 14, 14)[3]).toBe(0);
+  });
+
+  it("should stroke lines using the lineWidth", () => {
+    const rasterizer = new SoftwareRasterizer(20, 20);
+    render(rasterizer, encode(
+      [CanvasInstruction.LineWidth, 4],
+      [CanvasInstruction.StrokeStyle, 2],
+      [CanvasInstruction.BeginPath],
+      [CanvasInstruction.MoveTo, 5, 10],
+      [CanvasInstruction.LineTo, 15, 10],
+      [CanvasInstruction.Stroke],
+    ));
+    expect(pixel(rasterizer, 10, 8)).toEqual([0, 0, 255, 255]);
+    expect(pixel(rasterizer, 10, 11)).toEqual([0, 0, 255, 255]);
+    expect(pixel(rasterizer, 10, 13)[3]).toBe(0);
+    // butt caps do not extend past the end points
+    expect(pixel(rasterizer, 3, 10)[3]).toBe(0);
+  });
+
+  it("should scale the stroke with the transform", () => {
+    const rasterizer = new SoftwareRasterizer(20, 20);
+    render(rasterizer, encode(
+      [CanvasInstruction.SetTransform, 4, 0, 0, 4, 0, 0],
+      [CanvasInstruction.BeginPath],
+      [CanvasInstruction.MoveTo, 1, 2.5],
+      [CanvasInstruction.LineTo, 4, 2.5],
+      [CanvasInstruction.Stroke],
+    ));
+    expect(pixel(rasterizer, 10, 8)[3]).toBe(255);
+    expect(pixel(rasterizer, 10, 11)[3]).toBe(255);
+  });
+
+  it("should extend square and round line caps", () => {
+    [LineCap.square, LineCap.round].forEach(lineCap => {
+      const rasterizer = new SoftwareRasterizer(20, 20);
+      render(rasterizer, encode(
+        [CanvasInstruction.LineWidth, 6],
+        [CanvasInstruction.LineCap, lineCap],
+        [CanvasInstruction.BeginPath],
+        [CanvasInstruction.MoveTo, 6, 10],
+        [CanvasInstruction.LineTo, 14, 10],
+        [CanvasInstruction.Stroke],
+      ));
+      expect(pixel(rasterizer, 4, 10)[3]).toBe(255);
+      expect(pixel(rasterizer, 15, 10)[3]).toBe(255);
+    });
+  });
+
+  it("should use the lineJoin and miterLimit for corners", () => {
+    const draw = (lineJoin: LineJoin, miterLimit: number) => {
+      const rasterizer = new SoftwareRasterizer(30, 30);
+      render(rasterizer, encode(
+        [CanvasInstruction.LineWidth, 6],
+        [CanvasInstruction.LineJoin, lineJoin],
+        [CanvasInstruction.MiterLimit, miterLimit],
+        [CanvasInstruction.BeginPath],
+        [CanvasInstruction.MoveTo, 5, 25],
+        [CanvasInstruction.LineTo, 5, 5],
+        [CanvasInstruction.LineTo, 25, 5],
+        [CanvasInstruction.Stroke],
+      ));
+      // the outer corner of the join
+      return pixel(rasterizer, 2, 2)[3];
+    };
+    expect(draw(LineJoin.miter, 10)).toBe(255);
+    expect(draw(LineJoin.miter, 1)).toBe(0);
+    expect(draw(LineJoin.bevel, 10)).toBe(0);
+    expect(draw(LineJoin.round, 10)).toBeLessThan(255);
+  });
+
+  it("should stroke rectangles", () => {
+    const rasterizer = new SoftwareRasterizer(20, 20);
+    render(rasterizer, encode(
+      [CanvasInstruction.LineWidth, 2],
+      [CanvasInstruction.StrokeRect, 5, 5, 10, 10],
+    ));
+    expect(pixel(rasterizer, 5, 10)[3]).toBe(255);
+    expect(pixel(rasterizer, 10, 10)[3]).toBe(0);
+  });
+
+  it("should clip drawing operations", () => {
+    const rasterizer = new SoftwareRasterizer(20, 20);
+    render(rasterizer, encode(
+      [CanvasInstruction.Save],
+      [CanvasInstruction.BeginPath],
+      [CanvasInstruction.Rect, 0, 0, 10, 20],
+      [CanvasInstruction.Clip],
+      [CanvasInstruction.FillRect, 0, 0, 20, 20],
+      [CanvasInstruction.Restore],
+      [CanvasInstruction.FillStyle, 1],
+      [CanvasInstruction.FillRect, 0, 0, 20, 5],
+    ));
+    expect(pixel(rasterizer, 5, 10)[3]).toBe(255);
+    expect(pixel(rasterizer, 15, 10)[3]).toBe(0);
+    // the clip is restored
+    expect(pixel(rasterizer, 15, 2)).toEqual([255, 0, 0, 255]);
+  });
+
+  it("should intersect clipping regions", () => {
+    const rasterizer = new SoftwareRasterizer(20, 20);
+    render(rasterizer, encode(
+      [CanvasInstruction.BeginPath],
+      [CanvasInstruction.Rect, 0, 0, 10, 20],
+      [CanvasInstruction.Clip],
+      [CanvasInstruction.BeginPath],
+      [CanvasInstruction.Rect, 5, 0, 15, 20],
+      [CanvasInstruction.Clip],
+      [CanvasInstruction.FillRect, 0, 0, 20, 20],
+    ));
+    expect(pixel(rasterizer, 2, 10)[3]).toBe(0);
+    expect(pixel(rasterizer, 7, 10)[3]).toBe(255);
+    expect(pixel(rasterizer, 12, 10)[3]).toBe(0);
+  });
+
+  it("should fill, stroke and clip Path2D objects with the current transform", () => {
+    const filled = new SoftwareRasterizer(10, 10);
+    render(filled, encode(
+      [CanvasInstruction.SetTransform, 1, 0, 0, 1, 1, 0],
+      [CanvasInstruction.FillPath, 1, FillRule.nonzero],
+    ));
+    expect(pixel(filled, 2, 2)[3]).toBe(255);
+    expect(pixel(filled, 0, 2)[3]).toBe(0);
+    expect(pixel(filled, 6, 6)[3]).toBe(255);
+    expect(pixel(filled, 5, 6)[3]).toBe(0);
+    expect(filled.isPointInPathObject(new RecordedPath2D(paths[1]), 6.5, 5.5, FillRule.nonzero)).toBeTruthy();
+    expect(filled.isPointInPathObject(new RecordedPath2D(paths[1]), 4.5, 5.5, FillRule.nonzero)).toBeFalsy();
+
+    const stroked = new SoftwareRasterizer(10, 10);
+    render(stroked, encode(
+      [CanvasInstruction.LineWidth, 2],
+      [CanvasInstruction.StrokePath, 1],
+    ));
+    expect(pixel(stroked, 0, 2)[3]).toBe(255);
+    expect(pixel(stroked, 2, 2)[3]).toBe(0);
+
+    const clipped = new SoftwareRasterizer(10, 10);
+    render(clipped, encode(
+      [CanvasInstruction.ClipPath, 1, FillRule.nonzero],
+      [CanvasInstruction.FillRect, 0, 0, 10, 10],
+    ));
+    expect(pixel(clipped, 2, 2)[3]).toBe(255);
+    expect(pixel(clipped, 9, 2)[3]).toBe(0);
+  });
+
+  it("should clear rectangles", () => {
+    const rasterizer = new SoftwareRasterizer(20, 20);
+    render(rasterizer, encode(
+      [CanvasInstruction.FillRect, 0, 0, 20, 20],
+      [CanvasInstruction.ClearRect, 5, 5, 10, 10],
+    ));
+    expect(pixel(rasterizer, 10, 10)).toEqual([0, 0, 0, 0]);
+    expect(pixel(rasterizer, 2, 2)[3]).toBe(255);
+  });
+
+  it("should put pixels and ignore the transform and clipping region", () => {
+    const rasterizer = new SoftwareRasterizer(4, 4);
+    render(rasterizer, encode(
+      [CanvasInstruction.SetTransform, 2, 0, 0, 2, 1, 1],
+      [CanvasInstruction.Rect, 3, 3, 1, 1],
+      [CanvasInstruction.Clip],
+      [CanvasInstruction.PutImageData, 1, 2, 2, 1, 1, 0, 0, 2, 2],
+      [CanvasInstruction.PutImageData, 1, 2, 2, 3, -1, 0, 0, 2, 2],
+    ));
+    expect(pixel(rasterizer, 1, 1)).toEqual([255, 0, 0, 255]);
+    expect(pixel(rasterizer, 2, 2)).toEqual([255, 255, 255, 255]);
+    expect(pixel(rasterizer, 3, 0)).toEqual([0, 0, 255, 255]);
+    expect(pixel(rasterizer, 0, 0)).toEqual([0, 0, 0, 0]);
+  });
+
+  it("should put the pixels of a dirty rectangle", () => {
+    const rasterizer = new SoftwareRasterizer(4, 4);
+    render(rasterizer, encode(
+      [CanvasInstruction.PutImageData, 1, 2, 2, 0, 0, 2, 1, -1, 1],
+    ));
+    expect(pixel(rasterizer, 1, 1)).toEqual([255, 255, 255, 255]);
+    expect(Array.from(rasterizer.data).filter(e => e !== 0).length).toBe(4);
+  });
+
+  it("should get the pixels of a rectangle", () => {
+    const rasterizer = new SoftwareRasterizer(2, 2);
+    render(rasterizer, encode(
+      [CanvasInstruction.PutImageData, 1, 2, 2, 0, 0, 0, 0, 2, 2],
+    ));
+    expect(Array.from(rasterizer.getImageData(1, -1, 2, 2))).toEqual([
+      0, 0, 0, 0, 0, 0, 0, 0,
+      0, 255, 0, 255, 0, 0, 0, 0,
+    ]);
+    expect(Array.from(rasterizer.getImageData(2, 2, -2, -1))).toEqual([
+      0, 0, 255, 255, 255, 255, 255, 255,
+    ]);
+  });
+
+  it("should report the drawing state", () => {
+    const rasterizer = new SoftwareRasterizer(2, 2);
+    render(rasterizer, encode(
+      [CanvasInstruction.FillStyle, 3],
+      [CanvasInstruction.LineWidth, 2],
+      [CanvasInstruction.LineJoin, LineJoin.round],
+      [CanvasInstruction.SetTransform, 2, 0, 0, 3, 0, 0],
+    ));
+    expect(rasterizer.getState()).toEqual({
+      transform: [2, 0, 0, 3, 0, 0],
+      fillStyle: "rgba(0,255,0,0.5)",
+      strokeStyle: "rgba(0,0,0,1)",
+      globalAlpha: 1,
+      lineWidth: 2,
+      lineCap: LineCap.butt,
+      lineJoin: LineJoin.round,
+      miterLimit: 10,
+    });
+  });
+
+  it("should hit test the current path and stroke", () => {
+    const rasterizer = new SoftwareRasterizer(20, 20);
+    render(rasterizer, encode(
+      [CanvasInstruction.Rect, 0, 0, 10, 10],
+      [CanvasInstruction.Rect, 2, 2, 6, 6],
+      [CanvasInstruction.LineWidth, 2],
+    ));
+    expect(rasterizer.isPointInPath(5, 5, FillRule.nonzero)).toBeTruthy();
+    expect(rasterizer.isPointInPath(5, 5, FillRule.evenodd)).toBeFalsy();
+    expect(rasterizer.isPointInPath(15, 15, FillRule.nonzero)).toBeFalsy();
+    expect(rasterizer.isPointInStroke(10.5, 5)).toBeTruthy();
+    expect(rasterizer.isPointInStroke(5, 5)).toBeFalsy();
+  });
+
+  it("should render frames committed by the wasm module", () => {
+    let wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite;
+    wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+    const rasterizer = new SoftwareRasterizer(20, 20);
+    const id = wasm.useBackend("main", rasterizer);
+    expect(wasm.backends[id]).toBe(rasterizer);
+    wasm.init();
+    wasm.fillStyle(wasm.__allocString("#0f0"));
+    wasm.fillRect(0, 0, 10, 10);
+    wasm.commit();
+    expect(pixel(rasterizer, 5, 5)).toEqual([0, 255, 0, 255]);
+    expect(pixel(rasterizer, 15, 15)).toEqual([0, 0, 0, 0]);
+  });
+});
+
+describe("parseColor", () => {
+  it("should parse hex colors", () => {
+    expect(parseColor("#f00")).toEqual({ r: 255, g: 0, b: 0, a: 1 });
+    expect(parseColor("#f008")).toEqual({ r: 255, g: 0, b: 0, a: 8 / 15 });
+    expect(parseColor("#00ff00")).toEqual({ r: 0, g: 255, b: 0, a: 1 });
+    expect(parseColor("#0000ff80")).toEqual({ r: 0, g: 0, b: 255, a: 128 / 255 });
+  });
+
+  it("should parse rgb and rgba functions", () => {
+    expect(parseColor("rgb(1, 2, 3)")).toEqual({ r: 1, g: 2, b: 3, a: 1 });
+    expect(parseColor("rgba(1, 2, 3, 0.5)")).toEqual({ r: 1, g: 2, b: 3, a: 0.5 });
+    expect(parseColor("rgb(100% 0% 0% / 50%)")).toEqual({ r: 255, g: 0, b: 0, a: 0.5 });
+  });
+
+  it("should parse named colors", () => {
+    expect(parseColor("White")).toEqual({ r: 255, g: 255, b: 255, a: 1 });
+    expect(parseColor("transparent")).toEqual({ r: 0, g: 0, b: 0, a: 0 });
+  });
+
+  it("should return null for unknown colors", () => {
+    expect(parseColor("papayawhip")).toBeNull();
+    expect(parseColor("rgb(1, 2)")).toBeNull();
+    expect(parseColor("rgb(a, b, c)")).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+import { instantiateBuffer, ICanvasSYS, CanvasDirection, TextAlign, TextBaseline } from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+let wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite;
+let ctx: CanvasRenderingContext2D;
+
+beforeEach(() => {
+  wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+  ctx = document.createElement("canvas").getContext("2d")!;
+  wasm.useContext("main", ctx);
+  wasm.init();
+});
+
+// in the testing environment measureText returns the text length as the width
+function layoutText(text: string, x: number, y: number, maxWidth: number, lineHeight: number, textAlign: TextAlign, textBaseline: TextBaseline): void {
+  wasm.layoutText(wasm.__allocString(text), x, y, maxWidth, lineHeight, textAlign, textBaseline);
+}
+
+function lines(): string[] {
+  const result: string[] = [];
+  for (let i = 0; i < wasm.layoutLineCount(); i++) result.push(wasm.__getString(wasm.layoutLineText(i)));
+  return result;
+}
+
+function lineValues(index: number): number[] {
+  return Array.from(wasm.__getFloat64Array(wasm.layoutLineValues(index)));
+}
+
+function box(): number[] {
+  return Array.from(wasm.__getFloat64Array(wasm.layoutBox()));
+}
+
+describe("TextLayout", () => {
+  it("should break lines at spaces and newlines", () => {
+    layoutText("the quick brown fox\njumps", 5, 7, 10, 12, TextAlign.left, TextBaseline.top);
+    expect(lines()).toEqual(["the quick", "brown fox", "jumps"]);
+    expect(box()).toEqual([5, 7, 9, 36]);
+    expect(lineValues(0)).toEqual([5, 7, 9]);
+    expect(lineValues(1)).toEqual([5, 19, 9]);
+    expect(lineValues(2)).toEqual([5, 31, 5]);
+  });
+
+  it("should keep empty lines and only break at newlines without a max width", () => {
+    layoutText("a b c\n\nd", 0, 0, 0, 10, TextAlign.left, TextBaseline.top);
+    expect(lines()).toEqual(["a b c", "", "d"]);
+  });
+
+  it("should break words that are wider than the max width", () => {
+    layoutText("abcdefghij ab", 0, 0, 4, 10, TextAlign.left, TextBaseline.top);
+    expect(lines()).toEqual(["abcd", "efgh", "ij", "ab"]);
+  });
+
+  it("should align the box around the anchor point", () => {
+    layoutText("ab cd\nabcd", 50, 50, 0, 10, TextAlign.center, TextBaseline.middle);
+    expect(box()).toEqual([47.5, 40, 5, 20]);
+    expect(lineValues(0)).toEqual([47.5, 45, 5]);
+    expect(lineValues(1)).toEqual([48, 55, 4]);
+    layoutText("ab cd\nabcd", 50, 50, 0, 10, TextAlign.end, TextBaseline.bottom);
+    expect(box()).toEqual([45, 30, 5, 20]);
+    expect(lineValues(0)).toEqual([45, 40, 5]);
+    expect(lineValues(1)).toEqual([46, 50, 4]);
+  });
+
+  it("should use the font ascent to find the top of alphabetic text", () => {
+    jest.spyOn(ctx, "measureText").mockImplementation((text: string) => ({ width: text.length, fontBoundingBoxAscent: 8 }) as TextMetrics);
+    layoutText("ab\ncd", 0, 20, 0, 12, TextAlign.left, TextBaseline.alphabetic);
+    expect(box()).toEqual([0, 12, 2, 24]);
+    expect(lineValues(0)).toEqual([0, 20, 2]);
+    expect(lineValues(1)).toEqual([0, 32, 2]);
+  });
+
+  it("should measure the text without committing", () => {
+    wasm.fillRect(1, 2, 3, 4);
+    layoutText("ab cd ab", 0, 0, 0, 10, TextAlign.left, TextBaseline.top);
+    expect(ctx.measureText).toHaveBeenCalledTimes(3);
+    expect(ctx.fillRect).not.toBeCalled();
+  });
+
+  it("should fill and stroke every line at its laid out position", () => {
+    const textAligns: string[] = [];
+    jest.spyOn(ctx, "fillText").mockImplementation(() => textAligns.push(ctx.textAlign));
+    wasm.textAlign(TextAlign.right);
+    layoutText("ab cd", 10, 0, 3, 10, TextAlign.center, TextBaseline.top);
+    wasm.fillLayout();
+    wasm.strokeLayout();
+    wasm.fillText(wasm.__allocString("ef"), 0, 0);
+    wasm.commit();
+    expect(ctx.fillText).toHaveBeenNthCalledWith(1, "ab", 9, 0);
+    expect(ctx.fillText).toHaveBeenNthCalledWith(2, "cd", 9, 10);
+    expect(ctx.strokeText).toHaveBeenNthCalledWith(1, "ab", 9, 0);
+    expect(ctx.strokeText).toHaveBeenNthCalledWith(2, "cd", 9, 10);
+    expect(textAligns).toEqual(["left", "left", "right"]);
+  });
+
+  it("should draw the start alignment on the left whatever the direction of the context", () => {
+    const states: string[][] = [];
+    jest.spyOn(ctx, "fillText").mockImplementation(() => states.push([ctx.direction, ctx.textAlign]));
+    wasm.direction(CanvasDirection.rtl);
+    layoutText("ab cde", 10, 0, 3, 10, TextAlign.start, TextBaseline.top);
+    wasm.fillLayout();
+    wasm.commit();
+    expect(ctx.fillText).toHaveBeenNthCalledWith(1, "ab", 10, 0);
+    expect(ctx.fillText).toHaveBeenNthCalledWith(2, "cde", 10, 10);
+    expect(states).toEqual([["rtl", "left"], ["rtl", "left"]]);
+  });
+});
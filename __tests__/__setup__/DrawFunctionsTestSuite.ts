@@ -7,9 +7,14 @@ import {
   CanvasDirection,
   FillRule,
   ImageSmoothingQuality,
+  FontKerning,
+  FontStretch,
+  FontVariantCaps,
+  TextRendering,
  } from "../../src";
 
 export interface IDrawFunctionsTestSuite {
+  addSpan(text: number, font: number, fillStyle: number, strokeStyle: number, underline: 0 | 1, strikethrough: 0 | 1): void;
 
 
   arc(x: number, y: number, r: number, startAngle: number, endAngle: number): void;
@@ -17,19 +22,42 @@ export interface IDrawFunctionsTestSuite {
   arcTo(a: number, b: number, c: number, d: number, e: number): void;
   bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void;
   clearRect(x: number, y: number, width: number, height: number): void;
+  clearTextMetricsCache(): void;
   clip(): void;
+  clipPath(fillRule: FillRule): void;
   closePath(): void;
   commit(): void;
   createImage(): number;
+  createImageData(sw: number, sh: number): void;
+  createMatrix(a: number, b: number, c: number, d: number, e: number, f: number): void;
+  createMatrix3D(): void;
   createPattern(): number;
+  createLayer(width: number, height: number): number;
+  createLayerPattern(): number;
+  setPatternTransform(): void;
+  resetPatternTransform(): void;
+  createPath2D(): number;
+  createConicGradient(startAngle: number, x: number, y: number): number;
   createRadialGradient(x0: number, y0: number, r0: number, x1: number, y1: number, r1: number): number;
   direction(value: CanvasDirection): void;
+  disposeLayer(): void;
+  dispose(): void;
+  disposePath2D(): void;
+  drawFocusIfNeeded(name: number): void;
+  drawFocusIfNeededPath(name: number): void;
+  inspect(label: number): void;
   drawImage(x: number, y: number): void;
   drawImageSize(x: number, y: number, width: number, height: number): void;
   drawImageSource(sx: number, sy: number, sWidth: number, sHeight: number, x: number, y: number, width: number, height: number): void;
+  drawLayer(x: number, y: number): void;
+  drawLayerSource(sx: number, sy: number, sWidth: number, sHeight: number, x: number, y: number, width: number, height: number): void;
+  drawRichText(): void;
   ellipse(x: number, y: number, radiusX: number, radiusY: number, rotation: number, startAngle: number, endAngle: number, anticlockwise: number): void;
   fill(fillRule?: FillRule): void;
   fillGradient(): void;
+  fillImageData(r: number, g: number, b: number, a: number): void;
+  fillLayout(): void;
+  fillPath(fillRule: FillRule): void;
   fillPattern(): void;
   fillRect(x: number, y: number, width: number, height: number): void;
   fillStyle(value: number): void;
@@ -37,34 +65,102 @@ export interface IDrawFunctionsTestSuite {
   fillTextWidth(text: number, x: number, y: number, maxWidth: number): void;
   filter(value: number): void;
   font(value: number): void;
+  fontKerning(value: FontKerning): void;
+  fontStretch(value: FontStretch): void;
+  fontVariantCaps(value: FontVariantCaps): void;
+  letterSpacing(value: number): void;
+  getImageData(sx: number, sy: number, sw: number, sh: number): void;
   globalAlpha(value: number): void;
   globalCompositeOperation(value: GlobalCompositeOperation): void;
+  imageDataHeight(): number;
+  imageDataPixels(): number;
+  imageDataWidth(): number;
   imageNull(): void;
   imageSmoothingEnabled(value: 0 | 1): void;
   imageSmoothingQuality(value: ImageSmoothingQuality): void;
   init(): void;
+  initLayer(): void;
+  inverseTransformPoint(x: number, y: number): number;
+  isPointInPathObject(x: number, y: number, fillRule: FillRule): number;
+  layerCommit(): void;
+  layerFillPath(): void;
+  layerFillRect(x: number, y: number, width: number, height: number): void;
+  layoutBox(): number;
+  layoutLineCount(): number;
+  layoutLineText(index: number): number;
+  layoutLineValues(index: number): number;
+  layoutText(text: number, x: number, y: number, maxWidth: number, lineHeight: number, textAlign: TextAlign, textBaseline: TextBaseline): void;
+  layoutRichText(x: number, y: number, maxWidth: number, lineHeight: number, textAlign: TextAlign, textBaseline: TextBaseline): void;
   lineCap(value: LineCap): void;
   lineDashOffset(value: number): void;
   lineJoin(value: LineJoin): void;
   lineTo(x: number, y: number): void;
   lineWidth(value: number): void;
-  measureText(text: number): void;
+  matrixFlipX(): void;
+  matrixFlipY(): void;
+  matrixInvert(): void;
+  matrixIs2D(): number;
+  matrixIsIdentity(): number;
+  matrixMultiply(a: number, b: number, c: number, d: number, e: number, f: number): void;
+  matrixMultiplyInverse(): void;
+  matrixPreMultiply(a: number, b: number, c: number, d: number, e: number, f: number): void;
+  matrixRotate(angle: number): void;
+  matrixRotate3D(rotX: number, rotY: number, rotZ: number): void;
+  matrixScale(scaleX: number, scaleY: number, originX: number, originY: number): void;
+  matrixScaleUniform(scale: number): void;
+  matrixSkewX(sx: number): void;
+  matrixSkewY(sy: number): void;
+  matrixTransformPoint(x: number, y: number, z: number, w: number): number;
+  matrixTranslate(tx: number, ty: number, tz: number): void;
+  matrixValues(): number;
+  measureText(text: number): number;
+  measureTextBatch(first: number, second: number, font: number): number;
+  measureTextMetrics(text: number): number;
   miterLimit(value: number): void;
   moveTo(x: number, y: number): void;
+  pathAddRect(x: number, y: number, width: number, height: number, e: number, f: number): void;
+  pathClosePath(): void;
+  pathLineTo(x: number, y: number): void;
+  pathMoveTo(x: number, y: number): void;
+  pathRect(x: number, y: number, width: number, height: number): void;
+  putImageData(dx: number, dy: number): void;
+  putImageDataDirty(dx: number, dy: number, dirtyX: number, dirtyY: number, dirtyWidth: number, dirtyHeight: number): void;
   quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void;
   rect(x: number, y: number, width: number, height: number): void;
+  roundRect(x: number, y: number, width: number, height: number, radius: number): void;
+  roundRectRadii(x: number, y: number, width: number, height: number, count: number, a: number, b: number, c: number, d: number): void;
+  roundRectPoints(x: number, y: number, width: number, height: number, count: number, a: number, b: number, c: number, d: number): void;
   restore(): void;
+  reset(): void;
+  isContextLost(): number;
+  getRestoredContext(): number;
+  canvasWidth(): number;
+  canvasHeight(): number;
+  canvasClientWidth(): number;
+  canvasClientHeight(): number;
+  canvasDevicePixelRatio(): number;
+  setCanvasSize(width: number, height: number): void;
+  setLayerSize(width: number, height: number): void;
+  layerClientWidth(): number;
+  getResizedContext(): number;
+  richTextBox(): number;
+  richTextRunCount(): number;
+  richTextRunText(index: number): number;
+  richTextRunValues(index: number): number;
   rotate(angle: number): void;
   save(hard: number): void;
   scale(x: number, y: number): void;
   setLineDash(a: number, b: number, c: number): void;
   setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void;
+  setTransformMatrix(): void;
   shadowBlur(value: number): void;
   shadowColor(value: number): void;
   shadowOffsetX(value: number): void;
   shadowOffsetY(value: number): void;
   stroke(): void;
   strokeGradient(): void;
+  strokeLayout(): void;
+  strokePath(): void;
   strokePattern(): void;
   strokeRect(x: number, y: number, width: number, height: number): void;
   strokeStyle(value: number): void;
@@ -72,6 +168,8 @@ export interface IDrawFunctionsTestSuite {
   strokeTextWidth(text: number, x: number, y: number, maxWidth: number): void;
   textAlign(value: TextAlign): void;
   textBaseline(value: TextBaseline): void;
+  textRendering(value: TextRendering): void;
+  wordSpacing(value: number): void;
   transform(a: number, b: number, c: number, d: number, e: number, f: number): void;
   translate(x: number, y: number): void;
 }
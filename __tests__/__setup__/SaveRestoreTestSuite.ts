@@ -1,14 +1,18 @@
-import { CanvasDirection, GlobalCompositeOperation, ImageSmoothingQuality, LineCap, LineJoin, TextAlign, TextBaseline } from "../../src";
+import { CanvasDirection, FontKerning, FontStretch, FontVariantCaps, GlobalCompositeOperation, ImageSmoothingQuality, LineCap, LineJoin, TextAlign, TextBaseline, TextRendering } from "../../src";
 
 export interface ISaveRestoreTestSuite {
   getDirection(): CanvasDirection;
   getFillStyle(): number;
   getFilter(): number;
   getFont(): number;
+  getFontKerning(): FontKerning;
+  getFontStretch(): FontStretch;
+  getFontVariantCaps(): FontVariantCaps;
   getGlobalAlpha(): number;
   getGlobalCompositeOperation(): GlobalCompositeOperation;
   getImageSmoothingEnabled(): number;
   getImageSmoothingQuality(): ImageSmoothingQuality;
+  getLetterSpacing(): number;
   getLineCap(): LineCap;
   getLineDashOffset(): number;
   getLineJoin(): LineJoin;
@@ -27,10 +31,14 @@ export interface ISaveRestoreTestSuite {
   setFillStyle(value: number): void;
   setFilter(value: number): void;
   setFont(font: number): void;
+  setFontKerning(value: FontKerning): void;
+  setFontStretch(value: FontStretch): void;
+  setFontVariantCaps(value: FontVariantCaps): void;
   setGlobalAlpha(value: number): void;
   setGlobalCompositeOperation(value: GlobalCompositeOperation): void;
   setImageSmoothingEnabled(value: number): void;
   setImageSmoothingQuality(value: ImageSmoothingQuality): void;
+  setLetterSpacing(value: number): void;
   setLineCap(value: LineCap): void;
   setLineDashOffset(value: number): void;
   setLineJoin(value: LineJoin): void;
@@ -47,4 +55,8 @@ export interface ISaveRestoreTestSuite {
   setTextAlign(value: TextAlign): void;
   getTextBaseline(): TextBaseline;
   setTextBaseline(value: TextBaseline): void;
+  getTextRendering(): TextRendering;
+  setTextRendering(value: TextRendering): void;
+  getWordSpacing(): number;
+  setWordSpacing(value: number): void;
 }
@@ -0,0 +1,132 @@
+import { instantiateBuffer, ICanvasSYS, CanvasRenderingContext2DBackend, SoftwareRasterizer } from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+let wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite;
+let ctx: CanvasRenderingContext2D;
+
+beforeEach(() => {
+  wasm = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+  ctx = document.createElement("canvas").getContext("2d")!;
+  wasm.useContext("main", ctx);
+  wasm.init();
+});
+
+describe("createCanvas", () => {
+  it("should create a canvas with the given size", () => {
+    const id = wasm.createLayer(40, 30);
+    const layer = wasm.contexts[id];
+    expect(layer.canvas.width).toBe(40);
+    expect(layer.canvas.height).toBe(30);
+    wasm.layerFillRect(1, 2, 3, 4);
+    wasm.layerCommit();
+    expect(layer.fillRect).toBeCalledWith(1, 2, 3, 4);
+    expect(ctx.fillRect).not.toBeCalled();
+  });
+
+  it("should draw the created canvas into another context", () => {
+    const id = wasm.createLayer(40, 30);
+    wasm.drawLayer(5, 6);
+    wasm.commit();
+    expect(ctx.drawImage).toBeCalledWith(wasm.contexts[id].canvas, 0, 0, 40, 30, 5, 6, 40, 30);
+  });
+
+  it("should use an OffscreenCanvas when it is available", () => {
+    const layer = document.createElement("canvas").getContext("2d")!;
+    const OffscreenCanvas = jest.fn(() => ({ getContext: () => layer }));
+    (global as any).OffscreenCanvas = OffscreenCanvas;
+    try {
+      const id = wasm.createLayer(40, 30);
+      expect(OffscreenCanvas).toBeCalledWith(40, 30);
+      expect(wasm.contexts[id]).toBe(layer);
+    } finally {
+      delete (global as any).OffscreenCanvas;
+    }
+  });
+
+  it("should use the canvas factory", () => {
+    const layer = document.createElement("canvas").getContext("2d")!;
+    const factory = jest.fn(() => layer);
+    wasm.useCanvasFactory(factory);
+    const id = wasm.createLayer(40, 30);
+    expect(factory).toBeCalledWith(40, 30);
+    expect(wasm.contexts[id]).toBe(layer);
+    wasm.layerFillRect(1, 2, 3, 4);
+    wasm.layerCommit();
+    expect(layer.fillRect).toBeCalledWith(1, 2, 3, 4);
+  });
+
+  it("should create a SoftwareRasterizer without a DOM", () => {
+    const descriptor = Object.getOwnPropertyDescriptor(window, "document")!;
+    Object.defineProperty(window, "document", { configurable: true, value: undefined });
+    try {
+      const id = wasm.createLayer(40, 30);
+      expect(wasm.backends[id]).toBeInstanceOf(SoftwareRasterizer);
+      expect(wasm.contexts[id]).toBeUndefined();
+    } finally {
+      Object.defineProperty(window, "document", descriptor);
+    }
+  });
+
+  it("should resize the SoftwareRasterizer of a created canvas without a DOM", () => {
+    const descriptor = Object.getOwnPropertyDescriptor(window, "document")!;
+    Object.defineProperty(window, "document", { configurable: true, value: undefined });
+    try {
+      const id = wasm.createLayer(40, 30);
+      const rasterizer = wasm.backends[id] as SoftwareRasterizer;
+      wasm.setLayerSize(80, 60);
+      expect(rasterizer.width).toBe(80);
+      expect(rasterizer.height).toBe(60);
+      expect(rasterizer.data.length).toBe(80 * 60 * 4);
+      wasm.layerFillRect(60, 40, 10, 10);
+      wasm.layerCommit();
+      expect(rasterizer.data[((45 * 80) + 65) * 4 + 3]).toBe(255);
+    } finally {
+      Object.defineProperty(window, "document", descriptor);
+    }
+  });
+
+  it("should resize the canvas of a render backend provided by the canvas factory", () => {
+    const canvas = document.createElement("canvas");
+    const backend = new CanvasRenderingContext2DBackend(canvas.getContext("2d")!);
+    wasm.useCanvasFactory(() => ({ canvas, backend }));
+    wasm.createLayer(40, 30);
+    wasm.setLayerSize(80, 60);
+    expect(canvas.width).toBe(80);
+    expect(canvas.height).toBe(60);
+  });
+
+  it("should use a render backend provided by the canvas factory", () => {
+    const backend = new SoftwareRasterizer(40, 30);
+    wasm.useCanvasFactory(() => backend);
+    const id = wasm.createLayer(40, 30);
+    expect(wasm.backends[id]).toBe(backend);
+    expect(wasm.contexts[id]).toBeUndefined();
+    const fillRect = jest.spyOn(backend, "fillRect");
+    wasm.layerFillRect(1, 2, 3, 4);
+    wasm.layerCommit();
+    expect(fillRect).toBeCalledWith(1, 2, 3, 4);
+  });
+
+  it("should use a render backend and its canvas provided by the canvas factory", () => {
+    const canvas = document.createElement("canvas");
+    const backend = new CanvasRenderingContext2DBackend(canvas.getContext("2d")!);
+    wasm.useCanvasFactory(() => ({ canvas, backend }));
+    const id = wasm.createLayer(40, 30);
+    expect(wasm.backends[id]).toBe(backend);
+    wasm.drawLayer(5, 6);
+    wasm.commit();
+    expect(ctx.drawImage).toBeCalledWith(canvas, 0, 0, 40, 30, 5, 6, 40, 30);
+    wasm.disposeLayer();
+    expect(wasm.backends[id]).toBeUndefined();
+  });
+
+  it("should release the canvas when the context is disposed", () => {
+    const id = wasm.createLayer(40, 30);
+    wasm.disposeLayer();
+    expect(wasm.contexts[id]).toBeUndefined();
+    expect(wasm.backends[id]).toBeUndefined();
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  instantiateBuffer,
+  ICanvasSYS,
+  CanvasInstruction,
+  FillRule,
+  GlobalCompositeOperation,
+  IResourceResolver,
+  LineCap,
+  TextAlign,
+  disassembleInstructions,
+} from "../src";
+import { readFileSync } from "fs";
+import { ASUtil } from "assemblyscript/lib/loader";
+import { IDrawFunctionsTestSuite } from "./__setup__/DrawFunctionsTestSuite";
+
+const buff = readFileSync("./build/draw-functions.test.wasm");
+
+/**
+ * Encode a list of instructions using the same layout the AssemblyScript Buffer class writes.
+ */
+function encode(...instructions: number[][]): Float64Array {
+  var values: number[] = [];
+  for (const [inst, ...args] of instructions) {
+    values.push(inst, values.length + 2 + args.length, ...args);
+  }
+  values.push(CanvasInstruction.Commit, values.length + 2);
+  return new Float64Array(values);
+}
+
+const resolver: IResourceResolver = {
+  getString: () => "red \"quoted\"",
+  getFloat64Array: () => new Float64Array([1, 2.5]),
+  getUint8ClampedArray: () => new Uint8ClampedArray(16),
+  getImage: (id: number) => (id === 1 ? { width: 4, height: 2 } : undefined) as ImageBitmap,
+  getGradient: (id: number) => (id === 1 ? {} : undefined) as CanvasGradient,
+  getPattern: (id: number) => (id === 1 ? {} : undefined) as CanvasPattern,
+  getPath: (id: number) => (id === 1 ? {} : undefined) as Path2D,
+  getElement: (id: number) => (id === 1 ? {} as Element : null),
+};
+
+describe("disassembleInstructions", () => {
+  it("should list instructions with their index and arguments", () => {
+    expect(disassembleInstructions(encode(
+      [CanvasInstruction.Save],
+      [CanvasInstruction.FillRect, 1, 2.5, 3, 4],
+      [CanvasInstruction.Arc, 1, 2, 3, 0, 1, 1],
+    ), resolver)).toBe([
+      "   0 Save",
+      "   2 FillRect 1, 2.5, 3, 4",
+      "   8 Arc 1, 2, 3, 0, 1, true",
+      "  16 Commit",
+    ].join("\n"));
+  });
+
+  it("should resolve strings, arrays and enums", () => {
+    expect(disassembleInstructions(encode(
+      [CanvasInstruction.FillStyle, 10],
+      [CanvasInstruction.LineDash, 20],
+      [CanvasInstruction.LineCap, LineCap.round],
+      [CanvasInstruction.TextAlign, TextAlign.center],
+      [CanvasInstruction.GlobalCompositeOperation, GlobalCompositeOperation.source_atop],
+      [CanvasInstruction.ImageSmoothingEnabled, 0],
+    ), resolver).split("\n")).toEqual([
+      "   0 FillStyle \"red \\\"quoted\\\"\"",
+      "   3 LineDash [1, 2.5]",
+      "   6 LineCap round",
+      "   9 TextAlign center",
+      "  12 GlobalCompositeOperation source_atop",
+      "  15 ImageSmoothingEnabled false",
+      "  18 Commit",
+    ]);
+  });
+
+  it("should resolve images, gradients and patterns", () => {
+    expect(disassembleInstructions(encode(
+      [CanvasInstruction.DrawImage, 1, 0, 0, 4, 2, 0, 0, 4, 2],
+      [CanvasInstruction.DrawImage, 2, 0, 0, 4, 2, 0, 0, 4, 2],
+      [CanvasInstruction.FillGradient, 1],
+      [CanvasInstruction.StrokeGradient, 2],
+      [CanvasInstruction.FillPattern, 1],
+      [CanvasInstruction.StrokePattern, 2],
+    ), resolver).split("\n")).toEqual([
+      "   0 DrawImage Image#1(4x2), 0, 0, 4, 2, 0, 0, 4, 2",
+      "  11 DrawImage Image#2(missing), 0, 0, 4, 2, 0, 0, 4, 2",
+      "  22 FillGradient CanvasGradient#1",
+      "  25 StrokeGradient CanvasGradient#2(missing)",
+      "  28 FillPattern CanvasPattern#1",
+      "  31 StrokePattern CanvasPattern#2(missing)",
+      "  34 Commit",
+    ]);
+  });
+
+  it("should resolve paths", () => {
+    expect(disassembleInstructions(encode(
+      [CanvasInstruction.FillPath, 1, FillRule.evenodd],
+      [CanvasInstruction.StrokePath, 2],
+      [CanvasInstruction.ClipPath, 1, FillRule.nonzero],
+    ), resolver).split("\n")).toEqual([
+      "   0 FillPath Path2D#1, evenodd",
+      "   4 StrokePath Path2D#2(missing)",
+      "   7 ClipPath Path2D#1, nonzero",
+      "  11 Commit",
+    ]);
+  });
+
+  it("should resolve elements", () => {
+    expect(disassembleInstructions(encode(
+      [CanvasInstruction.DrawFocusIfNeeded, 1],
+      [CanvasInstruction.DrawFocusIfNeededPath, 1, 2],
+    ), resolver).split("\n")).toEqual([
+      "   0 DrawFocusIfNeeded Element#1",
+      "   3 DrawFocusIfNeededPath Path2D#1, Element#2(missing)",
+      "   7 Commit",
+    ]);
+  });
+
+  it("should show the size of pixel arrays", () => {
+    expect(disassembleInstructions(encode(
+      [CanvasInstruction.PutImageData, 8, 2, 2, 0, 0, 0, 0, 2, 2],
+    ), resolver).split("\n")).toEqual([
+      "   0 PutImageData Uint8ClampedArray(16), 2, 2, 0, 0, 0, 0, 2, 2",
+      "  11 Commit",
+    ]);
+  });
+
+  it("should show unknown instructions and enum values as numbers", () => {
+    expect(disassembleInstructions(encode(
+      [1000, 1, 2],
+      [CanvasInstruction.LineCap, 10],
+    ), resolver).split("\n")).toEqual([
+      "   0 Unknown(1000) 1, 2",
+      "   4 LineCap 10",
+      "   7 Commit",
+    ]);
+  });
+
+  it("should stop at invalid indexes", () => {
+    expect(disassembleInstructions(new Float64Array([CanvasInstruction.Save, 0, CanvasInstruction.Restore, 4]), resolver))
+      .toBe("   0 Save");
+  });
+
+  it("should trace the frames committed by the wasm module", () => {
+    const wasm: ASUtil & ICanvasSYS & IDrawFunctionsTestSuite = instantiateBuffer<IDrawFunctionsTestSuite>(buff, {});
+    const ctx = document.createElement("canvas").getContext("2d")!;
+    const trace = jest.fn();
+    const id = wasm.useContext("main", ctx);
+    wasm.useTrace(trace);
+    wasm.init();
+    wasm.fillStyle(wasm.__allocString("#0f0"));
+    wasm.fillRect(0, 0, 10, 10);
+    wasm.commit();
+    expect(trace).toBeCalledTimes(1);
+    expect(trace.mock.calls[0][0]).toBe(id);
+    expect(trace.mock.calls[0][1]).toContain("FillStyle \"#0f0\"");
+    expect(trace.mock.calls[0][1]).toContain("FillRect 0, 0, 10, 10");
+    expect(ctx.fillRect).toBeCalledWith(0, 0, 10, 10);
+
+    wasm.useTrace(null);
+    wasm.fillRect(0, 0, 10, 10);
+    wasm.commit();
+    expect(trace).toBeCalledTimes(1);
+  });
+});
@@ -1,10 +1,11 @@
-import { instantiateBuffer, FillRule } from "../src";
+import { instantiateBuffer, FillRule, CanvasRenderingContext2DBackend } from "../src";
 import { readFileSync } from "fs";
 import { ASUtil } from "assemblyscript/lib/loader";
 import { ICanvasSYS } from "../src/util/ICanvasSYS";
 
 interface IGlueTestSuite {
   addColorStop(): number;
+  addConicGradient(): number;
   addLinearGradient(): number;
   addRadialGradient(): number;
   commit(): void;
@@ -81,6 +82,23 @@ describe("glue code", () => {
     expect(wasm.gradients[id]).toBeTruthy();
   });
 
+  it("should create conicGradients", () => {
+    const gradient = ctx.createLinearGradient(0, 0, 0, 0);
+    const createConicGradient = jest.fn(() => gradient);
+    Object.assign(ctx, { createConicGradient });
+    wasm.useContext("main", ctx);
+    wasm.init();
+    var id: number = wasm.addConicGradient();
+    expect(createConicGradient).toBeCalledWith(0, 100, 100);
+    expect(wasm.gradients[id]).toBe(gradient);
+  });
+
+  it("should throw when the browser does not support conicGradients", () => {
+    wasm.useContext("main", ctx);
+    wasm.init();
+    expect(() => wasm.addConicGradient()).toThrow();
+  });
+
   it("should call addColorStop", () => {
     wasm.useContext("main", ctx);
     wasm.init();
@@ -228,4 +246,25 @@ describe("glue code", () => {
     wasm.isPointInStroke(1, 2);
     expect(ctx.isPointInStroke).toBeCalledWith(1, 2);
   });
+
+  it("should have a useBackend function", () => {
+    expect(wasm.useBackend).toBeInstanceOf(Function);
+  });
+
+  it("should wrap canvas contexts in a backend", () => {
+    var id: number = wasm.useContext("main", ctx);
+    expect(wasm.backends[id]).toBeInstanceOf(CanvasRenderingContext2DBackend);
+  });
+
+  it("should send decoded calls to custom backends", () => {
+    var backend = new CanvasRenderingContext2DBackend(ctx);
+    var spy = jest.spyOn(backend, "isPointInPath");
+    var id: number = wasm.useBackend("main", backend);
+    expect(wasm.backends[id]).toBe(backend);
+    wasm.init();
+    wasm.arc(1, 2, 3, 4, 5, 0);
+    wasm.closePath();
+    wasm.isPointInPath(1, 2, FillRule.evenodd);
+    expect(spy).toBeCalledWith(1, 2, FillRule.evenodd);
+  });
 });
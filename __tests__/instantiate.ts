@@ -13,11 +13,22 @@ WebAssembly.instantiateStreaming = jest.fn(() => ({
     env: { abort() {} },
     __canvas_sys: {
       render() {},
+      createCanvas() {},
       createRadialGradient() {},
+      createConicGradient() {},
       createLinearGradient() {},
       loadImage() {},
       createPattern() {},
+      setPatternTransform() {},
+      createPath2D() {},
+      updatePath2D() {},
+      disposePath2D() {},
+      disposeCanvas() {},
+      setCanvasSize() {},
+      getImageData() {},
+      isPointInPathObject() {},
       measureText() {},
+      measureTextBatch() {},
     }
   }) as any,
 }));
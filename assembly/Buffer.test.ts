@@ -25,3 +25,31 @@ export function writeThreeTimes(): usize {
   buff.writeTest();
   return buff.getBuffer();
 }
+
+export function fillRects(count: i32): void {
+  for (let i = 0; i < count; i++) {
+    ctx.fillStyle = "#" + i.toString();
+    ctx.fillRect(<f64>i, 0, 1, 1);
+  }
+  ctx.commit();
+}
+
+export function saveRestore(count: i32): void {
+  for (let i = 0; i < count; i++) {
+    ctx.save(true);
+    ctx.lineWidth = <f64>(i + 1);
+  }
+  for (let i = 0; i < count; i++) {
+    ctx.strokeRect(0, 0, 1, 1);
+    ctx.restore();
+  }
+  ctx.commit();
+}
+
+export function polyline(count: i32): void {
+  ctx.beginPath();
+  ctx.moveTo(0, 0);
+  for (let i = 1; i < count; i++) ctx.lineTo(<f64>i, <f64>i);
+  ctx.stroke();
+  ctx.commit();
+}
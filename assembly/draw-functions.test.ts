@@ -4,21 +4,43 @@ import {
   CanvasPattern,
   CanvasPatternRepetition,
   CanvasRenderingContext2D,
+  DOMMatrix,
+  DOMPoint,
   FillRule,
+  FontKerning,
+  FontStretch,
+  FontVariantCaps,
   GlobalCompositeOperation,
   Image,
+  ImageData,
   ImageSmoothingQuality,
   LineCap,
   LineJoin,
+  Path2D,
+  RichTextLayout,
   TextAlign,
   TextBaseline,
+  TextLayout,
+  TextRendering,
+  TextSpan,
+  createCanvas,
   getContextById,
+  getElementById,
  } from "./index";
 
 var ctx: CanvasRenderingContext2D;
+var layer: CanvasRenderingContext2D;
 var grd: CanvasGradient;
 var img: Image | null = null;
 var ptrn: CanvasPattern;
+var pth: Path2D;
+var mtx: DOMMatrix = new DOMMatrix();
+var imgData: ImageData;
+var layout: TextLayout;
+var spans: TextSpan[] = new Array<TextSpan>();
+var richText: RichTextLayout;
+var restoredContext: string = "";
+var resizedContext: string = "";
 
 export function arc(x: number, y: number, r: number, startAngle: number, endAngle: number, anticlockwise: bool): void {
   assert(ctx);
@@ -29,6 +51,25 @@ export function init(): void {
   ctx = getContextById("main");
 }
 
+export function initLayer(): void {
+  layer = getContextById("layer");
+}
+
+export function createLayer(width: i32, height: i32): i32 {
+  layer = createCanvas(width, height);
+  return load<i32>(changetype<usize>(layer) + offsetof<CanvasRenderingContext2D>("id"));
+}
+
+export function disposeLayer(): void {
+  assert(layer);
+  layer.dispose();
+}
+
+export function dispose(): void {
+  assert(ctx);
+  ctx.dispose();
+}
+
 export function fillStyle(value: string): void {
   assert(ctx);
   ctx.fillStyle = value;
@@ -94,6 +135,13 @@ export function shadowOffsetX(value: f64): void {
   ctx.shadowOffsetX = value;
 }
 
+export function createConicGradient(startAngle: f64, x: f64, y: f64): i32 {
+  assert(ctx);
+  grd = ctx.createConicGradient(startAngle, x, y);
+  assert(grd);
+  return load<i32>(changetype<usize>(grd) + offsetof<CanvasGradient>("id"));
+}
+
 export function createRadialGradient(x0: f64, y0: f64, r0: f64, x1: f64, y1: f64, r1: f64): i32 {
   assert(ctx);
   grd = ctx.createRadialGradient(x0, y0, r0, x1, y1, r1);
@@ -128,6 +176,23 @@ export function createPattern(): i32 {
   return load<i32>(changetype<usize>(ptrn) + offsetof<CanvasPattern>("id"));
 }
 
+export function createLayerPattern(): i32 {
+  assert(ctx);
+  assert(layer);
+  ptrn = ctx.createPattern(layer.canvas, CanvasPatternRepetition.repeat);
+  return load<i32>(changetype<usize>(ptrn) + offsetof<CanvasPattern>("id"));
+}
+
+export function setPatternTransform(): void {
+  assert(ptrn);
+  ptrn.setTransform(mtx);
+}
+
+export function resetPatternTransform(): void {
+  assert(ptrn);
+  ptrn.setTransform();
+}
+
 export function fillPattern(): void {
   assert(ctx);
   assert(ptrn);
@@ -195,6 +260,23 @@ export function rect(x: f64, y: f64, width: f64, height: f64): void {
   ctx.rect(x, y, width, height);
 }
 
+export function roundRect(x: f64, y: f64, width: f64, height: f64, radius: f64): void {
+  assert(ctx);
+  ctx.roundRect(x, y, width, height, radius);
+}
+
+export function roundRectRadii(x: f64, y: f64, width: f64, height: f64, count: i32, a: f64, b: f64, c: f64, d: f64): void {
+  assert(ctx);
+  var radii: f64[] = [a, b, c, d];
+  ctx.roundRectRadii(x, y, width, height, radii.slice(0, count));
+}
+
+export function roundRectPoints(x: f64, y: f64, width: f64, height: f64, count: i32, a: f64, b: f64, c: f64, d: f64): void {
+  assert(ctx);
+  var radii: DOMPoint[] = [new DOMPoint(a, b), new DOMPoint(c, d)];
+  ctx.roundRectPoints(x, y, width, height, radii.slice(0, count));
+}
+
 export function globalCompositeOperation(operation: GlobalCompositeOperation): void {
   assert(ctx);
   ctx.globalCompositeOperation = operation;
@@ -220,6 +302,34 @@ export function drawImageSource(sx: f64, sy: f64, sWidth: f64, sHeight: f64, dx:
   ctx.drawImageSource(img, sx, sy, sWidth, sHeight, dx, dy, dWidth, dHeight);
 }
 
+export function drawLayer(dx: f64, dy: f64): void {
+  assert(ctx);
+  assert(layer);
+  ctx.drawImage(layer.canvas, dx, dy);
+}
+
+export function drawLayerSource(sx: f64, sy: f64, sWidth: f64, sHeight: f64, dx: f64, dy: f64, dWidth: f64, dHeight: f64): void {
+  assert(ctx);
+  assert(layer);
+  ctx.drawImageSource(layer.canvas, sx, sy, sWidth, sHeight, dx, dy, dWidth, dHeight);
+}
+
+export function layerFillRect(x: f64, y: f64, width: f64, height: f64): void {
+  assert(layer);
+  layer.fillRect(x, y, width, height);
+}
+
+export function layerCommit(): void {
+  assert(layer);
+  layer.commit();
+}
+
+export function layerFillPath(): void {
+  assert(layer);
+  assert(pth);
+  layer.fillPath(pth);
+}
+
 export function fillText(text: string, x: f64, y: f64): void {
   assert(ctx);
   ctx.fillText(text, x, y);
@@ -240,6 +350,26 @@ export function font(value: string): void {
   ctx.font = value;
 }
 
+export function fontKerning(value: FontKerning): void {
+  assert(ctx);
+  ctx.fontKerning = value;
+}
+
+export function fontStretch(value: FontStretch): void {
+  assert(ctx);
+  ctx.fontStretch = value;
+}
+
+export function fontVariantCaps(value: FontVariantCaps): void {
+  assert(ctx);
+  ctx.fontVariantCaps = value;
+}
+
+export function letterSpacing(value: string): void {
+  assert(ctx);
+  ctx.letterSpacing = value;
+}
+
 export function textAlign(value: TextAlign): void {
   assert(ctx);
   ctx.textAlign = value;
@@ -250,9 +380,146 @@ export function textBaseline(value: TextBaseline): void {
   ctx.textBaseline = value;
 }
 
+export function textRendering(value: TextRendering): void {
+  assert(ctx);
+  ctx.textRendering = value;
+}
+
+export function wordSpacing(value: string): void {
+  assert(ctx);
+  ctx.wordSpacing = value;
+}
+
 export function measureText(value: string): f64 {
   assert(ctx);
-  return ctx.measureText(value);
+  var metrics = ctx.measureText(value);
+  return metrics.width;
+}
+
+export function measureTextMetrics(value: string): Float64Array {
+  assert(ctx);
+  var metrics = ctx.measureText(value);
+  var result = new Float64Array(12);
+  unchecked(result[0] = metrics.width);
+  unchecked(result[1] = metrics.actualBoundingBoxLeft);
+  unchecked(result[2] = metrics.actualBoundingBoxRight);
+  unchecked(result[3] = metrics.fontBoundingBoxAscent);
+  unchecked(result[4] = metrics.fontBoundingBoxDescent);
+  unchecked(result[5] = metrics.actualBoundingBoxAscent);
+  unchecked(result[6] = metrics.actualBoundingBoxDescent);
+  unchecked(result[7] = metrics.emHeightAscent);
+  unchecked(result[8] = metrics.emHeightDescent);
+  unchecked(result[9] = metrics.hangingBaseline);
+  unchecked(result[10] = metrics.alphabeticBaseline);
+  unchecked(result[11] = metrics.ideographicBaseline);
+  return result;
+}
+
+export function measureTextBatch(first: string, second: string, font: string): Float64Array {
+  assert(ctx);
+  var metrics = ctx.measureTextBatch([first, second, first], font);
+  var result = new Float64Array(metrics.length);
+  for (let i = 0; i < metrics.length; i++) unchecked(result[i] = metrics[i].width);
+  return result;
+}
+
+export function clearTextMetricsCache(): void {
+  assert(ctx);
+  ctx.clearTextMetricsCache();
+}
+
+export function layoutText(text: string, x: f64, y: f64, maxWidth: f64, lineHeight: f64, textAlign: TextAlign, textBaseline: TextBaseline): void {
+  assert(ctx);
+  layout = new TextLayout(ctx, text, x, y, maxWidth, lineHeight, textAlign, textBaseline);
+}
+
+export function layoutBox(): Float64Array {
+  assert(layout);
+  var result = new Float64Array(4);
+  unchecked(result[0] = layout.x);
+  unchecked(result[1] = layout.y);
+  unchecked(result[2] = layout.width);
+  unchecked(result[3] = layout.height);
+  return result;
+}
+
+export function layoutLineCount(): i32 {
+  assert(layout);
+  return layout.lines.length;
+}
+
+export function layoutLineText(index: i32): string {
+  assert(layout);
+  return layout.lines[index].text;
+}
+
+export function layoutLineValues(index: i32): Float64Array {
+  assert(layout);
+  var line = layout.lines[index];
+  var result = new Float64Array(3);
+  unchecked(result[0] = line.x);
+  unchecked(result[1] = line.y);
+  unchecked(result[2] = line.width);
+  return result;
+}
+
+export function fillLayout(): void {
+  assert(ctx);
+  assert(layout);
+  layout.fill(ctx);
+}
+
+export function strokeLayout(): void {
+  assert(ctx);
+  assert(layout);
+  layout.stroke(ctx);
+}
+
+export function addSpan(text: string, font: string, fillStyle: string | null, strokeStyle: string | null, underline: bool, strikethrough: bool): void {
+  spans.push(new TextSpan(text, font, fillStyle, strokeStyle, underline, strikethrough));
+}
+
+export function layoutRichText(x: f64, y: f64, maxWidth: f64, lineHeight: f64, textAlign: TextAlign, textBaseline: TextBaseline): void {
+  assert(ctx);
+  richText = new RichTextLayout(ctx, spans, x, y, maxWidth, lineHeight, textAlign, textBaseline);
+}
+
+export function richTextBox(): Float64Array {
+  assert(richText);
+  var result = new Float64Array(5);
+  unchecked(result[0] = richText.x);
+  unchecked(result[1] = richText.y);
+  unchecked(result[2] = richText.width);
+  unchecked(result[3] = richText.height);
+  unchecked(result[4] = <f64>richText.lineCount);
+  return result;
+}
+
+export function richTextRunCount(): i32 {
+  assert(richText);
+  return richText.runs.length;
+}
+
+export function richTextRunText(index: i32): string {
+  assert(richText);
+  return richText.runs[index].text;
+}
+
+export function richTextRunValues(index: i32): Float64Array {
+  assert(richText);
+  var run = richText.runs[index];
+  var result = new Float64Array(4);
+  unchecked(result[0] = <f64>run.line);
+  unchecked(result[1] = run.x);
+  unchecked(result[2] = run.y);
+  unchecked(result[3] = run.width);
+  return result;
+}
+
+export function drawRichText(): void {
+  assert(ctx);
+  assert(richText);
+  richText.draw(ctx);
 }
 
 export function lineCap(value: LineCap): void {
@@ -314,6 +581,74 @@ export function restore(): void {
   ctx.restore();
 }
 
+export function reset(): void {
+  assert(ctx);
+  ctx.reset();
+}
+
+export function isContextLost(): bool {
+  assert(ctx);
+  return ctx.isContextLost();
+}
+
+export function contextRestored(name: string): void {
+  restoredContext = name;
+}
+
+export function getRestoredContext(): string {
+  return restoredContext;
+}
+
+export function canvasWidth(): f64 {
+  assert(ctx);
+  return ctx.canvas.width;
+}
+
+export function canvasHeight(): f64 {
+  assert(ctx);
+  return ctx.canvas.height;
+}
+
+export function canvasClientWidth(): f64 {
+  assert(ctx);
+  return ctx.canvas.clientWidth;
+}
+
+export function canvasClientHeight(): f64 {
+  assert(ctx);
+  return ctx.canvas.clientHeight;
+}
+
+export function canvasDevicePixelRatio(): f64 {
+  assert(ctx);
+  return ctx.canvas.devicePixelRatio;
+}
+
+export function setCanvasSize(width: f64, height: f64): void {
+  assert(ctx);
+  ctx.canvas.width = width;
+  ctx.canvas.height = height;
+}
+
+export function setLayerSize(width: f64, height: f64): void {
+  assert(layer);
+  layer.canvas.width = width;
+  layer.canvas.height = height;
+}
+
+export function layerClientWidth(): f64 {
+  assert(layer);
+  return layer.canvas.clientWidth;
+}
+
+export function canvasResized(name: string): void {
+  resizedContext = name;
+}
+
+export function getResizedContext(): string {
+  return resizedContext;
+}
+
 export function imageNull(): void {
   // @ts-ignore
   img = null;
@@ -338,3 +673,241 @@ export function translate(x: f64, y: f64): void {
   assert(ctx);
   ctx.translate(x, y);
 }
+
+export function createPath2D(): i32 {
+  pth = new Path2D();
+  return load<i32>(changetype<usize>(pth) + offsetof<Path2D>("_id"));
+}
+
+export function pathMoveTo(x: f64, y: f64): void {
+  assert(pth);
+  pth.moveTo(x, y);
+}
+
+export function pathLineTo(x: f64, y: f64): void {
+  assert(pth);
+  pth.lineTo(x, y);
+}
+
+export function pathRect(x: f64, y: f64, width: f64, height: f64): void {
+  assert(pth);
+  pth.rect(x, y, width, height);
+}
+
+export function pathClosePath(): void {
+  assert(pth);
+  pth.closePath();
+}
+
+export function pathAddRect(x: f64, y: f64, width: f64, height: f64, e: f64, f: f64): void {
+  assert(pth);
+  var child = new Path2D();
+  child.rect(x, y, width, height);
+  var matrix = new DOMMatrix();
+  matrix.m41 = e;
+  matrix.m42 = f;
+  pth.addPath(child, matrix);
+  child.dispose();
+}
+
+export function disposePath2D(): void {
+  assert(pth);
+  pth.dispose();
+}
+
+export function fillPath(fillRule: FillRule): void {
+  assert(ctx);
+  assert(pth);
+  ctx.fillPath(pth, fillRule);
+}
+
+export function strokePath(): void {
+  assert(ctx);
+  assert(pth);
+  ctx.strokePath(pth);
+}
+
+export function clipPath(fillRule: FillRule): void {
+  assert(ctx);
+  assert(pth);
+  ctx.clipPath(pth, fillRule);
+}
+
+export function drawFocusIfNeeded(name: string): void {
+  assert(ctx);
+  ctx.drawFocusIfNeeded(getElementById(name));
+}
+
+export function drawFocusIfNeededPath(name: string): void {
+  assert(ctx);
+  assert(pth);
+  ctx.drawFocusIfNeededPath(pth, getElementById(name));
+}
+
+export function inspect(label: string): void {
+  assert(ctx);
+  ctx.inspect(label);
+}
+
+export function isPointInPathObject(x: f64, y: f64, fillRule: FillRule): bool {
+  assert(ctx);
+  assert(pth);
+  return ctx.isPointInPathObject(pth, x, y, fillRule);
+}
+
+function pointValues(point: DOMPoint): Float64Array {
+  var result = new Float64Array(4);
+  unchecked(result[0] = point.x);
+  unchecked(result[1] = point.y);
+  unchecked(result[2] = point.z);
+  unchecked(result[3] = point.w);
+  return result;
+}
+
+function matrixOf(a: f64, b: f64, c: f64, d: f64, e: f64, f: f64): DOMMatrix {
+  var values = new Float64Array(6);
+  unchecked(values[0] = a);
+  unchecked(values[1] = b);
+  unchecked(values[2] = c);
+  unchecked(values[3] = d);
+  unchecked(values[4] = e);
+  unchecked(values[5] = f);
+  return DOMMatrix.fromFloat64Array(values);
+}
+
+export function createMatrix(a: f64, b: f64, c: f64, d: f64, e: f64, f: f64): void {
+  mtx = matrixOf(a, b, c, d, e, f);
+}
+
+export function createMatrix3D(): void {
+  var values = new Float64Array(16);
+  for (let i = 0; i < 16; i++) unchecked(values[i] = <f64>((i * 7 + 3) % 11));
+  mtx = DOMMatrix.fromFloat64Array(values);
+}
+
+export function matrixValues(): Float64Array {
+  return mtx.toFloat64Array();
+}
+
+export function matrixIs2D(): bool {
+  return mtx.is2D;
+}
+
+export function matrixIsIdentity(): bool {
+  return mtx.isIdentity;
+}
+
+export function matrixMultiply(a: f64, b: f64, c: f64, d: f64, e: f64, f: f64): void {
+  mtx = mtx.multiply(matrixOf(a, b, c, d, e, f));
+}
+
+export function matrixPreMultiply(a: f64, b: f64, c: f64, d: f64, e: f64, f: f64): void {
+  mtx.preMultiplySelf(matrixOf(a, b, c, d, e, f));
+}
+
+export function matrixMultiplyInverse(): void {
+  mtx = mtx.multiply(mtx.inverse());
+}
+
+export function matrixInvert(): void {
+  mtx.invertSelf();
+}
+
+export function matrixTranslate(tx: f64, ty: f64, tz: f64): void {
+  mtx = mtx.translate(tx, ty, tz);
+}
+
+export function matrixScale(scaleX: f64, scaleY: f64, originX: f64, originY: f64): void {
+  mtx = mtx.scale(scaleX, scaleY, 1.0, originX, originY);
+}
+
+export function matrixScaleUniform(scale: f64): void {
+  mtx = mtx.scale(scale);
+}
+
+export function matrixRotate(angle: f64): void {
+  mtx = mtx.rotate(angle);
+}
+
+export function matrixRotate3D(rotX: f64, rotY: f64, rotZ: f64): void {
+  mtx = mtx.rotate(rotX, rotY, rotZ);
+}
+
+export function matrixSkewX(sx: f64): void {
+  mtx = mtx.skewX(sx);
+}
+
+export function matrixSkewY(sy: f64): void {
+  mtx = mtx.skewY(sy);
+}
+
+export function matrixFlipX(): void {
+  mtx = mtx.flipX();
+}
+
+export function matrixFlipY(): void {
+  mtx = mtx.flipY();
+}
+
+export function matrixTransformPoint(x: f64, y: f64, z: f64, w: f64): Float64Array {
+  var point = new DOMPoint(x, y, z, w);
+  return pointValues(point.matrixTransform(mtx));
+}
+
+export function setTransformMatrix(): void {
+  assert(ctx);
+  ctx.setTransformMatrix(mtx);
+}
+
+export function inverseTransformPoint(x: f64, y: f64): Float64Array {
+  assert(ctx);
+  return pointValues(ctx.getTransform().inverse().transformPoint(new DOMPoint(x, y)));
+}
+
+export function createImageData(sw: i32, sh: i32): void {
+  assert(ctx);
+  imgData = ctx.createImageData(sw, sh);
+}
+
+export function getImageData(sx: i32, sy: i32, sw: i32, sh: i32): void {
+  assert(ctx);
+  imgData = ctx.getImageData(sx, sy, sw, sh);
+}
+
+export function imageDataWidth(): i32 {
+  assert(imgData);
+  return imgData.width;
+}
+
+export function imageDataHeight(): i32 {
+  assert(imgData);
+  return imgData.height;
+}
+
+export function imageDataPixels(): Uint8ClampedArray {
+  assert(imgData);
+  return imgData.data;
+}
+
+export function fillImageData(r: u8, g: u8, b: u8, a: u8): void {
+  assert(imgData);
+  var data = imgData.data;
+  for (let i = 0; i < data.length; i += 4) {
+    unchecked(data[i] = r);
+    unchecked(data[i + 1] = g);
+    unchecked(data[i + 2] = b);
+    unchecked(data[i + 3] = a);
+  }
+}
+
+export function putImageData(dx: i32, dy: i32): void {
+  assert(ctx);
+  assert(imgData);
+  ctx.putImageData(imgData, dx, dy);
+}
+
+export function putImageDataDirty(dx: i32, dy: i32, dirtyX: i32, dirtyY: i32, dirtyWidth: i32, dirtyHeight: i32): void {
+  assert(ctx);
+  assert(imgData);
+  ctx.putImageDataDirty(imgData, dx, dy, dirtyX, dirtyY, dirtyWidth, dirtyHeight);
+}
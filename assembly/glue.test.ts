@@ -31,6 +31,11 @@ export function addColorStop(): void {
   grd.addColorStop(1.0, "blue");
 }
 
+export function addConicGradient(): i32 {
+  grd = ctx.createConicGradient(0, 100, 100);
+  return load<i32>(changetype<usize>(grd) + offsetof<CanvasGradient>("id"));
+}
+
 export function addRadialGradient(): i32 {
   grd = ctx.createRadialGradient(0, 0, 0, 100, 100, 100);
   return load<i32>(changetype<usize>(grd) + offsetof<CanvasGradient>("id"));
@@ -1,4 +1,5 @@
-export  { __use_context } from "./internal/getContext";
+export  { __canvas_resized, __context_lost, __context_restored, __use_context } from "./internal/getContext";
+export { __use_element } from "./internal/getElement";
 export { __image_loaded } from "./renderer/Image";
 
 // @ts-ignore
@@ -2,17 +2,34 @@
 export { Buffer } from "./internal/Buffer";
 export { CanvasDirection } from "../src/shared/CanvasDirection";
 export { CanvasGradient } from "./renderer/CanvasGradient";
+export { CanvasImageSource } from "./renderer/CanvasImageSource";
 export { CanvasInstruction } from "../src/shared/CanvasInstruction";
 export { CanvasPattern } from "./renderer/CanvasPattern";
 export { CanvasPatternRepetition } from "../src/shared/CanvasPatternRepetition";
 export { CanvasRenderingContext2D } from "./renderer/CanvasRenderingContext2D";
 export { DOMMatrix } from "./renderer/DOMMatrix";
+export { DOMPoint } from "./renderer/DOMPoint";
+export { Element } from "./renderer/Element";
 export { FillRule } from "../src/shared/FillRule";
+export { FontKerning } from "../src/shared/FontKerning";
+export { FontStretch } from "../src/shared/FontStretch";
+export { FontVariantCaps } from "../src/shared/FontVariantCaps";
 export { GlobalCompositeOperation } from "../src/shared/GlobalCompositeOperation";
+export { HTMLCanvasElement } from "./renderer/HTMLCanvasElement";
 export { Image } from "./renderer/Image";
+export { ImageData } from "./renderer/ImageData";
 export { ImageSmoothingQuality } from "../src/shared/ImageSmoothingQuality";
 export { LineCap } from "../src/shared/LineCap";
 export { LineJoin } from "../src/shared/LineJoin";
+export { Path2D } from "./renderer/Path2D";
+export { RichTextLayout } from "./renderer/RichTextLayout";
 export { TextAlign } from "../src/shared/TextAlign";
 export { TextBaseline } from "../src/shared/TextBaseline";
-export { getContextById } from "./internal/getContext";
+export { TextLayout } from "./renderer/TextLayout";
+export { TextLine } from "./renderer/TextLine";
+export { TextMetrics } from "./renderer/TextMetrics";
+export { TextRendering } from "../src/shared/TextRendering";
+export { TextRun } from "./renderer/TextRun";
+export { TextSpan } from "./renderer/TextSpan";
+export { createCanvas, getContextById } from "./internal/getContext";
+export { getElementById } from "./internal/getElement";
@@ -1,4 +1,26 @@
 import { STORE } from "./util";
+import { CanvasInstruction } from "../../src/shared/CanvasInstruction";
+
+// @ts-ignore: linked functions can have decorators
+@external("__canvas_sys", "render")
+declare function render(ctxid: i32, data: usize): void;
+
+/**
+ * The default number of values the buffer can hold, and the default number of pointers that can be
+ * retained before the retained pointer list grows.
+ */
+// @ts-ignore: Decorators are valid here
+@inline
+const BUFFER_LENGTH: i32 = 0x10000;
+
+/**
+ * The smallest number of values a buffer can hold. It fits the largest instruction, followed by a
+ * `Flush` instruction.
+ */
+// @ts-ignore: Decorators are valid here
+@inline
+const MIN_BUFFER_LENGTH: i32 = 0x10;
+
 /**
  * The Buffer class is an ArrayBuffer backed data writer that utilizes the internal STORE function
  * provided by AssemblyScript to write data as fast as possible to memory. The generic type
@@ -8,30 +30,87 @@ import { STORE } from "./util";
  * 1. [instruction] `T` - This value is the instruction type cast to a `f64`
  * 2. [nextIndex] `i32` - This value is the pointer to the next instruction index
  * 3. [...args] `f64[]` - These values are the argument values for the instruction
+ *
+ * When the next write would not leave room for a final instruction, the values written so far are
+ * terminated with a `Flush` instruction and sent to the host with `render()`, and the buffer starts
+ * over from position 0. The host renders every partial buffer in order, so a frame can contain any
+ * amount of instructions.
  */
 export class Buffer<T extends i32> {
+  /**
+   * The component's external object id. It initializes to -1, which will never be an actual object
+   * id externally. If it actually returns -1, it will cause the host to error saying it cannot
+   * find the specified canvas context.
+   */
+  protected id: i32 = -1;
+
   /**
    * The buffer property is a reference to an allocated block of memory that contains all the
    * currently written values to the buffer. The browser eventually should obtain a pointer to this
    * block and read the values from it to perform actions.
    */
-  protected _buffer: ArrayBuffer = new ArrayBuffer(0x10000 * sizeof<f64>());
+  protected _buffer: ArrayBuffer;
+
+  /**
+   * The number of values the buffer can hold before it is flushed.
+   */
+  protected _bufferLength: i32;
 
   /**
    * The set of retained pointers that need to be cleaned up after a commit().
    */
-  protected _retained: ArrayBuffer = new ArrayBuffer(0x10000 << alignof<usize>());
+  protected _retained: ArrayBuffer;
+
+  /**
+   * The number of pointers the _retained list can hold before it grows.
+   */
+  protected _retainedLength: i32;
 
   /**
    * The offset into the _retained pointer list.
    */
   protected _retainedOffset: i32 = 0;
 
+  /**
+   * The number of times the buffer was sent to the host. Instructions that were written with an
+   * older generation were already rendered.
+   */
+  protected _generation: i32 = 0;
+
+  /**
+   * Set by the host when the canvas of the context is lost, and cleared when it is restored. The
+   * instructions are discarded instead of being rendered while it is set.
+   */
+  protected _contextLost: bool = false;
+
+  /**
+   * Set when the context is disposed. The buffer no longer holds any value, so every write flushes
+   * it, and flushing a disposed buffer throws.
+   */
+  protected _disposed: bool = false;
+
   /**
    * The offset property is a pointer to the next index that will receive a written value.
    */
   private _offset: i32 = 0;
 
+  /**
+   * Create a buffer. Lengths that are not positive are replaced with the default length.
+   *
+   * @param {i32} bufferLength - The number of values the buffer can hold before it is flushed.
+   * @param {i32} retainedLength - The initial number of pointers that can be retained before the
+   * retained pointer list grows.
+   */
+  constructor(bufferLength: i32 = 0, retainedLength: i32 = 0) {
+    if (bufferLength <= 0) bufferLength = BUFFER_LENGTH;
+    if (retainedLength <= 0) retainedLength = BUFFER_LENGTH;
+    bufferLength = max<i32>(bufferLength, MIN_BUFFER_LENGTH);
+    this._buffer = new ArrayBuffer(bufferLength * sizeof<f64>());
+    this._bufferLength = bufferLength;
+    this._retained = new ArrayBuffer(retainedLength << alignof<usize>());
+    this._retainedLength = retainedLength;
+  }
+
   /**
    * Write a single instruction to the buffer without any parameters. This results in two values
    * written to the buffer.
@@ -40,6 +119,7 @@ export class Buffer<T extends i32> {
    */
   @inline
   protected _writeZero(inst: T): void {
+    this._ensureCapacity(2);
     var buff = changetype<usize>(this._buffer);
     var index: i32 = this._offset;
     var next: i32 = index + 2;
@@ -57,6 +137,7 @@ export class Buffer<T extends i32> {
    */
   @inline
   protected _writeOne(inst: T, a: f64): void {
+    this._ensureCapacity(3);
     var buff = changetype<usize>(this._buffer);
     var index: i32 = this._offset;
     var next: i32 = index + 3;
@@ -76,6 +157,7 @@ export class Buffer<T extends i32> {
    */
   @inline
   protected _writeTwo(inst: T, a: f64, b: f64): void {
+    this._ensureCapacity(4);
     var buff = changetype<usize>(this._buffer);
     var index: i32 = this._offset;
     var next: i32 = index + 4;
@@ -97,6 +179,7 @@ export class Buffer<T extends i32> {
    */
   @inline
   protected _writeThree(inst: T, a: f64, b: f64, c: f64): void {
+    this._ensureCapacity(5);
     var buff = changetype<usize>(this._buffer);
     var index: i32 = this._offset;
     var next: i32 = index + 5;
@@ -120,6 +203,7 @@ export class Buffer<T extends i32> {
    */
   @inline
   protected _writeFour(inst: T, a: f64, b: f64, c: f64, d: f64): void {
+    this._ensureCapacity(6);
     var buff = changetype<usize>(this._buffer);
     var index: i32 = this._offset;
     var next: i32 = index + 6;
@@ -145,6 +229,7 @@ export class Buffer<T extends i32> {
    */
   @inline
   protected _writeFive(inst: T, a: f64, b: f64, c: f64, d: f64, e: f64): void {
+    this._ensureCapacity(7);
     var buff = changetype<usize>(this._buffer);
     var index: i32 = this._offset;
     var next: i32 = index + 7;
@@ -172,6 +257,7 @@ export class Buffer<T extends i32> {
    */
   @inline
   protected _writeSix(inst: T, a: f64, b: f64, c: f64, d: f64, e: f64, f: f64): void {
+    this._ensureCapacity(8);
     var buff = changetype<usize>(this._buffer);
     var index: i32 = this._offset;
     var next: i32 = index + 8;
@@ -202,6 +288,7 @@ export class Buffer<T extends i32> {
    */
   @inline
   protected _writeEight(inst: T, a: f64, b: f64, c: f64, d: f64, e: f64, f: f64, g: f64, h: f64): void {
+    this._ensureCapacity(10);
     var buff = changetype<usize>(this._buffer);
     var index: i32 = this._offset;
     var next: i32 = index + 10;
@@ -235,6 +322,7 @@ export class Buffer<T extends i32> {
    */
   @inline
   protected _writeNine(inst: T, a: f64, b: f64, c: f64, d: f64, e: f64, f: f64, g: f64, h: f64, i: f64): void {
+    this._ensureCapacity(11);
     var buff = changetype<usize>(this._buffer);
     var index: i32 = this._offset;
     var next: i32 = index + 11;
@@ -252,6 +340,72 @@ export class Buffer<T extends i32> {
     this._offset = next;
   }
 
+  /**
+   * Write a single instruction to the buffer with twelve parameters. This results in fourteen
+   * values written to the buffer.
+   *
+   * @param {T} inst - The instruction type to be written to the buffer.
+   * @param {f64} a - The first parameter for the instruction to be written to the buffer.
+   * @param {f64} b - The second parameter for the instruction to be written to the buffer.
+   * @param {f64} c - The third parameter for the instruction to be written to the buffer.
+   * @param {f64} d - The fourth parameter for the instruction to be written to the buffer.
+   * @param {f64} e - The fifth parameter for the instruction to be written to the buffer.
+   * @param {f64} f - The sixth parameter for the instruction to be written to the buffer.
+   * @param {f64} g - The seventh parameter for the instruction to be written to the buffer.
+   * @param {f64} h - The eighth parameter for the instruction to be written to the buffer.
+   * @param {f64} i - The ninth parameter for the instruction to be written to the buffer.
+   * @param {f64} j - The tenth parameter for the instruction to be written to the buffer.
+   * @param {f64} k - The eleventh parameter for the instruction to be written to the buffer.
+   * @param {f64} l - The twelfth parameter for the instruction to be written to the buffer.
+   */
+  @inline
+  protected _writeTwelve(inst: T, a: f64, b: f64, c: f64, d: f64, e: f64, f: f64, g: f64, h: f64, i: f64, j: f64, k: f64, l: f64): void {
+    this._ensureCapacity(14);
+    var buff = changetype<usize>(this._buffer);
+    var index: i32 = this._offset;
+    var next: i32 = index + 14;
+    STORE<f64>(buff, index, <f64>inst);
+    STORE<f64>(buff, index + 1, <f64>next);
+    STORE<f64>(buff, index + 2, a);
+    STORE<f64>(buff, index + 3, b);
+    STORE<f64>(buff, index + 4, c);
+    STORE<f64>(buff, index + 5, d);
+    STORE<f64>(buff, index + 6, e);
+    STORE<f64>(buff, index + 7, f);
+    STORE<f64>(buff, index + 8, g);
+    STORE<f64>(buff, index + 9, h);
+    STORE<f64>(buff, index + 10, i);
+    STORE<f64>(buff, index + 11, j);
+    STORE<f64>(buff, index + 12, k);
+    STORE<f64>(buff, index + 13, l);
+    this._offset = next;
+  }
+
+  /**
+   * Make sure that the given amount of values can be written to the buffer, while leaving room for
+   * the final `Commit` or `Flush` instruction. Otherwise, the buffer is flushed first.
+   *
+   * @param {i32} count - The amount of values that are about to be written.
+   */
+  @inline
+  protected _ensureCapacity(count: i32): void {
+    if (this._offset + count + 2 > this._bufferLength) this._flush();
+  }
+
+  /**
+   * Terminate the buffer with a `Flush` instruction, and let the host render the instructions that
+   * were written so far. Unlike a `Commit` instruction, it does not end the frame.
+   */
+  protected _flush(): void {
+    if (this._disposed) throw new Error("Cannot use a disposed context.");
+    var buff = changetype<usize>(this._buffer);
+    var index: i32 = this._offset;
+    STORE<f64>(buff, index, <f64>CanvasInstruction.Flush);
+    STORE<f64>(buff, index + 1, <f64>(index + 2));
+    if (!this._contextLost) render(this.id, buff);
+    this._resetBuffer();
+  }
+
   /**
    * Reset the buffer back to position 0.
    */
@@ -265,18 +419,50 @@ export class Buffer<T extends i32> {
     }
     // all the pointers are released
     this._retainedOffset = 0;
+    this._generation++;
   }
 
   /**
-   * Retain a pointer in the buffer for later use.
+   * Release the pending pointers and replace the buffer with an empty one, so that any later write
+   * throws instead of reaching the host.
+   */
+  protected _disposeBuffer(): void {
+    this._resetBuffer();
+    this._buffer = new ArrayBuffer(0);
+    this._bufferLength = 0;
+    this._retained = new ArrayBuffer(1 << alignof<usize>());
+    this._retainedLength = 1;
+    this._disposed = true;
+  }
+
+  /**
+   * Retain a pointer in the buffer for later use. It must be called after the instruction that
+   * references the pointer is written, because writing an instruction may flush the buffer and
+   * release every retained pointer.
    *
    * @param {usize} pointer - The pointer to be retained and released after the buffer is reset.
    */
   protected _retain(pointer: usize): void {
     __retain(pointer);
-    var retained = changetype<usize>(this._retained);
     var index = this._retainedOffset;
+    if (index >= this._retainedLength) this._growRetained();
+    var retained = changetype<usize>(this._retained);
     store<usize>(retained + (index << alignof<usize>()), pointer);
     this._retainedOffset = index + 1;
   }
+
+  /**
+   * Double the number of pointers the _retained list can hold.
+   */
+  private _growRetained(): void {
+    var length = this._retainedLength << 1;
+    var retained = new ArrayBuffer(length << alignof<usize>());
+    memory.copy(
+      changetype<usize>(retained),
+      changetype<usize>(this._retained),
+      <usize>this._retainedLength << alignof<usize>(),
+    );
+    this._retained = retained;
+    this._retainedLength = length;
+  }
 }
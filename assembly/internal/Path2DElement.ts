@@ -19,4 +19,8 @@ export class Path2DElement {
   f: f64 = 0;
   g: f64 = 0;
   h: f64 = 0;
+  i: f64 = 0;
+  j: f64 = 0;
+  k: f64 = 0;
+  l: f64 = 0;
 }
\ No newline at end of file
@@ -11,6 +11,18 @@ export class StackPointer<T> {
     return changetype<StackPointer<T>>(ptr);
   }
 
+  /**
+   * Reallocate the block of items that starts at this pointer so that it can hold the given number
+   * of items. The block may move, so every pointer into it must be recalculated from the returned
+   * pointer.
+   *
+   * @param {i32} count - The number of items the block should hold.
+   */
+  resize(count: i32): StackPointer<T> {
+    assert(count > 0);
+    return changetype<StackPointer<T>>(__realloc(changetype<usize>(this), offsetof<T>() * count));
+  }
+
   @inline
   push(): StackPointer<T> {
     let current = changetype<usize>(this);
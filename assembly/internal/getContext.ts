@@ -1,7 +1,61 @@
+import { CanvasImageSource } from "../renderer/CanvasImageSource";
 import { CanvasRenderingContext2D } from "../renderer/CanvasRenderingContext2D";
+import { HTMLCanvasElement } from "../renderer/HTMLCanvasElement";
+
+// @ts-ignore: linked functions can have decorators
+@external("__canvas_sys", "createCanvas")
+declare function createHostCanvas(width: i32, height: i32): i32;
 
 let map = new Map<string, CanvasRenderingContext2D>();
 
+/**
+ * Every context by id, including the contexts created with `createCanvas()`, so the host can notify
+ * them. The contexts are not retained, and they are removed when they are disposed.
+ */
+let ids = new Map<i32, usize>();
+
+/**
+ * The name of every context that was provided by the host, by id.
+ */
+let names = new Map<i32, string>();
+
+/**
+ * Create a context for a host canvas with the given id and size.
+ */
+function createContext(
+  id: i32,
+  bufferLength: i32,
+  retainedLength: i32,
+  pathLength: i32,
+  stackLength: i32,
+  width: i32,
+  height: i32,
+): CanvasRenderingContext2D {
+  var result = new CanvasRenderingContext2D(bufferLength, retainedLength, pathLength, stackLength);
+  store<i32>(changetype<usize>(result) + offsetof<CanvasRenderingContext2D>("id"), id);
+  var canvas = changetype<usize>(result.canvas);
+  store<i32>(canvas + offsetof<CanvasImageSource>("_id"), id);
+  store<i32>(canvas + offsetof<CanvasImageSource>("_width"), width);
+  store<i32>(canvas + offsetof<CanvasImageSource>("_height"), height);
+  ids.set(id, changetype<usize>(result));
+  return result;
+}
+
+/**
+ * Forget the id and the name of a context that is disposed.
+ *
+ * @param {i32} id - The id of the context.
+ */
+export function removeContext(id: i32): void {
+  if (names.has(id)) {
+    let name = names.get(id);
+    // the name may have been given to another context since
+    if (map.has(name) && changetype<usize>(map.get(name)) == ids.get(id)) map.delete(name);
+    names.delete(id);
+  }
+  ids.delete(id);
+}
+
 /**
  * This internal function is exported via the `./assembly/glue.ts` file. It receives an id from the
  * host, and a name. It's responsible for creating a new CanvasRenderingContext2D object, then
@@ -10,11 +64,25 @@ let map = new Map<string, CanvasRenderingContext2D>();
  *
  * @param {string} name - The name of the CanvasRenderingContext2D object
  * @param {i32} id - The unique objectid created by the browser that identifies the context.
+ * @param {i32} bufferLength - The number of values the instruction buffer can hold, or 0.
+ * @param {i32} retainedLength - The initial number of retained pointers, or 0.
+ * @param {i32} pathLength - The initial number of path elements, or 0.
+ * @param {i32} stackLength - The initial number of saved states, or 0.
+ * @param {i32} width - The width of the host canvas, or 0 if the context has no canvas.
+ * @param {i32} height - The height of the host canvas, or 0 if the context has no canvas.
  */
-export function __use_context(name: string, id: i32): void {
-  var result = new CanvasRenderingContext2D();
-  store<i32>(changetype<usize>(result) + offsetof<CanvasRenderingContext2D>("id"), id);
-  map.set(name, result);
+export function __use_context(
+  name: string,
+  id: i32,
+  bufferLength: i32 = 0,
+  retainedLength: i32 = 0,
+  pathLength: i32 = 0,
+  stackLength: i32 = 0,
+  width: i32 = 0,
+  height: i32 = 0,
+): void {
+  map.set(name, createContext(id, bufferLength, retainedLength, pathLength, stackLength, width, height));
+  names.set(id, name);
 }
 
 /**
@@ -26,3 +94,77 @@ export function getContextById(name: string): CanvasRenderingContext2D {
   if (!map.has(name)) throw new Error("Cannot find context with name: " + name);
   return map.get(name);
 }
+
+/**
+ * Create an offscreen canvas with the given size, and obtain its context. The host creates an
+ * `OffscreenCanvas`, or the canvas or backend provided by its canvas factory. The context can be
+ * drawn into other contexts with its `canvas` property, and is released with `dispose()`. The host
+ * does not observe created canvases, so the context is not notified when it is lost, and it is
+ * only resized by setting the size of its `canvas`.
+ *
+ * @param {i32} width - The width of the canvas.
+ * @param {i32} height - The height of the canvas.
+ */
+export function createCanvas(width: i32, height: i32): CanvasRenderingContext2D {
+  var id = createHostCanvas(width, height);
+  return createContext(id, 0, 0, 0, 0, width, height);
+}
+
+/**
+ * This internal function is exported via the `./assembly/glue.ts` file. The host calls it when the
+ * canvas of the named context is lost.
+ *
+ * @param {string} name - The name of the CanvasRenderingContext2D object.
+ */
+export function __context_lost(name: string): void {
+  if (!map.has(name)) throw new Error("Cannot find context with name: " + name);
+  var ctx = map.get(name);
+  store<bool>(changetype<usize>(ctx) + offsetof<CanvasRenderingContext2D>("_contextLost"), true);
+}
+
+/**
+ * This internal function is exported via the `./assembly/glue.ts` file. The host calls it when the
+ * canvas of the named context is restored. The host context was reset to its default state, so the
+ * context is reset as well.
+ *
+ * @param {string} name - The name of the CanvasRenderingContext2D object.
+ */
+export function __context_restored(name: string): void {
+  if (!map.has(name)) throw new Error("Cannot find context with name: " + name);
+  var ctx = map.get(name);
+  store<bool>(changetype<usize>(ctx) + offsetof<CanvasRenderingContext2D>("_contextLost"), false);
+  ctx.reset();
+}
+
+/**
+ * This internal function is exported via the `./assembly/glue.ts` file. The host calls it when the
+ * canvas of a context is resized, including the canvases that are resized by the module. A canvas
+ * that was given a new size is reset by the host, so the context is reset as well.
+ *
+ * @param {i32} id - The id of the CanvasRenderingContext2D object.
+ * @param {i32} width - The width of the canvas in pixels.
+ * @param {i32} height - The height of the canvas in pixels.
+ * @param {f64} clientWidth - The width of the canvas in CSS pixels.
+ * @param {f64} clientHeight - The height of the canvas in CSS pixels.
+ * @param {f64} devicePixelRatio - The ratio of physical pixels to CSS pixels of the display.
+ */
+export function __canvas_resized(
+  id: i32,
+  width: i32,
+  height: i32,
+  clientWidth: f64,
+  clientHeight: f64,
+  devicePixelRatio: f64,
+): void {
+  if (!ids.has(id)) throw new Error("Cannot find context with id: " + id.toString());
+  var ctx = changetype<CanvasRenderingContext2D>(ids.get(id));
+  var canvas = changetype<usize>(ctx.canvas);
+  var resized = load<i32>(canvas + offsetof<CanvasImageSource>("_width")) != width
+    || load<i32>(canvas + offsetof<CanvasImageSource>("_height")) != height;
+  store<i32>(canvas + offsetof<CanvasImageSource>("_width"), width);
+  store<i32>(canvas + offsetof<CanvasImageSource>("_height"), height);
+  store<f64>(canvas + offsetof<HTMLCanvasElement>("_clientWidth"), clientWidth);
+  store<f64>(canvas + offsetof<HTMLCanvasElement>("_clientHeight"), clientHeight);
+  store<f64>(canvas + offsetof<HTMLCanvasElement>("_devicePixelRatio"), devicePixelRatio);
+  if (resized) ctx.reset();
+}
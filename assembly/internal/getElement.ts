@@ -0,0 +1,26 @@
+import { Element } from "../renderer/Element";
+
+let map = new Map<string, Element>();
+
+/**
+ * This internal function is exported via the `./assembly/glue.ts` file. It receives an id from the
+ * host, and a name. It creates an Element that refers to the fallback element, and stores it on the
+ * map object by its name, so that developers can call `getElementById(name)`.
+ *
+ * @param {string} name - The name of the element.
+ * @param {i32} id - The unique id created by the host that identifies the element.
+ */
+export function __use_element(name: string, id: i32): void {
+  map.set(name, new Element(id));
+}
+
+/**
+ * This function is the only way to obtain a named fallback element provided by the JavaScript
+ * host.
+ *
+ * @param {string} name - This is the name of the provided element.
+ */
+export function getElementById(name: string): Element {
+  if (!map.has(name)) throw new Error("Cannot find element with name: " + name);
+  return map.get(name);
+}
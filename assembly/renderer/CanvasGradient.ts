@@ -8,8 +8,8 @@ declare function disposeCanvasGradient(id: i32): void;
 
 /**
  * The CanvasGradient interface represents an opaque object describing a gradient. It is returned
- * by the methods CanvasRenderingContext2D.createLinearGradient() or
- * CanvasRenderingContext2D.createRadialGradient().
+ * by the methods CanvasRenderingContext2D.createConicGradient(),
+ * CanvasRenderingContext2D.createLinearGradient() or CanvasRenderingContext2D.createRadialGradient().
  *
  * It can be used as a fillGradient or strokeGradient.
  */
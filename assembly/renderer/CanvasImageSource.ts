@@ -0,0 +1,37 @@
+/**
+ * A CanvasImageSource is anything that can be drawn with `drawImage()` or repeated with
+ * `createPattern()`. The host resolves the external id of the source into the value it draws,
+ * which is either a loaded `Image`, or the `HTMLCanvasElement` of another context.
+ */
+export class CanvasImageSource {
+  protected _id: i32 = -1;
+  protected _width: i32 = 0;
+  protected _height: i32 = 0;
+  protected _loaded: bool = false;
+
+  @inline
+  public get width(): number {
+    return this._width;
+  }
+
+  @inline
+  public get height(): number {
+    return this._height;
+  }
+
+  @inline
+  public get loaded(): bool {
+    return this._loaded;
+  }
+}
+
+/**
+ * Gets the image source's external id.
+ *
+ * @param source - The target image source.
+ */
+// @ts-ignore: @inline is valid on regular functions
+@inline
+export function getImageSourceID(source: CanvasImageSource): i32 {
+  return load<i32>(changetype<usize>(source) + offsetof<CanvasImageSource>("_id"));
+}
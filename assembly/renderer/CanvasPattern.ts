@@ -1,7 +1,13 @@
+import { DOMMatrix } from "./DOMMatrix";
+
 // @ts-ignore
 @external("__canvas_sys", "disposeCanvasPattern")
 declare function disposeCanvasPattern(id: i32): void;
 
+// @ts-ignore
+@external("__canvas_sys", "setPatternTransform")
+declare function setPatternTransform(id: i32, a: f64, b: f64, c: f64, d: f64, e: f64, f: f64): void;
+
 /**
  * The CanvasPattern interface represents an opaque object describing a pattern, based on an image,
  * a canvas, or a video, created by the CanvasRenderingContext2D.createPattern() method.
@@ -9,6 +15,33 @@ declare function disposeCanvasPattern(id: i32): void;
 export class CanvasPattern {
   private id: i32 = -1;
 
+  /**
+   * The CanvasPattern.setTransform() method uses a DOMMatrix object as the pattern's
+   * transformation matrix, which is applied on top of the current transform of the context when
+   * the pattern is drawn. The transform is applied to the host pattern right away, so commit the
+   * context first if pending instructions should be drawn with the previous transform.
+   *
+   * @param {DOMMatrix | null} transform - The transformation matrix of the pattern. The identity
+   * matrix is used when it is null.
+   */
+  public setTransform(transform: DOMMatrix | null = null): void {
+    var a: f64 = 1.0;
+    var b: f64 = 0.0;
+    var c: f64 = 0.0;
+    var d: f64 = 1.0;
+    var e: f64 = 0.0;
+    var f: f64 = 0.0;
+    if (transform) {
+      a = transform.m11;
+      b = transform.m12;
+      c = transform.m21;
+      d = transform.m22;
+      e = transform.m41;
+      f = transform.m42;
+    }
+    if (!isFinite(a + b + c + d + e + f)) return;
+    setPatternTransform(this.id, a, b, c, d, e, f);
+  }
 
   /**
    * This method frees the CanvasPattern from the host's pattern index.
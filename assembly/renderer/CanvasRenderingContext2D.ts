@@ -1,29 +1,44 @@
 import { CanvasInstruction } from "../../src/shared/CanvasInstruction";
 import { Buffer } from "../internal/Buffer";
 import { DOMMatrix } from "./DOMMatrix";
+import { DOMPoint } from "./DOMPoint";
+import { Element } from "./Element";
 import { CanvasDirection } from "../../src/shared/CanvasDirection";
 import { CanvasPattern } from "./CanvasPattern";
 import { CanvasGradient } from "./CanvasGradient";
-import { Image, getImageID } from "./Image";
+import { CanvasImageSource, getImageSourceID } from "./CanvasImageSource";
 import { CanvasPatternRepetition } from "../../src/shared/CanvasPatternRepetition";
+import { FontKerning } from "../../src/shared/FontKerning";
+import { FontStretch } from "../../src/shared/FontStretch";
+import { FontVariantCaps } from "../../src/shared/FontVariantCaps";
 import { GlobalCompositeOperation } from "../../src/shared/GlobalCompositeOperation";
 import { ImageSmoothingQuality } from "../../src/shared/ImageSmoothingQuality";
 import { LineCap } from "../../src/shared/LineCap";
 import { LineJoin } from "../../src/shared/LineJoin";
 import { TextAlign } from "../../src/shared/TextAlign";
 import { TextBaseline } from "../../src/shared/TextBaseline";
+import { TextRendering } from "../../src/shared/TextRendering";
 import { arraysEqual } from "../internal/util";
 import { Path2DElement } from "../internal/Path2DElement";
+import { Path2D, getPath2DGenerations, getPath2DHolders, isPath2DDirty, sendPath2D } from "./Path2D";
+import { HTMLCanvasElement } from "./HTMLCanvasElement";
+import { ImageData } from "./ImageData";
+import { TextMetrics } from "./TextMetrics";
 import { FillRule } from "../../src/shared/FillRule";
 import { STORE, LOAD } from "../internal/util";
 import { StackPointer } from "../internal/StackPointer";
 import { CanvasStack } from "./CanvasStack";
 import { FillStrokeStyleType } from "../internal/FillStrokeStyleType";
+import { removeContext } from "../internal/getContext";
 
 // @ts-ignore: linked functions can have decorators
 @external("__canvas_sys", "render")
 declare function render(ctxid: i32, data: usize): void;
 
+// @ts-ignore: linked functions can have decorators
+@external("__canvas_sys", "createConicGradient")
+declare function createConicGradient(id: i32, startAngle: f64, x: f64, y: f64): i32;
+
 // @ts-ignore: linked functions can have decorators
 @external("__canvas_sys", "createLinearGradient")
 declare function createLinearGradient(id: i32, x0: f64, y0: f64, x1: f64, y1: f64): i32;
@@ -38,21 +53,54 @@ declare function createPattern(ctxid: i32, imageid: i32, repetition: CanvasPatte
 
 // @ts-ignore: linked functions can have decorators
 @external("__canvas_sys", "measureText")
-declare function measureText(id: i32, text: string): f64;
+declare function measureText(id: i32, text: string, metrics: TextMetrics): void;
+
+// @ts-ignore: linked functions can have decorators
+@external("__canvas_sys", "measureTextBatch")
+declare function measureTextBatch(
+  id: i32,
+  font: string,
+  letterSpacing: string,
+  wordSpacing: string,
+  fontKerning: FontKerning,
+  fontStretch: FontStretch,
+  fontVariantCaps: FontVariantCaps,
+  textRendering: TextRendering,
+  texts: string[],
+  metrics: TextMetrics[]
+): void;
+
+// @ts-ignore: linked functions can have decorators
+@external("__canvas_sys", "getImageData")
+declare function getImageData(id: i32, sx: i32, sy: i32, sw: i32, sh: i32, data: Uint8ClampedArray): void;
 
 // @ts-ignore: linked functions can have decorators
 @external("__canvas_sys", "isPointInPath")
 declare function isPointInPath(id: i32, x: f64, y: f64, fillRule: FillRule): bool;
 
+// @ts-ignore: linked functions can have decorators
+@external("__canvas_sys", "isPointInPathObject")
+declare function isPointInPathObject(id: i32, pathid: i32, x: f64, y: f64, fillRule: FillRule): bool;
+
 // @ts-ignore: linked functions can have decorators
 @external("__canvas_sys", "isPointInStroke")
 declare function isPointInStroke(id: i32, x: f64, y: f64): bool;
+
+// @ts-ignore: linked functions can have decorators
+@external("__canvas_sys", "disposeCanvas")
+declare function disposeCanvas(id: i32): void;
 var defaultBlack: string = "#000";
 var defaultNone: string = "none";
 var defaultFont: string = "10px sans-serif";
 var defaultShadowColor: string = "rgba(0, 0, 0, 0)";
+var defaultSpacing: string = "0px";
 var defaultLineDash: Float64Array = new Float64Array(0);
 
+/**
+ * The number of metrics `measureTextBatch()` caches before the cache is emptied.
+ */
+const TEXT_METRICS_CACHE_LENGTH: i32 = 0x1000;
+
 //#region ARRAYBUFFERINITIALIZER
 /**
  * Utility function for setting the given ArrayBuffer to the identity 2d transform matrix inline.
@@ -82,12 +130,18 @@ function initializeStackPointer(pointer: StackPointer<CanvasStack>): StackPointe
   __retain(changetype<usize>(defaultNone));
   stack.font = defaultFont;
   __retain(changetype<usize>(defaultFont));
+  stack.fontKerning = FontKerning.auto;
+  stack.fontStretch = FontStretch.normal;
+  stack.fontVariantCaps = FontVariantCaps.normal;
   stack.globalAlpha = 1.0;
   stack.globalCompositeOperation = GlobalCompositeOperation.source_over;
   stack.imageSmoothingEnabled = true;
   stack.imageSmoothingQuality = ImageSmoothingQuality.low;
+  stack.letterSpacing = defaultSpacing;
+  __retain(changetype<usize>(defaultSpacing));
   stack.lineCap = LineCap.butt;
   stack.lineDash = defaultLineDash;
+  __retain(changetype<usize>(defaultLineDash));
   stack.lineJoin = LineJoin.miter;
   stack.lineWidth = 1.0;
   stack.miterLimit = 10.0;
@@ -96,13 +150,30 @@ function initializeStackPointer(pointer: StackPointer<CanvasStack>): StackPointe
   stack.strokeStyleString = defaultBlack;
   __retain(changetype<usize>(defaultBlack));
   __retain(changetype<usize>(defaultShadowColor));
+  stack.textRendering = TextRendering.auto;
+  stack.wordSpacing = defaultSpacing;
+  __retain(changetype<usize>(defaultSpacing));
   return pointer;
 }
 
 
+/**
+ * The default number of path elements that can be written before the path element pool grows.
+ */
+// @ts-ignore: Decorators are valid here
+@inline
+const PATH_LENGTH: i32 = 0x1000;
+
+/**
+ * The default number of states that can be saved before the state stack grows.
+ */
+// @ts-ignore: Decorators are valid here
+@inline
+const STACK_LENGTH: i32 = 0xFF;
+
 /** The path element initializer. */
-function createPathElements(): StackPointer<Path2DElement> {
-  let pointer = StackPointer.create<Path2DElement>(0x1000);
+function createPathElements(count: i32): StackPointer<Path2DElement> {
+  let pointer = StackPointer.create<Path2DElement>(count);
   let reference = pointer.reference();
   reference.instruction = CanvasInstruction.BeginPath;
   reference.count = 0;
@@ -121,17 +192,100 @@ function createPathElements(): StackPointer<Path2DElement> {
 @sealed
 export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
   /**
-   * The component's external object id. It initializes to -1, which will never be an actual object
-   * id externally. If it actually returns -1, it will cause the host to error saying it cannot
-   * find the specified canvas context.
+   * The virutal stack index offset that keeps track of the number of `save()` and `restore()`
+   * stack states.
    */
-  private id: i32 = -1;
+  private _stackOffset: i32 = 0;
 
   /**
-   * The virutal stack index offset that keeps track of the number of `save()` and `restore()`
-   * stack states.
+   * The number of states the stack can hold before it grows.
    */
-  private _stackOffset: u8 = <u8>0;
+  private _stackLength: i32;
+
+  /**
+   * Create a context. Lengths that are not positive are replaced with the default length. Every
+   * length is an initial size, and grows on demand.
+   *
+   * @param {i32} bufferLength - The number of values the instruction buffer can hold before it is
+   * flushed to the host.
+   * @param {i32} retainedLength - The number of pointers that can be retained until the next
+   * commit.
+   * @param {i32} pathLength - The number of path elements the current path can hold.
+   * @param {i32} stackLength - The number of states the `save()` stack can hold.
+   */
+  constructor(
+    bufferLength: i32 = 0,
+    retainedLength: i32 = 0,
+    pathLength: i32 = 0,
+    stackLength: i32 = 0,
+  ) {
+    super(bufferLength, retainedLength);
+    this._canvas = new HTMLCanvasElement(changetype<usize>(this));
+    if (pathLength <= 0) pathLength = PATH_LENGTH;
+    if (stackLength <= 0) stackLength = STACK_LENGTH;
+    // the first path element is the BeginPath instruction
+    pathLength = max<i32>(pathLength, 2);
+    this._stack = initializeStackPointer(StackPointer.create<CanvasStack>(stackLength));
+    this._stackLength = stackLength;
+    var pathStart = createPathElements(pathLength);
+    this._pathStart = pathStart;
+    this._path = pathStart.increment();
+    this._pathCurrent = pathStart;
+    this._pathEnd = changetype<StackPointer<Path2DElement>>(
+      changetype<usize>(pathStart) + offsetof<Path2DElement>() * pathLength,
+    );
+  }
+
+  //#region CANVAS
+  /**
+   * The host canvas of the context. Its id is the id of the context.
+   */
+  private _canvas: HTMLCanvasElement;
+
+  /**
+   * The CanvasRenderingContext2D.canvas property, part of the Canvas API, is a reference to the
+   * HTMLCanvasElement object that is associated with the context. It can be passed to
+   * `drawImage()` or `createPattern()` of another context, and it holds the size of the canvas.
+   */
+  public get canvas(): HTMLCanvasElement {
+    return this._canvas;
+  }
+  //#endregion CANVAS
+
+  //#region CREATECONICGRADIENT
+  /**
+   * The CanvasRenderingContext2D.createConicGradient() method of the Canvas 2D API creates a
+   * gradient around a point with given coordinates. The color stops are placed clockwise around the
+   * point, starting at the given angle.
+   *
+   * @param {f64} startAngle - The angle at which to begin the gradient, in radians. The angle
+   * starts from a line going horizontally right from the center, and proceeds clockwise.
+   * @param {f64} x - The x-axis coordinate of the center of the gradient.
+   * @param {f64} y - The y-axis coordinate of the center of the gradient.
+   */
+  public createConicGradient(startAngle: f64, x: f64, y: f64): CanvasGradient {
+    var id: i32 = createConicGradient(this.id, startAngle, x, y);
+    var result: CanvasGradient = new CanvasGradient();
+    store<i32>(changetype<usize>(result), id, offsetof<CanvasGradient>("id"));
+    return result;
+  }
+  //#endregion CREATECONICGRADIENT
+
+  //#region CREATEIMAGEDATA
+  /**
+   * The CanvasRenderingContext2D.createImageData() method of the Canvas 2D API creates a new, blank
+   * ImageData object with the specified dimensions. All of the pixels in the new object are
+   * transparent black.
+   *
+   * @param {i32} sw - The width to give the new ImageData object. A negative value flips the
+   * rectangle around the vertical axis.
+   * @param {i32} sh - The height to give the new ImageData object. A negative value flips the
+   * rectangle around the horizontal axis.
+   */
+  public createImageData(sw: i32, sh: i32): ImageData {
+    return new ImageData(abs<i32>(sw), abs<i32>(sh));
+  }
+  //#endregion CREATEIMAGEDATA
 
   //#region CREATELINEARGRADIENT
   /**
@@ -171,7 +325,7 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
   }
   //#endregion CREATERADIALGRADIENT
 
-  private _stack: StackPointer<CanvasStack> = initializeStackPointer(StackPointer.create<CanvasStack>(0xFF));
+  private _stack: StackPointer<CanvasStack>;
 
   //#region TRANSFORM
 
@@ -374,8 +528,8 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
       if (styleType == FillStrokeStyleType.String) inst = CanvasInstruction.FillStyle;
       else if (styleType == FillStrokeStyleType.CanvasGradient) inst = CanvasInstruction.FillGradient;
       else inst = CanvasInstruction.FillPattern;
-      super._retain(pointer);
       super._writeOne(inst, <f64>value);
+      super._retain(pointer);
     }
   }
   //#endregion FILLSTYLE
@@ -437,12 +591,13 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
    * The CanvasRenderingContext2D.createPattern() method of the Canvas 2D API creates a pattern
    * using the specified image and repetition.
    *
-   * @param {Image} img - A CanvasImageSource to be used as the pattern's Image.
+   * @param {CanvasImageSource} img - A CanvasImageSource to be used as the pattern's Image, like an
+   * Image or the canvas of another context.
    * @param {CanvasPatternRepetition} repetition - An enum value indicating how to repeat the pattern's image.
    */
-  public createPattern(img: Image, repetition: CanvasPatternRepetition): CanvasPattern {
+  public createPattern(img: CanvasImageSource, repetition: CanvasPatternRepetition): CanvasPattern {
     var result = new CanvasPattern();
-    var id: i32 = load<i32>(changetype<usize>(img), offsetof<Image>("_id"));
+    var id: i32 = getImageSourceID(img);
     store<i32>(changetype<usize>(result), createPattern(this.id, id, repetition), offsetof<CanvasPattern>("id"));
     return result;
   }
@@ -480,8 +635,8 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     var value: string = this._stack.reference().filter;
     if (value != this._currentFilter) {
       this._currentFilter = value;
-      super._retain(changetype<usize>(value));
       super._writeOne(CanvasInstruction.Filter, changetype<usize>(value));
+      super._retain(changetype<usize>(value));
     }
   }
   //#endregion FILTER
@@ -517,12 +672,111 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     var value: string = this._stack.reference().font;
     if (value != this._currentFont) {
       this._currentFont = value;
-      super._retain(changetype<usize>(value));
       super._writeOne(CanvasInstruction.Font, changetype<usize>(value));
+      super._retain(changetype<usize>(value));
     }
   }
   //#endregion FONT
 
+  //#region FONTKERNING
+  /**
+   * A private member that contains a single FontKerning value that represents the last
+   * fontKerning value written by a drawing operation.
+   */
+  private _currentFontKerning: FontKerning = FontKerning.auto;
+
+  /**
+   * The CanvasRenderingContext2D.fontKerning property of the Canvas 2D API specifies how the
+   * kerning information stored in a font is used.
+   */
+  public get fontKerning(): FontKerning {
+    return this._stack.reference().fontKerning;
+  }
+
+  public set fontKerning(value: FontKerning) {
+    this._stack.reference().fontKerning = value;
+  }
+
+  /**
+   * An internal function that writes the current fontKerning value on the stack to the buffer if it
+   * currently does not match the last written fontKerning value.
+   */
+  @inline
+  private _updateFontKerning(): void {
+    var value: FontKerning = this._stack.reference().fontKerning;
+    if (value != this._currentFontKerning) {
+      this._currentFontKerning = value;
+      super._writeOne(CanvasInstruction.FontKerning, <f64>value);
+    }
+  }
+  //#endregion FONTKERNING
+
+  //#region FONTSTRETCH
+  /**
+   * A private member that contains a single FontStretch value that represents the last
+   * fontStretch value written by a drawing operation.
+   */
+  private _currentFontStretch: FontStretch = FontStretch.normal;
+
+  /**
+   * The CanvasRenderingContext2D.fontStretch property of the Canvas 2D API specifies how the font
+   * may be expanded or condensed when drawing text.
+   */
+  public get fontStretch(): FontStretch {
+    return this._stack.reference().fontStretch;
+  }
+
+  public set fontStretch(value: FontStretch) {
+    this._stack.reference().fontStretch = value;
+  }
+
+  /**
+   * An internal function that writes the current fontStretch value on the stack to the buffer if it
+   * currently does not match the last written fontStretch value.
+   */
+  @inline
+  private _updateFontStretch(): void {
+    var value: FontStretch = this._stack.reference().fontStretch;
+    if (value != this._currentFontStretch) {
+      this._currentFontStretch = value;
+      super._writeOne(CanvasInstruction.FontStretch, <f64>value);
+    }
+  }
+  //#endregion FONTSTRETCH
+
+  //#region FONTVARIANTCAPS
+  /**
+   * A private member that contains a single FontVariantCaps value that represents the last
+   * fontVariantCaps value written by a drawing operation.
+   */
+  private _currentFontVariantCaps: FontVariantCaps = FontVariantCaps.normal;
+
+  /**
+   * The CanvasRenderingContext2D.fontVariantCaps property of the Canvas 2D API specifies an
+   * alternative capitalization of the rendered text.
+   */
+  public get fontVariantCaps(): FontVariantCaps {
+    return this._stack.reference().fontVariantCaps;
+  }
+
+  public set fontVariantCaps(value: FontVariantCaps) {
+    this._stack.reference().fontVariantCaps = value;
+  }
+
+  /**
+   * An internal function that writes the current fontVariantCaps value on the stack to the buffer
+   * if it currently does not match the last written fontVariantCaps value.
+   */
+  @inline
+  private _updateFontVariantCaps(): void {
+    var value: FontVariantCaps = this._stack.reference().fontVariantCaps;
+    if (value != this._currentFontVariantCaps) {
+      this._currentFontVariantCaps = value;
+      super._writeOne(CanvasInstruction.FontVariantCaps, <f64>value);
+    }
+  }
+  //#endregion FONTVARIANTCAPS
+
   //#region GLOBALALPHA
   /**
    * A private member that contains a single float value that represents the last globalAlpha value
@@ -666,6 +920,44 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
   }
   //#endregion IMAGESMOOTHINGQUALITY
 
+  //#region LETTERSPACING
+  /**
+   * A private member that contains a single string value that represents the last
+   * letterSpacing value written by a drawing operation.
+   */
+  private _currentLetterSpacing: string = defaultSpacing;
+
+  /**
+   * The CanvasRenderingContext2D.letterSpacing property of the Canvas 2D API specifies the spacing
+   * between letters when drawing text. This string uses the same syntax as a CSS length, like
+   * "2px".
+   */
+  public get letterSpacing(): string {
+    return this._stack.reference().letterSpacing;
+  }
+
+  public set letterSpacing(value: string) {
+    let stack = this._stack.reference();
+    __retain(changetype<usize>(value));
+    __release(changetype<usize>(stack.letterSpacing));
+    stack.letterSpacing = value;
+  }
+
+  /**
+   * An internal function that writes the current letterSpacing value on the stack to the buffer if
+   * it currently does not match the last written letterSpacing string value.
+   */
+  @inline
+  private _updateLetterSpacing(): void {
+    var value: string = this._stack.reference().letterSpacing;
+    if (value != this._currentLetterSpacing) {
+      this._currentLetterSpacing = value;
+      super._writeOne(CanvasInstruction.LetterSpacing, changetype<usize>(value));
+      super._retain(changetype<usize>(value));
+    }
+  }
+  //#endregion LETTERSPACING
+
   //#region LINECAP
   /**
    * A private member that contains a single LineCap value that represents the last
@@ -753,8 +1045,8 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     if (!arraysEqual(current, lineDash)) {
       this._currentLineDash = lineDash;
       let pointer = changetype<usize>(lineDash);
-      super._retain(pointer);
       super._writeOne(CanvasInstruction.LineDash, <f64>pointer);
+      super._retain(pointer);
     }
   }
   //#endregion LINEDASH
@@ -970,8 +1262,8 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     var value: string = this._stack.reference().shadowColor;
     if (value != this._currentShadowColor) {
       this._currentFilter = value;
-      super._retain(changetype<usize>(value));
       super._writeOne(CanvasInstruction.ShadowColor, changetype<usize>(value));
+      super._retain(changetype<usize>(value));
     }
   }
   //#endregion
@@ -1123,8 +1415,8 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
       if (styleType == FillStrokeStyleType.String) inst = CanvasInstruction.StrokeStyle;
       else if (styleType == FillStrokeStyleType.CanvasGradient) inst = CanvasInstruction.StrokeGradient;
       else inst = CanvasInstruction.StrokePattern;
-      super._retain(pointer);
       super._writeOne(inst, <f64>value);
+      super._retain(pointer);
     }
   }
   //#endregion STROKESTYLE
@@ -1250,6 +1542,76 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
   }
   //#endregion TEXTBASELINE
 
+  //#region TEXTRENDERING
+  /**
+   * A private member that contains a single TextRendering value that represents the last
+   * textRendering value written by a drawing operation.
+   */
+  private _currentTextRendering: TextRendering = TextRendering.auto;
+
+  /**
+   * The CanvasRenderingContext2D.textRendering property of the Canvas 2D API tells the rendering
+   * engine what to optimize for when drawing text.
+   */
+  public get textRendering(): TextRendering {
+    return this._stack.reference().textRendering;
+  }
+
+  public set textRendering(value: TextRendering) {
+    this._stack.reference().textRendering = value;
+  }
+
+  /**
+   * An internal function that writes the current textRendering value on the stack to the buffer if
+   * it currently does not match the last written textRendering value.
+   */
+  @inline
+  private _updateTextRendering(): void {
+    var value: TextRendering = this._stack.reference().textRendering;
+    if (value != this._currentTextRendering) {
+      this._currentTextRendering = value;
+      super._writeOne(CanvasInstruction.TextRendering, <f64>value);
+    }
+  }
+  //#endregion TEXTRENDERING
+
+  //#region WORDSPACING
+  /**
+   * A private member that contains a single string value that represents the last
+   * wordSpacing value written by a drawing operation.
+   */
+  private _currentWordSpacing: string = defaultSpacing;
+
+  /**
+   * The CanvasRenderingContext2D.wordSpacing property of the Canvas 2D API specifies the spacing
+   * between words when drawing text. This string uses the same syntax as a CSS length, like "2px".
+   */
+  public get wordSpacing(): string {
+    return this._stack.reference().wordSpacing;
+  }
+
+  public set wordSpacing(value: string) {
+    let stack = this._stack.reference();
+    __retain(changetype<usize>(value));
+    __release(changetype<usize>(stack.wordSpacing));
+    stack.wordSpacing = value;
+  }
+
+  /**
+   * An internal function that writes the current wordSpacing value on the stack to the buffer if
+   * it currently does not match the last written wordSpacing string value.
+   */
+  @inline
+  private _updateWordSpacing(): void {
+    var value: string = this._stack.reference().wordSpacing;
+    if (value != this._currentWordSpacing) {
+      this._currentWordSpacing = value;
+      super._writeOne(CanvasInstruction.WordSpacing, changetype<usize>(value));
+      super._retain(changetype<usize>(value));
+    }
+  }
+  //#endregion WORDSPACING
+
   //#region SAVE
   /**
    * The CanvasRenderingContext2D.save() method of the Canvas 2D API saves the entire state of the
@@ -1260,14 +1622,14 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
    * - The current transformation matrix.
    * - The current clipping region.
    * - The current dash list.
-   * - The current values of the following attributes: strokeStyle, fillStyle, globalAlpha, lineWidth, lineCap, lineJoin, miterLimit, lineDashOffset, shadowOffsetX, shadowOffsetY, shadowBlur, shadowColor, globalCompositeOperation, font, textAlign, textBaseline, direction, imageSmoothingEnabled.
+   * - The current values of the following attributes: strokeStyle, fillStyle, globalAlpha, lineWidth, lineCap, lineJoin, miterLimit, lineDashOffset, shadowOffsetX, shadowOffsetY, shadowBlur, shadowColor, globalCompositeOperation, font, textAlign, textBaseline, direction, imageSmoothingEnabled, letterSpacing, wordSpacing, fontKerning, fontStretch, fontVariantCaps, textRendering.
    *
    * @param {bool} hard - Tells the context to perform an actual `save()` operation. Default value is false.
    */
   public save(hard: bool = false): void {
-    var offset: i32 = <i32>this._stackOffset;
+    var offset: i32 = this._stackOffset;
     var nextOffset: i32 = offset + 1;
-    if (nextOffset >= <i32>u8.MAX_VALUE) unreachable();
+    if (nextOffset >= this._stackLength) this._growStack();
     let stack = this._stack.push();
     this._stack = stack;
     let stackReference = stack.reference();
@@ -1285,6 +1647,9 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     // font
     __retain(changetype<usize>(stackReference.font));
 
+    // letterSpacing
+    __retain(changetype<usize>(stackReference.letterSpacing));
+
     // lineDash
     __retain(changetype<usize>(stackReference.lineDash));
 
@@ -1296,9 +1661,24 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     __retain(changetype<usize>(stackReference.strokeStylePattern));
     __retain(changetype<usize>(stackReference.strokeStyleString));
 
+    // wordSpacing
+    __retain(changetype<usize>(stackReference.wordSpacing));
+
     if (hard) super._writeZero(CanvasInstruction.Save);
 
-    this._stackOffset = <u8>nextOffset;
+    this._stackOffset = nextOffset;
+  }
+
+  /**
+   * Double the number of states the stack can hold.
+   */
+  private _growStack(): void {
+    var size = <usize>offsetof<CanvasStack>();
+    var start = changetype<StackPointer<CanvasStack>>(this._stack.dereference() - size * <usize>this._stackOffset);
+    var length = this._stackLength << 1;
+    start = start.resize(length);
+    this._stack = changetype<StackPointer<CanvasStack>>(start.dereference() + size * <usize>this._stackOffset);
+    this._stackLength = length;
   }
   //#endregion SAVE
 
@@ -1313,7 +1693,7 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
    * emulates the browser state machine as accurately as possible.
    */
   public restore(): void {
-    if (this._stackOffset == <u8>0) return;
+    if (this._stackOffset == 0) return;
     let currentStack = this._stack;
     let nextStack = currentStack.pop();
     this._stack = nextStack;
@@ -1330,6 +1710,9 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     // font
     __release(changetype<usize>(currentStackReference.font));
 
+    // letterSpacing
+    __release(changetype<usize>(currentStackReference.letterSpacing));
+
     // lineDash
     __release(changetype<usize>(currentStackReference.lineDash));
 
@@ -1341,6 +1724,8 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     __release(changetype<usize>(currentStackReference.strokeStylePattern));
     __release(changetype<usize>(currentStackReference.strokeStyleString));
 
+    // wordSpacing
+    __release(changetype<usize>(currentStackReference.wordSpacing));
 
     if (currentStackReference.save) {
       super._writeZero(CanvasInstruction.Restore);
@@ -1360,6 +1745,9 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
       this._currentFilter = nextStackReference.filter;
 
       this._currentFont = nextStackReference.font;
+      this._currentFontKerning = nextStackReference.fontKerning;
+      this._currentFontStretch = nextStackReference.fontStretch;
+      this._currentFontVariantCaps = nextStackReference.fontVariantCaps;
 
       this._currentGlobalAlpha = nextStackReference.globalAlpha;
       this._currentGlobalCompositeOperation = nextStackReference.globalCompositeOperation;
@@ -1367,6 +1755,8 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
       this._currentImageSmoothingEnabled = nextStackReference.imageSmoothingEnabled;
       this._currentImageSmoothingQuality = nextStackReference.imageSmoothingQuality;
 
+      this._currentLetterSpacing = nextStackReference.letterSpacing;
+
       this._currentLineCap = nextStackReference.lineCap;
       this._currentLineDash = nextStackReference.lineDash;
       this._currentLineJoin = nextStackReference.lineJoin;
@@ -1383,9 +1773,12 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
 
       this._currentTextAlign = nextStackReference.textAlign;
       this._currentTextBaseline = nextStackReference.textBaseline;
+      this._currentTextRendering = nextStackReference.textRendering;
+
+      this._currentWordSpacing = nextStackReference.wordSpacing;
     }
 
-    this._stackOffset -= <u8>1;
+    this._stackOffset -= 1;
   }
   //#endregion RESTORE
 
@@ -1393,23 +1786,23 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
   /**
    * A c like pointer that always points to the next path element to write to.
    */
-  private _path: StackPointer<Path2DElement> = createPathElements().increment();
+  private _path: StackPointer<Path2DElement>;
 
   /**
    * A reference to the path start for quick path resetting.
    */
-  private _pathStart: StackPointer<Path2DElement> = this._path.decrement();
+  private _pathStart: StackPointer<Path2DElement>;
 
   /**
-   * A pointer that points to the end of the path.
+   * A pointer that points to the end of the path element pool. The pool grows when a path element
+   * is written here, so paths have no length limit.
    */
-  private _pathEnd: StackPointer<Path2DElement> =
-    changetype<StackPointer<Path2DElement>>(changetype<usize>(this._pathStart) + offsetof<Path2DElement>() * 0x1000);
+  private _pathEnd: StackPointer<Path2DElement>;
 
   /**
    * A reference to the next path item that should be written to the buffer.
    */
-  private _pathCurrent: StackPointer<Path2DElement> = this._pathStart;
+  private _pathCurrent: StackPointer<Path2DElement>;
 
   /**
    * An internal function that writes a single path item to the _path.
@@ -1427,6 +1820,10 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
    * @param {f64} f - The six parameter for this PathElement's instruction.
    * @param {f64} g - The seven parameter for this PathElement's instruction.
    * @param {f64} h - The eighth parameter for this PathElement's instruction.
+   * @param {f64} i - The ninth parameter for this PathElement's instruction.
+   * @param {f64} j - The tenth parameter for this PathElement's instruction.
+   * @param {f64} k - The eleventh parameter for this PathElement's instruction.
+   * @param {f64} l - The twelfth parameter for this PathElement's instruction.
    */
   @inline
   private _writePath(
@@ -1441,10 +1838,14 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     f: f64 = 0.0,
     g: f64 = 0.0,
     h: f64 = 0.0,
+    i: f64 = 0.0,
+    j: f64 = 0.0,
+    k: f64 = 0.0,
+    l: f64 = 0.0,
   ): void {
+    if (changetype<usize>(this._path) >= changetype<usize>(this._pathEnd)) this._growPath();
     let _path = this._path;
     let element = _path.reference();
-    assert(changetype<usize>(_path) < changetype<usize>(this._pathEnd));
     element.instruction = inst;
     element.updateTransform = updateTransform;
     if (updateTransform) {
@@ -1465,9 +1866,28 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     element.f = f;
     element.g = g;
     element.h = h;
+    element.i = i;
+    element.j = j;
+    element.k = k;
+    element.l = l;
     this._path = _path.increment();
   }
 
+  /**
+   * Double the number of path elements the path can hold.
+   */
+  private _growPath(): void {
+    var start = this._pathStart;
+    var path = this._path.dereference() - start.dereference();
+    var current = this._pathCurrent.dereference() - start.dereference();
+    var length = <i32>((this._pathEnd.dereference() - start.dereference()) / offsetof<Path2DElement>()) << 1;
+    start = start.resize(length);
+    this._pathStart = start;
+    this._path = changetype<StackPointer<Path2DElement>>(start.dereference() + path);
+    this._pathCurrent = changetype<StackPointer<Path2DElement>>(start.dereference() + current);
+    this._pathEnd = changetype<StackPointer<Path2DElement>>(start.dereference() + offsetof<Path2DElement>() * length);
+  }
+
   /**
    * An internal function that writes the queued up path items to the buffer. It optionally calls
    * setTransform if the transform was modified between path calls.
@@ -1536,12 +1956,58 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
         }
         case 8: {
           super._writeEight(el.instruction, el.a, el.b, el.c, el.d, el.e, el.f, el.g, el.h);
+          break;
+        }
+        case 12: {
+          super._writeTwelve(el.instruction, el.a, el.b, el.c, el.d, el.e, el.f, el.g, el.h, el.i, el.j, el.k, el.l);
         }
       }
       currentPath = currentPath.increment();
     }
     this._pathCurrent = currentPath;
   }
+
+  /**
+   * An internal function that sends the segments of a Path2D to the host when they changed, and
+   * obtains its external id. When the host already has a previous version of the path, every
+   * context with pending instructions that refer to that version is flushed first. The holders
+   * without such instructions, including the disposed contexts, are forgotten.
+   *
+   * @param {Path2D} path - The path that is about to be drawn.
+   */
+  private _updatePath2D(path: Path2D): i32 {
+    var holders = getPath2DHolders(path);
+    var generations = getPath2DGenerations(path);
+    var dirty = isPath2DDirty(path);
+    var length = holders.length;
+    var kept = 0;
+    for (let i = 0; i < length; i++) {
+      let holder = holders[i];
+      let generation = generations[i];
+      // a disposed context always has a newer generation
+      if (holder._generation != generation) continue;
+      if (dirty) {
+        holder._flush();
+        continue;
+      }
+      holders[kept] = holder;
+      generations[kept] = generation;
+      kept++;
+    }
+    holders.length = kept;
+    generations.length = kept;
+    var id = sendPath2D(path);
+    length = kept;
+    for (let i = 0; i < length; i++) {
+      if (holders[i] == this) {
+        generations[i] = this._generation;
+        return id;
+      }
+    }
+    holders.push(this);
+    generations.push(this._generation);
+    return id;
+  }
   //#endregion PATH
 
   //#region ARC
@@ -1647,6 +2113,22 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
   }
   //#endregion CLIP
 
+  //#region CLIPPATH
+  /**
+   * The CanvasRenderingContext2D.clipPath() method turns the given Path2D into the current
+   * clipping region, using the current transform. The current path is not modified.
+   *
+   * @param {Path2D} path - The path to use as the clipping region.
+   * @param {FillRule} fillRule - The algorithm by which to determine if a point is inside or
+   * outside the clipping region.
+   */
+  public clipPath(path: Path2D, fillRule: FillRule = FillRule.nonzero): void {
+    var id = this._updatePath2D(path);
+    this._updateTransform();
+    super._writeTwo(CanvasInstruction.ClipPath, <f64>id, <f64>fillRule);
+  }
+  //#endregion CLIPPATH
+
   //#region CLOSEPATH
   /**
    * The CanvasRenderingContext2D.closePath() method of the Canvas 2D API attempts to add a straight
@@ -1662,19 +2144,77 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
 
   //#endregion CLOSEPATH
 
+  //#region DISPOSE
+  /**
+   * This method frees the host canvas of the context from the host's context index, releases the
+   * pending pointers, the saved states and the current path, and forgets the name of the context.
+   * Drawing with the context afterwards throws, and disposing it again does nothing.
+   */
+  public dispose(): void {
+    if (this._disposed) return;
+    disposeCanvas(this.id);
+    // the states, the path and the cached metrics are released, and the smallest stack and path are kept
+    this.reset();
+    this._stack = this._stack.resize(1);
+    this._stackLength = 1;
+    var pathStart = this._pathStart.resize(2);
+    this._pathStart = pathStart;
+    this._pathCurrent = pathStart;
+    this._path = pathStart.increment();
+    this._pathEnd = changetype<StackPointer<Path2DElement>>(
+      changetype<usize>(pathStart) + offsetof<Path2DElement>() * 2,
+    );
+    this.clearTextMetricsCache();
+    super._disposeBuffer();
+    // the context may be released with its name, so it is forgotten last
+    removeContext(this.id);
+  }
+  //#endregion DISPOSE
+
+  //#region DRAWFOCUSIFNEEDED
+  /**
+   * The CanvasRenderingContext2D.drawFocusIfNeeded() method of the Canvas 2D API draws a focus ring
+   * around the current path, if the given fallback element is focused.
+   *
+   * @param {Element} element - The fallback element to check whether it is focused or not.
+   */
+  public drawFocusIfNeeded(element: Element): void {
+    if (this._path == this._pathStart.increment()) return;
+    this._updatePath();
+    this._updateTransform();
+    super._writeOne(CanvasInstruction.DrawFocusIfNeeded, <f64>element.id);
+  }
+  //#endregion DRAWFOCUSIFNEEDED
+
+  //#region DRAWFOCUSIFNEEDEDPATH
+  /**
+   * The CanvasRenderingContext2D.drawFocusIfNeeded() method of the Canvas 2D API draws a focus ring
+   * around the given Path2D, using the current transform, if the given fallback element is focused.
+   * The current path is not modified.
+   *
+   * @param {Path2D} path - The path to draw the focus ring around.
+   * @param {Element} element - The fallback element to check whether it is focused or not.
+   */
+  public drawFocusIfNeededPath(path: Path2D, element: Element): void {
+    var id = this._updatePath2D(path);
+    this._updateTransform();
+    super._writeTwo(CanvasInstruction.DrawFocusIfNeededPath, <f64>id, <f64>element.id);
+  }
+  //#endregion DRAWFOCUSIFNEEDEDPATH
+
   //#region DRAWIMAGE
   /**
    * The CanvasRenderingContext2D.drawImagePosition() method of the Canvas 2D API provides a simple
    * method for drawing an image onto the canvas at a specific position.
    *
-   * @param {Image} image - An element to draw into the context. The specification permits any canvas
-   * image source (Image).
+   * @param {CanvasImageSource} image - An element to draw into the context. The specification
+   * permits any canvas image source (Image, or the canvas of another context).
    * @param {f64} dx - The x-axis coordinate in the destination canvas at which to place the top-left
    * corner of the source image.
    * @param {f64} dy - The y-axis coordinate in the destination canvas at which to place the top-left
    * corner of the source image.
    */
-  public drawImage(image: Image | null, dx: f64, dy: f64): void {
+  public drawImage(image: CanvasImageSource | null, dx: f64, dy: f64): void {
     if (image == null || !isFinite(dx + dy) || !image.loaded) return;
     this._updateFilter();
     this._updateGlobalAlpha();
@@ -1688,7 +2228,7 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     this._updateTransform();
     this._writeNine(
       CanvasInstruction.DrawImage,
-      <f64>getImageID(image),
+      <f64>getImageSourceID(image),
       0.0, 0.0, <f64>image.width, <f64>image.height,
       dx, dy, <f64>image.width, <f64>image.height,
     );
@@ -1698,8 +2238,8 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
    * The CanvasRenderingContext2D.drawImageSize() method of the Canvas 2D API provides a simple
    * method for drawing an image onto the canvas at a specific position.
    *
-   * @param {Image} image - An element to draw into the context. The specification permits any canvas
-   * image source (Image).
+   * @param {CanvasImageSource} image - An element to draw into the context. The specification
+   * permits any canvas image source (Image, or the canvas of another context).
    * @param {f64} dx - The x-axis coordinate in the destination canvas at which to place the top-left
    * corner of the source image.
    * @param {f64} dy - The y-axis coordinate in the destination canvas at which to place the top-left
@@ -1709,7 +2249,7 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
    * @param {f64} dHeight - The height to draw the image in the destination canvas. This allows scaling
    * of the drawn image. If not specified, the image is not scaled in height when drawn.
    */
-  public drawImageSize(image: Image | null, dx: f64, dy: f64, dWidth: f64, dHeight: f64): void {
+  public drawImageSize(image: CanvasImageSource | null, dx: f64, dy: f64, dWidth: f64, dHeight: f64): void {
     if (image == null || !isFinite(dx + dy + dWidth + dHeight) || !image.loaded) return;
     this._updateFilter();
     this._updateGlobalAlpha();
@@ -1723,7 +2263,7 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     this._updateTransform();
     this._writeNine(
       CanvasInstruction.DrawImage,
-      <f64>getImageID(image),
+      <f64>getImageSourceID(image),
       0.0, 0.0, <f64>image.width, <f64>image.height,
       dx, dy, dWidth, dHeight,
     );
@@ -1733,8 +2273,8 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
    * The CanvasRenderingContext2D.drawImageSource() method of the Canvas 2D API provides a simple
    * method for drawing an image onto the canvas at a specific position.
    *
-   * @param {Image} image - An element to draw into the context. The specification permits any canvas
-   * image source (Image).
+   * @param {CanvasImageSource} image - An element to draw into the context. The specification
+   * permits any canvas image source (Image, or the canvas of another context).
    * @param {f64} sx - The x-axis coordinate of the top left corner of the sub-rectangle of the source
    * image to draw into the destination context.
    * @param {f64} sy - The y-axis coordinate of the top left corner of the sub-rectangle of the source
@@ -1753,7 +2293,7 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
    * @param {f64} dHeight - The height to draw the image in the destination canvas. This allows scaling
    * of the drawn image. If not specified, the image is not scaled in height when drawn.
    */
-  public drawImageSource(image: Image | null, sx: f64, sy: f64, sWidth: f64, sHeight: f64, dx: f64, dy: f64, dWidth: f64, dHeight: f64): void {
+  public drawImageSource(image: CanvasImageSource | null, sx: f64, sy: f64, sWidth: f64, sHeight: f64, dx: f64, dy: f64, dWidth: f64, dHeight: f64): void {
     if (image == null || !isFinite(sx + sy + sWidth + sHeight + dx + dy + dWidth + dHeight) || !image.loaded) return;
     this._updateFilter();
     this._updateGlobalAlpha();
@@ -1767,7 +2307,7 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     this._updateTransform();
     this._writeNine(
       CanvasInstruction.DrawImage,
-      <f64>getImageID(image),
+      <f64>getImageSourceID(image),
       sx, sy, sWidth, sHeight,
       dx, dy, dWidth, dHeight,
     );
@@ -1842,6 +2382,32 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
   }
   //#endregion FILL
 
+  //#region FILLPATH
+  /**
+   * The CanvasRenderingContext2D.fillPath() method fills the given Path2D with the current
+   * fillStyle, using the current transform. The current path is not modified.
+   *
+   * @param {Path2D} path - The path to fill.
+   * @param {FillRule} fillRule - The algorithm by which to determine if a point is inside or
+   * outside the filling region.
+   */
+  public fillPath(path: Path2D, fillRule: FillRule = FillRule.nonzero): void {
+    var id = this._updatePath2D(path);
+    this._updateFillStyle();
+    this._updateFilter();
+    this._updateGlobalAlpha();
+    this._updateGlobalCompositeOperation();
+    this._updateImageSmoothingEnabled();
+    this._updateImageSmoothingQuality();
+    this._updateShadowBlur();
+    this._updateShadowColor();
+    this._updateShadowOffsetX();
+    this._updateShadowOffsetY();
+    this._updateTransform();
+    super._writeTwo(CanvasInstruction.FillPath, <f64>id, <f64>fillRule);
+  }
+  //#endregion FILLPATH
+
   //#region FILLRECT
   /**
    * The CanvasRenderingContext2D.fillRect() method of the Canvas 2D API draws a rectangle that is
@@ -1896,19 +2462,25 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     this._updateFillStyle();
     this._updateFilter();
     this._updateFont();
+    this._updateFontKerning();
+    this._updateFontStretch();
+    this._updateFontVariantCaps();
     this._updateGlobalAlpha();
     this._updateGlobalCompositeOperation();
     this._updateImageSmoothingEnabled();
     this._updateImageSmoothingQuality();
+    this._updateLetterSpacing();
     this._updateShadowBlur();
     this._updateShadowColor();
     this._updateShadowOffsetX();
     this._updateShadowOffsetY();
     this._updateTextAlign();
     this._updateTextBaseline();
+    this._updateTextRendering();
     this._updateTransform();
-    super._retain(changetype<usize>(text));
+    this._updateWordSpacing();
     super._writeThree(CanvasInstruction.FillText, <f64>changetype<usize>(text), x, y);
+    super._retain(changetype<usize>(text));
   }
 
   /**
@@ -1937,22 +2509,116 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     this._updateFillStyle();
     this._updateFilter();
     this._updateFont();
+    this._updateFontKerning();
+    this._updateFontStretch();
+    this._updateFontVariantCaps();
     this._updateGlobalAlpha();
     this._updateGlobalCompositeOperation();
     this._updateImageSmoothingEnabled();
     this._updateImageSmoothingQuality();
+    this._updateLetterSpacing();
     this._updateShadowBlur();
     this._updateShadowColor();
     this._updateShadowOffsetX();
     this._updateShadowOffsetY();
     this._updateTextAlign();
     this._updateTextBaseline();
+    this._updateTextRendering();
     this._updateTransform();
-    super._retain(changetype<usize>(text));
+    this._updateWordSpacing();
     super._writeFour(CanvasInstruction.FillTextWidth, <f64>changetype<usize>(text), x, y, maxWidth);
+    super._retain(changetype<usize>(text));
   }
   //#endregion FILLTEXT
 
+  //#region GETIMAGEDATA
+  /**
+   * The CanvasRenderingContext2D.getImageData() method of the Canvas 2D API returns an ImageData
+   * object representing the underlying pixel data for a specified portion of the canvas. It forces
+   * a commit to flush all the current instructions to the buffer, and then copies the pixels from
+   * the canvas into the module memory. The current transform is ignored, and pixels outside of the
+   * canvas are transparent black.
+   *
+   * @param {i32} sx - The x-axis coordinate of the top-left corner of the rectangle from which the
+   * ImageData will be extracted.
+   * @param {i32} sy - The y-axis coordinate of the top-left corner of the rectangle from which the
+   * ImageData will be extracted.
+   * @param {i32} sw - The width of the rectangle from which the ImageData will be extracted.
+   * Positive values are to the right, and negative to the left.
+   * @param {i32} sh - The height of the rectangle from which the ImageData will be extracted.
+   * Positive values are down, and negative are up.
+   */
+  public getImageData(sx: i32, sy: i32, sw: i32, sh: i32): ImageData {
+    if (sw < 0) {
+      sx += sw;
+      sw = -sw;
+    }
+    if (sh < 0) {
+      sy += sh;
+      sh = -sh;
+    }
+    var result = new ImageData(sw, sh);
+    this.commit();
+    getImageData(this.id, sx, sy, sw, sh, result.data);
+    return result;
+  }
+  //#endregion GETIMAGEDATA
+
+  //#region INSPECT
+  /**
+   * Write an Inspect instruction, which is a debugging hook. Every pending property of the context
+   * is written first, so when the instruction is reached during the render, the inspector that was
+   * registered with `useInspector()` on the host is called with the given label and a snapshot of
+   * the host context state. Nothing is drawn, and the instruction is skipped without an inspector.
+   *
+   * @param {string} label - The label that is passed to the inspector.
+   */
+  public inspect(label: string): void {
+    this._updateDirection();
+    this._updateFillStyle();
+    this._updateFilter();
+    this._updateFont();
+    this._updateFontKerning();
+    this._updateFontStretch();
+    this._updateFontVariantCaps();
+    this._updateGlobalAlpha();
+    this._updateGlobalCompositeOperation();
+    this._updateImageSmoothingEnabled();
+    this._updateImageSmoothingQuality();
+    this._updateLetterSpacing();
+    this._updateLineCap();
+    this._updateLineDash();
+    this._updateLineDashOffset();
+    this._updateLineJoin();
+    this._updateLineWidth();
+    this._updateMiterLimit();
+    this._updateShadowBlur();
+    this._updateShadowColor();
+    this._updateShadowOffsetX();
+    this._updateShadowOffsetY();
+    this._updateStrokeStyle();
+    this._updateTextAlign();
+    this._updateTextBaseline();
+    this._updateTextRendering();
+    this._updateTransform();
+    this._updateWordSpacing();
+    super._writeOne(CanvasInstruction.Inspect, <f64>changetype<usize>(label));
+    super._retain(changetype<usize>(label));
+  }
+  //#endregion INSPECT
+
+  //#region ISCONTEXTLOST
+  /**
+   * The CanvasRenderingContext2D.isContextLost() method of the Canvas 2D API returns true if the
+   * rendering context is lost. Drawing operations have no effect while the context is lost, because
+   * the instructions are discarded instead of being rendered, and the context is reset to its
+   * default state when it is restored, so gradients and patterns should be created again.
+   */
+  public isContextLost(): bool {
+    return this._contextLost;
+  }
+  //#endregion ISCONTEXTLOST
+
   //#region ISPOINTINPATH
   /**
    * The CanvasRenderingContext2D.isPointInPath() method of the Canvas 2D API reports whether or not
@@ -1977,6 +2643,27 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
   }
   //#endregion ISPOINTINPATH
 
+  //#region ISPOINTINPATHOBJECT
+  /**
+   * The CanvasRenderingContext2D.isPointInPathObject() method reports whether or not the specified
+   * point is contained in the given Path2D, using the current transform. It forces a commit to
+   * flush all the current instructions to the buffer.
+   *
+   * @param {Path2D} path - The path to check against.
+   * @param {f64} x - The x-axis coordinate of the point to check.
+   * @param {f64} y - The y-axis coordinate of the point to check.
+   * @param {FillRule} fillRule - The algorithm by which to determine if a point is inside or
+   * outside the path.
+   */
+  public isPointInPathObject(path: Path2D, x: f64, y: f64, fillRule: FillRule = FillRule.nonzero): bool {
+    if (!isFinite(x + y)) return false;
+    var id = this._updatePath2D(path);
+    this._updateTransform();
+    this.commit();
+    return isPointInPathObject(this.id, id, x, y, fillRule);
+  }
+  //#endregion ISPOINTINPATHOBJECT
+
   //#region ISPOINTINSTROKE
   /**
    * The CanvasRenderingContext2D.isPointInStroke() method of the Canvas 2D API reports whether or
@@ -2014,18 +2701,111 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
   //#region MEASURETEXT
   /**
    * The CanvasRenderingContext2D.measureText() method returns a TextMetrics object that contains
-   * information about the measured text (such as its width, for example). The as2d implementation
-   * only returns the resulting width property value.
+   * information about the measured text, such as its width and its bounding boxes. It forces a
+   * commit to flush all the current instructions to the buffer, including the text properties the
+   * metrics depend on, and then copies every metric from the host in a single call.
    *
    * @param {string} text - The text string to measure.
    */
-  public measureText(text: string): f64 {
+  public measureText(text: string): TextMetrics {
+    this._updateDirection();
     this._updateFont();
+    this._updateFontKerning();
+    this._updateFontStretch();
+    this._updateFontVariantCaps();
+    this._updateLetterSpacing();
+    this._updateTextAlign();
+    this._updateTextBaseline();
+    this._updateTextRendering();
+    this._updateWordSpacing();
     this.commit();
-    return measureText(this.id, text);
+    var result = new TextMetrics();
+    measureText(this.id, text, result);
+    return result;
   }
   //#endregion MEASURETEXT
 
+  //#region MEASURETEXTBATCH
+  /**
+   * The metrics measured by `measureTextBatch()`, keyed by the font and the text style they were
+   * measured with, and then by text.
+   */
+  private _textMetricsCache: Map<string, Map<string, TextMetrics>> = new Map<string, Map<string, TextMetrics>>();
+
+  /**
+   * The number of metrics in the _textMetricsCache.
+   */
+  private _textMetricsCount: i32 = 0;
+
+  /**
+   * Measure many strings in the given font with a single host call, without committing the pending
+   * instructions. The metrics are cached by font and text, so only strings that were not measured
+   * before are sent to the host, and the host is not called at all when every string is cached.
+   * The host measures with the current letterSpacing, wordSpacing, fontKerning, fontStretch,
+   * fontVariantCaps and textRendering of the context, which are part of the cache key, and with the
+   * default direction, textAlign and textBaseline, so the bounding boxes are relative to the start
+   * of the alphabetic baseline. The cache is emptied when it holds more than 4096 metrics, so
+   * measuring many different strings does not grow it without limit.
+   *
+   * @param {string[]} texts - The text strings to measure.
+   * @param {string} font - The font to measure the text with, using the CSS font syntax.
+   */
+  public measureTextBatch(texts: string[], font: string): TextMetrics[] {
+    var stack = this._stack.reference();
+    var key = font + "\n" + stack.letterSpacing + "\n" + stack.wordSpacing + "\n"
+      + stack.fontKerning.toString() + "\n" + stack.fontStretch.toString() + "\n"
+      + stack.fontVariantCaps.toString() + "\n" + stack.textRendering.toString();
+    var cache: Map<string, TextMetrics>;
+    if (this._textMetricsCache.has(key)) {
+      cache = this._textMetricsCache.get(key);
+    } else {
+      cache = new Map<string, TextMetrics>();
+      this._textMetricsCache.set(key, cache);
+    }
+    var length = texts.length;
+    var missingTexts: string[] = [];
+    var missingMetrics: TextMetrics[] = [];
+    for (let i = 0; i < length; i++) {
+      let text = unchecked(texts[i]);
+      // a string that appears twice is only measured once
+      if (!cache.has(text)) {
+        let metrics = new TextMetrics();
+        cache.set(text, metrics);
+        missingTexts.push(text);
+        missingMetrics.push(metrics);
+      }
+    }
+    if (missingTexts.length > 0) {
+      measureTextBatch(
+        this.id,
+        font,
+        stack.letterSpacing,
+        stack.wordSpacing,
+        stack.fontKerning,
+        stack.fontStretch,
+        stack.fontVariantCaps,
+        stack.textRendering,
+        missingTexts,
+        missingMetrics
+      );
+    }
+    var result: TextMetrics[] = [];
+    for (let i = 0; i < length; i++) result.push(cache.get(unchecked(texts[i])));
+    this._textMetricsCount += missingTexts.length;
+    if (this._textMetricsCount > TEXT_METRICS_CACHE_LENGTH) this.clearTextMetricsCache();
+    return result;
+  }
+
+  /**
+   * Forget every metric cached by `measureTextBatch()`. Call it when the metrics of a font change,
+   * for instance after a web font has loaded.
+   */
+  public clearTextMetricsCache(): void {
+    this._textMetricsCache.clear();
+    this._textMetricsCount = 0;
+  }
+  //#endregion MEASURETEXTBATCH
+
   //#region MOVETO
   /**
    * The CanvasRenderingContext2D.moveTo() method of the Canvas 2D API begins a new sub-path at the
@@ -2040,6 +2820,54 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
   }
   //#endregion MOVETO
 
+  //#region PUTIMAGEDATA
+  /**
+   * The CanvasRenderingContext2D.putImageData() method of the Canvas 2D API paints data from the
+   * given ImageData object onto the canvas. The pixels are copied when the method is called, so the
+   * ImageData can be modified right away. This method is not affected by the canvas transformation
+   * matrix, the clipping region, or the compositing properties.
+   *
+   * @param {ImageData} imageData - An ImageData object containing the array of pixel values.
+   * @param {i32} dx - Horizontal position (x coordinate) at which to place the image data in the
+   * destination canvas.
+   * @param {i32} dy - Vertical position (y coordinate) at which to place the image data in the
+   * destination canvas.
+   */
+  public putImageData(imageData: ImageData, dx: i32, dy: i32): void {
+    this.putImageDataDirty(imageData, dx, dy, 0, 0, imageData.width, imageData.height);
+  }
+
+  /**
+   * The CanvasRenderingContext2D.putImageDataDirty() method of the Canvas 2D API paints only the
+   * pixels of the given ImageData object that are inside the dirty rectangle onto the canvas. It is
+   * the equivalent of the DOM `putImageData(imageData, dx, dy, dirtyX, dirtyY, dirtyWidth,
+   * dirtyHeight)` overload.
+   *
+   * @param {ImageData} imageData - An ImageData object containing the array of pixel values.
+   * @param {i32} dx - Horizontal position (x coordinate) at which to place the image data in the
+   * destination canvas.
+   * @param {i32} dy - Vertical position (y coordinate) at which to place the image data in the
+   * destination canvas.
+   * @param {i32} dirtyX - Horizontal position (x coordinate) of the top-left corner from which the
+   * image data will be extracted.
+   * @param {i32} dirtyY - Vertical position (y coordinate) of the top-left corner from which the
+   * image data will be extracted.
+   * @param {i32} dirtyWidth - Width of the rectangle to be painted.
+   * @param {i32} dirtyHeight - Height of the rectangle to be painted.
+   */
+  public putImageDataDirty(imageData: ImageData, dx: i32, dy: i32, dirtyX: i32, dirtyY: i32, dirtyWidth: i32, dirtyHeight: i32): void {
+    var data = imageData.data.slice();
+    var pointer = changetype<usize>(data);
+    super._writeNine(
+      CanvasInstruction.PutImageData,
+      <f64>pointer, <f64>imageData.width, <f64>imageData.height,
+      <f64>dx, <f64>dy,
+      <f64>dirtyX, <f64>dirtyY, <f64>dirtyWidth, <f64>dirtyHeight,
+    );
+    super._retain(pointer);
+  }
+  //#endregion PUTIMAGEDATA
+
   //#region QUADRATICCURVETO
   /**
    * The CanvasRenderingContext2D.quadraticCurveTo() method of the Canvas 2D API adds a quadratic
@@ -2076,6 +2904,73 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
   }
   //#endregion RECT
 
+  //#region RESET
+  /**
+   * The CanvasRenderingContext2D.reset() method of the Canvas 2D API resets the rendering context
+   * to its default state, allowing it to be reused for drawing something else without having to
+   * explicitly reset all the properties. Every saved state and pending instruction is discarded,
+   * the current path is emptied, and the host clears the canvas.
+   */
+  public reset(): void {
+    // the host reset erases the result of the pending instructions, so they are discarded
+    super._resetBuffer();
+    // the host reset discards its own stack, so the states are popped without restore instructions
+    while (this._stackOffset > 0) {
+      this._stack.reference().save = false;
+      this.restore();
+    }
+    let stackReference = this._stack.reference();
+    __release(changetype<usize>(stackReference.fillStyleGradient));
+    __release(changetype<usize>(stackReference.fillStylePattern));
+    __release(changetype<usize>(stackReference.fillStyleString));
+    __release(changetype<usize>(stackReference.filter));
+    __release(changetype<usize>(stackReference.font));
+    __release(changetype<usize>(stackReference.letterSpacing));
+    __release(changetype<usize>(stackReference.lineDash));
+    __release(changetype<usize>(stackReference.shadowColor));
+    __release(changetype<usize>(stackReference.strokeStyleGradient));
+    __release(changetype<usize>(stackReference.strokeStylePattern));
+    __release(changetype<usize>(stackReference.strokeStyleString));
+    __release(changetype<usize>(stackReference.wordSpacing));
+    memory.fill(changetype<usize>(stackReference), 0, offsetof<CanvasStack>());
+    initializeStackPointer(this._stack);
+    this.beginPath();
+
+    // the host values are reset as well
+    setArrayBufferIdentity(changetype<usize>(this._currentTransform));
+    this._currentDirection = CanvasDirection.inherit;
+    this._currentFillStyleType = FillStrokeStyleType.String;
+    this._currentFillStyleValue = changetype<usize>(defaultBlack);
+    this._currentFilter = defaultNone;
+    this._currentFont = defaultFont;
+    this._currentFontKerning = FontKerning.auto;
+    this._currentFontStretch = FontStretch.normal;
+    this._currentFontVariantCaps = FontVariantCaps.normal;
+    this._currentGlobalAlpha = 1.0;
+    this._currentGlobalCompositeOperation = GlobalCompositeOperation.source_over;
+    this._currentImageSmoothingEnabled = true;
+    this._currentImageSmoothingQuality = ImageSmoothingQuality.low;
+    this._currentLetterSpacing = defaultSpacing;
+    this._currentLineCap = LineCap.butt;
+    this._currentLineDash = defaultLineDash;
+    this._currentLineDashOffset = 0.0;
+    this._currentLineJoin = LineJoin.miter;
+    this._currentLineWidth = 1.0;
+    this._currentMiterLimit = 10.0;
+    this._currentShadowBlur = 0.0;
+    this._currentShadowColor = defaultShadowColor;
+    this._currentShadowOffsetX = 0.0;
+    this._currentShadowOffsetY = 0.0;
+    this._currentStrokeStyleType = FillStrokeStyleType.String;
+    this._currentStrokeStyleValue = changetype<usize>(defaultBlack);
+    this._currentTextAlign = TextAlign.start;
+    this._currentTextBaseline = TextBaseline.alphabetic;
+    this._currentTextRendering = TextRendering.auto;
+    this._currentWordSpacing = defaultSpacing;
+    super._writeZero(CanvasInstruction.Reset);
+  }
+  //#endregion RESET
+
   //#region RESETTRANSFORM
   /**
    * The CanvasRenderingContext2D.resetTransform() method of the Canvas 2D API resets the current
@@ -2135,6 +3030,112 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
   }
   //#endregion ROTATE
 
+  //#region ROUNDRECT
+  /**
+   * The CanvasRenderingContext2D.roundRect() method of the Canvas 2D API adds a rounded rectangle
+   * to the current path, where every corner is a circular arc with the same radius. Like rect(),
+   * this method does not directly render anything. Radii that do not fit in the rectangle are
+   * scaled down by the host.
+   *
+   * Use the roundRectRadii function to give every corner its own radius, and the roundRectPoints
+   * function to use elliptical corners.
+   *
+   * @param {f64} x - The x-axis coordinate of the rectangle's starting point.
+   * @param {f64} y - The y-axis coordinate of the rectangle's starting point.
+   * @param {f64} width - The rectangle's width. Positive values are to the right, and negative to
+   * the left.
+   * @param {f64} height - The rectangle's height. Positive values are down, and negative are up.
+   * @param {f64} radius - The radius of every corner. Must be non-negative.
+   */
+  public roundRect(x: f64, y: f64, width: f64, height: f64, radius: f64 = 0.0): void {
+    if (!isFinite(x + y + width + height + radius)) return;
+    if (radius < 0.0) throw new RangeError("The radii of a rounded rectangle must not be negative.");
+    this._writePath(
+      CanvasInstruction.RoundRect,
+      true, 12,
+      x, y, width, height,
+      radius, radius, radius, radius,
+      radius, radius, radius, radius,
+    );
+  }
+  //#endregion ROUNDRECT
+
+  //#region ROUNDRECTRADII
+  /**
+   * The CanvasRenderingContext2D.roundRect() method of the Canvas 2D API adds a rounded rectangle
+   * with circular corners to the current path. The radii are given like the border-radius CSS
+   * property: one radius for every corner, two radii for the top-left and bottom-right corners and
+   * the top-right and bottom-left corners, three radii for the top-left corner, the top-right and
+   * bottom-left corners and the bottom-right corner, or four radii for the top-left, top-right,
+   * bottom-right and bottom-left corners.
+   *
+   * @param {f64} x - The x-axis coordinate of the rectangle's starting point.
+   * @param {f64} y - The y-axis coordinate of the rectangle's starting point.
+   * @param {f64} width - The rectangle's width. Positive values are to the right, and negative to
+   * the left.
+   * @param {f64} height - The rectangle's height. Positive values are down, and negative are up.
+   * @param {f64[]} radii - One to four non-negative corner radii.
+   */
+  public roundRectRadii(x: f64, y: f64, width: f64, height: f64, radii: f64[]): void {
+    if (!isFinite(x + y + width + height)) return;
+    var length = radii.length;
+    if (length < 1 || length > 4) throw new RangeError("A rounded rectangle requires one to four radii.");
+    for (let i = 0; i < length; i++) {
+      let radius = unchecked(radii[i]);
+      if (!isFinite(radius)) return;
+      if (radius < 0.0) throw new RangeError("The radii of a rounded rectangle must not be negative.");
+    }
+    var upperLeft = unchecked(radii[0]);
+    var upperRight = unchecked(radii[length > 1 ? 1 : 0]);
+    var lowerRight = unchecked(radii[length > 2 ? 2 : 0]);
+    var lowerLeft = unchecked(radii[length > 3 ? 3 : length > 1 ? 1 : 0]);
+    this._writePath(
+      CanvasInstruction.RoundRect,
+      true, 12,
+      x, y, width, height,
+      upperLeft, upperLeft, upperRight, upperRight,
+      lowerRight, lowerRight, lowerLeft, lowerLeft,
+    );
+  }
+  //#endregion ROUNDRECTRADII
+
+  //#region ROUNDRECTPOINTS
+  /**
+   * The CanvasRenderingContext2D.roundRect() method of the Canvas 2D API adds a rounded rectangle
+   * with elliptical corners to the current path. The x and y properties of every point are the
+   * horizontal and vertical radii of a corner, and the points are given in the same order as the
+   * radii of the roundRectRadii function.
+   *
+   * @param {f64} x - The x-axis coordinate of the rectangle's starting point.
+   * @param {f64} y - The y-axis coordinate of the rectangle's starting point.
+   * @param {f64} width - The rectangle's width. Positive values are to the right, and negative to
+   * the left.
+   * @param {f64} height - The rectangle's height. Positive values are down, and negative are up.
+   * @param {DOMPoint[]} radii - One to four points whose coordinates are non-negative corner radii.
+   */
+  public roundRectPoints(x: f64, y: f64, width: f64, height: f64, radii: DOMPoint[]): void {
+    if (!isFinite(x + y + width + height)) return;
+    var length = radii.length;
+    if (length < 1 || length > 4) throw new RangeError("A rounded rectangle requires one to four radii.");
+    for (let i = 0; i < length; i++) {
+      let radius = unchecked(radii[i]);
+      if (!isFinite(radius.x + radius.y)) return;
+      if (radius.x < 0.0 || radius.y < 0.0) throw new RangeError("The radii of a rounded rectangle must not be negative.");
+    }
+    var upperLeft = unchecked(radii[0]);
+    var upperRight = unchecked(radii[length > 1 ? 1 : 0]);
+    var lowerRight = unchecked(radii[length > 2 ? 2 : 0]);
+    var lowerLeft = unchecked(radii[length > 3 ? 3 : length > 1 ? 1 : 0]);
+    this._writePath(
+      CanvasInstruction.RoundRect,
+      true, 12,
+      x, y, width, height,
+      upperLeft.x, upperLeft.y, upperRight.x, upperRight.y,
+      lowerRight.x, lowerRight.y, lowerLeft.x, lowerLeft.y,
+    );
+  }
+  //#endregion ROUNDRECTPOINTS
+
   //#region SCALE
   /**
    * The CanvasRenderingContext2D.scale() method of the Canvas 2D API adds a scaling transformation
@@ -2201,6 +3202,17 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     stack.e = e;
     stack.f = f;
   }
+
+  /**
+   * The CanvasRenderingContext2D.setTransformMatrix() method of the Canvas 2D API resets (overrides)
+   * the current transformation to the 2D components of the given DOMMatrix. It is the equivalent
+   * of the DOM `setTransform(matrix)` overload.
+   *
+   * @param {DOMMatrix} matrix - The matrix to use as the current transform.
+   */
+  public setTransformMatrix(matrix: DOMMatrix): void {
+    this.setTransform(matrix.m11, matrix.m12, matrix.m21, matrix.m22, matrix.m41, matrix.m42);
+  }
   //#endregion SETTRANSFORM
 
   //#region STROKE
@@ -2245,6 +3257,37 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
   }
   //#endregion STROKE
 
+  //#region STROKEPATH
+  /**
+   * The CanvasRenderingContext2D.strokePath() method strokes the given Path2D with the current
+   * stroke style, using the current transform. The current path is not modified.
+   *
+   * @param {Path2D} path - The path to stroke.
+   */
+  public strokePath(path: Path2D): void {
+    if (this._stack.reference().lineWidth <= 0.0) return;
+    var id = this._updatePath2D(path);
+    this._updateFilter();
+    this._updateGlobalAlpha();
+    this._updateGlobalCompositeOperation();
+    this._updateImageSmoothingEnabled();
+    this._updateImageSmoothingQuality();
+    this._updateLineCap();
+    this._updateLineDash();
+    this._updateLineDashOffset();
+    this._updateLineJoin();
+    this._updateLineWidth();
+    this._updateMiterLimit();
+    this._updateShadowBlur();
+    this._updateShadowColor();
+    this._updateShadowOffsetX();
+    this._updateShadowOffsetY();
+    this._updateStrokeStyle();
+    this._updateTransform();
+    super._writeOne(CanvasInstruction.StrokePath, <f64>id);
+  }
+  //#endregion STROKEPATH
+
   //#region STROKERECT
   /**
    * The CanvasRenderingContext2D.strokeRect() method of the Canvas 2D API draws a rectangle that is
@@ -2304,10 +3347,14 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     this._updateDirection();
     this._updateFilter();
     this._updateFont();
+    this._updateFontKerning();
+    this._updateFontStretch();
+    this._updateFontVariantCaps();
     this._updateGlobalAlpha();
     this._updateGlobalCompositeOperation();
     this._updateImageSmoothingEnabled();
     this._updateImageSmoothingQuality();
+    this._updateLetterSpacing();
     this._updateLineCap();
     this._updateLineDash();
     this._updateLineDashOffset();
@@ -2321,9 +3368,11 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     this._updateStrokeStyle();
     this._updateTextAlign();
     this._updateTextBaseline();
+    this._updateTextRendering();
     this._updateTransform();
+    this._updateWordSpacing();
+    super._writeThree(CanvasInstruction.StrokeText, <f64>changetype<usize>(text), x, y);
     super._retain(changetype<usize>(text));
-    super._writeThree(CanvasInstruction.StrokeText, <f64>changetype<usize>(text), x, y)
   }
 
   /**
@@ -2350,10 +3399,14 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     this._updateDirection();
     this._updateFilter();
     this._updateFont();
+    this._updateFontKerning();
+    this._updateFontStretch();
+    this._updateFontVariantCaps();
     this._updateGlobalAlpha();
     this._updateGlobalCompositeOperation();
     this._updateImageSmoothingEnabled();
     this._updateImageSmoothingQuality();
+    this._updateLetterSpacing();
     this._updateLineCap();
     this._updateLineDash();
     this._updateLineDashOffset();
@@ -2367,9 +3420,11 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
     this._updateStrokeStyle();
     this._updateTextAlign();
     this._updateTextBaseline();
+    this._updateTextRendering();
     this._updateTransform();
-    super._retain(changetype<usize>(text));
+    this._updateWordSpacing();
     super._writeFour(CanvasInstruction.StrokeTextWidth, <f64>changetype<usize>(text), x, y, maxWidth);
+    super._retain(changetype<usize>(text));
   }
   //#endregion STROKETEXT
 
@@ -2476,7 +3531,7 @@ export class CanvasRenderingContext2D extends Buffer<CanvasInstruction> {
 
   public commit(): void {
     super._writeZero(CanvasInstruction.Commit);
-    render(this.id, changetype<usize>(this._buffer));
+    if (!this._contextLost) render(this.id, changetype<usize>(this._buffer));
     super._resetBuffer();
   }
 }
@@ -2,12 +2,16 @@ import { CanvasDirection } from "../../src/shared/CanvasDirection";
 import { FillStrokeStyleType } from "../internal/FillStrokeStyleType";
 import { CanvasGradient } from "./CanvasGradient";
 import { CanvasPattern } from "./CanvasPattern";
+import { FontKerning } from "../../src/shared/FontKerning";
+import { FontStretch } from "../../src/shared/FontStretch";
+import { FontVariantCaps } from "../../src/shared/FontVariantCaps";
 import { GlobalCompositeOperation } from "../../src/shared/GlobalCompositeOperation";
 import { ImageSmoothingQuality } from "../../src/shared/ImageSmoothingQuality";
 import { LineCap } from "../../src/shared/LineCap";
 import { LineJoin } from "../../src/shared/LineJoin";
 import { TextAlign } from "../../src/shared/TextAlign";
 import { TextBaseline } from "../../src/shared/TextBaseline";
+import { TextRendering } from "../../src/shared/TextRendering";
 
 @unmanaged
 export class CanvasStack {
@@ -25,10 +29,14 @@ export class CanvasStack {
   fillStyleValue: number;
   filter: string;
   font: string;
+  fontKerning: FontKerning;
+  fontStretch: FontStretch;
+  fontVariantCaps: FontVariantCaps;
   globalAlpha: f64;
   globalCompositeOperation: GlobalCompositeOperation;
   imageSmoothingEnabled: bool;
   imageSmoothingQuality: ImageSmoothingQuality;
+  letterSpacing: string;
   lineCap: LineCap;
   lineDash: Float64Array;
   lineDashOffset:number;
@@ -46,5 +54,7 @@ export class CanvasStack {
   strokeStyleValue: number;
   textAlign: TextAlign;
   textBaseline: TextBaseline;
+  textRendering: TextRendering;
+  wordSpacing: string;
   save: bool;
 }
@@ -1,5 +1,17 @@
+import { DOMPoint } from "./DOMPoint";
+
+/**
+ * The DOMMatrix interface represents a 4x4 matrix, suitable for 2D and 3D operations. The values
+ * use the column major naming of the DOM, where `m41`, `m42` and `m43` hold the translation, and
+ * the `a` to `f` properties alias the values used by 2D transforms. Methods that end with `Self`
+ * modify the matrix and return it, while the other methods leave it untouched and return a new
+ * matrix.
+ */
 export class DOMMatrix {
-  public readonly is2D: bool = true;
+  /**
+   * Set when the matrix was only modified by 2D operations.
+   */
+  private _is2D: bool = true;
   public m11: f64 = 1.0;
   public m12: f64 = 0.0;
   public m13: f64 = 0.0;
@@ -17,14 +29,73 @@ export class DOMMatrix {
   public m43: f64 = 0.0;
   public m44: f64 = 1.0;
 
+  /**
+   * The DOMMatrix.fromFloat64Array() static method creates a new DOMMatrix out of an array of 6
+   * values, in the `[a, b, c, d, e, f]` order, or of 16 values, in column major order.
+   *
+   * @param {Float64Array} array - The values of the matrix.
+   */
+  public static fromFloat64Array(array: Float64Array): DOMMatrix {
+    var length = array.length;
+    if (length != 6 && length != 16) {
+      throw new Error("A DOMMatrix requires 6 or 16 values.");
+    }
+    var result = new DOMMatrix();
+    if (length == 6) {
+      result.m11 = unchecked(array[0]);
+      result.m12 = unchecked(array[1]);
+      result.m21 = unchecked(array[2]);
+      result.m22 = unchecked(array[3]);
+      result.m41 = unchecked(array[4]);
+      result.m42 = unchecked(array[5]);
+    } else {
+      result.m11 = unchecked(array[0]);
+      result.m12 = unchecked(array[1]);
+      result.m13 = unchecked(array[2]);
+      result.m14 = unchecked(array[3]);
+      result.m21 = unchecked(array[4]);
+      result.m22 = unchecked(array[5]);
+      result.m23 = unchecked(array[6]);
+      result.m24 = unchecked(array[7]);
+      result.m31 = unchecked(array[8]);
+      result.m32 = unchecked(array[9]);
+      result.m33 = unchecked(array[10]);
+      result.m34 = unchecked(array[11]);
+      result.m41 = unchecked(array[12]);
+      result.m42 = unchecked(array[13]);
+      result.m43 = unchecked(array[14]);
+      result.m44 = unchecked(array[15]);
+      result._is2D = false;
+    }
+    return result;
+  }
+
+  /**
+   * Set when the matrix only describes a 2D transform.
+   */
+  public get is2D(): bool {
+    return this._is2D;
+  }
+
   public get isIdentity(): bool {
     return this.m11 == 1.0
       && this.m12 == 0.0
+      && this.m13 == 0.0
+      && this.m14 == 0.0
       && this.m21 == 0.0
       && this.m22 == 1.0
+      && this.m23 == 0.0
+      && this.m24 == 0.0
+      && this.m31 == 0.0
+      && this.m32 == 0.0
+      && this.m33 == 1.0
+      && this.m34 == 0.0
       && this.m41 == 0.0
-      && this.m42 == 0.0;
+      && this.m42 == 0.0
+      && this.m43 == 0.0
+      && this.m44 == 1.0;
   }
+
   public get a():f64 {
     return this.m11;
   }
@@ -73,4 +144,518 @@ export class DOMMatrix {
     this.m42 = value;
   }
 
+  /**
+   * The DOMMatrix.flipX() method returns a new matrix that is this matrix flipped about the y-axis.
+   */
+  public flipX(): DOMMatrix {
+    var result = this._clone();
+    result.m11 = -result.m11;
+    result.m12 = -result.m12;
+    result.m13 = -result.m13;
+    result.m14 = -result.m14;
+    return result;
+  }
+
+  /**
+   * The DOMMatrix.flipY() method returns a new matrix that is this matrix flipped about the x-axis.
+   */
+  public flipY(): DOMMatrix {
+    var result = this._clone();
+    result.m21 = -result.m21;
+    result.m22 = -result.m22;
+    result.m23 = -result.m23;
+    result.m24 = -result.m24;
+    return result;
+  }
+
+  /**
+   * The DOMMatrix.inverse() method returns a new matrix which is the inverse of this matrix. If
+   * the matrix cannot be inverted, every value of the new matrix is NaN.
+   */
+  public inverse(): DOMMatrix {
+    return this._clone().invertSelf();
+  }
+
+  /**
+   * The DOMMatrix.invertSelf() method inverts this matrix. If the matrix cannot be inverted, every
+   * value is set to NaN and the matrix is no longer 2D.
+   */
+  public invertSelf(): DOMMatrix {
+    if (this._is2D) {
+      let a = this.m11;
+      let b = this.m12;
+      let c = this.m21;
+      let d = this.m22;
+      let e = this.m41;
+      let f = this.m42;
+      let det = a * d - b * c;
+      if (det != 0.0 && isFinite(det)) {
+        this.m11 = d / det;
+        this.m12 = -b / det;
+        this.m21 = -c / det;
+        this.m22 = a / det;
+        this.m41 = (c * f - d * e) / det;
+        this.m42 = (b * e - a * f) / det;
+        return this;
+      }
+    } else {
+      var m11 = this.m11;
+      var m12 = this.m12;
+      var m13 = this.m13;
+      var m14 = this.m14;
+      var m21 = this.m21;
+      var m22 = this.m22;
+      var m23 = this.m23;
+      var m24 = this.m24;
+      var m31 = this.m31;
+      var m32 = this.m32;
+      var m33 = this.m33;
+      var m34 = this.m34;
+      var m41 = this.m41;
+      var m42 = this.m42;
+      var m43 = this.m43;
+      var m44 = this.m44;
+      var i11 = m22 * m33 * m44 - m22 * m34 * m43 - m32 * m23 * m44 + m32 * m24 * m43
+        + m42 * m23 * m34 - m42 * m24 * m33;
+      var i21 = -m21 * m33 * m44 + m21 * m34 * m43 + m31 * m23 * m44 - m31 * m24 * m43
+        - m41 * m23 * m34 + m41 * m24 * m33;
+      var i31 = m21 * m32 * m44 - m21 * m34 * m42 - m31 * m22 * m44 + m31 * m24 * m42
+        + m41 * m22 * m34 - m41 * m24 * m32;
+      var i41 = -m21 * m32 * m43 + m21 * m33 * m42 + m31 * m22 * m43 - m31 * m23 * m42
+        - m41 * m22 * m33 + m41 * m23 * m32;
+      var i12 = -m12 * m33 * m44 + m12 * m34 * m43 + m32 * m13 * m44 - m32 * m14 * m43
+        - m42 * m13 * m34 + m42 * m14 * m33;
+      var i22 = m11 * m33 * m44 - m11 * m34 * m43 - m31 * m13 * m44 + m31 * m14 * m43
+        + m41 * m13 * m34 - m41 * m14 * m33;
+      var i32 = -m11 * m32 * m44 + m11 * m34 * m42 + m31 * m12 * m44 - m31 * m14 * m42
+        - m41 * m12 * m34 + m41 * m14 * m32;
+      var i42 = m11 * m32 * m43 - m11 * m33 * m42 - m31 * m12 * m43 + m31 * m13 * m42
+        + m41 * m12 * m33 - m41 * m13 * m32;
+      var i13 = m12 * m23 * m44 - m12 * m24 * m43 - m22 * m13 * m44 + m22 * m14 * m43
+        + m42 * m13 * m24 - m42 * m14 * m23;
+      var i23 = -m11 * m23 * m44 + m11 * m24 * m43 + m21 * m13 * m44 - m21 * m14 * m43
+        - m41 * m13 * m24 + m41 * m14 * m23;
+      var i33 = m11 * m22 * m44 - m11 * m24 * m42 - m21 * m12 * m44 + m21 * m14 * m42
+        + m41 * m12 * m24 - m41 * m14 * m22;
+      var i43 = -m11 * m22 * m43 + m11 * m23 * m42 + m21 * m12 * m43 - m21 * m13 * m42
+        - m41 * m12 * m23 + m41 * m13 * m22;
+      var i14 = -m12 * m23 * m34 + m12 * m24 * m33 + m22 * m13 * m34 - m22 * m14 * m33
+        - m32 * m13 * m24 + m32 * m14 * m23;
+      var i24 = m11 * m23 * m34 - m11 * m24 * m33 - m21 * m13 * m34 + m21 * m14 * m33
+        + m31 * m13 * m24 - m31 * m14 * m23;
+      var i34 = -m11 * m22 * m34 + m11 * m24 * m32 + m21 * m12 * m34 - m21 * m14 * m32
+        - m31 * m12 * m24 + m31 * m14 * m22;
+      var i44 = m11 * m22 * m33 - m11 * m23 * m32 - m21 * m12 * m33 + m21 * m13 * m32
+        + m31 * m12 * m23 - m31 * m13 * m22;
+      let det = m11 * i11 + m12 * i21 + m13 * i31 + m14 * i41;
+      if (det != 0.0 && isFinite(det)) {
+        this.m11 = i11 / det;
+        this.m12 = i12 / det;
+        this.m13 = i13 / det;
+        this.m14 = i14 / det;
+        this.m21 = i21 / det;
+        this.m22 = i22 / det;
+        this.m23 = i23 / det;
+        this.m24 = i24 / det;
+        this.m31 = i31 / det;
+        this.m32 = i32 / det;
+        this.m33 = i33 / det;
+        this.m34 = i34 / det;
+        this.m41 = i41 / det;
+        this.m42 = i42 / det;
+        this.m43 = i43 / det;
+        this.m44 = i44 / det;
+        return this;
+      }
+    }
+    this.m11 = NaN;
+    this.m12 = NaN;
+    this.m13 = NaN;
+    this.m14 = NaN;
+    this.m21 = NaN;
+    this.m22 = NaN;
+    this.m23 = NaN;
+    this.m24 = NaN;
+    this.m31 = NaN;
+    this.m32 = NaN;
+    this.m33 = NaN;
+    this.m34 = NaN;
+    this.m41 = NaN;
+    this.m42 = NaN;
+    this.m43 = NaN;
+    this.m44 = NaN;
+    this._is2D = false;
+    return this;
+  }
+
+  /**
+   * The DOMMatrix.multiply() method returns a new matrix which is the dot product of this matrix
+   * and the given matrix, in that order.
+   *
+   * @param {DOMMatrix} other - The matrix to multiply by.
+   */
+  public multiply(other: DOMMatrix): DOMMatrix {
+    return this._clone().multiplySelf(other);
+  }
+
+  /**
+   * The DOMMatrix.multiplySelf() method post-multiplies this matrix by the given matrix.
+   *
+   * @param {DOMMatrix} other - The matrix to multiply by.
+   */
+  public multiplySelf(other: DOMMatrix): DOMMatrix {
+    this._multiply(this, other);
+    return this;
+  }
+
+  /**
+   * The DOMMatrix.preMultiplySelf() method pre-multiplies this matrix by the given matrix.
+   *
+   * @param {DOMMatrix} other - The matrix to multiply by.
+   */
+  public preMultiplySelf(other: DOMMatrix): DOMMatrix {
+    this._multiply(other, this);
+    return this;
+  }
+
+  /**
+   * The DOMMatrix.rotate() method returns a new matrix which is this matrix rotated by the given
+   * angles, in degrees. When only one angle is given, it is a rotation around the z-axis.
+   *
+   * @param {f64} rotX - The rotation around the x-axis, or around the z-axis if it is the only
+   * angle given.
+   * @param {f64} rotY - The rotation around the y-axis.
+   * @param {f64} rotZ - The rotation around the z-axis.
+   */
+  public rotate(rotX: f64 = 0.0, rotY: f64 = NaN, rotZ: f64 = NaN): DOMMatrix {
+    return this._clone().rotateSelf(rotX, rotY, rotZ);
+  }
+
+  /**
+   * The DOMMatrix.rotateSelf() method rotates this matrix by the given angles, in degrees. The
+   * rotation around the z-axis is applied first, then the y-axis, then the x-axis. When only one
+   * angle is given, it is a rotation around the z-axis.
+   *
+   * @param {f64} rotX - The rotation around the x-axis, or around the z-axis if it is the only
+   * angle given.
+   * @param {f64} rotY - The rotation around the y-axis.
+   * @param {f64} rotZ - The rotation around the z-axis.
+   */
+  public rotateSelf(rotX: f64 = 0.0, rotY: f64 = NaN, rotZ: f64 = NaN): DOMMatrix {
+    if (isNaN(rotY) && isNaN(rotZ)) {
+      rotZ = rotX;
+      rotX = 0.0;
+      rotY = 0.0;
+    }
+    if (isNaN(rotY)) rotY = 0.0;
+    if (isNaN(rotZ)) rotZ = 0.0;
+    if (rotX != 0.0 || rotY != 0.0) this._is2D = false;
+    if (rotZ != 0.0) {
+      let angle = rotZ * Math.PI / 180.0;
+      let cos = Math.cos(angle);
+      let sin = Math.sin(angle);
+      let m11 = this.m11;
+      let m12 = this.m12;
+      let m13 = this.m13;
+      let m14 = this.m14;
+      this.m11 = cos * m11 + sin * this.m21;
+      this.m12 = cos * m12 + sin * this.m22;
+      this.m13 = cos * m13 + sin * this.m23;
+      this.m14 = cos * m14 + sin * this.m24;
+      this.m21 = cos * this.m21 - sin * m11;
+      this.m22 = cos * this.m22 - sin * m12;
+      this.m23 = cos * this.m23 - sin * m13;
+      this.m24 = cos * this.m24 - sin * m14;
+    }
+    if (rotY != 0.0) {
+      let angle = rotY * Math.PI / 180.0;
+      let cos = Math.cos(angle);
+      let sin = Math.sin(angle);
+      let m31 = this.m31;
+      let m32 = this.m32;
+      let m33 = this.m33;
+      let m34 = this.m34;
+      this.m31 = cos * m31 + sin * this.m11;
+      this.m32 = cos * m32 + sin * this.m12;
+      this.m33 = cos * m33 + sin * this.m13;
+      this.m34 = cos * m34 + sin * this.m14;
+      this.m11 = cos * this.m11 - sin * m31;
+      this.m12 = cos * this.m12 - sin * m32;
+      this.m13 = cos * this.m13 - sin * m33;
+      this.m14 = cos * this.m14 - sin * m34;
+    }
+    if (rotX != 0.0) {
+      let angle = rotX * Math.PI / 180.0;
+      let cos = Math.cos(angle);
+      let sin = Math.sin(angle);
+      let m21 = this.m21;
+      let m22 = this.m22;
+      let m23 = this.m23;
+      let m24 = this.m24;
+      this.m21 = cos * m21 + sin * this.m31;
+      this.m22 = cos * m22 + sin * this.m32;
+      this.m23 = cos * m23 + sin * this.m33;
+      this.m24 = cos * m24 + sin * this.m34;
+      this.m31 = cos * this.m31 - sin * m21;
+      this.m32 = cos * this.m32 - sin * m22;
+      this.m33 = cos * this.m33 - sin * m23;
+      this.m34 = cos * this.m34 - sin * m24;
+    }
+    return this;
+  }
+
+  /**
+   * The DOMMatrix.scale() method returns a new matrix which is this matrix scaled by the given
+   * factors, around the given origin.
+   *
+   * @param {f64} scaleX - The scaling factor along the x-axis.
+   * @param {f64} scaleY - The scaling factor along the y-axis. Defaults to scaleX.
+   * @param {f64} scaleZ - The scaling factor along the z-axis.
+   * @param {f64} originX - The x-axis coordinate of the origin of the scaling.
+   * @param {f64} originY - The y-axis coordinate of the origin of the scaling.
+   * @param {f64} originZ - The z-axis coordinate of the origin of the scaling.
+   */
+  public scale(
+    scaleX: f64 = 1.0,
+    scaleY: f64 = NaN,
+    scaleZ: f64 = 1.0,
+    originX: f64 = 0.0,
+    originY: f64 = 0.0,
+    originZ: f64 = 0.0,
+  ): DOMMatrix {
+    return this._clone().scaleSelf(scaleX, scaleY, scaleZ, originX, originY, originZ);
+  }
+
+  /**
+   * The DOMMatrix.scaleSelf() method scales this matrix by the given factors, around the given
+   * origin.
+   *
+   * @param {f64} scaleX - The scaling factor along the x-axis.
+   * @param {f64} scaleY - The scaling factor along the y-axis. Defaults to scaleX.
+   * @param {f64} scaleZ - The scaling factor along the z-axis.
+   * @param {f64} originX - The x-axis coordinate of the origin of the scaling.
+   * @param {f64} originY - The y-axis coordinate of the origin of the scaling.
+   * @param {f64} originZ - The z-axis coordinate of the origin of the scaling.
+   */
+  public scaleSelf(
+    scaleX: f64 = 1.0,
+    scaleY: f64 = NaN,
+    scaleZ: f64 = 1.0,
+    originX: f64 = 0.0,
+    originY: f64 = 0.0,
+    originZ: f64 = 0.0,
+  ): DOMMatrix {
+    if (isNaN(scaleY)) scaleY = scaleX;
+    if (scaleZ != 1.0 || originZ != 0.0) this._is2D = false;
+    this.translateSelf(originX, originY, originZ);
+    this.m11 *= scaleX;
+    this.m12 *= scaleX;
+    this.m13 *= scaleX;
+    this.m14 *= scaleX;
+    this.m21 *= scaleY;
+    this.m22 *= scaleY;
+    this.m23 *= scaleY;
+    this.m24 *= scaleY;
+    this.m31 *= scaleZ;
+    this.m32 *= scaleZ;
+    this.m33 *= scaleZ;
+    this.m34 *= scaleZ;
+    this.translateSelf(-originX, -originY, -originZ);
+    return this;
+  }
+
+  /**
+   * The DOMMatrix.skewX() method returns a new matrix which is this matrix skewed along the
+   * x-axis by the given angle, in degrees.
+   *
+   * @param {f64} sx - The skew angle.
+   */
+  public skewX(sx: f64 = 0.0): DOMMatrix {
+    return this._clone().skewXSelf(sx);
+  }
+
+  /**
+   * The DOMMatrix.skewXSelf() method skews this matrix along the x-axis by the given angle, in
+   * degrees.
+   *
+   * @param {f64} sx - The skew angle.
+   */
+  public skewXSelf(sx: f64 = 0.0): DOMMatrix {
+    var tan = Math.tan(sx * Math.PI / 180.0);
+    this.m21 += tan * this.m11;
+    this.m22 += tan * this.m12;
+    this.m23 += tan * this.m13;
+    this.m24 += tan * this.m14;
+    return this;
+  }
+
+  /**
+   * The DOMMatrix.skewY() method returns a new matrix which is this matrix skewed along the
+   * y-axis by the given angle, in degrees.
+   *
+   * @param {f64} sy - The skew angle.
+   */
+  public skewY(sy: f64 = 0.0): DOMMatrix {
+    return this._clone().skewYSelf(sy);
+  }
+
+  /**
+   * The DOMMatrix.skewYSelf() method skews this matrix along the y-axis by the given angle, in
+   * degrees.
+   *
+   * @param {f64} sy - The skew angle.
+   */
+  public skewYSelf(sy: f64 = 0.0): DOMMatrix {
+    var tan = Math.tan(sy * Math.PI / 180.0);
+    this.m11 += tan * this.m21;
+    this.m12 += tan * this.m22;
+    this.m13 += tan * this.m23;
+    this.m14 += tan * this.m24;
+    return this;
+  }
+
+  /**
+   * The DOMMatrix.toFloat64Array() method returns the 16 values of this matrix, in column major
+   * order.
+   */
+  public toFloat64Array(): Float64Array {
+    var result = new Float64Array(16);
+    unchecked(result[0] = this.m11);
+    unchecked(result[1] = this.m12);
+    unchecked(result[2] = this.m13);
+    unchecked(result[3] = this.m14);
+    unchecked(result[4] = this.m21);
+    unchecked(result[5] = this.m22);
+    unchecked(result[6] = this.m23);
+    unchecked(result[7] = this.m24);
+    unchecked(result[8] = this.m31);
+    unchecked(result[9] = this.m32);
+    unchecked(result[10] = this.m33);
+    unchecked(result[11] = this.m34);
+    unchecked(result[12] = this.m41);
+    unchecked(result[13] = this.m42);
+    unchecked(result[14] = this.m43);
+    unchecked(result[15] = this.m44);
+    return result;
+  }
+
+  /**
+   * The DOMMatrix.transformPoint() method returns a new DOMPoint which is the given point
+   * transformed by this matrix. The point itself is not modified.
+   *
+   * @param {DOMPoint | null} point - The point to transform. Defaults to the origin.
+   */
+  public transformPoint(point: DOMPoint | null = null): DOMPoint {
+    var x: f64 = 0.0;
+    var y: f64 = 0.0;
+    var z: f64 = 0.0;
+    var w: f64 = 1.0;
+    if (point) {
+      x = point.x;
+      y = point.y;
+      z = point.z;
+      w = point.w;
+    }
+    return new DOMPoint(
+      this.m11 * x + this.m21 * y + this.m31 * z + this.m41 * w,
+      this.m12 * x + this.m22 * y + this.m32 * z + this.m42 * w,
+      this.m13 * x + this.m23 * y + this.m33 * z + this.m43 * w,
+      this.m14 * x + this.m24 * y + this.m34 * z + this.m44 * w,
+    );
+  }
+
+  /**
+   * The DOMMatrix.translate() method returns a new matrix which is this matrix translated by the
+   * given vector.
+   *
+   * @param {f64} tx - The translation along the x-axis.
+   * @param {f64} ty - The translation along the y-axis.
+   * @param {f64} tz - The translation along the z-axis.
+   */
+  public translate(tx: f64 = 0.0, ty: f64 = 0.0, tz: f64 = 0.0): DOMMatrix {
+    return this._clone().translateSelf(tx, ty, tz);
+  }
+
+  /**
+   * The DOMMatrix.translateSelf() method translates this matrix by the given vector.
+   *
+   * @param {f64} tx - The translation along the x-axis.
+   * @param {f64} ty - The translation along the y-axis.
+   * @param {f64} tz - The translation along the z-axis.
+   */
+  public translateSelf(tx: f64 = 0.0, ty: f64 = 0.0, tz: f64 = 0.0): DOMMatrix {
+    if (tz != 0.0) this._is2D = false;
+    this.m41 += this.m11 * tx + this.m21 * ty + this.m31 * tz;
+    this.m42 += this.m12 * tx + this.m22 * ty + this.m32 * tz;
+    this.m43 += this.m13 * tx + this.m23 * ty + this.m33 * tz;
+    this.m44 += this.m14 * tx + this.m24 * ty + this.m34 * tz;
+    return this;
+  }
+
+  /**
+   * Create a copy of this matrix.
+   */
+  private _clone(): DOMMatrix {
+    var result = new DOMMatrix();
+    result.m11 = this.m11;
+    result.m12 = this.m12;
+    result.m13 = this.m13;
+    result.m14 = this.m14;
+    result.m21 = this.m21;
+    result.m22 = this.m22;
+    result.m23 = this.m23;
+    result.m24 = this.m24;
+    result.m31 = this.m31;
+    result.m32 = this.m32;
+    result.m33 = this.m33;
+    result.m34 = this.m34;
+    result.m41 = this.m41;
+    result.m42 = this.m42;
+    result.m43 = this.m43;
+    result.m44 = this.m44;
+    result._is2D = this._is2D;
+    return result;
+  }
+
+  /**
+   * Set this matrix to the dot product of two matrices. Either matrix can be this matrix.
+   *
+   * @param {DOMMatrix} a - The left-hand matrix.
+   * @param {DOMMatrix} b - The right-hand matrix.
+   */
+  private _multiply(a: DOMMatrix, b: DOMMatrix): void {
+    var m11 = a.m11 * b.m11 + a.m21 * b.m12 + a.m31 * b.m13 + a.m41 * b.m14;
+    var m12 = a.m12 * b.m11 + a.m22 * b.m12 + a.m32 * b.m13 + a.m42 * b.m14;
+    var m13 = a.m13 * b.m11 + a.m23 * b.m12 + a.m33 * b.m13 + a.m43 * b.m14;
+    var m14 = a.m14 * b.m11 + a.m24 * b.m12 + a.m34 * b.m13 + a.m44 * b.m14;
+    var m21 = a.m11 * b.m21 + a.m21 * b.m22 + a.m31 * b.m23 + a.m41 * b.m24;
+    var m22 = a.m12 * b.m21 + a.m22 * b.m22 + a.m32 * b.m23 + a.m42 * b.m24;
+    var m23 = a.m13 * b.m21 + a.m23 * b.m22 + a.m33 * b.m23 + a.m43 * b.m24;
+    var m24 = a.m14 * b.m21 + a.m24 * b.m22 + a.m34 * b.m23 + a.m44 * b.m24;
+    var m31 = a.m11 * b.m31 + a.m21 * b.m32 + a.m31 * b.m33 + a.m41 * b.m34;
+    var m32 = a.m12 * b.m31 + a.m22 * b.m32 + a.m32 * b.m33 + a.m42 * b.m34;
+    var m33 = a.m13 * b.m31 + a.m23 * b.m32 + a.m33 * b.m33 + a.m43 * b.m34;
+    var m34 = a.m14 * b.m31 + a.m24 * b.m32 + a.m34 * b.m33 + a.m44 * b.m34;
+    var m41 = a.m11 * b.m41 + a.m21 * b.m42 + a.m31 * b.m43 + a.m41 * b.m44;
+    var m42 = a.m12 * b.m41 + a.m22 * b.m42 + a.m32 * b.m43 + a.m42 * b.m44;
+    var m43 = a.m13 * b.m41 + a.m23 * b.m42 + a.m33 * b.m43 + a.m43 * b.m44;
+    var m44 = a.m14 * b.m41 + a.m24 * b.m42 + a.m34 * b.m43 + a.m44 * b.m44;
+    this.m11 = m11;
+    this.m12 = m12;
+    this.m13 = m13;
+    this.m14 = m14;
+    this.m21 = m21;
+    this.m22 = m22;
+    this.m23 = m23;
+    this.m24 = m24;
+    this.m31 = m31;
+    this.m32 = m32;
+    this.m33 = m33;
+    this.m34 = m34;
+    this.m41 = m41;
+    this.m42 = m42;
+    this.m43 = m43;
+    this.m44 = m44;
+    this._is2D = a._is2D && b._is2D;
+  }
 }
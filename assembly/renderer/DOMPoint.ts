@@ -0,0 +1,24 @@
+import { DOMMatrix } from "./DOMMatrix";
+
+/**
+ * A DOMPoint object represents a 2D or 3D point in a coordinate system, with an optional
+ * perspective value.
+ */
+export class DOMPoint {
+  constructor(
+    public x: f64 = 0.0,
+    public y: f64 = 0.0,
+    public z: f64 = 0.0,
+    public w: f64 = 1.0,
+  ) {}
+
+  /**
+   * The DOMPoint.matrixTransform() method returns a new DOMPoint which is this point transformed
+   * by the given matrix.
+   *
+   * @param {DOMMatrix} matrix - The matrix to transform the point by.
+   */
+  public matrixTransform(matrix: DOMMatrix): DOMPoint {
+    return matrix.transformPoint(this);
+  }
+}
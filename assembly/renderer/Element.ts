@@ -0,0 +1,11 @@
+/**
+ * An Element is a reference to a fallback element of the canvas, provided by the host with
+ * `useElement()`. Fallback elements are the focusable elements of the canvas subtree that make
+ * the drawing accessible, and are obtained with `getElementById(name)`.
+ */
+export class Element {
+  constructor(
+    /** The unique id of the element, created by the host. */
+    public readonly id: i32,
+  ) {}
+}
@@ -0,0 +1,94 @@
+import { CanvasImageSource } from "./CanvasImageSource";
+import { CanvasRenderingContext2D } from "./CanvasRenderingContext2D";
+
+// @ts-ignore: linked functions can have decorators
+@external("__canvas_sys", "setCanvasSize")
+declare function setCanvasSize(id: i32, width: i32, height: i32): void;
+
+/**
+ * An HTMLCanvasElement is a reference to the host canvas of a context, obtained with the `canvas`
+ * property of the context. It shares the id of its context, and can be drawn into another context
+ * like an image. The host draws the pixels of the canvas at the time the destination context is
+ * rendered, so the source context should be committed first.
+ *
+ * The size of the canvas is kept up to date by the host when the canvas is resized, either by the
+ * host or by the module.
+ */
+export class HTMLCanvasElement extends CanvasImageSource {
+  private _clientWidth: f64 = 0.0;
+  private _clientHeight: f64 = 0.0;
+  private _devicePixelRatio: f64 = 1.0;
+
+  /**
+   * Create the canvas of a context.
+   *
+   * @param {usize} _context - A pointer to the context. It is not retained, because the context
+   * retains its canvas.
+   */
+  constructor(private _context: usize) {
+    super();
+    this._loaded = true;
+  }
+
+  /**
+   * The HTMLCanvasElement.width property is the width of the drawing surface of the canvas in
+   * pixels. Setting it resizes the host canvas, which resets the context like `reset()` does.
+   */
+  public get width(): number {
+    return this._width;
+  }
+
+  public set width(value: number) {
+    this._resize(<i32>value, this._height);
+  }
+
+  /**
+   * The HTMLCanvasElement.height property is the height of the drawing surface of the canvas in
+   * pixels. Setting it resizes the host canvas, which resets the context like `reset()` does.
+   */
+  public get height(): number {
+    return this._height;
+  }
+
+  public set height(value: number) {
+    this._resize(this._width, <i32>value);
+  }
+
+  /**
+   * The width of the canvas in CSS pixels, as it is laid out by the host, or 0 if the canvas is not
+   * displayed.
+   */
+  @inline
+  public get clientWidth(): f64 {
+    return this._clientWidth;
+  }
+
+  /**
+   * The height of the canvas in CSS pixels, as it is laid out by the host, or 0 if the canvas is
+   * not displayed.
+   */
+  @inline
+  public get clientHeight(): f64 {
+    return this._clientHeight;
+  }
+
+  /**
+   * The ratio of the resolution in physical pixels to the resolution in CSS pixels of the display
+   * of the host. A canvas is sharp when its size is its CSS size multiplied by this ratio.
+   */
+  @inline
+  public get devicePixelRatio(): f64 {
+    return this._devicePixelRatio;
+  }
+
+  /**
+   * Resize the host canvas, and reset the context, because the host context was reset. The size is
+   * updated first, so the host notification does not reset the context a second time.
+   */
+  private _resize(width: i32, height: i32): void {
+    this._width = width;
+    this._height = height;
+    setCanvasSize(this._id, width, height);
+    changetype<CanvasRenderingContext2D>(this._context).reset();
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * The ImageData interface represents the underlying pixel data of an area of a canvas. It is
+ * created with CanvasRenderingContext2D.createImageData(), or returned by
+ * CanvasRenderingContext2D.getImageData(). The pixels live in the module memory, so they can be
+ * read and modified without calling the host.
+ */
+export class ImageData {
+  /**
+   * The pixels of the image, in rows from top to bottom, as four non-premultiplied RGBA values
+   * between 0 and 255 per pixel.
+   */
+  public readonly data: Uint8ClampedArray;
+
+  /**
+   * Create transparent black pixel data.
+   *
+   * @param {i32} width - The width of the image in pixels. Must be positive.
+   * @param {i32} height - The height of the image in pixels. Must be positive.
+   */
+  constructor(
+    public readonly width: i32,
+    public readonly height: i32,
+  ) {
+    if (width <= 0 || height <= 0) throw new Error("The width and height of an ImageData must be positive.");
+    this.data = new Uint8ClampedArray(width * height * 4);
+  }
+}
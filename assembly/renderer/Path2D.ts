@@ -0,0 +1,316 @@
+import { CanvasInstruction } from "../../src/shared/CanvasInstruction";
+import { DOMMatrix } from "./DOMMatrix";
+import { STORE } from "../internal/util";
+import { CanvasRenderingContext2D } from "./CanvasRenderingContext2D";
+
+// @ts-ignore: decorators are valid here
+@external("__canvas_sys", "createPath2D")
+declare function createPath2D(): i32;
+
+// @ts-ignore: decorators are valid here
+@external("__canvas_sys", "updatePath2D")
+declare function updatePath2D(id: i32, data: usize, length: i32): void;
+
+// @ts-ignore: decorators are valid here
+@external("__canvas_sys", "disposePath2D")
+declare function disposePath2D(id: i32): void;
+
+/**
+ * The Path2D interface of the Canvas 2D API is used to declare a path that can then be used on a
+ * CanvasRenderingContext2D object with the fillPath(), strokePath(), clipPath() and
+ * isPointInPathObject() methods. The path segments are recorded in the same
+ * `[instruction, nextIndex, ...args]` layout the context buffer uses, and they are sent to the
+ * host the first time the path is drawn after it changed. The host caches the resulting path, so
+ * drawing the same path every frame does not re-issue its segments.
+ */
+export class Path2D {
+  /**
+   * The external id of the path.
+   */
+  private _id: i32 = createPath2D();
+
+  /**
+   * The recorded segments of the path.
+   */
+  private _data: ArrayBuffer = new ArrayBuffer(0x10 * sizeof<f64>());
+
+  /**
+   * The number of values written to the _data buffer.
+   */
+  private _length: i32 = 0;
+
+  /**
+   * Set when the recorded segments changed since they were last sent to the host.
+   */
+  private _dirty: bool = true;
+
+  /**
+   * The contexts that wrote drawing instructions referring to the host copy of the segments.
+   */
+  private _holders: CanvasRenderingContext2D[] = new Array<CanvasRenderingContext2D>();
+
+  /**
+   * The buffer generation of each holder at the time it last referred to the path. A holder whose
+   * buffer was sent to the host since then has no pending instructions that refer to the path.
+   */
+  private _generations: i32[] = new Array<i32>();
+
+  /**
+   * The Path2D.addPath() method of the Canvas 2D API adds one Path2D object to another Path2D
+   * object. The segments of the given path are copied, so later changes to it do not affect this
+   * path.
+   *
+   * @param {Path2D} path - A Path2D path to add.
+   * @param {DOMMatrix | null} transform - A DOMMatrix to be used as the transformation matrix for
+   * the path that is added.
+   */
+  public addPath(path: Path2D, transform: DOMMatrix | null = null): void {
+    var a: f64 = 1.0;
+    var b: f64 = 0.0;
+    var c: f64 = 0.0;
+    var d: f64 = 1.0;
+    var e: f64 = 0.0;
+    var f: f64 = 0.0;
+    if (transform) {
+      a = transform.m11;
+      b = transform.m12;
+      c = transform.m21;
+      d = transform.m22;
+      e = transform.m41;
+      f = transform.m42;
+    }
+    if (!isFinite(a + b + c + d + e + f)) return;
+    var length = path._length;
+    this._write(CanvasInstruction.AddPath, 6 + length, a, b, c, d, e, f);
+    memory.copy(
+      changetype<usize>(this._data) + (<usize>(this._length - length) << alignof<f64>()),
+      changetype<usize>(path._data),
+      <usize>length << alignof<f64>(),
+    );
+  }
+
+  /**
+   * The Path2D.arc() method of the Canvas 2D API adds a circular arc to the path.
+   *
+   * @param {f64} x - The x-axis (horizontal) coordinate of the arc's center.
+   * @param {f64} y - The y-axis (vertical) coordinate of the arc's center.
+   * @param {f64} radius - The arc's radius. Must be non-negative.
+   * @param {f64} startAngle - The angle at which the arc starts, measured clockwise from the
+   * positive x-axis and expressed in radians.
+   * @param {f64} endAngle - The angle at which the arc ends, measured clockwise from the positive
+   * x-axis and expressed in radians.
+   * @param {bool} anticlockwise - An optional bool which, if true, causes the arc to be drawn
+   * counter-clockwise between the start and end angles.
+   */
+  public arc(x: f64, y: f64, radius: f64, startAngle: f64, endAngle: f64, anticlockwise: bool = false): void {
+    if (!isFinite(x + y + radius + startAngle + endAngle) || radius < 0) return;
+    this._write(CanvasInstruction.Arc, 6, x, y, radius, startAngle, endAngle, anticlockwise ? 1.0 : 0.0);
+  }
+
+  /**
+   * The Path2D.arcTo() method of the Canvas 2D API adds a circular arc to the path, using the
+   * given control points and radius.
+   *
+   * @param {f64} x1 - The x-axis coordinate of the first control point.
+   * @param {f64} y1 - The y-axis coordinate of the first control point.
+   * @param {f64} x2 - The x-axis coordinate of the second control point.
+   * @param {f64} y2 - The y-axis coordinate of the second control point.
+   * @param {f64} radius - The arc's radius. Must be non-negative.
+   */
+  public arcTo(x1: f64, y1: f64, x2: f64, y2: f64, radius: f64): void {
+    if (!isFinite(x1 + y1 + x2 + y2 + radius) || radius < 0) return;
+    this._write(CanvasInstruction.ArcTo, 5, x1, y1, x2, y2, radius);
+  }
+
+  /**
+   * The Path2D.bezierCurveTo() method of the Canvas 2D API adds a cubic Bézier curve to the path.
+   *
+   * @param {f64} cp1x - The x-axis coordinate of the first control point.
+   * @param {f64} cp1y - The y-axis coordinate of the first control point.
+   * @param {f64} cp2x - The x-axis coordinate of the second control point.
+   * @param {f64} cp2y - The y-axis coordinate of the second control point.
+   * @param {f64} x - The x-axis coordinate of the end point.
+   * @param {f64} y - The y-axis coordinate of the end point.
+   */
+  public bezierCurveTo(cp1x: f64, cp1y: f64, cp2x: f64, cp2y: f64, x: f64, y: f64): void {
+    if (!isFinite(cp1x + cp1y + cp2x + cp2y + x + y)) return;
+    this._write(CanvasInstruction.BezierCurveTo, 6, cp1x, cp1y, cp2x, cp2y, x, y);
+  }
+
+  /**
+   * The Path2D.closePath() method of the Canvas 2D API adds a straight line from the current point
+   * to the start of the current sub-path.
+   */
+  public closePath(): void {
+    this._write(CanvasInstruction.ClosePath, 0);
+  }
+
+  /**
+   * The Path2D.ellipse() method of the Canvas 2D API adds an elliptical arc to the path.
+   *
+   * @param {f64} x - The x-axis (horizontal) coordinate of the ellipse's center.
+   * @param {f64} y - The y-axis (vertical) coordinate of the ellipse's center.
+   * @param {f64} radiusX - The ellipse's major-axis radius. Must be non-negative.
+   * @param {f64} radiusY - The ellipse's minor-axis radius. Must be non-negative.
+   * @param {f64} rotation - The rotation of the ellipse, expressed in radians.
+   * @param {f64} startAngle - The angle at which the ellipse starts, measured clockwise from the
+   * positive x-axis and expressed in radians.
+   * @param {f64} endAngle - The angle at which the ellipse ends, measured clockwise from the
+   * positive x-axis and expressed in radians.
+   * @param {bool} anticlockwise - An optional bool which, if true, draws the ellipse
+   * anticlockwise.
+   */
+  public ellipse(x: f64, y: f64, radiusX: f64, radiusY: f64, rotation: f64, startAngle: f64, endAngle: f64, anticlockwise: bool = false): void {
+    if (!isFinite(x + y + radiusX + radiusY + rotation + startAngle + endAngle) || radiusX < 0 || radiusY < 0) return;
+    this._write(CanvasInstruction.Ellipse, 8, x, y, radiusX, radiusY, rotation, startAngle, endAngle, anticlockwise ? 1.0 : 0.0);
+  }
+
+  /**
+   * The Path2D.lineTo() method of the Canvas 2D API adds a straight line to the path.
+   *
+   * @param {f64} x - The x-axis coordinate of the line's end point.
+   * @param {f64} y - The y-axis coordinate of the line's end point.
+   */
+  public lineTo(x: f64, y: f64): void {
+    if (!isFinite(x + y)) return;
+    this._write(CanvasInstruction.LineTo, 2, x, y);
+  }
+
+  /**
+   * The Path2D.moveTo() method of the Canvas 2D API begins a new sub-path at the point specified
+   * by the given (x, y) coordinates.
+   *
+   * @param {f64} x - The x-axis (horizontal) coordinate of the point.
+   * @param {f64} y - The y-axis (vertical) coordinate of the point.
+   */
+  public moveTo(x: f64, y: f64): void {
+    if (!isFinite(x + y)) return;
+    this._write(CanvasInstruction.MoveTo, 2, x, y);
+  }
+
+  /**
+   * The Path2D.quadraticCurveTo() method of the Canvas 2D API adds a quadratic Bézier curve to the
+   * path.
+   *
+   * @param {f64} cpx - The x-axis coordinate of the control point.
+   * @param {f64} cpy - The y-axis coordinate of the control point.
+   * @param {f64} x - The x-axis coordinate of the end point.
+   * @param {f64} y - The y-axis coordinate of the end point.
+   */
+  public quadraticCurveTo(cpx: f64, cpy: f64, x: f64, y: f64): void {
+    if (!isFinite(cpx + cpy + x + y)) return;
+    this._write(CanvasInstruction.QuadraticCurveTo, 4, cpx, cpy, x, y);
+  }
+
+  /**
+   * The Path2D.rect() method of the Canvas 2D API adds a rectangle to the path.
+   *
+   * @param {f64} x - The x-axis coordinate of the rectangle's starting point.
+   * @param {f64} y - The y-axis coordinate of the rectangle's starting point.
+   * @param {f64} width - The rectangle's width.
+   * @param {f64} height - The rectangle's height.
+   */
+  public rect(x: f64, y: f64, width: f64, height: f64): void {
+    if (!isFinite(x + y + width + height)) return;
+    this._write(CanvasInstruction.Rect, 4, x, y, width, height);
+  }
+
+  /**
+   * This method frees the Path2D from the host's path index.
+   */
+  public dispose(): void {
+    disposePath2D(this._id);
+  }
+
+  /**
+   * Record a single segment, and grow the _data buffer when it is full.
+   *
+   * @param {CanvasInstruction} inst - The instruction of the segment.
+   * @param {i32} count - The number of values that follow the segment header. Only the first eight
+   * values are written.
+   */
+  private _write(
+    inst: CanvasInstruction,
+    count: i32,
+    a: f64 = 0.0,
+    b: f64 = 0.0,
+    c: f64 = 0.0,
+    d: f64 = 0.0,
+    e: f64 = 0.0,
+    f: f64 = 0.0,
+    g: f64 = 0.0,
+    h: f64 = 0.0,
+  ): void {
+    var index = this._length;
+    var next = index + 2 + count;
+    var capacity = this._data.byteLength >>> alignof<f64>();
+    if (next > capacity) {
+      while (next > capacity) capacity <<= 1;
+      let data = new ArrayBuffer(capacity << alignof<f64>());
+      memory.copy(changetype<usize>(data), changetype<usize>(this._data), <usize>index << alignof<f64>());
+      this._data = data;
+    }
+    var buff = changetype<usize>(this._data);
+    STORE<f64>(buff, index, <f64>inst);
+    STORE<f64>(buff, index + 1, <f64>next);
+    if (count > 0) STORE<f64>(buff, index + 2, a);
+    if (count > 1) STORE<f64>(buff, index + 3, b);
+    if (count > 2) STORE<f64>(buff, index + 4, c);
+    if (count > 3) STORE<f64>(buff, index + 5, d);
+    if (count > 4) STORE<f64>(buff, index + 6, e);
+    if (count > 5) STORE<f64>(buff, index + 7, f);
+    if (count > 6) STORE<f64>(buff, index + 8, g);
+    if (count > 7) STORE<f64>(buff, index + 9, h);
+    this._length = next;
+    this._dirty = true;
+  }
+}
+
+/**
+ * Obtain the external id of a path, and send its segments to the host if they changed since they
+ * were last sent.
+ *
+ * @param {Path2D} path - The target path.
+ */
+export function sendPath2D(path: Path2D): i32 {
+  var pointer = changetype<usize>(path);
+  var id = load<i32>(pointer, offsetof<Path2D>("_id"));
+  if (load<bool>(pointer, offsetof<Path2D>("_dirty"))) {
+    updatePath2D(id, load<usize>(pointer, offsetof<Path2D>("_data")), load<i32>(pointer, offsetof<Path2D>("_length")));
+    store<bool>(pointer, false, offsetof<Path2D>("_dirty"));
+  }
+  return id;
+}
+
+/**
+ * Check if the recorded segments changed since they were last sent to the host.
+ *
+ * @param {Path2D} path - The target path.
+ */
+// @ts-ignore: @inline is valid on regular functions
+@inline
+export function isPath2DDirty(path: Path2D): bool {
+  return load<bool>(changetype<usize>(path), offsetof<Path2D>("_dirty"));
+}
+
+/**
+ * Obtain the contexts that wrote drawing instructions referring to the host copy of the path.
+ *
+ * @param {Path2D} path - The target path.
+ */
+// @ts-ignore: @inline is valid on regular functions
+@inline
+export function getPath2DHolders(path: Path2D): CanvasRenderingContext2D[] {
+  return changetype<CanvasRenderingContext2D[]>(load<usize>(changetype<usize>(path), offsetof<Path2D>("_holders")));
+}
+
+/**
+ * Obtain the buffer generation of each holder of the path at the time it last referred to it.
+ *
+ * @param {Path2D} path - The target path.
+ */
+// @ts-ignore: @inline is valid on regular functions
+@inline
+export function getPath2DGenerations(path: Path2D): i32[] {
+  return changetype<i32[]>(load<usize>(changetype<usize>(path), offsetof<Path2D>("_generations")));
+}
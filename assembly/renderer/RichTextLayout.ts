@@ -0,0 +1,294 @@
+import { CanvasRenderingContext2D } from "./CanvasRenderingContext2D";
+import { TextRun } from "./TextRun";
+import { TextSpan } from "./TextSpan";
+import { TextAlign } from "../../src/shared/TextAlign";
+import { TextBaseline } from "../../src/shared/TextBaseline";
+
+/**
+ * A measured word, space or character of a span.
+ */
+class RichTextPiece {
+  constructor(
+    public span: TextSpan,
+    public text: string,
+    public width: f64,
+    public ascent: f64,
+  ) {}
+}
+
+/**
+ * Greedily breaks a stream of pieces into lines. Words that are not separated by a space stay on
+ * the same line, even when they belong to different spans.
+ */
+class RichTextLineBreaker {
+  public lines: RichTextPiece[][] = [];
+  public widths: f64[] = [];
+  private _line: RichTextPiece[] = [];
+  private _lineWidth: f64 = 0.0;
+  private _hasWord: bool = false;
+  private _word: RichTextPiece[] = [];
+  private _wordWidth: f64 = 0.0;
+  private _spaces: RichTextPiece[] = [];
+  private _spacesWidth: f64 = 0.0;
+
+  constructor(
+    private _ctx: CanvasRenderingContext2D,
+    private _maxWidth: f64,
+  ) {}
+
+  public addWord(piece: RichTextPiece): void {
+    if (piece.text.length == 0) return;
+    this._word.push(piece);
+    this._wordWidth += piece.width;
+  }
+
+  public addSpace(piece: RichTextPiece): void {
+    this._flushWord();
+    this._spaces.push(piece);
+    this._spacesWidth += piece.width;
+  }
+
+  public addNewline(): void {
+    this._flushWord();
+    this._pushLine();
+  }
+
+  public finish(): void {
+    this._flushWord();
+    this._pushLine();
+  }
+
+  private _flushWord(): void {
+    if (this._word.length == 0) return;
+    if (this._hasWord && this._lineWidth + this._spacesWidth + this._wordWidth > this._maxWidth) {
+      // the spaces a line is broken at are dropped
+      this._pushLine();
+    } else {
+      let spaces = this._spaces;
+      for (let i = 0; i < spaces.length; i++) this._append(unchecked(spaces[i]));
+    }
+    this._spaces = [];
+    this._spacesWidth = 0.0;
+
+    var word = this._word;
+    if (!this._hasWord && this._lineWidth + this._wordWidth > this._maxWidth) {
+      // break the word between the characters that overflow
+      for (let i = 0; i < word.length; i++) {
+        let piece = unchecked(word[i]);
+        let characters: string[] = [];
+        for (let j = 0; j < piece.text.length; j++) characters.push(piece.text.charAt(j));
+        let metrics = this._ctx.measureTextBatch(characters, piece.span.font);
+        for (let j = 0; j < characters.length; j++) {
+          let width = unchecked(metrics[j]).width;
+          if (this._line.length > 0 && this._lineWidth + width > this._maxWidth) this._pushLine();
+          this._append(new RichTextPiece(piece.span, unchecked(characters[j]), width, piece.ascent));
+        }
+      }
+    } else {
+      for (let i = 0; i < word.length; i++) this._append(unchecked(word[i]));
+    }
+    this._hasWord = true;
+    this._word = [];
+    this._wordWidth = 0.0;
+  }
+
+  private _append(piece: RichTextPiece): void {
+    this._line.push(piece);
+    this._lineWidth += piece.width;
+  }
+
+  private _pushLine(): void {
+    this.lines.push(this._line);
+    this.widths.push(this._lineWidth);
+    this._line = [];
+    this._lineWidth = 0.0;
+    this._hasWord = false;
+    this._spaces = [];
+    this._spacesWidth = 0.0;
+  }
+}
+
+/**
+ * A RichTextLayout breaks a paragraph of spans into lines that fit in a maximum width, and splits
+ * every line into runs that share a span. Lines are broken at explicit newlines, at spaces, and
+ * inside words that are wider than the maximum width. The words of every span are measured with a
+ * single `measureTextBatch()` call in the font of the span, so creating a layout does not commit
+ * the pending instructions.
+ *
+ * The text of every line is vertically centered in the line height, using the largest font
+ * bounding box of the spans. The `start` and `end` alignments are laid out as `left` and `right`,
+ * like left-to-right text.
+ */
+export class RichTextLayout {
+  /** The laid out runs, from the top left to the bottom right. */
+  public readonly runs: TextRun[] = [];
+
+  /** The number of lines. */
+  public readonly lineCount: i32 = 0;
+
+  /** The x-axis coordinate of the left side of the laid out box, in pixels. */
+  public readonly x: f64 = 0.0;
+
+  /** The y-axis coordinate of the top side of the laid out box, in pixels. */
+  public readonly y: f64 = 0.0;
+
+  /** The width of the widest line, in pixels. */
+  public readonly width: f64 = 0.0;
+
+  /** The height of the laid out box, which is the number of lines times the line height. */
+  public readonly height: f64 = 0.0;
+
+  /**
+   * Lay out a paragraph of spans.
+   *
+   * @param {CanvasRenderingContext2D} ctx - The context used to measure the spans.
+   * @param {TextSpan[]} spans - The spans of the paragraph, in reading order.
+   * @param {f64} x - The x-axis coordinate of the alignment point, like the x parameter of
+   * fillText().
+   * @param {f64} y - The y-axis coordinate of the alignment point. The `top` and `hanging`
+   * baselines anchor the top of the box, the `alphabetic` and `ideographic` baselines anchor the
+   * baseline of the first line, the `middle` baseline anchors the middle of the box, and the
+   * `bottom` baseline anchors the bottom of the box.
+   * @param {f64} maxWidth - The maximum width of a line. A value that is not positive or not finite
+   * only breaks lines at explicit newlines.
+   * @param {f64} lineHeight - The distance between the baselines of two lines, in pixels.
+   * @param {TextAlign} textAlign - The horizontal alignment of the lines.
+   * @param {TextBaseline} textBaseline - The vertical alignment of the box.
+   */
+  constructor(
+    ctx: CanvasRenderingContext2D,
+    spans: TextSpan[],
+    x: f64,
+    y: f64,
+    maxWidth: f64,
+    public readonly lineHeight: f64,
+    public readonly textAlign: TextAlign = TextAlign.start,
+    public readonly textBaseline: TextBaseline = TextBaseline.alphabetic,
+  ) {
+    if (!isFinite(maxWidth) || maxWidth <= 0.0) maxWidth = Infinity;
+    var breaker = new RichTextLineBreaker(ctx, maxWidth);
+    var ascent = 0.0;
+    var descent = 0.0;
+
+    for (let i = 0; i < spans.length; i++) {
+      let span = unchecked(spans[i]);
+      // measure the space and every word of the span at once
+      let paragraphs = span.text.split("\n");
+      let words: string[] = [" "];
+      for (let j = 0; j < paragraphs.length; j++) {
+        let paragraphWords = unchecked(paragraphs[j]).split(" ");
+        for (let k = 0; k < paragraphWords.length; k++) words.push(unchecked(paragraphWords[k]));
+      }
+      let metrics = ctx.measureTextBatch(words, span.font);
+      let space = unchecked(metrics[0]);
+      let spanAscent = space.fontBoundingBoxAscent;
+      ascent = max<f64>(ascent, spanAscent);
+      descent = max<f64>(descent, space.fontBoundingBoxDescent);
+      let index = 1;
+      for (let j = 0; j < paragraphs.length; j++) {
+        if (j > 0) breaker.addNewline();
+        let wordCount = unchecked(paragraphs[j]).split(" ").length;
+        for (let k = 0; k < wordCount; k++) {
+          if (k > 0) breaker.addSpace(new RichTextPiece(span, " ", space.width, spanAscent));
+          breaker.addWord(new RichTextPiece(span, unchecked(words[index]), unchecked(metrics[index]).width, spanAscent));
+          index++;
+        }
+      }
+    }
+    breaker.finish();
+
+    // position the box around the anchor point
+    var lines = breaker.lines;
+    var widths = breaker.widths;
+    var count = lines.length;
+    var width = 0.0;
+    for (let i = 0; i < count; i++) width = max<f64>(width, unchecked(widths[i]));
+    var height = <f64>count * lineHeight;
+    var halfLeading = (lineHeight - ascent - descent) * 0.5;
+    var top = y;
+    switch (textBaseline) {
+      case TextBaseline.middle: {
+        top = y - height * 0.5;
+        break;
+      }
+      case TextBaseline.bottom: {
+        top = y - height;
+        break;
+      }
+      case TextBaseline.alphabetic:
+      case TextBaseline.ideographic: {
+        top = y - halfLeading - ascent;
+        break;
+      }
+    }
+    this.lineCount = count;
+    this.width = width;
+    this.height = height;
+    this.x = this._alignLeft(x, width);
+    this.y = top;
+
+    // merge the pieces of every line that share a span into runs
+    for (let i = 0; i < count; i++) {
+      let line = unchecked(lines[i]);
+      let runX = this._alignLeft(x, unchecked(widths[i]));
+      let baseline = top + <f64>i * lineHeight + halfLeading + ascent;
+      let j = 0;
+      while (j < line.length) {
+        let first = unchecked(line[j]);
+        let text = first.text;
+        let runWidth = first.width;
+        j++;
+        while (j < line.length && unchecked(line[j]).span == first.span) {
+          let piece = unchecked(line[j]);
+          text += piece.text;
+          runWidth += piece.width;
+          j++;
+        }
+        this.runs.push(new TextRun(first.span, text, i, runX, baseline, runWidth, first.ascent));
+        runX += runWidth;
+      }
+    }
+  }
+
+  /**
+   * Draw every run in a single call. Every run is filled with the fillStyle of its span, or the
+   * fillStyle of the context, and is stroked when its span has a strokeStyle. Underlines and
+   * strikethroughs are filled rectangles whose thickness is derived from the font ascent. The
+   * properties of the context are restored afterwards, and consecutive runs that share a font or a
+   * style do not write them again.
+   *
+   * @param {CanvasRenderingContext2D} ctx - The context to draw the text on.
+   */
+  public draw(ctx: CanvasRenderingContext2D): void {
+    ctx.save();
+    ctx.textAlign = TextAlign.left;
+    ctx.textBaseline = TextBaseline.alphabetic;
+    var runs = this.runs;
+    for (let i = 0; i < runs.length; i++) {
+      let run = unchecked(runs[i]);
+      let span = run.span;
+      ctx.save();
+      ctx.font = span.font;
+      if (span.fillStyle != null) ctx.fillStyle = span.fillStyle;
+      ctx.fillText(run.text, run.x, run.y);
+      if (span.strokeStyle != null) {
+        ctx.strokeStyle = span.strokeStyle;
+        ctx.strokeText(run.text, run.x, run.y);
+      }
+      let thickness = max<f64>(1.0, nearest<f64>(run.ascent / 12.0));
+      if (span.underline) ctx.fillRect(run.x, run.y + thickness, run.width, thickness);
+      if (span.strikethrough) ctx.fillRect(run.x, run.y - run.ascent * 0.3 - thickness * 0.5, run.width, thickness);
+      ctx.restore();
+    }
+    ctx.restore();
+  }
+
+  private _alignLeft(x: f64, width: f64): f64 {
+    switch (this.textAlign) {
+      case TextAlign.right:
+      case TextAlign.end: return x - width;
+      case TextAlign.center: return x - width * 0.5;
+    }
+    return x;
+  }
+}
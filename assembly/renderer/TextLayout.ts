@@ -0,0 +1,216 @@
+import { CanvasRenderingContext2D } from "./CanvasRenderingContext2D";
+import { TextLine } from "./TextLine";
+import { TextAlign } from "../../src/shared/TextAlign";
+import { TextBaseline } from "../../src/shared/TextBaseline";
+
+/**
+ * A TextLayout breaks a string into lines that fit in a maximum width, and positions the lines
+ * around an anchor point the way fillText() positions a single line. Lines are broken at explicit
+ * newlines, at spaces, and inside words that are wider than the maximum width. Every word is
+ * measured with a single `measureTextBatch()` call in the font of the context, so creating a
+ * layout does not commit the pending instructions.
+ *
+ * The `start` and `end` alignments are laid out as `left` and `right`, like left-to-right text.
+ */
+export class TextLayout {
+  /** The laid out lines, from top to bottom. */
+  public readonly lines: TextLine[] = [];
+
+  /** The x-axis coordinate of the left side of the laid out box, in pixels. */
+  public readonly x: f64 = 0.0;
+
+  /** The y-axis coordinate of the top side of the laid out box, in pixels. */
+  public readonly y: f64 = 0.0;
+
+  /** The width of the widest line, in pixels. */
+  public readonly width: f64 = 0.0;
+
+  /** The height of the laid out box, which is the number of lines times the line height. */
+  public readonly height: f64 = 0.0;
+
+  /** The font of the context when the text was laid out. */
+  public readonly font: string;
+
+  /** The texts of the lines that were broken so far. */
+  private _texts: string[] = [];
+
+  /** The widths of the lines that were broken so far. */
+  private _widths: f64[] = [];
+
+  /**
+   * Lay out a string of text.
+   *
+   * @param {CanvasRenderingContext2D} ctx - The context whose font is used to measure the text.
+   * @param {string} text - The text to lay out.
+   * @param {f64} x - The x-axis coordinate of the alignment point, like the x parameter of
+   * fillText().
+   * @param {f64} y - The y-axis coordinate of the alignment point. The `top`, `hanging`,
+   * `alphabetic` and `ideographic` baselines anchor the first line, the `middle` baseline anchors
+   * the middle of the box, and the `bottom` baseline anchors the last line.
+   * @param {f64} maxWidth - The maximum width of a line. A value that is not positive or not finite
+   * only breaks lines at explicit newlines.
+   * @param {f64} lineHeight - The distance between the baselines of two lines, in pixels.
+   * @param {TextAlign} textAlign - The horizontal alignment of the lines.
+   * @param {TextBaseline} textBaseline - The vertical alignment of the lines.
+   */
+  constructor(
+    ctx: CanvasRenderingContext2D,
+    text: string,
+    private _anchorX: f64,
+    private _anchorY: f64,
+    maxWidth: f64,
+    public readonly lineHeight: f64,
+    public readonly textAlign: TextAlign = TextAlign.start,
+    public readonly textBaseline: TextBaseline = TextBaseline.alphabetic,
+  ) {
+    var font = ctx.font;
+    this.font = font;
+    if (!isFinite(maxWidth) || maxWidth <= 0.0) maxWidth = Infinity;
+
+    // measure the space and every word at once
+    var paragraphs = text.split("\n");
+    var words: string[] = [" "];
+    for (let i = 0; i < paragraphs.length; i++) {
+      let paragraphWords = unchecked(paragraphs[i]).split(" ");
+      for (let j = 0; j < paragraphWords.length; j++) words.push(unchecked(paragraphWords[j]));
+    }
+    var metrics = ctx.measureTextBatch(words, font);
+    var spaceWidth = unchecked(metrics[0]).width;
+    var index = 1;
+
+    for (let i = 0; i < paragraphs.length; i++) {
+      let line = "";
+      let lineWidth = 0.0;
+      let empty = true;
+      let wordCount = unchecked(paragraphs[i]).split(" ").length;
+      for (let j = 0; j < wordCount; j++) {
+        let word = unchecked(words[index]);
+        let wordWidth = unchecked(metrics[index]).width;
+        index++;
+        if (!empty && lineWidth + spaceWidth + wordWidth > maxWidth) {
+          this._pushLine(line, lineWidth);
+          line = "";
+          lineWidth = 0.0;
+          empty = true;
+          // the spaces a line is broken at are dropped
+          if (word.length == 0) continue;
+        }
+        if (empty && wordWidth > maxWidth) {
+          // break the word between the characters that overflow
+          let characters: string[] = [];
+          for (let k = 0; k < word.length; k++) characters.push(word.charAt(k));
+          let characterMetrics = ctx.measureTextBatch(characters, font);
+          for (let k = 0; k < characters.length; k++) {
+            let characterWidth = unchecked(characterMetrics[k]).width;
+            if (line.length > 0 && lineWidth + characterWidth > maxWidth) {
+              this._pushLine(line, lineWidth);
+              line = "";
+              lineWidth = 0.0;
+            }
+            line += unchecked(characters[k]);
+            lineWidth += characterWidth;
+          }
+        } else if (empty) {
+          line = word;
+          lineWidth = wordWidth;
+        } else {
+          line += " " + word;
+          lineWidth += spaceWidth + wordWidth;
+        }
+        empty = false;
+      }
+      this._pushLine(line, lineWidth);
+    }
+
+    // position the box around the anchor point
+    var count = this._texts.length;
+    var width = 0.0;
+    for (let i = 0; i < count; i++) width = max<f64>(width, unchecked(this._widths[i]));
+    var height = <f64>count * lineHeight;
+    this.width = width;
+    this.height = height;
+    this.x = this._alignLeft(_anchorX, width);
+
+    var top = _anchorY;
+    var offset = 0.0;
+    switch (textBaseline) {
+      case TextBaseline.middle: {
+        top = _anchorY - height * 0.5;
+        offset = lineHeight * 0.5;
+        break;
+      }
+      case TextBaseline.bottom: {
+        top = _anchorY - height;
+        offset = lineHeight;
+        break;
+      }
+      case TextBaseline.alphabetic:
+      case TextBaseline.ideographic: {
+        top = _anchorY - unchecked(metrics[0]).fontBoundingBoxAscent;
+        offset = _anchorY - top;
+        break;
+      }
+    }
+    this.y = top;
+    for (let i = 0; i < count; i++) {
+      let lineWidth = unchecked(this._widths[i]);
+      this.lines.push(new TextLine(
+        unchecked(this._texts[i]),
+        this._alignLeft(_anchorX, lineWidth),
+        top + offset + <f64>i * lineHeight,
+        lineWidth,
+      ));
+    }
+  }
+
+  /**
+   * Fill every line of the layout with the current fillStyle of the context. Every line is drawn at
+   * its laid out position with the font and textBaseline of the layout, whatever the direction of
+   * the context, and the properties of the context are restored afterwards.
+   *
+   * @param {CanvasRenderingContext2D} ctx - The context to draw the text on.
+   */
+  public fill(ctx: CanvasRenderingContext2D): void {
+    this._draw(ctx, false);
+  }
+
+  /**
+   * Stroke every line of the layout with the current strokeStyle of the context. Every line is
+   * drawn at its laid out position with the font and textBaseline of the layout, whatever the
+   * direction of the context, and the properties of the context are restored afterwards.
+   *
+   * @param {CanvasRenderingContext2D} ctx - The context to draw the text on.
+   */
+  public stroke(ctx: CanvasRenderingContext2D): void {
+    this._draw(ctx, true);
+  }
+
+  private _draw(ctx: CanvasRenderingContext2D, stroke: bool): void {
+    ctx.save();
+    ctx.font = this.font;
+    // the lines are already aligned, and `left` does not depend on the direction of the context
+    ctx.textAlign = TextAlign.left;
+    ctx.textBaseline = this.textBaseline;
+    var lines = this.lines;
+    for (let i = 0; i < lines.length; i++) {
+      let line = unchecked(lines[i]);
+      if (stroke) ctx.strokeText(line.text, line.x, line.y);
+      else ctx.fillText(line.text, line.x, line.y);
+    }
+    ctx.restore();
+  }
+
+  private _pushLine(text: string, width: f64): void {
+    this._texts.push(text);
+    this._widths.push(width);
+  }
+
+  private _alignLeft(x: f64, width: f64): f64 {
+    switch (this.textAlign) {
+      case TextAlign.right:
+      case TextAlign.end: return x - width;
+      case TextAlign.center: return x - width * 0.5;
+    }
+    return x;
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * A single line of a TextLayout.
+ */
+export class TextLine {
+  constructor(
+    /** The text of the line, without the spaces the line was broken at. */
+    public readonly text: string,
+    /** The x-axis coordinate of the left side of the line, in pixels. */
+    public readonly x: f64,
+    /** The y-axis coordinate the line is drawn at, relative to the textBaseline of the layout. */
+    public readonly y: f64,
+    /** The measured width of the line, in pixels. */
+    public readonly width: f64,
+  ) {}
+}
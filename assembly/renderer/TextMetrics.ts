@@ -0,0 +1,83 @@
+/**
+ * The TextMetrics interface represents the dimensions of a piece of text in the canvas, as created
+ * by the CanvasRenderingContext2D.measureText() method. The host writes every value into the
+ * object in a single call, in the order the fields are declared, so they must remain `f64` fields
+ * declared in this order.
+ */
+export class TextMetrics {
+  /**
+   * The width of a segment of inline text in CSS pixels. It takes into account the current font of
+   * the context.
+   */
+  public readonly width: f64 = 0.0;
+
+  /**
+   * The distance parallel to the baseline from the alignment point given by the
+   * CanvasRenderingContext2D.textAlign property to the left side of the bounding rectangle of the
+   * given text, in CSS pixels. Positive numbers indicate a distance going left from the alignment
+   * point.
+   */
+  public readonly actualBoundingBoxLeft: f64 = 0.0;
+
+  /**
+   * The distance from the alignment point given by the CanvasRenderingContext2D.textAlign property
+   * to the right side of the bounding rectangle of the given text, in CSS pixels.
+   */
+  public readonly actualBoundingBoxRight: f64 = 0.0;
+
+  /**
+   * The distance from the horizontal line indicated by the CanvasRenderingContext2D.textBaseline
+   * attribute to the top of the highest bounding rectangle of all the fonts used to render the
+   * text, in CSS pixels.
+   */
+  public readonly fontBoundingBoxAscent: f64 = 0.0;
+
+  /**
+   * The distance from the horizontal line indicated by the CanvasRenderingContext2D.textBaseline
+   * attribute to the bottom of the bounding rectangle of all the fonts used to render the text, in
+   * CSS pixels.
+   */
+  public readonly fontBoundingBoxDescent: f64 = 0.0;
+
+  /**
+   * The distance from the horizontal line indicated by the CanvasRenderingContext2D.textBaseline
+   * attribute to the top of the bounding rectangle used to render the text, in CSS pixels.
+   */
+  public readonly actualBoundingBoxAscent: f64 = 0.0;
+
+  /**
+   * The distance from the horizontal line indicated by the CanvasRenderingContext2D.textBaseline
+   * attribute to the bottom of the bounding rectangle used to render the text, in CSS pixels.
+   */
+  public readonly actualBoundingBoxDescent: f64 = 0.0;
+
+  /**
+   * The distance from the horizontal line indicated by the CanvasRenderingContext2D.textBaseline
+   * property to the top of the em square in the line box, in CSS pixels.
+   */
+  public readonly emHeightAscent: f64 = 0.0;
+
+  /**
+   * The distance from the horizontal line indicated by the CanvasRenderingContext2D.textBaseline
+   * property to the bottom of the em square in the line box, in CSS pixels.
+   */
+  public readonly emHeightDescent: f64 = 0.0;
+
+  /**
+   * The distance from the horizontal line indicated by the CanvasRenderingContext2D.textBaseline
+   * property to the hanging baseline of the line box, in CSS pixels.
+   */
+  public readonly hangingBaseline: f64 = 0.0;
+
+  /**
+   * The distance from the horizontal line indicated by the CanvasRenderingContext2D.textBaseline
+   * property to the alphabetic baseline of the line box, in CSS pixels.
+   */
+  public readonly alphabeticBaseline: f64 = 0.0;
+
+  /**
+   * The distance from the horizontal line indicated by the CanvasRenderingContext2D.textBaseline
+   * property to the ideographic baseline of the line box, in CSS pixels.
+   */
+  public readonly ideographicBaseline: f64 = 0.0;
+}
@@ -0,0 +1,23 @@
+import { TextSpan } from "./TextSpan";
+
+/**
+ * A TextRun is the part of a TextSpan that is drawn on a single line of a RichTextLayout.
+ */
+export class TextRun {
+  constructor(
+    /** The span the text belongs to. */
+    public readonly span: TextSpan,
+    /** The text of the run. */
+    public readonly text: string,
+    /** The index of the line the run is drawn on. */
+    public readonly line: i32,
+    /** The x-axis coordinate of the left side of the run, in pixels. */
+    public readonly x: f64,
+    /** The y-axis coordinate of the alphabetic baseline of the run, in pixels. */
+    public readonly y: f64,
+    /** The measured width of the run, in pixels. */
+    public readonly width: f64,
+    /** The font bounding box ascent of the span, in pixels. */
+    public readonly ascent: f64,
+  ) {}
+}
@@ -0,0 +1,20 @@
+/**
+ * A TextSpan is a piece of a rich text paragraph that is drawn with its own font and style. A
+ * paragraph is an array of spans that is laid out with a RichTextLayout.
+ */
+export class TextSpan {
+  constructor(
+    /** The text of the span. Spaces and newlines break lines. */
+    public readonly text: string,
+    /** The font of the span, using the CSS font syntax. */
+    public readonly font: string,
+    /** The fill style of the span, or null to use the fillStyle of the context. */
+    public readonly fillStyle: string | null = null,
+    /** The stroke style of the span, or null to only fill the text. */
+    public readonly strokeStyle: string | null = null,
+    /** Draw a line under the text. */
+    public readonly underline: bool = false,
+    /** Draw a line through the text. */
+    public readonly strikethrough: bool = false,
+  ) {}
+}
@@ -5,6 +5,9 @@ import {
   CanvasPatternRepetition,
   CanvasRenderingContext2D,
   FillRule,
+  FontKerning,
+  FontStretch,
+  FontVariantCaps,
   GlobalCompositeOperation,
   Image,
   ImageSmoothingQuality,
@@ -12,6 +15,7 @@ import {
   LineJoin,
   TextAlign,
   TextBaseline,
+  TextRendering,
   getContextById,
  } from "./index";
 
@@ -98,6 +102,46 @@ export function setFont(font: string): void {
   ctx.font = font;
 }
 
+export function getFontKerning(): FontKerning {
+  assert(ctx);
+  return ctx.fontKerning;
+}
+
+export function setFontKerning(value: FontKerning): void {
+  assert(ctx);
+  ctx.fontKerning = value;
+}
+
+export function getFontStretch(): FontStretch {
+  assert(ctx);
+  return ctx.fontStretch;
+}
+
+export function setFontStretch(value: FontStretch): void {
+  assert(ctx);
+  ctx.fontStretch = value;
+}
+
+export function getFontVariantCaps(): FontVariantCaps {
+  assert(ctx);
+  return ctx.fontVariantCaps;
+}
+
+export function setFontVariantCaps(value: FontVariantCaps): void {
+  assert(ctx);
+  ctx.fontVariantCaps = value;
+}
+
+export function getLetterSpacing(): string {
+  assert(ctx);
+  return ctx.letterSpacing;
+}
+
+export function setLetterSpacing(value: string): void {
+  assert(ctx);
+  ctx.letterSpacing = value;
+}
+
 export function getGlobalAlpha(): f64 {
   assert(ctx);
   return ctx.globalAlpha;
@@ -257,3 +301,23 @@ export function setTextBaseline(value: TextBaseline): void {
   assert(ctx);
   ctx.textBaseline = value;
 }
+
+export function getTextRendering(): TextRendering {
+  assert(ctx);
+  return ctx.textRendering;
+}
+
+export function setTextRendering(value: TextRendering): void {
+  assert(ctx);
+  ctx.textRendering = value;
+}
+
+export function getWordSpacing(): string {
+  assert(ctx);
+  return ctx.wordSpacing;
+}
+
+export function setWordSpacing(value: string): void {
+  assert(ctx);
+  ctx.wordSpacing = value;
+}
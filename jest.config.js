@@ -21,7 +21,10 @@ module.exports = {
   "collectCoverage": true,
   "collectCoverageFrom": [
     "src/glue/**/*.ts",
+    "src/raster/**/*.ts",
+    "src/record/**/*.ts",
     "src/shared/**/*.ts",
+    "src/svg/**/*.ts",
     "src/util/**/*.ts",
   ],
 
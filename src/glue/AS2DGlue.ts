@@ -1,44 +1,65 @@
 import { ASUtil, instantiateSync as instantiateBuffer, instantiate, instantiateStreaming } from "assemblyscript/lib/loader";
+import { FrameRecorder } from "../record/FrameRecorder";
+import { SoftwareRasterizer } from "../raster/SoftwareRasterizer";
+import { CanvasFactory } from "../util/CanvasFactory";
+import { ICanvasState } from "../util/ICanvasState";
 import { ICanvasSYS } from "../util/ICanvasSYS";
-import { CanvasInstruction } from "../shared/CanvasInstruction";
-
-const CanvasPatternRepetitionValues = ["repeat", "repeat_x", "repeat_y", "no_repeat"];
-const FillRuleValues = ["nonzero", "evenodd"];
-const LineCapValues = ["butt", "round", "square"];
-const LineJoinValues = ["bevel", "round", "miter"];
-const TextBaselineValues = ["top", "hanging", "middle", "alphabetic", "ideographic", "bottom"];
-const TextAlignValues = ["left", "right", "center", "start", "end"];
-const CanvasDirectionValues = ["ltr", "rtl", "inherit"];
-const ImageSmoothingQualityValues = ["low", "medium", "high"];
-const GlobalCompositeOperationValues = [
-  "source-over",
-  "source-in",
-  "source-out",
-  "source-atop",
-  "destination-over",
-  "destination-in",
-  "destination-out",
-  "destination-atop",
-  "lighter",
-  "copy",
-  "xor",
-  "multiply",
-  "screen",
-  "overlay",
-  "darken",
-  "lighten",
-  "color-dodge",
-  "color-burn",
-  "hard-light",
-  "soft-light",
-  "difference",
-  "exclusion",
-  "hue",
-  "saturation",
-  "color",
-  "luminosity",
+import { IContextOptions } from "../util/IContextOptions";
+import { ImageSource } from "../util/ImageSource";
+import { IRenderBackend } from "../util/IRenderBackend";
+import { IResourceResolver } from "../util/IResourceResolver";
+import { CanvasRenderingContext2DBackend } from "./CanvasRenderingContext2DBackend";
+import { disassembleInstructions } from "./disassembleInstructions";
+import { dispatchInstructions } from "./dispatchInstructions";
+
+/**
+ * The TextMetrics properties, in the order the fields of the AssemblyScript TextMetrics class are
+ * declared.
+ */
+const TextMetricsFields: (keyof TextMetrics)[] = [
+  "width",
+  "actualBoundingBoxLeft",
+  "actualBoundingBoxRight",
+  "fontBoundingBoxAscent",
+  "fontBoundingBoxDescent",
+  "actualBoundingBoxAscent",
+  "actualBoundingBoxDescent",
+  "emHeightAscent",
+  "emHeightDescent",
+  "hangingBaseline",
+  "alphabeticBaseline",
+  "ideographicBaseline",
 ];
 
+/**
+ * Create the 2d context of an offscreen canvas, using an `OffscreenCanvas` when it is available,
+ * and a detached DOM canvas otherwise. Without a DOM, like in Node, a `SoftwareRasterizer` is
+ * created instead.
+ *
+ * @param {number} width - The width of the canvas.
+ * @param {number} height - The height of the canvas.
+ */
+function defaultCreateCanvas(width: number, height: number): CanvasRenderingContext2D | IRenderBackend {
+  if (typeof OffscreenCanvas !== "undefined") {
+    return new OffscreenCanvas(width, height).getContext("2d") as unknown as CanvasRenderingContext2D;
+  }
+  if (typeof document === "undefined") return new SoftwareRasterizer(width, height);
+  var canvas: HTMLCanvasElement = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas.getContext("2d")!;
+}
+
+/**
+ * A ResizeObserver, which is not available in every browser.
+ */
+interface IResizeObserver {
+  observe(target: Element): void;
+  disconnect(): void;
+}
+
+declare var ResizeObserver: { new(callback: () => void): IResizeObserver; } | undefined;
+
 const bool = {
   "true": 1,
   "false": 0,
@@ -48,6 +69,16 @@ export class AS2DGlue<T> {
   public imports: any = null;
   public wasm: (ASUtil & T & ICanvasSYS) | null = null;
   private id: number = -1;
+  private elementId: number = -1;
+  private pathCache: { [ctxid: number]: { [id: number]: Path2D; }; } = {};
+  private disposers: { [ctxid: number]: (() => void)[]; } = {};
+  private windowResized: (() => void) | null = null;
+  private resizeCallbacks: { [ctxid: number]: () => void; } = {};
+  private recorder: FrameRecorder | null = null;
+  private trace: ((ctxid: number, disassembly: string) => void) | null = null;
+  private inspector: ((ctxid: number, label: string, state: ICanvasState) => void) | null = null;
+  private canvasFactory: CanvasFactory | null = null;
+  private canvases: { [ctxid: number]: HTMLCanvasElement | OffscreenCanvas; } = {};
 
   public instantiateBuffer(buffer: any, imports: any): ASUtil & T & ICanvasSYS {
     this.imports = imports;
@@ -76,53 +107,243 @@ export class AS2DGlue<T> {
   private hookImports(): void {
     this.imports.__canvas_sys = {
       addColorStop: this.addColorStop.bind(this),
+      createCanvas: this.createCanvas.bind(this),
+      createConicGradient: this.createConicGradient.bind(this),
       createLinearGradient: this.createLinearGradient.bind(this),
+      createPath2D: this.createPath2D.bind(this),
       createPattern: this.createPattern.bind(this),
       createRadialGradient: this.createRadialGradient.bind(this),
+      disposeCanvas: this.disposeCanvas.bind(this),
       disposeCanvasGradient: this.disposeCanvasGradient.bind(this),
       disposeCanvasPattern: this.disposeCanvasPattern.bind(this),
       disposeImage: this.disposeImage.bind(this),
+      disposePath2D: this.disposePath2D.bind(this),
+      getImageData: this.getImageData.bind(this),
       isPointInPath: this.isPointInPath.bind(this),
+      isPointInPathObject: this.isPointInPathObject.bind(this),
       isPointInStroke: this.isPointInStroke.bind(this),
       loadImage: this.loadImage.bind(this),
       measureText: this.measureText.bind(this),
+      measureTextBatch: this.measureTextBatch.bind(this),
       render: this.render.bind(this),
+      setCanvasSize: this.setCanvasSize.bind(this),
+      setPatternTransform: this.setPatternTransform.bind(this),
+      updatePath2D: this.updatePath2D.bind(this),
     };
   }
 
   private hookWasmApi(): void {
+    this.wasm!.backends = {};
     this.wasm!.contexts = {};
+    this.wasm!.elements = {};
     this.wasm!.gradients = {};
     this.wasm!.images = {};
     this.wasm!.loading = {};
+    this.wasm!.paths = {};
     this.wasm!.patterns = {};
+    this.wasm!.useBackend = this.useBackend.bind(this);
+    this.wasm!.useCanvasFactory = this.useCanvasFactory.bind(this);
     this.wasm!.useContext = this.useContext.bind(this);
+    this.wasm!.useElement = this.useElement.bind(this);
+    this.wasm!.useInspector = this.useInspector.bind(this);
+    this.wasm!.useRecorder = this.useRecorder.bind(this);
+    this.wasm!.useTrace = this.useTrace.bind(this);
+  }
+
+  private useContext(name: string, ctx: CanvasRenderingContext2D, options: IContextOptions = {}): number {
+    var id: number = this.registerContext(name, new CanvasRenderingContext2DBackend(ctx), options, ctx.canvas.width, ctx.canvas.height);
+    this.wasm!.contexts[id] = ctx;
+    this.listen(id, ctx.canvas, "contextlost", () => this.wasm!.__context_lost(this.wasm!.__allocString(name)));
+    this.listen(id, ctx.canvas, "contextrestored", () => this.contextRestored(name));
+    this.updateCanvasSize(id, ctx.canvas);
+    if (typeof ResizeObserver !== "undefined") {
+      var observer = new ResizeObserver(() => this.canvasResized(name, id, ctx.canvas));
+      observer.observe(ctx.canvas);
+      this.onDispose(id, () => observer.disconnect());
+    } else if (typeof window !== "undefined") {
+      this.onWindowResized(id, () => this.canvasResized(name, id, ctx.canvas));
+    }
+    return id;
+  }
+
+  /**
+   * Call a function on behalf of a context every time the window is resized, until the context is
+   * disposed. Every context shares a single window listener, which is removed with the last one.
+   */
+  private onWindowResized(ctxid: number, callback: () => void): void {
+    if (!this.windowResized) {
+      this.windowResized = () => {
+        for (var id in this.resizeCallbacks) this.resizeCallbacks[id]();
+      };
+      window.addEventListener("resize", this.windowResized);
+    }
+    this.resizeCallbacks[ctxid] = callback;
+    this.onDispose(ctxid, () => {
+      delete this.resizeCallbacks[ctxid];
+      if (Object.keys(this.resizeCallbacks).length > 0) return;
+      window.removeEventListener("resize", this.windowResized!);
+      this.windowResized = null;
+    });
+  }
+
+  /**
+   * Add an event listener on behalf of a context, which is removed when the context is disposed.
+   */
+  private listen(ctxid: number, target: EventTarget, type: string, listener: () => void): void {
+    target.addEventListener(type, listener);
+    this.onDispose(ctxid, () => target.removeEventListener(type, listener));
+  }
+
+  /**
+   * Register a function that is called when the given context is disposed.
+   */
+  private onDispose(ctxid: number, disposer: () => void): void {
+    (this.disposers[ctxid] || (this.disposers[ctxid] = [])).push(disposer);
+  }
+
+  /**
+   * Send the size of the canvas of a context to the module. An offscreen canvas is not laid out, so
+   * its CSS size is 0.
+   */
+  private updateCanvasSize(ctxid: number, canvas: HTMLCanvasElement | OffscreenCanvas): void {
+    this.wasm!.__canvas_resized(
+      ctxid,
+      canvas.width,
+      canvas.height,
+      (canvas as HTMLCanvasElement).clientWidth || 0,
+      (canvas as HTMLCanvasElement).clientHeight || 0,
+      typeof devicePixelRatio === "number" ? devicePixelRatio : 1,
+    );
+  }
+
+  /**
+   * Update the size of the canvas of the named context, and then call the `canvasResized` function
+   * of the module, if it exports one, so it can lay out its drawing again.
+   */
+  private canvasResized(name: string, ctxid: number, canvas: HTMLCanvasElement): void {
+    var wasm = this.wasm!;
+    this.updateCanvasSize(ctxid, canvas);
+    if (wasm.canvasResized) wasm.canvasResized(wasm.__allocString(name));
+  }
+
+  /**
+   * Reset the named context after its canvas was restored, and then call the `contextRestored`
+   * function of the module, if it exports one, so it can create its gradients and patterns again.
+   */
+  private contextRestored(name: string): void {
+    var wasm = this.wasm!;
+    wasm.__context_restored(wasm.__allocString(name));
+    if (wasm.contextRestored) wasm.contextRestored(wasm.__allocString(name));
+  }
+
+  private useBackend(name: string, backend: IRenderBackend, options: IContextOptions = {}): number {
+    return this.registerContext(name, backend, options, 0, 0);
+  }
+
+  /**
+   * Create a named context in the module that renders into the given backend. The size is the size
+   * of the canvas the context draws into when it is used as an image, or 0 without a canvas.
+   */
+  private registerContext(name: string, backend: IRenderBackend, options: IContextOptions, width: number, height: number): number {
+    this.id += 1;
+    this.wasm!.backends[this.id] = backend;
+    this.wasm!.__use_context(
+      this.wasm!.__allocString(name),
+      this.id,
+      options.bufferLength || 0,
+      options.retainedLength || 0,
+      options.pathLength || 0,
+      options.stackLength || 0,
+      width,
+      height,
+    );
+    return this.id;
+  }
+
+  private useCanvasFactory(factory: CanvasFactory | null): void {
+    this.canvasFactory = factory;
+  }
+
+  private useElement(name: string, element: Element): number {
+    this.elementId += 1;
+    this.wasm!.elements[this.elementId] = element;
+    this.wasm!.__use_element(this.wasm!.__allocString(name), this.elementId);
+    return this.elementId;
+  }
+
+  private useInspector(inspector: ((ctxid: number, label: string, state: ICanvasState) => void) | null): void {
+    this.inspector = inspector;
+  }
+
+  private useRecorder(recorder: FrameRecorder | null): void {
+    this.recorder = recorder;
+  }
+
+  private useTrace(trace: ((ctxid: number, disassembly: string) => void) | null): void {
+    this.trace = trace;
   }
 
-  private useContext(name: string, ctx: CanvasRenderingContext2D): number {
+  /**
+   * Create the canvas of a context that is created by the module, using the canvas factory if
+   * there is one. Unlike the canvases of `useContext()`, created canvases are not observed: their
+   * contexts do not follow the contextlost and contextrestored events, and they are only resized
+   * by the module.
+   */
+  private createCanvas(width: number, height: number): number {
+    var result = (this.canvasFactory || defaultCreateCanvas)(width, height);
     this.id += 1;
-    this.wasm!.contexts[this.id] = ctx;
-    this.wasm!.__use_context(this.wasm!.__allocString(name), this.id);
+    if ("backend" in result) {
+      this.wasm!.backends[this.id] = result.backend;
+      this.canvases[this.id] = result.canvas;
+    } else if ("canvas" in result) {
+      this.wasm!.backends[this.id] = new CanvasRenderingContext2DBackend(result);
+      this.wasm!.contexts[this.id] = result;
+    } else {
+      this.wasm!.backends[this.id] = result;
+    }
+    return this.id;
+  }
+
+  /**
+   * Resize the backend of a context, and send the new size of its canvas back to the module when
+   * it has one.
+   */
+  private setCanvasSize(id: number, width: number, height: number): void {
+    if (!this.wasm!.backends[id]) throw new Error("Cannot find canvas: " + id);
+    this.wasm!.backends[id].resize(width, height);
+    var canvas = this.wasm!.contexts[id] ? this.wasm!.contexts[id].canvas : this.canvases[id];
+    if (canvas) this.updateCanvasSize(id, canvas);
+  }
+
+  private createConicGradient(objid: number, startAngle: number, x: number, y: number): number {
+    this.id += 1;
+    if (!this.wasm!.backends[objid]) throw new Error("Cannot find canvas: " + objid);
+    this.wasm!.gradients[this.id] = this.wasm!.backends[objid].createConicGradient(startAngle, x, y);
+    if (this.recorder) this.recorder.recordConicGradient(objid, this.id, startAngle, x, y);
     return this.id;
   }
 
   private createLinearGradient(objid: number, x0: number, y0: number, x1: number, y1: number): number {
     this.id += 1;
-    if (!this.wasm!.contexts[objid]) throw new Error("Cannot find canvas: " + objid);
-    this.wasm!.gradients[this.id] = this.wasm!.contexts[objid].createLinearGradient(x0, y0, x1, y1);
+    if (!this.wasm!.backends[objid]) throw new Error("Cannot find canvas: " + objid);
+    this.wasm!.gradients[this.id] = this.wasm!.backends[objid].createLinearGradient(x0, y0, x1, y1);
+    if (this.recorder) this.recorder.recordLinearGradient(objid, this.id, x0, y0, x1, y1);
     return this.id;
   }
 
   private createRadialGradient(objid: number, x0: number, y0: number, r0: number, x1: number, y1: number, r1: number): number {
     this.id += 1;
-    if (!this.wasm!.contexts[objid]) throw new Error("Cannot find canvas: " + objid);
-    this.wasm!.gradients[this.id] = this.wasm!.contexts[objid].createRadialGradient(x0, y0, r0, x1, y1, r1);
+    if (!this.wasm!.backends[objid]) throw new Error("Cannot find canvas: " + objid);
+    this.wasm!.gradients[this.id] = this.wasm!.backends[objid].createRadialGradient(x0, y0, r0, x1, y1, r1);
+    if (this.recorder) this.recorder.recordRadialGradient(objid, this.id, x0, y0, r0, x1, y1, r1);
     return this.id;
   }
 
   private addColorStop(objid: number, offset: number, color: number): void {
     if (!this.wasm!.gradients[objid]) throw new Error("Cannot find gradient: " + objid);
-    this.wasm!.gradients[objid].addColorStop(offset, this.wasm!.__getString(color));
+    var value: string = this.wasm!.__getString(color);
+    this.wasm!.gradients[objid].addColorStop(offset, value);
+    if (this.recorder) this.recorder.recordColorStop(objid, offset, value);
   }
 
   private loadImage(imgPointer: number, srcPointer: number): number {
@@ -142,251 +363,175 @@ export class AS2DGlue<T> {
 
   private createPattern(cvsobjid: number, objid: number, repetition: number): number {
     this.id += 1;
-    if (!this.wasm!.contexts[cvsobjid]) throw new Error("Cannot find canvas: " + cvsobjid);
-    if (!this.wasm!.images[objid]) throw new Error("Cannot find image: " + objid);
-    this.wasm!.patterns[this.id] = this.wasm!.contexts[cvsobjid].createPattern(
-      this.wasm!.images[objid],
-      CanvasPatternRepetitionValues[repetition].replace("_", "-"),
-    )!;
+    if (!this.wasm!.backends[cvsobjid]) throw new Error("Cannot find canvas: " + cvsobjid);
+    var image: ImageSource = this.getImage(objid);
+    if (!image) throw new Error("Cannot find image: " + objid);
+    this.wasm!.patterns[this.id] = this.wasm!.backends[cvsobjid].createPattern(image, repetition);
+    if (this.recorder) {
+      this.recorder.recordImage(objid, image);
+      this.recorder.recordPattern(cvsobjid, this.id, objid, repetition);
+    }
+    return this.id;
+  }
+
+  private setPatternTransform(objid: number, a: number, b: number, c: number, d: number, e: number, f: number): void {
+    if (!this.wasm!.patterns[objid]) throw new Error("Cannot find pattern: " + objid);
+    this.wasm!.patterns[objid].setTransform({ a, b, c, d, e, f });
+    if (this.recorder) this.recorder.recordPatternTransform(objid, a, b, c, d, e, f);
+  }
+
+  private createPath2D(): number {
+    this.id += 1;
+    this.wasm!.paths[this.id] = new Float64Array(0);
     return this.id;
   }
 
-  public measureText(cvsobjid: number, text: number): number {
+  /**
+   * Copy the segments of a path out of the module. The host paths that were created out of the
+   * previous segments are discarded, and created again the next time the path is drawn.
+   */
+  private updatePath2D(id: number, pointer: number, length: number): void {
+    var data = new Float64Array(this.wasm!.memory.buffer, pointer, length).slice();
+    this.wasm!.paths[id] = data;
+    for (var ctxid in this.pathCache) delete this.pathCache[ctxid][id];
+    if (this.recorder) this.recorder.recordPath2D(id, data);
+  }
+
+  /**
+   * Obtain the image for an image source id. Images and contexts share the same ids, so a context
+   * used as an image is resolved into its canvas. A context that renders into a backend without a
+   * canvas cannot be used as an image.
+   */
+  private getImage(id: number): ImageSource {
+    var wasm = this.wasm!;
+    if (wasm.contexts[id]) return wasm.contexts[id].canvas;
+    if (this.canvases[id]) return this.canvases[id];
+    if (wasm.backends[id]) throw new Error("Cannot use a context without a canvas as an image: " + id);
+    return wasm.images[id];
+  }
+
+  /**
+   * Obtain the host path of the given context for a path id. Host paths are cached per context,
+   * because every backend creates its own kind of path.
+   */
+  private getPath(ctxid: number, id: number): Path2D {
+    var cache = this.pathCache[ctxid] || (this.pathCache[ctxid] = {});
+    if (!cache[id] && this.wasm!.paths[id]) cache[id] = this.wasm!.backends[ctxid].createPath2D(this.wasm!.paths[id]);
+    return cache[id];
+  }
+
+  /**
+   * Copy the pixels of a rectangle of the canvas into the `Uint8ClampedArray` data of an ImageData
+   * in the module.
+   */
+  private getImageData(cvsobjid: number, sx: number, sy: number, sw: number, sh: number, pointer: number): void {
+    if (!this.wasm!.backends[cvsobjid]) throw new Error("Cannot find canvas: " + cvsobjid);
+    var target: Uint8ClampedArray = this.wasm!.__getUint8ClampedArray(pointer);
+    var data: Uint8ClampedArray = this.wasm!.backends[cvsobjid].getImageData(sx, sy, sw, sh);
+    target.set(data.length > target.length ? data.subarray(0, target.length) : data);
+  }
+
+  /**
+   * Measure a string, and write every metric into the fields of an AssemblyScript TextMetrics
+   * object.
+   */
+  public measureText(cvsobjid: number, text: number, pointer: number): void {
     // The canvas exists, because render was already called
-    // if (!this.wasm!.contexts[cvsobjid]) throw new Error("Cannot find canvas: " + cvsobjid);
-    var ctx: CanvasRenderingContext2D = this.wasm!.contexts[cvsobjid];
-    return ctx.measureText(this.wasm!.__getString(text)).width;
+    // if (!this.wasm!.backends[cvsobjid]) throw new Error("Cannot find canvas: " + cvsobjid);
+    var backend: IRenderBackend = this.wasm!.backends[cvsobjid];
+    var metrics: TextMetrics = backend.measureText(this.wasm!.__getString(text));
+    this.writeTextMetrics(pointer, metrics);
+  }
+
+  /**
+   * Measure an array of strings in the given font and text style, and write the metrics into the
+   * matching AssemblyScript TextMetrics objects of the `metrics` array.
+   */
+  private measureTextBatch(
+    cvsobjid: number,
+    font: number,
+    letterSpacing: number,
+    wordSpacing: number,
+    fontKerning: number,
+    fontStretch: number,
+    fontVariantCaps: number,
+    textRendering: number,
+    texts: number,
+    metrics: number,
+  ): void {
+    if (!this.wasm!.backends[cvsobjid]) throw new Error("Cannot find canvas: " + cvsobjid);
+    var wasm: ASUtil & T & ICanvasSYS = this.wasm!;
+    var strings: string[] = wasm.__getArray(texts).map(text => wasm.__getString(text));
+    var results: TextMetrics[] = wasm.backends[cvsobjid].measureTextBatch(strings, wasm.__getString(font), {
+      letterSpacing: wasm.__getString(letterSpacing),
+      wordSpacing: wasm.__getString(wordSpacing),
+      fontKerning,
+      fontStretch,
+      fontVariantCaps,
+      textRendering,
+    });
+    var pointers: number[] = wasm.__getArray(metrics);
+    for (var i = 0; i < pointers.length; i++) this.writeTextMetrics(pointers[i], results[i]);
+  }
+
+  /**
+   * Write every metric into the fields of an AssemblyScript TextMetrics object. Metrics that the
+   * backend does not provide are written as 0.
+   */
+  private writeTextMetrics(pointer: number, metrics: TextMetrics): void {
+    var fields = new Float64Array(this.wasm!.memory.buffer, pointer, TextMetricsFields.length);
+    for (var i = 0; i < TextMetricsFields.length; i++) fields[i] = metrics[TextMetricsFields[i]] || 0;
   }
 
   private render(cvsobjid: number, pointer: number): void {
-    if (!this.wasm!.contexts[cvsobjid]) throw new Error("Cannot find canvas: " + cvsobjid);
+    if (!this.wasm!.backends[cvsobjid]) throw new Error("Cannot find canvas: " + cvsobjid);
     var wasm: ASUtil & T & ICanvasSYS = this.wasm!;
-    var ctx: CanvasRenderingContext2D = wasm.contexts[cvsobjid];
-    var data = new Float64Array(wasm.memory.buffer, pointer, 0x10000);
-    var i = 0;
-    var strings: { [pointer: number]: string; } = {};
-    while (i < 0x10000 && data[i] !== CanvasInstruction.Commit) {
-      switch (data[i]) {
-        case CanvasInstruction.Arc: {
-          ctx.arc(data[i + 2], data[i + 3], data[i + 4], data[i + 5], data[i + 6], data[i + 7] === 1);
-          break;
-        }
-        case CanvasInstruction.ArcTo: {
-          ctx.arcTo(data[i + 2], data[i + 3], data[i + 4], data[i + 5], data[i + 6]);
-          break;
-        }
-        case CanvasInstruction.BeginPath: {
-          ctx.beginPath();
-          break;
-        }
-        case CanvasInstruction.BezierCurveTo: {
-          ctx.bezierCurveTo(data[i + 2], data[i + 3], data[i + 4], data[i + 5], data[i + 6], data[i + 7]);
-          break;
-        }
-        case CanvasInstruction.Clip: {
-          ctx.clip();
-          break;
-        }
-        case CanvasInstruction.ClosePath: {
-          ctx.closePath();
-          break;
-        }
-        case CanvasInstruction.ClearRect: {
-          ctx.clearRect(data[i + 2], data[i + 3], data[i + 4], data[i + 5]);
-          break;
-        }
-        case CanvasInstruction.Direction: {
-          ctx.direction = CanvasDirectionValues[data[i + 2]] as CanvasDirection;
-          break;
-        }
-        case CanvasInstruction.DrawImage: {
-          ctx.drawImage(wasm.images[data[i + 2]], data[i + 3], data[i + 4], data[i + 5], data[i + 6], data[i + 7], data[i + 8], data[i + 9], data[i + 10]);
-          break;
-        }
-        case CanvasInstruction.Ellipse: {
-          ctx.ellipse(data[i + 2], data[i + 3], data[i + 4], data[i + 5], data[i + 6], data[i + 7], data[i + 8], data[i + 9] === 1);
-          break;
-        }
-        case CanvasInstruction.Fill: {
-          ctx.fill(FillRuleValues[data[i + 2]] as CanvasFillRule);
-          break;
-        }
-        case CanvasInstruction.FillGradient: {
-          ctx.fillStyle = wasm.gradients[data[i + 2]];
-          break;
-        }
-        case CanvasInstruction.FillPattern: {
-          ctx.fillStyle = wasm.patterns[data[i + 2]];
-          break;
-        }
-        case CanvasInstruction.FillRect: {
-          ctx.fillRect(data[i + 2], data[i + 3], data[i + 4], data[i + 5]);
-          break;
-        }
-        case CanvasInstruction.FillStyle: {
-          ctx.fillStyle = strings[data[i + 2]] || (strings[data[i + 2]] = wasm.__getString(data[i + 2]));
-          break;
-        }
-        case CanvasInstruction.FillText: {
-          ctx.fillText(
-            strings[data[i + 2]] || (strings[data[i + 2]] = wasm.__getString(data[i + 2])),
-            data[i + 3],
-            data[i + 4],
-          );
-          break;
-        }
-        case CanvasInstruction.FillTextWidth: {
-          ctx.fillText(
-            strings[data[i + 2]] || (strings[data[i + 2]] = wasm.__getString(data[i + 2])),
-            data[i + 3],
-            data[i + 4],
-            data[i + 5],
-          );
-          break;
-        }
-        case CanvasInstruction.Filter: {
-          ctx.filter = strings[data[i + 2]] || (strings[data[i + 2]] = wasm.__getString(data[i + 2]));
-          break;
-        }
-        case CanvasInstruction.Font: {
-          ctx.font = strings[data[i + 2]] || (strings[data[i + 2]] = wasm.__getString(data[i + 2]));
-          break;
-        }
-        case CanvasInstruction.GlobalAlpha: {
-          ctx.globalAlpha = data[i + 2];
-          break;
-        }
-        case CanvasInstruction.GlobalCompositeOperation: {
-          ctx.globalCompositeOperation = GlobalCompositeOperationValues[data[i + 2]];
-          break;
-        }
-        case CanvasInstruction.ImageSmoothingEnabled: {
-          ctx.imageSmoothingEnabled = data[i + 1] === 1;
-          break;
-        }
-        case CanvasInstruction.ImageSmoothingQuality: {
-          ctx.imageSmoothingQuality = ImageSmoothingQualityValues[data[i + 2]] as "low" | "medium" | "high";
-          break;
-        }
-        case CanvasInstruction.LineCap: {
-          ctx.lineCap = LineCapValues[data[i + 2]] as CanvasLineCap;
-          break;
-        }
-        case CanvasInstruction.LineDash: {
-          // @ts-ignore setLineDash accepts a Float64Array as a parameter
-          ctx.setLineDash(wasm.__getFloat64Array(data[i + 2]));
-          break;
-        }
-        case CanvasInstruction.LineDashOffset: {
-          ctx.lineDashOffset = data[i + 2];
-          break;
-        }
-        case CanvasInstruction.LineJoin: {
-          ctx.lineJoin = LineJoinValues[data[i + 2]] as CanvasLineJoin;
-          break;
-        }
-        case CanvasInstruction.LineTo: {
-          ctx.lineTo(data[i + 2], data[i + 3]);
-          break;
-        }
-        case CanvasInstruction.LineWidth: {
-          ctx.lineWidth = data[i + 2];
-          break;
-        }
-        case CanvasInstruction.MiterLimit: {
-          ctx.miterLimit = data[i + 2];
-          break;
-        }
-        case CanvasInstruction.MoveTo: {
-          ctx.moveTo(data[i + 2], data[i + 3]);
-          break;
-        }
-        case CanvasInstruction.QuadraticCurveTo: {
-          ctx.quadraticCurveTo(data[i + 2], data[i + 3], data[i + 4], data[i + 5]);
-          break;
-        }
-        case CanvasInstruction.Rect: {
-          ctx.rect(data[i + 2], data[i + 3], data[i + 4], data[i + 5]);
-          break;
-        }
-        case CanvasInstruction.Restore: {
-          ctx.restore();
-          break;
-        }
-        case CanvasInstruction.Save: {
-          ctx.save();
-          break;
-        }
-        case CanvasInstruction.SetTransform: {
-          ctx.setTransform(data[i + 2], data[i + 3], data[i + 4], data[i + 5], data[i + 6], data[i + 7]);
-          break;
-        }
-        case CanvasInstruction.ShadowBlur: {
-          ctx.shadowBlur = data[i + 2];
-          break;
-        }
-        case CanvasInstruction.ShadowColor: {
-          ctx.shadowColor = strings[data[i + 2]] || (strings[data[i + 2]] = wasm.__getString(data[i + 2]));
-          break;
-        }
-        case CanvasInstruction.ShadowOffsetX: {
-          ctx.shadowOffsetX = data[i + 2];
-          break;
-        }
-        case CanvasInstruction.ShadowOffsetY: {
-          ctx.shadowOffsetY = data[i + 2];
-          break;
-        }
-        case CanvasInstruction.Stroke: {
-          ctx.stroke();
-          break;
-        }
-        case CanvasInstruction.StrokeGradient: {
-          ctx.strokeStyle = wasm.gradients[data[i + 2]];
-          break;
-        }
-        case CanvasInstruction.StrokePattern: {
-          ctx.strokeStyle = wasm.patterns[data[i + 2]];
-          break;
-        }
-        case CanvasInstruction.StrokeRect: {
-          ctx.strokeRect(data[i + 2], data[i + 3], data[i + 4], data[i + 5]);
-          break;
-        }
-        case CanvasInstruction.StrokeStyle: {
-          ctx.strokeStyle = strings[data[i + 2]] || (strings[data[i + 2]] = wasm.__getString(data[i + 2]));
-          break;
-        }
-        case CanvasInstruction.StrokeText: {
-          ctx.strokeText(
-            strings[data[i + 2]] || (strings[data[i + 2]] = wasm.__getString(data[i + 2])),
-            data[i + 3],
-            data[i + 4],
-          );
-          break;
-        }
-        case CanvasInstruction.StrokeTextWidth: {
-          ctx.strokeText(
-            strings[data[i + 2]] || (strings[data[i + 2]] = wasm.__getString(data[i + 2])),
-            data[i + 3],
-            data[i + 4],
-            data[i + 5],
-          );
-          break;
-        }
-        case CanvasInstruction.TextAlign: {
-          ctx.textAlign = TextAlignValues[data[i + 2]] as CanvasTextAlign;
-          break;
-        }
-        case CanvasInstruction.TextBaseline: {
-          ctx.textBaseline = TextBaselineValues[data[i + 2]] as CanvasTextBaseline;
-          break;
-        }
-      }
-      i = data[i + 1];
+    // the byte length of an ArrayBuffer is stored right before its data
+    var length: number = new Uint32Array(wasm.memory.buffer)[(pointer - 4) >>> 2] / Float64Array.BYTES_PER_ELEMENT;
+    var data = new Float64Array(wasm.memory.buffer, pointer, length);
+    var resolver: IResourceResolver = this.createResolver(cvsobjid);
+    if (this.trace) this.trace(cvsobjid, disassembleInstructions(data, resolver));
+    var inspector = this.inspector;
+    var inspect = inspector
+      ? (label: string, state: ICanvasState): void => inspector!(cvsobjid, label, state)
+      : undefined;
+    var recorder: FrameRecorder | null = this.recorder;
+    if (recorder) {
+      dispatchInstructions(data, wasm.backends[cvsobjid], recorder.captureResources(resolver), inspect);
+      recorder.recordFrame(cvsobjid, data);
+    } else {
+      dispatchInstructions(data, wasm.backends[cvsobjid], resolver, inspect);
     }
   }
 
+  /**
+   * Create a resolver that reads arguments out of the module. Strings are cached for the duration
+   * of a single render, because the same pointer is usually referenced many times per frame.
+   */
+  private createResolver(ctxid: number): IResourceResolver {
+    var wasm: ASUtil & T & ICanvasSYS = this.wasm!;
+    var strings: { [pointer: number]: string; } = {};
+    return {
+      getString: (pointer: number): string => strings[pointer] || (strings[pointer] = wasm.__getString(pointer)),
+      getFloat64Array: (pointer: number): Float64Array => wasm.__getFloat64Array(pointer),
+      getUint8ClampedArray: (pointer: number): Uint8ClampedArray => wasm.__getUint8ClampedArray(pointer),
+      getImage: (id: number): ImageSource => this.getImage(id),
+      getGradient: (id: number): CanvasGradient => wasm.gradients[id],
+      getPattern: (id: number): CanvasPattern => wasm.patterns[id],
+      getPath: (id: number): Path2D => this.getPath(ctxid, id),
+      getElement: (id: number): Element | null => wasm.elements[id] || null,
+    };
+  }
+
+  disposeCanvas(id: number): void {
+    if (this.disposers[id]) this.disposers[id].forEach(disposer => disposer());
+    delete this.disposers[id];
+    delete this.wasm!.backends[id];
+    delete this.wasm!.contexts[id];
+    delete this.canvases[id];
+    delete this.pathCache[id];
+  }
+
   disposeCanvasPattern(id: number): void {
     delete this.wasm!.patterns[id];
   }
@@ -399,11 +544,21 @@ export class AS2DGlue<T> {
     delete this.wasm!.gradients[id];
   }
 
+  disposePath2D(id: number): void {
+    delete this.wasm!.paths[id];
+    for (var ctxid in this.pathCache) delete this.pathCache[ctxid][id];
+  }
+
   isPointInPath(id: number, x: number, y: number, fillRule: number): number {
-    return bool[(<any>this.wasm!.contexts[id]).isPointInPath(x, y, FillRuleValues[fillRule]).toString() as "true" | "false"];
+    return bool[this.wasm!.backends[id].isPointInPath(x, y, fillRule).toString() as "true" | "false"];
+  }
+
+  isPointInPathObject(id: number, pathid: number, x: number, y: number, fillRule: number): number {
+    var path: Path2D = this.getPath(id, pathid);
+    return bool[this.wasm!.backends[id].isPointInPathObject(path, x, y, fillRule).toString() as "true" | "false"];
   }
 
   isPointInStroke(id: number, x: number, y: number): number {
-    return bool[(<any>this.wasm!.contexts[id]).isPointInStroke(x, y).toString() as "true" | "false"];
+    return bool[this.wasm!.backends[id].isPointInStroke(x, y).toString() as "true" | "false"];
   }
 }
@@ -0,0 +1,512 @@
+import { ICanvasState } from "../util/ICanvasState";
+import { IRenderBackend } from "../util/IRenderBackend";
+import { CanvasDirection as CanvasDirectionEnum } from "../shared/CanvasDirection";
+import { CanvasPatternRepetition } from "../shared/CanvasPatternRepetition";
+import { FillRule } from "../shared/FillRule";
+import { FontKerning } from "../shared/FontKerning";
+import { FontStretch } from "../shared/FontStretch";
+import { FontVariantCaps } from "../shared/FontVariantCaps";
+import { GlobalCompositeOperation } from "../shared/GlobalCompositeOperation";
+import { ImageSmoothingQuality } from "../shared/ImageSmoothingQuality";
+import { LineCap } from "../shared/LineCap";
+import { LineJoin } from "../shared/LineJoin";
+import { TextAlign } from "../shared/TextAlign";
+import { TextBaseline } from "../shared/TextBaseline";
+import { TextRendering } from "../shared/TextRendering";
+import { buildPath2D } from "./buildPath2D";
+import { IRoundRectContext, roundRect } from "./roundRect";
+import { ImageSource } from "../util/ImageSource";
+import { ITextStyle } from "../util/ITextStyle";
+
+/**
+ * A context that might implement the native `createConicGradient()` method, which is not available
+ * in every browser.
+ */
+interface IConicGradientContext {
+  createConicGradient?(startAngle: number, x: number, y: number): CanvasGradient;
+}
+
+/**
+ * A context that might implement the native `reset()` method, which is not available in every
+ * browser.
+ */
+interface IResetContext {
+  reset?(): void;
+}
+
+/**
+ * A context that might implement the newer text rendering properties, which are not available in
+ * every browser. Setting them on other browsers has no effect.
+ */
+interface ITextRenderingContext {
+  fontKerning?: string;
+  fontStretch?: string;
+  fontVariantCaps?: string;
+  letterSpacing?: string;
+  textRendering?: string;
+  wordSpacing?: string;
+}
+
+const CanvasPatternRepetitionValues = ["repeat", "repeat_x", "repeat_y", "no_repeat"];
+const FillRuleValues = ["nonzero", "evenodd"];
+const LineCapValues = ["butt", "round", "square"];
+const LineJoinValues = ["bevel", "round", "miter"];
+const TextBaselineValues = ["top", "hanging", "middle", "alphabetic", "ideographic", "bottom"];
+const TextAlignValues = ["left", "right", "center", "start", "end"];
+const CanvasDirectionValues = ["ltr", "rtl", "inherit"];
+const ImageSmoothingQualityValues = ["low", "medium", "high"];
+const FontKerningValues = ["auto", "normal", "none"];
+const FontStretchValues = [
+  "ultra-condensed",
+  "extra-condensed",
+  "condensed",
+  "semi-condensed",
+  "normal",
+  "semi-expanded",
+  "expanded",
+  "extra-expanded",
+  "ultra-expanded",
+];
+const FontVariantCapsValues = [
+  "normal",
+  "small-caps",
+  "all-small-caps",
+  "petite-caps",
+  "all-petite-caps",
+  "unicase",
+  "titling-caps",
+];
+const TextRenderingValues = ["auto", "optimizeSpeed", "optimizeLegibility", "geometricPrecision"];
+/**
+ * Obtain the enum value of a property that might not be implemented by the browser.
+ */
+function optionalIndexOf(values: string[], value: string | undefined): number | undefined {
+  return value === undefined ? undefined : values.indexOf(value);
+}
+
+const GlobalCompositeOperationValues = [
+  "source-over",
+  "source-in",
+  "source-out",
+  "source-atop",
+  "destination-over",
+  "destination-in",
+  "destination-out",
+  "destination-atop",
+  "lighter",
+  "copy",
+  "xor",
+  "multiply",
+  "screen",
+  "overlay",
+  "darken",
+  "lighten",
+  "color-dodge",
+  "color-burn",
+  "hard-light",
+  "soft-light",
+  "difference",
+  "exclusion",
+  "hue",
+  "saturation",
+  "color",
+  "luminosity",
+];
+
+/**
+ * The default render backend that forwards every decoded instruction to a DOM
+ * `CanvasRenderingContext2D`.
+ */
+export class CanvasRenderingContext2DBackend implements IRenderBackend {
+  constructor(public readonly ctx: CanvasRenderingContext2D) {}
+
+  public arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, anticlockwise: boolean): void {
+    this.ctx.arc(x, y, radius, startAngle, endAngle, anticlockwise);
+  }
+
+  public arcTo(x1: number, y1: number, x2: number, y2: number, radius: number): void {
+    this.ctx.arcTo(x1, y1, x2, y2, radius);
+  }
+
+  public beginPath(): void {
+    this.ctx.beginPath();
+  }
+
+  public bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void {
+    this.ctx.bezierCurveTo(cp1x, cp1y, cp2x, cp2y, x, y);
+  }
+
+  public clearRect(x: number, y: number, width: number, height: number): void {
+    this.ctx.clearRect(x, y, width, height);
+  }
+
+  public clip(): void {
+    this.ctx.clip();
+  }
+
+  public clipPath(path: Path2D, fillRule: FillRule): void {
+    this.ctx.clip(path, FillRuleValues[fillRule] as CanvasFillRule);
+  }
+
+  public closePath(): void {
+    this.ctx.closePath();
+  }
+
+  public direction(value: CanvasDirectionEnum): void {
+    this.ctx.direction = CanvasDirectionValues[value] as CanvasDirection;
+  }
+
+  public drawFocusIfNeeded(element: Element | null): void {
+    if (element) this.ctx.drawFocusIfNeeded(element);
+  }
+
+  public drawFocusIfNeededPath(path: Path2D, element: Element | null): void {
+    if (element) this.ctx.drawFocusIfNeeded(path, element);
+  }
+
+  public drawImage(image: ImageSource, sx: number, sy: number, sWidth: number, sHeight: number, dx: number, dy: number, dWidth: number, dHeight: number): void {
+    this.ctx.drawImage(image, sx, sy, sWidth, sHeight, dx, dy, dWidth, dHeight);
+  }
+
+  public ellipse(x: number, y: number, radiusX: number, radiusY: number, rotation: number, startAngle: number, endAngle: number, anticlockwise: boolean): void {
+    this.ctx.ellipse(x, y, radiusX, radiusY, rotation, startAngle, endAngle, anticlockwise);
+  }
+
+  public fill(fillRule: FillRule): void {
+    this.ctx.fill(FillRuleValues[fillRule] as CanvasFillRule);
+  }
+
+  public fillGradient(value: CanvasGradient): void {
+    this.ctx.fillStyle = value;
+  }
+
+  public fillPath(path: Path2D, fillRule: FillRule): void {
+    this.ctx.fill(path, FillRuleValues[fillRule] as CanvasFillRule);
+  }
+
+  public fillPattern(value: CanvasPattern): void {
+    this.ctx.fillStyle = value;
+  }
+
+  public fillRect(x: number, y: number, width: number, height: number): void {
+    this.ctx.fillRect(x, y, width, height);
+  }
+
+  public fillStyle(value: string): void {
+    this.ctx.fillStyle = value;
+  }
+
+  public fillText(text: string, x: number, y: number): void {
+    this.ctx.fillText(text, x, y);
+  }
+
+  public fillTextWidth(text: string, x: number, y: number, maxWidth: number): void {
+    this.ctx.fillText(text, x, y, maxWidth);
+  }
+
+  public filter(value: string): void {
+    this.ctx.filter = value;
+  }
+
+  public font(value: string): void {
+    this.ctx.font = value;
+  }
+
+  public fontKerning(value: FontKerning): void {
+    (this.ctx as CanvasRenderingContext2D & ITextRenderingContext).fontKerning = FontKerningValues[value];
+  }
+
+  public fontStretch(value: FontStretch): void {
+    (this.ctx as CanvasRenderingContext2D & ITextRenderingContext).fontStretch = FontStretchValues[value];
+  }
+
+  public fontVariantCaps(value: FontVariantCaps): void {
+    (this.ctx as CanvasRenderingContext2D & ITextRenderingContext).fontVariantCaps = FontVariantCapsValues[value];
+  }
+
+  public globalAlpha(value: number): void {
+    this.ctx.globalAlpha = value;
+  }
+
+  public globalCompositeOperation(value: GlobalCompositeOperation): void {
+    this.ctx.globalCompositeOperation = GlobalCompositeOperationValues[value];
+  }
+
+  public imageSmoothingEnabled(value: boolean): void {
+    this.ctx.imageSmoothingEnabled = value;
+  }
+
+  public imageSmoothingQuality(value: ImageSmoothingQuality): void {
+    this.ctx.imageSmoothingQuality = ImageSmoothingQualityValues[value] as "low" | "medium" | "high";
+  }
+
+  public letterSpacing(value: string): void {
+    (this.ctx as CanvasRenderingContext2D & ITextRenderingContext).letterSpacing = value;
+  }
+
+  public lineCap(value: LineCap): void {
+    this.ctx.lineCap = LineCapValues[value] as CanvasLineCap;
+  }
+
+  public lineDash(value: Float64Array): void {
+    // @ts-ignore setLineDash accepts a Float64Array as a parameter
+    this.ctx.setLineDash(value);
+  }
+
+  public lineDashOffset(value: number): void {
+    this.ctx.lineDashOffset = value;
+  }
+
+  public lineJoin(value: LineJoin): void {
+    this.ctx.lineJoin = LineJoinValues[value] as CanvasLineJoin;
+  }
+
+  public lineTo(x: number, y: number): void {
+    this.ctx.lineTo(x, y);
+  }
+
+  public lineWidth(value: number): void {
+    this.ctx.lineWidth = value;
+  }
+
+  public miterLimit(value: number): void {
+    this.ctx.miterLimit = value;
+  }
+
+  public moveTo(x: number, y: number): void {
+    this.ctx.moveTo(x, y);
+  }
+
+  public putImageData(data: Uint8ClampedArray, width: number, height: number, dx: number, dy: number, dirtyX: number, dirtyY: number, dirtyWidth: number, dirtyHeight: number): void {
+    this.ctx.putImageData(new ImageData(data, width, height), dx, dy, dirtyX, dirtyY, dirtyWidth, dirtyHeight);
+  }
+
+  public quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+    this.ctx.quadraticCurveTo(cpx, cpy, x, y);
+  }
+
+  public rect(x: number, y: number, width: number, height: number): void {
+    this.ctx.rect(x, y, width, height);
+  }
+
+  /**
+   * Reset the context, or resize its canvas on browsers without the native `reset()` method, which
+   * resets the context as well.
+   */
+  public reset(): void {
+    var ctx: CanvasRenderingContext2D & IResetContext = this.ctx;
+    if (ctx.reset) {
+      ctx.reset();
+    } else {
+      ctx.canvas.width = ctx.canvas.width;
+    }
+  }
+
+  /**
+   * Resize the canvas of the context, which resets the context as well.
+   */
+  public resize(width: number, height: number): void {
+    this.ctx.canvas.width = width;
+    this.ctx.canvas.height = height;
+  }
+
+  public restore(): void {
+    this.ctx.restore();
+  }
+
+  /**
+   * Add a rounded rectangle using the native `roundRect()` method, or using elliptical arcs when
+   * the browser does not implement it.
+   */
+  public roundRect(x: number, y: number, width: number, height: number, radii: number[]): void {
+    var ctx: CanvasRenderingContext2D & IRoundRectContext = this.ctx;
+    if (ctx.roundRect) {
+      ctx.roundRect(x, y, width, height, [
+        { x: radii[0], y: radii[1] },
+        { x: radii[2], y: radii[3] },
+        { x: radii[4], y: radii[5] },
+        { x: radii[6], y: radii[7] },
+      ]);
+    } else {
+      roundRect(ctx, x, y, width, height, radii);
+    }
+  }
+
+  public save(): void {
+    this.ctx.save();
+  }
+
+  public setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    this.ctx.setTransform(a, b, c, d, e, f);
+  }
+
+  public shadowBlur(value: number): void {
+    this.ctx.shadowBlur = value;
+  }
+
+  public shadowColor(value: string): void {
+    this.ctx.shadowColor = value;
+  }
+
+  public shadowOffsetX(value: number): void {
+    this.ctx.shadowOffsetX = value;
+  }
+
+  public shadowOffsetY(value: number): void {
+    this.ctx.shadowOffsetY = value;
+  }
+
+  public stroke(): void {
+    this.ctx.stroke();
+  }
+
+  public strokeGradient(value: CanvasGradient): void {
+    this.ctx.strokeStyle = value;
+  }
+
+  public strokePath(path: Path2D): void {
+    this.ctx.stroke(path);
+  }
+
+  public strokePattern(value: CanvasPattern): void {
+    this.ctx.strokeStyle = value;
+  }
+
+  public strokeRect(x: number, y: number, width: number, height: number): void {
+    this.ctx.strokeRect(x, y, width, height);
+  }
+
+  public strokeStyle(value: string): void {
+    this.ctx.strokeStyle = value;
+  }
+
+  public strokeText(text: string, x: number, y: number): void {
+    this.ctx.strokeText(text, x, y);
+  }
+
+  public strokeTextWidth(text: string, x: number, y: number, maxWidth: number): void {
+    this.ctx.strokeText(text, x, y, maxWidth);
+  }
+
+  public textAlign(value: TextAlign): void {
+    this.ctx.textAlign = TextAlignValues[value] as CanvasTextAlign;
+  }
+
+  public textBaseline(value: TextBaseline): void {
+    this.ctx.textBaseline = TextBaselineValues[value] as CanvasTextBaseline;
+  }
+
+  public textRendering(value: TextRendering): void {
+    (this.ctx as CanvasRenderingContext2D & ITextRenderingContext).textRendering = TextRenderingValues[value];
+  }
+
+  public wordSpacing(value: string): void {
+    (this.ctx as CanvasRenderingContext2D & ITextRenderingContext).wordSpacing = value;
+  }
+
+  /**
+   * Create a conic gradient using the native `createConicGradient()` method, which is not available
+   * in every browser.
+   */
+  public createConicGradient(startAngle: number, x: number, y: number): CanvasGradient {
+    var ctx: CanvasRenderingContext2D & IConicGradientContext = this.ctx;
+    if (!ctx.createConicGradient) throw new Error("This browser does not support conic gradients.");
+    return ctx.createConicGradient(startAngle, x, y);
+  }
+
+  public createLinearGradient(x0: number, y0: number, x1: number, y1: number): CanvasGradient {
+    return this.ctx.createLinearGradient(x0, y0, x1, y1);
+  }
+
+  /**
+   * Create a DOM `Path2D` out of the recorded segments. Nested paths are created separately and
+   * added with their transform.
+   */
+  public createPath2D(data: Float64Array): Path2D {
+    var path = new Path2D();
+    buildPath2D(data, path, (child, a, b, c, d, e, f) => path.addPath(this.createPath2D(child), { a, b, c, d, e, f }));
+    return path;
+  }
+
+  public createPattern(image: ImageSource, repetition: CanvasPatternRepetition): CanvasPattern {
+    return this.ctx.createPattern(image, CanvasPatternRepetitionValues[repetition].replace("_", "-"))!;
+  }
+
+  public createRadialGradient(x0: number, y0: number, r0: number, x1: number, y1: number, r1: number): CanvasGradient {
+    return this.ctx.createRadialGradient(x0, y0, r0, x1, y1, r1);
+  }
+
+  public getImageData(sx: number, sy: number, sw: number, sh: number): Uint8ClampedArray {
+    return this.ctx.getImageData(sx, sy, sw, sh).data;
+  }
+
+  public getState(): ICanvasState {
+    var ctx: CanvasRenderingContext2D & ITextRenderingContext = this.ctx;
+    var m: DOMMatrix = ctx.getTransform();
+    return {
+      transform: [m.a, m.b, m.c, m.d, m.e, m.f],
+      fillStyle: ctx.fillStyle,
+      strokeStyle: ctx.strokeStyle,
+      globalAlpha: ctx.globalAlpha,
+      lineWidth: ctx.lineWidth,
+      lineCap: LineCapValues.indexOf(ctx.lineCap),
+      lineJoin: LineJoinValues.indexOf(ctx.lineJoin),
+      miterLimit: ctx.miterLimit,
+      lineDash: ctx.getLineDash(),
+      lineDashOffset: ctx.lineDashOffset,
+      globalCompositeOperation: GlobalCompositeOperationValues.indexOf(ctx.globalCompositeOperation),
+      filter: ctx.filter,
+      font: ctx.font,
+      textAlign: TextAlignValues.indexOf(ctx.textAlign),
+      textBaseline: TextBaselineValues.indexOf(ctx.textBaseline),
+      direction: CanvasDirectionValues.indexOf(ctx.direction),
+      letterSpacing: ctx.letterSpacing,
+      wordSpacing: ctx.wordSpacing,
+      fontKerning: optionalIndexOf(FontKerningValues, ctx.fontKerning),
+      fontStretch: optionalIndexOf(FontStretchValues, ctx.fontStretch),
+      fontVariantCaps: optionalIndexOf(FontVariantCapsValues, ctx.fontVariantCaps),
+      textRendering: optionalIndexOf(TextRenderingValues, ctx.textRendering),
+      shadowBlur: ctx.shadowBlur,
+      shadowColor: ctx.shadowColor,
+      shadowOffsetX: ctx.shadowOffsetX,
+      shadowOffsetY: ctx.shadowOffsetY,
+      imageSmoothingEnabled: ctx.imageSmoothingEnabled,
+      imageSmoothingQuality: ImageSmoothingQualityValues.indexOf(ctx.imageSmoothingQuality),
+    };
+  }
+
+  public isPointInPath(x: number, y: number, fillRule: FillRule): boolean {
+    return (<any>this.ctx).isPointInPath(x, y, FillRuleValues[fillRule]);
+  }
+
+  public isPointInPathObject(path: Path2D, x: number, y: number, fillRule: FillRule): boolean {
+    return this.ctx.isPointInPath(path, x, y, FillRuleValues[fillRule] as CanvasFillRule);
+  }
+
+  public isPointInStroke(x: number, y: number): boolean {
+    return (<any>this.ctx).isPointInStroke(x, y);
+  }
+
+  public measureText(text: string): TextMetrics {
+    return this.ctx.measureText(text);
+  }
+
+  public measureTextBatch(texts: string[], font: string, style: ITextStyle): TextMetrics[] {
+    var ctx: CanvasRenderingContext2D & ITextRenderingContext = this.ctx;
+    // the pending instructions were not dispatched, so the current state must be kept
+    ctx.save();
+    ctx.font = font;
+    ctx.direction = "inherit";
+    ctx.textAlign = "start";
+    ctx.textBaseline = "alphabetic";
+    if (ctx.letterSpacing !== undefined) ctx.letterSpacing = style.letterSpacing;
+    if (ctx.wordSpacing !== undefined) ctx.wordSpacing = style.wordSpacing;
+    if (ctx.fontKerning !== undefined) ctx.fontKerning = FontKerningValues[style.fontKerning];
+    if (ctx.fontStretch !== undefined) ctx.fontStretch = FontStretchValues[style.fontStretch];
+    if (ctx.fontVariantCaps !== undefined) ctx.fontVariantCaps = FontVariantCapsValues[style.fontVariantCaps];
+    if (ctx.textRendering !== undefined) ctx.textRendering = TextRenderingValues[style.textRendering];
+    var result = texts.map(text => ctx.measureText(text));
+    ctx.restore();
+    return result;
+  }
+}
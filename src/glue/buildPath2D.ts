@@ -0,0 +1,144 @@
+import { Matrix, multiply } from "../raster/matrix";
+import { CanvasInstruction } from "../shared/CanvasInstruction";
+
+/**
+ * A path that transforms every point it receives by an explicit matrix, like `RasterPath` and
+ * `SVGPath`.
+ */
+export interface ITransformedPath {
+  arcTo(m: Matrix, x1: number, y1: number, x2: number, y2: number, radius: number): void;
+  bezierCurveTo(m: Matrix, cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void;
+  closePath(): void;
+  ellipse(
+    m: Matrix,
+    x: number,
+    y: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number,
+    anticlockwise: boolean,
+  ): void;
+  lineTo(m: Matrix, x: number, y: number): void;
+  moveTo(m: Matrix, x: number, y: number): void;
+  quadraticCurveTo(m: Matrix, cpx: number, cpy: number, x: number, y: number): void;
+  rect(m: Matrix, x: number, y: number, width: number, height: number): void;
+}
+
+/**
+ * Walk the segments of a path recorded by the AssemblyScript `Path2D` class, and call the matching
+ * method on the target for each segment. The segments use the same `[instruction, nextIndex,
+ * ...args]` layout as the instruction buffer. An `AddPath` segment is followed by the `[a, b, c, d,
+ * e, f]` transform and the segments of the added path, which are passed to the `addPath` callback.
+ *
+ * @param {Float64Array} data - The recorded segments.
+ * @param {CanvasPath} target - The path that receives the segments.
+ * @param {Function} addPath - Add the segments of a nested path with the given transform.
+ */
+export function buildPath2D(
+  data: Float64Array,
+  target: CanvasPath,
+  addPath: (data: Float64Array, a: number, b: number, c: number, d: number, e: number, f: number) => void,
+): void {
+  var i = 0;
+  while (i < data.length) {
+    var next: number = data[i + 1];
+    switch (data[i]) {
+      case CanvasInstruction.AddPath: {
+        addPath(data.subarray(i + 8, next), data[i + 2], data[i + 3], data[i + 4], data[i + 5], data[i + 6], data[i + 7]);
+        break;
+      }
+      case CanvasInstruction.Arc: {
+        target.arc(data[i + 2], data[i + 3], data[i + 4], data[i + 5], data[i + 6], data[i + 7] === 1);
+        break;
+      }
+      case CanvasInstruction.ArcTo: {
+        target.arcTo(data[i + 2], data[i + 3], data[i + 4], data[i + 5], data[i + 6]);
+        break;
+      }
+      case CanvasInstruction.BezierCurveTo: {
+        target.bezierCurveTo(data[i + 2], data[i + 3], data[i + 4], data[i + 5], data[i + 6], data[i + 7]);
+        break;
+      }
+      case CanvasInstruction.ClosePath: {
+        target.closePath();
+        break;
+      }
+      case CanvasInstruction.Ellipse: {
+        target.ellipse(data[i + 2], data[i + 3], data[i + 4], data[i + 5], data[i + 6], data[i + 7], data[i + 8], data[i + 9] === 1);
+        break;
+      }
+      case CanvasInstruction.LineTo: {
+        target.lineTo(data[i + 2], data[i + 3]);
+        break;
+      }
+      case CanvasInstruction.MoveTo: {
+        target.moveTo(data[i + 2], data[i + 3]);
+        break;
+      }
+      case CanvasInstruction.QuadraticCurveTo: {
+        target.quadraticCurveTo(data[i + 2], data[i + 3], data[i + 4], data[i + 5]);
+        break;
+      }
+      case CanvasInstruction.Rect: {
+        target.rect(data[i + 2], data[i + 3], data[i + 4], data[i + 5]);
+        break;
+      }
+    }
+    if (next <= i) break;
+    i = next;
+  }
+}
+
+/**
+ * Add the segments of a recorded path to a path that transforms its points by an explicit matrix.
+ * Nested paths are added with their transform multiplied by the given one.
+ *
+ * @param {Float64Array} data - The recorded segments.
+ * @param {ITransformedPath} target - The path that receives the segments.
+ * @param {Matrix} m - The transform of the segments.
+ */
+export function buildTransformedPath(data: Float64Array, target: ITransformedPath, m: Matrix): void {
+  buildPath2D(data, {
+    arc: (x, y, radius, startAngle, endAngle, anticlockwise) =>
+      target.ellipse(m, x, y, radius, radius, 0, startAngle, endAngle, !!anticlockwise),
+    arcTo: (x1, y1, x2, y2, radius) => target.arcTo(m, x1, y1, x2, y2, radius),
+    bezierCurveTo: (cp1x, cp1y, cp2x, cp2y, x, y) => target.bezierCurveTo(m, cp1x, cp1y, cp2x, cp2y, x, y),
+    closePath: () => target.closePath(),
+    ellipse: (x, y, radiusX, radiusY, rotation, startAngle, endAngle, anticlockwise) =>
+      target.ellipse(m, x, y, radiusX, radiusY, rotation, startAngle, endAngle, !!anticlockwise),
+    lineTo: (x, y) => target.lineTo(m, x, y),
+    moveTo: (x, y) => target.moveTo(m, x, y),
+    quadraticCurveTo: (cpx, cpy, x, y) => target.quadraticCurveTo(m, cpx, cpy, x, y),
+    rect: (x, y, width, height) => target.rect(m, x, y, width, height),
+  }, (child, a, b, c, d, e, f) => buildTransformedPath(child, target, multiply(m, [a, b, c, d, e, f])));
+}
+
+/**
+ * A `Path2D` that only keeps the recorded segments it was created with. It is used by the backends
+ * that replay the segments into their own path representation when the path is drawn.
+ */
+export class RecordedPath2D implements Path2D {
+  constructor(public readonly data: Float64Array) {}
+
+  public addPath(_path: Path2D, _transform?: DOMMatrix2DInit): void {}
+  public arc(_x: number, _y: number, _radius: number, _startAngle: number, _endAngle: number, _anticlockwise?: boolean): void {}
+  public arcTo(_x1: number, _y1: number, _x2: number, _y2: number, _radius: number): void {}
+  public bezierCurveTo(_cp1x: number, _cp1y: number, _cp2x: number, _cp2y: number, _x: number, _y: number): void {}
+  public closePath(): void {}
+  public ellipse(
+    _x: number,
+    _y: number,
+    _radiusX: number,
+    _radiusY: number,
+    _rotation: number,
+    _startAngle: number,
+    _endAngle: number,
+    _anticlockwise?: boolean,
+  ): void {}
+  public lineTo(_x: number, _y: number): void {}
+  public moveTo(_x: number, _y: number): void {}
+  public quadraticCurveTo(_cpx: number, _cpy: number, _x: number, _y: number): void {}
+  public rect(_x: number, _y: number, _w: number, _h: number): void {}
+}
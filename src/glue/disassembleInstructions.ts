@@ -0,0 +1,139 @@
+import { CanvasDirection } from "../shared/CanvasDirection";
+import { CanvasInstruction } from "../shared/CanvasInstruction";
+import { CanvasInstructionName } from "../shared/CanvasInstructionName";
+import { FillRule } from "../shared/FillRule";
+import { FontKerning } from "../shared/FontKerning";
+import { FontStretch } from "../shared/FontStretch";
+import { FontVariantCaps } from "../shared/FontVariantCaps";
+import { GlobalCompositeOperation } from "../shared/GlobalCompositeOperation";
+import { ImageSmoothingQuality } from "../shared/ImageSmoothingQuality";
+import { LineCap } from "../shared/LineCap";
+import { LineJoin } from "../shared/LineJoin";
+import { TextAlign } from "../shared/TextAlign";
+import { TextBaseline } from "../shared/TextBaseline";
+import { TextRendering } from "../shared/TextRendering";
+import { IResourceResolver } from "../util/IResourceResolver";
+import { ImageSource } from "../util/ImageSource";
+
+/**
+ * Formats a single raw argument value of an instruction.
+ */
+type ArgumentFormatter = (value: number, resolver: IResourceResolver) => string;
+
+const num: ArgumentFormatter = value => value.toString();
+const bool: ArgumentFormatter = value => (value === 1).toString();
+const str: ArgumentFormatter = (value, resolver) => JSON.stringify(resolver.getString(value));
+const array: ArgumentFormatter = (value, resolver) => "[" + Array.from(resolver.getFloat64Array(value)).join(", ") + "]";
+const pixels: ArgumentFormatter = (value, resolver) => "Uint8ClampedArray(" + resolver.getUint8ClampedArray(value).length + ")";
+const image: ArgumentFormatter = (value, resolver) => {
+  var source: ImageSource = resolver.getImage(value);
+  return "Image#" + value + (source ? "(" + source.width + "x" + source.height + ")" : "(missing)");
+};
+const gradient: ArgumentFormatter = (value, resolver) => "CanvasGradient#" + value + (resolver.getGradient(value) ? "" : "(missing)");
+const pattern: ArgumentFormatter = (value, resolver) => "CanvasPattern#" + value + (resolver.getPattern(value) ? "" : "(missing)");
+const path: ArgumentFormatter = (value, resolver) => "Path2D#" + value + (resolver.getPath(value) ? "" : "(missing)");
+const element: ArgumentFormatter = (value, resolver) => "Element#" + value + (resolver.getElement(value) ? "" : "(missing)");
+
+/**
+ * Create a formatter that shows the name of an enum value.
+ *
+ * @param {object} values - The enum object, which maps values to names.
+ */
+function enumeration(values: { [value: number]: string; }): ArgumentFormatter {
+  return value => values[value] || value.toString();
+}
+
+/**
+ * The formatters of the arguments of every instruction that has arguments.
+ */
+const InstructionArguments: { [instruction: number]: ArgumentFormatter[]; } = {
+  [CanvasInstruction.Arc]: [num, num, num, num, num, bool],
+  [CanvasInstruction.ArcTo]: [num, num, num, num, num],
+  [CanvasInstruction.BezierCurveTo]: [num, num, num, num, num, num],
+  [CanvasInstruction.ClearRect]: [num, num, num, num],
+  [CanvasInstruction.ClipPath]: [path, enumeration(FillRule)],
+  [CanvasInstruction.Direction]: [enumeration(CanvasDirection)],
+  [CanvasInstruction.DrawFocusIfNeeded]: [element],
+  [CanvasInstruction.DrawFocusIfNeededPath]: [path, element],
+  [CanvasInstruction.DrawImage]: [image, num, num, num, num, num, num, num, num],
+  [CanvasInstruction.Ellipse]: [num, num, num, num, num, num, num, bool],
+  [CanvasInstruction.Fill]: [enumeration(FillRule)],
+  [CanvasInstruction.FillGradient]: [gradient],
+  [CanvasInstruction.FillPath]: [path, enumeration(FillRule)],
+  [CanvasInstruction.FillPattern]: [pattern],
+  [CanvasInstruction.FillRect]: [num, num, num, num],
+  [CanvasInstruction.FillStyle]: [str],
+  [CanvasInstruction.FillText]: [str, num, num],
+  [CanvasInstruction.FillTextWidth]: [str, num, num, num],
+  [CanvasInstruction.Filter]: [str],
+  [CanvasInstruction.Font]: [str],
+  [CanvasInstruction.FontKerning]: [enumeration(FontKerning)],
+  [CanvasInstruction.FontStretch]: [enumeration(FontStretch)],
+  [CanvasInstruction.FontVariantCaps]: [enumeration(FontVariantCaps)],
+  [CanvasInstruction.GlobalAlpha]: [num],
+  [CanvasInstruction.GlobalCompositeOperation]: [enumeration(GlobalCompositeOperation)],
+  [CanvasInstruction.ImageSmoothingEnabled]: [bool],
+  [CanvasInstruction.ImageSmoothingQuality]: [enumeration(ImageSmoothingQuality)],
+  [CanvasInstruction.Inspect]: [str],
+  [CanvasInstruction.LetterSpacing]: [str],
+  [CanvasInstruction.LineCap]: [enumeration(LineCap)],
+  [CanvasInstruction.LineDash]: [array],
+  [CanvasInstruction.LineDashOffset]: [num],
+  [CanvasInstruction.LineJoin]: [enumeration(LineJoin)],
+  [CanvasInstruction.LineTo]: [num, num],
+  [CanvasInstruction.LineWidth]: [num],
+  [CanvasInstruction.MiterLimit]: [num],
+  [CanvasInstruction.MoveTo]: [num, num],
+  [CanvasInstruction.PutImageData]: [pixels, num, num, num, num, num, num, num, num],
+  [CanvasInstruction.QuadraticCurveTo]: [num, num, num, num],
+  [CanvasInstruction.Rect]: [num, num, num, num],
+  [CanvasInstruction.RoundRect]: [num, num, num, num, num, num, num, num, num, num, num, num],
+  [CanvasInstruction.SetTransform]: [num, num, num, num, num, num],
+  [CanvasInstruction.ShadowBlur]: [num],
+  [CanvasInstruction.ShadowColor]: [str],
+  [CanvasInstruction.ShadowOffsetX]: [num],
+  [CanvasInstruction.ShadowOffsetY]: [num],
+  [CanvasInstruction.StrokeGradient]: [gradient],
+  [CanvasInstruction.StrokePath]: [path],
+  [CanvasInstruction.StrokePattern]: [pattern],
+  [CanvasInstruction.StrokeRect]: [num, num, num, num],
+  [CanvasInstruction.StrokeStyle]: [str],
+  [CanvasInstruction.StrokeText]: [str, num, num],
+  [CanvasInstruction.StrokeTextWidth]: [str, num, num, num],
+  [CanvasInstruction.TextAlign]: [enumeration(TextAlign)],
+  [CanvasInstruction.TextBaseline]: [enumeration(TextBaseline)],
+  [CanvasInstruction.TextRendering]: [enumeration(TextRendering)],
+  [CanvasInstruction.WordSpacing]: [str],
+};
+
+/**
+ * Convert an instruction buffer written by the AssemblyScript `Buffer` class into a human readable
+ * listing, with one line per instruction, until a `Commit` or a `Flush` instruction is reached.
+ * Each line contains the index of the instruction, its name and its decoded arguments. Arguments
+ * that are not known to the disassembler are shown as raw numbers.
+ *
+ * @param {Float64Array} data - The instruction buffer.
+ * @param {IResourceResolver} resolver - Resolves string, array, pixel, image, gradient, pattern and
+ * path arguments.
+ */
+export function disassembleInstructions(data: Float64Array, resolver: IResourceResolver): string {
+  var lines: string[] = [];
+  var i = 0;
+  while (i < data.length) {
+    var instruction: number = data[i];
+    var next: number = data[i + 1];
+    var formatters: ArgumentFormatter[] = InstructionArguments[instruction] || [];
+    var args: string[] = [];
+    for (var j = i + 2; j < next && j < data.length; j++) {
+      var formatter: ArgumentFormatter = formatters[j - i - 2] || num;
+      args.push(formatter(data[j], resolver));
+    }
+    var name: string = CanvasInstructionName[instruction] || "Unknown(" + instruction + ")";
+    var index: string = i.toString();
+    while (index.length < 4) index = " " + index;
+    lines.push(index + " " + name + (args.length > 0 ? " " + args.join(", ") : ""));
+    if (instruction === CanvasInstruction.Commit || instruction === CanvasInstruction.Flush || next <= i) break;
+    i = next;
+  }
+  return lines.join("\n");
+}
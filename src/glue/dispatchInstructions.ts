@@ -0,0 +1,286 @@
+import { CanvasInstruction } from "../shared/CanvasInstruction";
+import { ICanvasState } from "../util/ICanvasState";
+import { IRenderBackend } from "../util/IRenderBackend";
+import { IResourceResolver } from "../util/IResourceResolver";
+
+/**
+ * Decode an instruction buffer written by the AssemblyScript `Buffer` class and call the matching
+ * method on the backend for each instruction, until a `Commit` or a `Flush` instruction is reached.
+ * Each instruction uses the `[instruction, nextIndex, ...args]` layout.
+ *
+ * @param {Float64Array} data - The instruction buffer.
+ * @param {IRenderBackend} backend - The backend that receives the decoded calls.
+ * @param {IResourceResolver} resolver - Resolves string, array, pixel, image, gradient, pattern,
+ * path and element arguments.
+ * @param {Function} inspector - Called with the label of every `Inspect` instruction and the state
+ * of the backend when it is reached. `Inspect` instructions are skipped without an inspector.
+ */
+export function dispatchInstructions(
+  data: Float64Array,
+  backend: IRenderBackend,
+  resolver: IResourceResolver,
+  inspector?: (label: string, state: ICanvasState) => void,
+): void {
+  var i = 0;
+  while (i < data.length && data[i] !== CanvasInstruction.Commit && data[i] !== CanvasInstruction.Flush) {
+    switch (data[i]) {
+      case CanvasInstruction.Arc: {
+        backend.arc(data[i + 2], data[i + 3], data[i + 4], data[i + 5], data[i + 6], data[i + 7] === 1);
+        break;
+      }
+      case CanvasInstruction.ArcTo: {
+        backend.arcTo(data[i + 2], data[i + 3], data[i + 4], data[i + 5], data[i + 6]);
+        break;
+      }
+      case CanvasInstruction.BeginPath: {
+        backend.beginPath();
+        break;
+      }
+      case CanvasInstruction.BezierCurveTo: {
+        backend.bezierCurveTo(data[i + 2], data[i + 3], data[i + 4], data[i + 5], data[i + 6], data[i + 7]);
+        break;
+      }
+      case CanvasInstruction.Clip: {
+        backend.clip();
+        break;
+      }
+      case CanvasInstruction.ClipPath: {
+        backend.clipPath(resolver.getPath(data[i + 2]), data[i + 3]);
+        break;
+      }
+      case CanvasInstruction.ClosePath: {
+        backend.closePath();
+        break;
+      }
+      case CanvasInstruction.ClearRect: {
+        backend.clearRect(data[i + 2], data[i + 3], data[i + 4], data[i + 5]);
+        break;
+      }
+      case CanvasInstruction.Direction: {
+        backend.direction(data[i + 2]);
+        break;
+      }
+      case CanvasInstruction.DrawFocusIfNeeded: {
+        backend.drawFocusIfNeeded(resolver.getElement(data[i + 2]));
+        break;
+      }
+      case CanvasInstruction.DrawFocusIfNeededPath: {
+        backend.drawFocusIfNeededPath(resolver.getPath(data[i + 2]), resolver.getElement(data[i + 3]));
+        break;
+      }
+      case CanvasInstruction.DrawImage: {
+        backend.drawImage(resolver.getImage(data[i + 2]), data[i + 3], data[i + 4], data[i + 5], data[i + 6], data[i + 7], data[i + 8], data[i + 9], data[i + 10]);
+        break;
+      }
+      case CanvasInstruction.Ellipse: {
+        backend.ellipse(data[i + 2], data[i + 3], data[i + 4], data[i + 5], data[i + 6], data[i + 7], data[i + 8], data[i + 9] === 1);
+        break;
+      }
+      case CanvasInstruction.Fill: {
+        backend.fill(data[i + 2]);
+        break;
+      }
+      case CanvasInstruction.FillGradient: {
+        backend.fillGradient(resolver.getGradient(data[i + 2]));
+        break;
+      }
+      case CanvasInstruction.FillPath: {
+        backend.fillPath(resolver.getPath(data[i + 2]), data[i + 3]);
+        break;
+      }
+      case CanvasInstruction.FillPattern: {
+        backend.fillPattern(resolver.getPattern(data[i + 2]));
+        break;
+      }
+      case CanvasInstruction.FillRect: {
+        backend.fillRect(data[i + 2], data[i + 3], data[i + 4], data[i + 5]);
+        break;
+      }
+      case CanvasInstruction.FillStyle: {
+        backend.fillStyle(resolver.getString(data[i + 2]));
+        break;
+      }
+      case CanvasInstruction.FillText: {
+        backend.fillText(resolver.getString(data[i + 2]), data[i + 3], data[i + 4]);
+        break;
+      }
+      case CanvasInstruction.FillTextWidth: {
+        backend.fillTextWidth(resolver.getString(data[i + 2]), data[i + 3], data[i + 4], data[i + 5]);
+        break;
+      }
+      case CanvasInstruction.Filter: {
+        backend.filter(resolver.getString(data[i + 2]));
+        break;
+      }
+      case CanvasInstruction.Font: {
+        backend.font(resolver.getString(data[i + 2]));
+        break;
+      }
+      case CanvasInstruction.FontKerning: {
+        backend.fontKerning(data[i + 2]);
+        break;
+      }
+      case CanvasInstruction.FontStretch: {
+        backend.fontStretch(data[i + 2]);
+        break;
+      }
+      case CanvasInstruction.FontVariantCaps: {
+        backend.fontVariantCaps(data[i + 2]);
+        break;
+      }
+      case CanvasInstruction.GlobalAlpha: {
+        backend.globalAlpha(data[i + 2]);
+        break;
+      }
+      case CanvasInstruction.GlobalCompositeOperation: {
+        backend.globalCompositeOperation(data[i + 2]);
+        break;
+      }
+      case CanvasInstruction.ImageSmoothingEnabled: {
+        backend.imageSmoothingEnabled(data[i + 2] === 1);
+        break;
+      }
+      case CanvasInstruction.ImageSmoothingQuality: {
+        backend.imageSmoothingQuality(data[i + 2]);
+        break;
+      }
+      case CanvasInstruction.Inspect: {
+        if (inspector) inspector(resolver.getString(data[i + 2]), backend.getState());
+        break;
+      }
+      case CanvasInstruction.LetterSpacing: {
+        backend.letterSpacing(resolver.getString(data[i + 2]));
+        break;
+      }
+      case CanvasInstruction.LineCap: {
+        backend.lineCap(data[i + 2]);
+        break;
+      }
+      case CanvasInstruction.LineDash: {
+        backend.lineDash(resolver.getFloat64Array(data[i + 2]));
+        break;
+      }
+      case CanvasInstruction.LineDashOffset: {
+        backend.lineDashOffset(data[i + 2]);
+        break;
+      }
+      case CanvasInstruction.LineJoin: {
+        backend.lineJoin(data[i + 2]);
+        break;
+      }
+      case CanvasInstruction.LineTo: {
+        backend.lineTo(data[i + 2], data[i + 3]);
+        break;
+      }
+      case CanvasInstruction.LineWidth: {
+        backend.lineWidth(data[i + 2]);
+        break;
+      }
+      case CanvasInstruction.MiterLimit: {
+        backend.miterLimit(data[i + 2]);
+        break;
+      }
+      case CanvasInstruction.MoveTo: {
+        backend.moveTo(data[i + 2], data[i + 3]);
+        break;
+      }
+      case CanvasInstruction.PutImageData: {
+        backend.putImageData(resolver.getUint8ClampedArray(data[i + 2]), data[i + 3], data[i + 4], data[i + 5], data[i + 6], data[i + 7], data[i + 8], data[i + 9], data[i + 10]);
+        break;
+      }
+      case CanvasInstruction.QuadraticCurveTo: {
+        backend.quadraticCurveTo(data[i + 2], data[i + 3], data[i + 4], data[i + 5]);
+        break;
+      }
+      case CanvasInstruction.Rect: {
+        backend.rect(data[i + 2], data[i + 3], data[i + 4], data[i + 5]);
+        break;
+      }
+      case CanvasInstruction.RoundRect: {
+        backend.roundRect(data[i + 2], data[i + 3], data[i + 4], data[i + 5], Array.from(data.subarray(i + 6, i + 14)));
+        break;
+      }
+      case CanvasInstruction.Reset: {
+        backend.reset();
+        break;
+      }
+      case CanvasInstruction.Restore: {
+        backend.restore();
+        break;
+      }
+      case CanvasInstruction.Save: {
+        backend.save();
+        break;
+      }
+      case CanvasInstruction.SetTransform: {
+        backend.setTransform(data[i + 2], data[i + 3], data[i + 4], data[i + 5], data[i + 6], data[i + 7]);
+        break;
+      }
+      case CanvasInstruction.ShadowBlur: {
+        backend.shadowBlur(data[i + 2]);
+        break;
+      }
+      case CanvasInstruction.ShadowColor: {
+        backend.shadowColor(resolver.getString(data[i + 2]));
+        break;
+      }
+      case CanvasInstruction.ShadowOffsetX: {
+        backend.shadowOffsetX(data[i + 2]);
+        break;
+      }
+      case CanvasInstruction.ShadowOffsetY: {
+        backend.shadowOffsetY(data[i + 2]);
+        break;
+      }
+      case CanvasInstruction.Stroke: {
+        backend.stroke();
+        break;
+      }
+      case CanvasInstruction.StrokeGradient: {
+        backend.strokeGradient(resolver.getGradient(data[i + 2]));
+        break;
+      }
+      case CanvasInstruction.StrokePath: {
+        backend.strokePath(resolver.getPath(data[i + 2]));
+        break;
+      }
+      case CanvasInstruction.StrokePattern: {
+        backend.strokePattern(resolver.getPattern(data[i + 2]));
+        break;
+      }
+      case CanvasInstruction.StrokeRect: {
+        backend.strokeRect(data[i + 2], data[i + 3], data[i + 4], data[i + 5]);
+        break;
+      }
+      case CanvasInstruction.StrokeStyle: {
+        backend.strokeStyle(resolver.getString(data[i + 2]));
+        break;
+      }
+      case CanvasInstruction.StrokeText: {
+        backend.strokeText(resolver.getString(data[i + 2]), data[i + 3], data[i + 4]);
+        break;
+      }
+      case CanvasInstruction.StrokeTextWidth: {
+        backend.strokeTextWidth(resolver.getString(data[i + 2]), data[i + 3], data[i + 4], data[i + 5]);
+        break;
+      }
+      case CanvasInstruction.TextAlign: {
+        backend.textAlign(data[i + 2]);
+        break;
+      }
+      case CanvasInstruction.TextBaseline: {
+        backend.textBaseline(data[i + 2]);
+        break;
+      }
+      case CanvasInstruction.TextRendering: {
+        backend.textRendering(data[i + 2]);
+        break;
+      }
+      case CanvasInstruction.WordSpacing: {
+        backend.wordSpacing(resolver.getString(data[i + 2]));
+        break;
+      }
+    }
+    i = data[i + 1];
+  }
+}
@@ -0,0 +1,75 @@
+import { IRenderBackend } from "../util/IRenderBackend";
+
+/**
+ * A context that might implement the native `roundRect()` method, which is not available in every
+ * browser.
+ */
+export interface IRoundRectContext {
+  roundRect?(x: number, y: number, width: number, height: number, radii: DOMPointInit[]): void;
+}
+
+/**
+ * Add a rounded rectangle to a path using elliptical arcs, like the native `roundRect()` method.
+ * Rectangles with a negative size are drawn as if they were flipped, and radii that do not fit in
+ * the rectangle are scaled down. A new sub-path is started at the rectangle's origin afterwards.
+ *
+ * @param {Pick<IRenderBackend, "closePath" | "ellipse" | "lineTo" | "moveTo">} target - The path
+ * that receives the rounded rectangle.
+ * @param {number[]} radii - The `[x, y]` radii of the top-left, top-right, bottom-right and
+ * bottom-left corners.
+ */
+export function roundRect(
+  target: Pick<IRenderBackend, "closePath" | "ellipse" | "lineTo" | "moveTo">,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  radii: number[],
+): void {
+  var [upperLeftX, upperLeftY, upperRightX, upperRightY, lowerRightX, lowerRightY, lowerLeftX, lowerLeftY] = radii;
+  var left: number = x;
+  var top: number = y;
+  if (width < 0) {
+    left += width;
+    width = -width;
+    [upperLeftX, upperLeftY, upperRightX, upperRightY] = [upperRightX, upperRightY, upperLeftX, upperLeftY];
+    [lowerLeftX, lowerLeftY, lowerRightX, lowerRightY] = [lowerRightX, lowerRightY, lowerLeftX, lowerLeftY];
+  }
+  if (height < 0) {
+    top += height;
+    height = -height;
+    [upperLeftX, upperLeftY, lowerLeftX, lowerLeftY] = [lowerLeftX, lowerLeftY, upperLeftX, upperLeftY];
+    [upperRightX, upperRightY, lowerRightX, lowerRightY] = [lowerRightX, lowerRightY, upperRightX, upperRightY];
+  }
+
+  var scale: number = Math.min(
+    width / (upperLeftX + upperRightX),
+    height / (upperRightY + lowerRightY),
+    width / (lowerRightX + lowerLeftX),
+    height / (lowerLeftY + upperLeftY),
+  );
+  if (scale < 1) {
+    upperLeftX *= scale;
+    upperLeftY *= scale;
+    upperRightX *= scale;
+    upperRightY *= scale;
+    lowerRightX *= scale;
+    lowerRightY *= scale;
+    lowerLeftX *= scale;
+    lowerLeftY *= scale;
+  }
+
+  var right: number = left + width;
+  var bottom: number = top + height;
+  target.moveTo(left + upperLeftX, top);
+  target.lineTo(right - upperRightX, top);
+  target.ellipse(right - upperRightX, top + upperRightY, upperRightX, upperRightY, 0, -Math.PI / 2, 0, false);
+  target.lineTo(right, bottom - lowerRightY);
+  target.ellipse(right - lowerRightX, bottom - lowerRightY, lowerRightX, lowerRightY, 0, 0, Math.PI / 2, false);
+  target.lineTo(left + lowerLeftX, bottom);
+  target.ellipse(left + lowerLeftX, bottom - lowerLeftY, lowerLeftX, lowerLeftY, 0, Math.PI / 2, Math.PI, false);
+  target.lineTo(left, top + upperLeftY);
+  target.ellipse(left + upperLeftX, top + upperLeftY, upperLeftX, upperLeftY, 0, Math.PI, Math.PI * 1.5, false);
+  target.closePath();
+  target.moveTo(x, y);
+}
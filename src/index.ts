@@ -18,11 +18,29 @@ export function instantiateStreaming<T>(response: Promise<Response>, imports: an
 }
 
 export * from "./glue/AS2DGlue";
+export * from "./glue/buildPath2D";
+export * from "./glue/CanvasRenderingContext2DBackend";
+export * from "./glue/disassembleInstructions";
+export * from "./glue/dispatchInstructions";
+export * from "./glue/roundRect";
+
+export * from "./raster/SoftwareRasterizer";
+export * from "./raster/parseColor";
+
+export * from "./record/FrameRecorder";
+export * from "./record/Recording";
+export * from "./record/replayRecording";
+
+export * from "./svg/SVGExporter";
 
 export * from "./shared/CanvasDirection";
 export * from "./shared/CanvasInstruction";
+export * from "./shared/CanvasInstructionName";
 export * from "./shared/CanvasPatternRepetition";
 export * from "./shared/FillRule";
+export * from "./shared/FontKerning";
+export * from "./shared/FontStretch";
+export * from "./shared/FontVariantCaps";
 export * from "./shared/GlobalCompositeOperation";
 export * from "./shared/GlobalCompositeOperationValue";
 export * from "./shared/ImageSmoothingQuality";
@@ -30,5 +48,14 @@ export * from "./shared/LineCap";
 export * from "./shared/LineJoin";
 export * from "./shared/TextAlign";
 export * from "./shared/TextBaseline";
+export * from "./shared/TextRendering";
 
+export * from "./util/CanvasFactory";
+export * from "./util/createTextMetrics";
+export * from "./util/ICanvasState";
 export * from "./util/ICanvasSYS";
+export * from "./util/IContextOptions";
+export * from "./util/IRenderBackend";
+export * from "./util/IResourceResolver";
+export * from "./util/ImageSource";
+export * from "./util/ITextStyle";
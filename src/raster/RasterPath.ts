@@ -0,0 +1,283 @@
+import { Matrix, transformX, transformY, invert } from "./matrix";
+
+/**
+ * A single flattened sub-path. The points are stored in device space as a flat
+ * `[x0, y0, x1, y1, ...]` list.
+ */
+export interface ISubpath {
+  points: number[];
+  closed: boolean;
+}
+
+const TAU: number = Math.PI * 2;
+
+/**
+ * The maximum distance in pixels that a flattened curve may deviate from the actual curve.
+ */
+const TOLERANCE: number = 0.25;
+
+/**
+ * Obtain the scale factor of a transform, used to pick how many segments a curve is flattened to.
+ *
+ * @param {Matrix} m - The transform.
+ */
+function scaleOf(m: Matrix): number {
+  return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+}
+
+/**
+ * Calculate the number of line segments required to approximate an arc.
+ *
+ * @param {number} radius - The radius of the arc in device pixels.
+ * @param {number} sweep - The swept angle of the arc in radians.
+ */
+function arcSegments(radius: number, sweep: number): number {
+  if (radius <= TOLERANCE) return Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2)));
+  var step: number = 2 * Math.acos(1 - TOLERANCE / radius);
+  return Math.min(1024, Math.max(1, Math.ceil(Math.abs(sweep) / step)));
+}
+
+/**
+ * Calculate the swept angle of an arc using the same rules as the canvas specification.
+ *
+ * @param {number} startAngle - The start angle.
+ * @param {number} endAngle - The end angle.
+ * @param {boolean} anticlockwise - Whether the arc is drawn anticlockwise.
+ */
+export function arcSweep(startAngle: number, endAngle: number, anticlockwise: boolean): number {
+  if (!anticlockwise) {
+    if (endAngle - startAngle >= TAU) return TAU;
+    var sweep: number = (endAngle - startAngle) % TAU;
+    return sweep < 0 ? sweep + TAU : sweep;
+  }
+  if (startAngle - endAngle >= TAU) return -TAU;
+  var reverse: number = (startAngle - endAngle) % TAU;
+  return -(reverse < 0 ? reverse + TAU : reverse);
+}
+
+/**
+ * A path that flattens every pathing operation into line segments as it is written. Like the
+ * browser, each operation is transformed by the matrix that is current when it is called.
+ */
+export class RasterPath {
+  /** The flattened sub-paths. */
+  public subpaths: ISubpath[] = [];
+
+  private current: ISubpath | null = null;
+
+  /** Empty the list of sub-paths. */
+  public beginPath(): void {
+    this.subpaths = [];
+    this.current = null;
+  }
+
+  /**
+   * Begin a new sub-path at the given point.
+   *
+   * @param {Matrix} m - The current transform.
+   * @param {number} x - The x coordinate of the point.
+   * @param {number} y - The y coordinate of the point.
+   */
+  public moveTo(m: Matrix, x: number, y: number): void {
+    this.moveToDevice(transformX(m, x, y), transformY(m, x, y));
+  }
+
+  /**
+   * Connect the last point of the current sub-path to the given point.
+   *
+   * @param {Matrix} m - The current transform.
+   * @param {number} x - The x coordinate of the point.
+   * @param {number} y - The y coordinate of the point.
+   */
+  public lineTo(m: Matrix, x: number, y: number): void {
+    this.lineToDevice(transformX(m, x, y), transformY(m, x, y));
+  }
+
+  /**
+   * Mark the current sub-path as closed, and start a new sub-path at its first point.
+   */
+  public closePath(): void {
+    var current = this.current;
+    if (!current) return;
+    current.closed = true;
+    this.moveToDevice(current.points[0], current.points[1]);
+  }
+
+  /**
+   * Add a quadratic bezier curve to the current sub-path.
+   *
+   * @param {Matrix} m - The current transform.
+   */
+  public quadraticCurveTo(m: Matrix, cpx: number, cpy: number, x: number, y: number): void {
+    this.ensureSubpath(m, cpx, cpy);
+    var points = this.current!.points;
+    var x0: number = points[points.length - 2];
+    var y0: number = points[points.length - 1];
+    var x1: number = transformX(m, cpx, cpy);
+    var y1: number = transformY(m, cpx, cpy);
+    var x2: number = transformX(m, x, y);
+    var y2: number = transformY(m, x, y);
+    var length: number = Math.hypot(x1 - x0, y1 - y0) + Math.hypot(x2 - x1, y2 - y1);
+    var count: number = Math.min(256, Math.max(1, Math.ceil(Math.sqrt(length * 2))));
+    for (var i = 1; i <= count; i++) {
+      var t: number = i / count;
+      var u: number = 1 - t;
+      this.lineToDevice(
+        u * u * x0 + 2 * u * t * x1 + t * t * x2,
+        u * u * y0 + 2 * u * t * y1 + t * t * y2,
+      );
+    }
+  }
+
+  /**
+   * Add a cubic bezier curve to the current sub-path.
+   *
+   * @param {Matrix} m - The current transform.
+   */
+  public bezierCurveTo(m: Matrix, cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void {
+    this.ensureSubpath(m, cp1x, cp1y);
+    var points = this.current!.points;
+    var x0: number = points[points.length - 2];
+    var y0: number = points[points.length - 1];
+    var x1: number = transformX(m, cp1x, cp1y);
+    var y1: number = transformY(m, cp1x, cp1y);
+    var x2: number = transformX(m, cp2x, cp2y);
+    var y2: number = transformY(m, cp2x, cp2y);
+    var x3: number = transformX(m, x, y);
+    var y3: number = transformY(m, x, y);
+    var length: number = Math.hypot(x1 - x0, y1 - y0)
+      + Math.hypot(x2 - x1, y2 - y1)
+      + Math.hypot(x3 - x2, y3 - y2);
+    var count: number = Math.min(256, Math.max(1, Math.ceil(Math.sqrt(length * 2))));
+    for (var i = 1; i <= count; i++) {
+      var t: number = i / count;
+      var u: number = 1 - t;
+      var a: number = u * u * u;
+      var b: number = 3 * u * u * t;
+      var c: number = 3 * u * t * t;
+      var d: number = t * t * t;
+      this.lineToDevice(
+        a * x0 + b * x1 + c * x2 + d * x3,
+        a * y0 + b * y1 + c * y2 + d * y3,
+      );
+    }
+  }
+
+  /**
+   * Add an elliptical arc to the current sub-path. The `arc()` method is an ellipse with equal radii
+   * and no rotation.
+   *
+   * @param {Matrix} m - The current transform.
+   */
+  public ellipse(
+    m: Matrix,
+    x: number,
+    y: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number,
+    anticlockwise: boolean,
+  ): void {
+    var sweep: number = arcSweep(startAngle, endAngle, anticlockwise);
+    var count: number = arcSegments(Math.max(radiusX, radiusY) * scaleOf(m), sweep);
+    var cos: number = Math.cos(rotation);
+    var sin: number = Math.sin(rotation);
+    for (var i = 0; i <= count; i++) {
+      var angle: number = startAngle + sweep * (i / count);
+      var ex: number = radiusX * Math.cos(angle);
+      var ey: number = radiusY * Math.sin(angle);
+      var px: number = x + ex * cos - ey * sin;
+      var py: number = y + ex * sin + ey * cos;
+      if (i === 0 && !this.current) this.moveTo(m, px, py);
+      else this.lineTo(m, px, py);
+    }
+  }
+
+  /**
+   * Add an arc to the current sub-path using the given control points and radius.
+   *
+   * @param {Matrix} m - The current transform.
+   */
+  public arcTo(m: Matrix, x1: number, y1: number, x2: number, y2: number, radius: number): void {
+    if (!this.current) {
+      this.moveTo(m, x1, y1);
+      return;
+    }
+    var inverse: Matrix | null = invert(m);
+    if (!inverse) return;
+    var points = this.current.points;
+    var dx: number = points[points.length - 2];
+    var dy: number = points[points.length - 1];
+    var x0: number = transformX(inverse, dx, dy);
+    var y0: number = transformY(inverse, dx, dy);
+
+    var v1x: number = x0 - x1;
+    var v1y: number = y0 - y1;
+    var v2x: number = x2 - x1;
+    var v2y: number = y2 - y1;
+    var l1: number = Math.hypot(v1x, v1y);
+    var l2: number = Math.hypot(v2x, v2y);
+    var cross: number = v1x * v2y - v1y * v2x;
+    if (radius === 0 || l1 === 0 || l2 === 0 || Math.abs(cross) < 1e-12) {
+      this.lineTo(m, x1, y1);
+      return;
+    }
+
+    v1x /= l1;
+    v1y /= l1;
+    v2x /= l2;
+    v2y /= l2;
+    var theta: number = Math.acos(Math.max(-1, Math.min(1, v1x * v2x + v1y * v2y)));
+    var tangent: number = radius / Math.tan(theta / 2);
+    var t1x: number = x1 + v1x * tangent;
+    var t1y: number = y1 + v1y * tangent;
+    var t2x: number = x1 + v2x * tangent;
+    var t2y: number = y1 + v2y * tangent;
+    var bx: number = v1x + v2x;
+    var by: number = v1y + v2y;
+    var bl: number = Math.hypot(bx, by);
+    var distance: number = radius / Math.sin(theta / 2);
+    var cx: number = x1 + bx / bl * distance;
+    var cy: number = y1 + by / bl * distance;
+    var a0: number = Math.atan2(t1y - cy, t1x - cx);
+    var a1: number = Math.atan2(t2y - cy, t2x - cx);
+    var delta: number = a1 - a0;
+    if (delta > Math.PI) delta -= TAU;
+    else if (delta < -Math.PI) delta += TAU;
+    this.lineTo(m, t1x, t1y);
+    this.ellipse(m, cx, cy, radius, radius, 0, a0, a0 + delta, delta < 0);
+  }
+
+  /**
+   * Add a closed rectangle sub-path, then start a new sub-path at the rectangle's origin.
+   *
+   * @param {Matrix} m - The current transform.
+   */
+  public rect(m: Matrix, x: number, y: number, width: number, height: number): void {
+    this.moveTo(m, x, y);
+    this.lineTo(m, x + width, y);
+    this.lineTo(m, x + width, y + height);
+    this.lineTo(m, x, y + height);
+    this.closePath();
+  }
+
+  private ensureSubpath(m: Matrix, x: number, y: number): void {
+    if (!this.current) this.moveTo(m, x, y);
+  }
+
+  private moveToDevice(x: number, y: number): void {
+    var subpath: ISubpath = { points: [x, y], closed: false };
+    this.subpaths.push(subpath);
+    this.current = subpath;
+  }
+
+  private lineToDevice(x: number, y: number): void {
+    if (!this.current) {
+      this.moveToDevice(x, y);
+      return;
+    }
+    this.current.points.push(x, y);
+  }
+}
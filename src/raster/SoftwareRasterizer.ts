@@ -0,0 +1,617 @@
+import { CanvasDirection } from "../shared/CanvasDirection";
+import { CanvasPatternRepetition } from "../shared/CanvasPatternRepetition";
+import { FillRule } from "../shared/FillRule";
+import { FontKerning } from "../shared/FontKerning";
+import { FontStretch } from "../shared/FontStretch";
+import { FontVariantCaps } from "../shared/FontVariantCaps";
+import { GlobalCompositeOperation } from "../shared/GlobalCompositeOperation";
+import { ImageSmoothingQuality } from "../shared/ImageSmoothingQuality";
+import { LineCap } from "../shared/LineCap";
+import { LineJoin } from "../shared/LineJoin";
+import { TextAlign } from "../shared/TextAlign";
+import { TextBaseline } from "../shared/TextBaseline";
+import { TextRendering } from "../shared/TextRendering";
+import { RecordedPath2D, buildTransformedPath } from "../glue/buildPath2D";
+import { roundRect } from "../glue/roundRect";
+import { createTextMetrics } from "../util/createTextMetrics";
+import { ICanvasState } from "../util/ICanvasState";
+import { IRenderBackend } from "../util/IRenderBackend";
+import { Matrix, identity, invert, transformPoints } from "./matrix";
+import { IColor, parseColor } from "./parseColor";
+import { ISubpath, RasterPath } from "./RasterPath";
+import { rasterizePolygons, windingNumber } from "./rasterizePolygons";
+import { strokePolygons } from "./strokePolygons";
+import { ImageSource } from "../util/ImageSource";
+import { ITextStyle } from "../util/ITextStyle";
+
+/**
+ * The subset of the drawing state that is saved and restored by `save()` and `restore()`.
+ */
+interface IRasterState {
+  transform: Matrix;
+  fillStyle: IColor;
+  strokeStyle: IColor;
+  /** Set when the fill style is a gradient or a pattern, which are not painted. */
+  fillUnsupported: boolean;
+  /** Set when the stroke style is a gradient or a pattern, which are not painted. */
+  strokeUnsupported: boolean;
+  globalAlpha: number;
+  lineWidth: number;
+  lineCap: LineCap;
+  lineJoin: LineJoin;
+  miterLimit: number;
+  clip: Float32Array | null;
+}
+
+function createState(): IRasterState {
+  return {
+    transform: identity(),
+    fillStyle: { r: 0, g: 0, b: 0, a: 1 },
+    strokeStyle: { r: 0, g: 0, b: 0, a: 1 },
+    fillUnsupported: false,
+    strokeUnsupported: false,
+    globalAlpha: 1,
+    lineWidth: 1,
+    lineCap: LineCap.butt,
+    lineJoin: LineJoin.miter,
+    miterLimit: 10,
+    clip: null,
+  };
+}
+
+function formatColor(color: IColor): string {
+  return "rgba(" + color.r + "," + color.g + "," + color.b + "," + color.a + ")";
+}
+
+function copyState(state: IRasterState): IRasterState {
+  return {
+    transform: state.transform.slice() as Matrix,
+    fillStyle: state.fillStyle,
+    strokeStyle: state.strokeStyle,
+    fillUnsupported: state.fillUnsupported,
+    strokeUnsupported: state.strokeUnsupported,
+    globalAlpha: state.globalAlpha,
+    lineWidth: state.lineWidth,
+    lineCap: state.lineCap,
+    lineJoin: state.lineJoin,
+    miterLimit: state.miterLimit,
+    clip: state.clip,
+  };
+}
+
+/**
+ * Make every polygon wind in the same direction so overlapping polygons can be combined using the
+ * nonzero fill rule.
+ *
+ * @param {number[][]} polygons - The polygons to orient.
+ */
+function orient(polygons: number[][]): number[][] {
+  for (var i = 0; i < polygons.length; i++) {
+    var polygon = polygons[i];
+    var area: number = 0;
+    for (var j = 0; j < polygon.length; j += 2) {
+      var k: number = (j + 2) % polygon.length;
+      area += polygon[j] * polygon[k + 1] - polygon[k] * polygon[j + 1];
+    }
+    if (area < 0) {
+      var reversed: number[] = [];
+      for (var l = polygon.length - 2; l >= 0; l -= 2) reversed.push(polygon[l], polygon[l + 1]);
+      polygons[i] = reversed;
+    }
+  }
+  return polygons;
+}
+
+/**
+ * A pure TypeScript render backend that rasterizes the as2d instruction stream into an RGBA pixel
+ * buffer, which makes it possible to render frames in node.js without a DOM canvas.
+ *
+ * It supports paths, both fill rules, strokes with lineWidth, lineCap, lineJoin and miterLimit,
+ * transforms, globalAlpha, clipping, getImageData() and putImageData(). Fill and stroke styles must
+ * be CSS colors: while the fill or stroke style is a gradient or a pattern, fills or strokes are
+ * not painted. Text, images, shadows, filters, line dashes and focus rings are ignored, and
+ * `measureText()` always returns empty metrics.
+ */
+export class SoftwareRasterizer implements IRenderBackend {
+  private _width: number;
+  private _height: number;
+  private _data: Uint8ClampedArray;
+  private state: IRasterState = createState();
+  private stack: IRasterState[] = [];
+  private path: RasterPath = new RasterPath();
+
+  /**
+   * Create a transparent black surface.
+   *
+   * @param {number} width - The width of the surface in pixels.
+   * @param {number} height - The height of the surface in pixels.
+   */
+  constructor(width: number, height: number) {
+    this._width = width;
+    this._height = height;
+    this._data = new Uint8ClampedArray(width * height * 4);
+  }
+
+  /**
+   * The width of the surface in pixels.
+   */
+  public get width(): number {
+    return this._width;
+  }
+
+  /**
+   * The height of the surface in pixels.
+   */
+  public get height(): number {
+    return this._height;
+  }
+
+  /**
+   * The pixel data of the rasterizer in the same non-premultiplied RGBA layout used by ImageData.
+   * It is replaced when the surface is resized.
+   */
+  public get data(): Uint8ClampedArray {
+    return this._data;
+  }
+
+  public arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, anticlockwise: boolean): void {
+    this.path.ellipse(this.state.transform, x, y, radius, radius, 0, startAngle, endAngle, anticlockwise);
+  }
+
+  public arcTo(x1: number, y1: number, x2: number, y2: number, radius: number): void {
+    this.path.arcTo(this.state.transform, x1, y1, x2, y2, radius);
+  }
+
+  public beginPath(): void {
+    this.path.beginPath();
+  }
+
+  public bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void {
+    this.path.bezierCurveTo(this.state.transform, cp1x, cp1y, cp2x, cp2y, x, y);
+  }
+
+  /**
+   * Intersect the current clipping region with the current path using the nonzero winding rule.
+   */
+  public clip(): void {
+    var coverage = rasterizePolygons(this.polygonsOf(this.path.subpaths), this.width, this.height, FillRule.nonzero);
+    var current = this.state.clip;
+    if (current) {
+      for (var i = 0; i < coverage.length; i++) coverage[i] *= current[i];
+    }
+    this.state.clip = coverage;
+  }
+
+  /**
+   * Intersect the current clipping region with the given path.
+   */
+  public clipPath(path: Path2D, fillRule: FillRule): void {
+    var coverage = rasterizePolygons(this.polygonsOf(this.subpathsOf(path)), this.width, this.height, fillRule);
+    var current = this.state.clip;
+    if (current) {
+      for (var i = 0; i < coverage.length; i++) coverage[i] *= current[i];
+    }
+    this.state.clip = coverage;
+  }
+
+  public closePath(): void {
+    this.path.closePath();
+  }
+
+  /**
+   * Erase the pixels covered by the rectangle to transparent black.
+   */
+  public clearRect(x: number, y: number, width: number, height: number): void {
+    var path = new RasterPath();
+    path.rect(this.state.transform, x, y, width, height);
+    var coverage = rasterizePolygons(this.polygonsOf(path.subpaths), this.width, this.height, FillRule.nonzero);
+    var clip = this.state.clip;
+    var data = this.data;
+    for (var i = 0; i < coverage.length; i++) {
+      var amount: number = clip ? coverage[i] * clip[i] : coverage[i];
+      if (amount <= 0) continue;
+      var alpha: number = data[i * 4 + 3] * (1 - amount);
+      if (alpha <= 0) {
+        data[i * 4] = data[i * 4 + 1] = data[i * 4 + 2] = 0;
+      }
+      data[i * 4 + 3] = alpha;
+    }
+  }
+
+  public direction(_value: CanvasDirection): void {}
+
+  public drawFocusIfNeeded(_element: Element | null): void {}
+
+  public drawFocusIfNeededPath(_path: Path2D, _element: Element | null): void {}
+
+  public drawImage(_image: ImageSource, _sx: number, _sy: number, _sWidth: number, _sHeight: number, _dx: number, _dy: number, _dWidth: number, _dHeight: number): void {}
+
+  public ellipse(
+    x: number,
+    y: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number,
+    anticlockwise: boolean,
+  ): void {
+    this.path.ellipse(this.state.transform, x, y, radiusX, radiusY, rotation, startAngle, endAngle, anticlockwise);
+  }
+
+  public fill(fillRule: FillRule = FillRule.nonzero): void {
+    if (this.state.fillUnsupported) return;
+    var coverage = rasterizePolygons(this.polygonsOf(this.path.subpaths), this.width, this.height, fillRule);
+    this.composite(coverage, this.state.fillStyle);
+  }
+
+  public fillGradient(_value: CanvasGradient): void {
+    this.state.fillUnsupported = true;
+  }
+
+  public fillPath(path: Path2D, fillRule: FillRule): void {
+    if (this.state.fillUnsupported) return;
+    var coverage = rasterizePolygons(this.polygonsOf(this.subpathsOf(path)), this.width, this.height, fillRule);
+    this.composite(coverage, this.state.fillStyle);
+  }
+
+  public fillPattern(_value: CanvasPattern): void {
+    this.state.fillUnsupported = true;
+  }
+
+  public fillRect(x: number, y: number, width: number, height: number): void {
+    if (this.state.fillUnsupported) return;
+    var path = new RasterPath();
+    path.rect(this.state.transform, x, y, width, height);
+    var coverage = rasterizePolygons(this.polygonsOf(path.subpaths), this.width, this.height, FillRule.nonzero);
+    this.composite(coverage, this.state.fillStyle);
+  }
+
+  /**
+   * Set the fill color. Values that are not parsable CSS colors are ignored.
+   */
+  public fillStyle(value: string): void {
+    var color = parseColor(value);
+    if (!color) return;
+    this.state.fillStyle = color;
+    this.state.fillUnsupported = false;
+  }
+
+  public fillText(_text: string, _x: number, _y: number): void {}
+
+  public fillTextWidth(_text: string, _x: number, _y: number, _maxWidth: number): void {}
+
+  public filter(_value: string): void {}
+
+  public font(_value: string): void {}
+
+  public fontKerning(_value: FontKerning): void {}
+
+  public fontStretch(_value: FontStretch): void {}
+
+  public fontVariantCaps(_value: FontVariantCaps): void {}
+
+  public globalAlpha(value: number): void {
+    this.state.globalAlpha = value;
+  }
+
+  public globalCompositeOperation(_value: GlobalCompositeOperation): void {}
+
+  public imageSmoothingEnabled(_value: boolean): void {}
+
+  public imageSmoothingQuality(_value: ImageSmoothingQuality): void {}
+
+  public letterSpacing(_value: string): void {}
+
+  public lineCap(value: LineCap): void {
+    this.state.lineCap = value;
+  }
+
+  public lineDash(_value: Float64Array): void {}
+
+  public lineDashOffset(_value: number): void {}
+
+  public lineJoin(value: LineJoin): void {
+    this.state.lineJoin = value;
+  }
+
+  public lineTo(x: number, y: number): void {
+    this.path.lineTo(this.state.transform, x, y);
+  }
+
+  public lineWidth(value: number): void {
+    this.state.lineWidth = value;
+  }
+
+  public miterLimit(value: number): void {
+    this.state.miterLimit = value;
+  }
+
+  public moveTo(x: number, y: number): void {
+    this.path.moveTo(this.state.transform, x, y);
+  }
+
+  /**
+   * Replace the pixels of the dirty rectangle with the given pixels, ignoring the transform, the
+   * clipping region and globalAlpha. Every coordinate is an integer, and the dirty rectangle is given
+   * in the coordinates of the pixels.
+   */
+  public putImageData(data: Uint8ClampedArray, width: number, height: number, dx: number, dy: number, dirtyX: number, dirtyY: number, dirtyWidth: number, dirtyHeight: number): void {
+    if (dirtyWidth < 0) {
+      dirtyX += dirtyWidth;
+      dirtyWidth = -dirtyWidth;
+    }
+    if (dirtyHeight < 0) {
+      dirtyY += dirtyHeight;
+      dirtyHeight = -dirtyHeight;
+    }
+    var left: number = Math.max(0, dirtyX, -dx);
+    var top: number = Math.max(0, dirtyY, -dy);
+    var right: number = Math.min(width, dirtyX + dirtyWidth, this.width - dx);
+    var bottom: number = Math.min(height, dirtyY + dirtyHeight, this.height - dy);
+    for (var y = top; y < bottom; y++) {
+      var offset: number = ((y + dy) * this.width + dx) * 4;
+      this.data.set(data.subarray((y * width + left) * 4, (y * width + right) * 4), offset + left * 4);
+    }
+  }
+
+  public quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+    this.path.quadraticCurveTo(this.state.transform, cpx, cpy, x, y);
+  }
+
+  public rect(x: number, y: number, width: number, height: number): void {
+    this.path.rect(this.state.transform, x, y, width, height);
+  }
+
+  /**
+   * Restore the default state, discard the saved states and the current path, and erase every pixel
+   * to transparent black.
+   */
+  public reset(): void {
+    this.state = createState();
+    this.stack = [];
+    this.path = new RasterPath();
+    this.data.fill(0);
+  }
+
+  /**
+   * Replace the surface with a transparent black one of the given size, and reset the state, like
+   * resizing a canvas does.
+   */
+  public resize(width: number, height: number): void {
+    this._width = width;
+    this._height = height;
+    this._data = new Uint8ClampedArray(width * height * 4);
+    this.reset();
+  }
+
+  public restore(): void {
+    if (this.stack.length > 0) this.state = this.stack.pop()!;
+  }
+
+  public roundRect(x: number, y: number, width: number, height: number, radii: number[]): void {
+    roundRect(this, x, y, width, height, radii);
+  }
+
+  public save(): void {
+    this.stack.push(copyState(this.state));
+  }
+
+  public setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    this.state.transform = [a, b, c, d, e, f];
+  }
+
+  public shadowBlur(_value: number): void {}
+
+  public shadowColor(_value: string): void {}
+
+  public shadowOffsetX(_value: number): void {}
+
+  public shadowOffsetY(_value: number): void {}
+
+  public stroke(): void {
+    this.strokeSubpaths(this.path.subpaths);
+  }
+
+  public strokeGradient(_value: CanvasGradient): void {
+    this.state.strokeUnsupported = true;
+  }
+
+  public strokePath(path: Path2D): void {
+    this.strokeSubpaths(this.subpathsOf(path));
+  }
+
+  public strokePattern(_value: CanvasPattern): void {
+    this.state.strokeUnsupported = true;
+  }
+
+  public strokeRect(x: number, y: number, width: number, height: number): void {
+    var path = new RasterPath();
+    path.rect(this.state.transform, x, y, width, height);
+    this.strokeSubpaths(path.subpaths);
+  }
+
+  /**
+   * Set the stroke color. Values that are not parsable CSS colors are ignored.
+   */
+  public strokeStyle(value: string): void {
+    var color = parseColor(value);
+    if (!color) return;
+    this.state.strokeStyle = color;
+    this.state.strokeUnsupported = false;
+  }
+
+  public strokeText(_text: string, _x: number, _y: number): void {}
+
+  public strokeTextWidth(_text: string, _x: number, _y: number, _maxWidth: number): void {}
+
+  public textAlign(_value: TextAlign): void {}
+
+  public textBaseline(_value: TextBaseline): void {}
+
+  public textRendering(_value: TextRendering): void {}
+
+  public wordSpacing(_value: string): void {}
+
+  public createConicGradient(_startAngle: number, _x: number, _y: number): CanvasGradient {
+    return { addColorStop(): void {} };
+  }
+
+  public createLinearGradient(_x0: number, _y0: number, _x1: number, _y1: number): CanvasGradient {
+    return { addColorStop(): void {} };
+  }
+
+  public createPath2D(data: Float64Array): Path2D {
+    return new RecordedPath2D(data);
+  }
+
+  public createPattern(_image: ImageSource, _repetition: CanvasPatternRepetition): CanvasPattern {
+    return { setTransform(): void {} };
+  }
+
+  public createRadialGradient(_x0: number, _y0: number, _r0: number, _x1: number, _y1: number, _r1: number): CanvasGradient {
+    return { addColorStop(): void {} };
+  }
+
+  /**
+   * Copy the pixels of a rectangle of the surface. Pixels outside of the surface are transparent
+   * black.
+   */
+  public getImageData(sx: number, sy: number, sw: number, sh: number): Uint8ClampedArray {
+    if (sw < 0) {
+      sx += sw;
+      sw = -sw;
+    }
+    if (sh < 0) {
+      sy += sh;
+      sh = -sh;
+    }
+    var result = new Uint8ClampedArray(sw * sh * 4);
+    var left: number = Math.max(0, -sx);
+    var right: number = Math.min(sw, this.width - sx);
+    if (left >= right) return result;
+    for (var y = Math.max(0, -sy); y < sh && sy + y < this.height; y++) {
+      var offset: number = ((sy + y) * this.width + sx) * 4;
+      result.set(this.data.subarray(offset + left * 4, offset + right * 4), (y * sw + left) * 4);
+    }
+    return result;
+  }
+
+  public getState(): ICanvasState {
+    var state = this.state;
+    return {
+      transform: state.transform.slice() as Matrix,
+      fillStyle: formatColor(state.fillStyle),
+      strokeStyle: formatColor(state.strokeStyle),
+      globalAlpha: state.globalAlpha,
+      lineWidth: state.lineWidth,
+      lineCap: state.lineCap,
+      lineJoin: state.lineJoin,
+      miterLimit: state.miterLimit,
+    };
+  }
+
+  /**
+   * Test if the center of the given device pixel coordinate is inside the current path.
+   */
+  public isPointInPath(x: number, y: number, fillRule: FillRule): boolean {
+    var winding: number = windingNumber(this.polygonsOf(this.path.subpaths), x, y);
+    return fillRule === FillRule.evenodd ? (winding & 1) === 1 : winding !== 0;
+  }
+
+  /**
+   * Test if the center of the given device pixel coordinate is inside the given path, using the
+   * current transform.
+   */
+  public isPointInPathObject(path: Path2D, x: number, y: number, fillRule: FillRule): boolean {
+    var winding: number = windingNumber(this.polygonsOf(this.subpathsOf(path)), x, y);
+    return fillRule === FillRule.evenodd ? (winding & 1) === 1 : winding !== 0;
+  }
+
+  /**
+   * Test if the given device pixel coordinate is inside the area covered by stroking the current
+   * path.
+   */
+  public isPointInStroke(x: number, y: number): boolean {
+    return windingNumber(this.strokeOutline(this.path.subpaths), x, y) !== 0;
+  }
+
+  public measureText(_text: string): TextMetrics {
+    return createTextMetrics();
+  }
+
+  public measureTextBatch(texts: string[], _font: string, _style: ITextStyle): TextMetrics[] {
+    return texts.map(() => createTextMetrics());
+  }
+
+  /**
+   * Stroke the given device space sub-paths.
+   *
+   * @param {ISubpath[]} subpaths - The sub-paths to stroke.
+   */
+  private strokeSubpaths(subpaths: ISubpath[]): void {
+    if (this.state.strokeUnsupported) return;
+    var coverage = rasterizePolygons(this.strokeOutline(subpaths), this.width, this.height, FillRule.nonzero);
+    this.composite(coverage, this.state.strokeStyle);
+  }
+
+  /**
+   * Obtain the device space polygons that cover the stroke of the given sub-paths. The outline is
+   * generated in the current user space so that the line width, caps and joins are affected by the
+   * current transform.
+   *
+   * @param {ISubpath[]} subpaths - The sub-paths to stroke.
+   */
+  private strokeOutline(subpaths: ISubpath[]): number[][] {
+    var state = this.state;
+    var inverse: Matrix | null = invert(state.transform);
+    if (!inverse || state.lineWidth <= 0) return [];
+    var userSubpaths: ISubpath[] = subpaths.map(e => ({
+      points: transformPoints(inverse!, e.points),
+      closed: e.closed,
+    }));
+    return orient(strokePolygons(userSubpaths, state).map(e => transformPoints(state.transform, e)));
+  }
+
+  /**
+   * Obtain the device space sub-paths of a recorded path, using the current transform.
+   *
+   * @param {Path2D} path - A path created by `createPath2D()`.
+   */
+  private subpathsOf(path: Path2D): ISubpath[] {
+    var result = new RasterPath();
+    buildTransformedPath((<RecordedPath2D>path).data, result, this.state.transform);
+    return result.subpaths;
+  }
+
+  private polygonsOf(subpaths: ISubpath[]): number[][] {
+    return subpaths.map(e => e.points);
+  }
+
+  /**
+   * Blend a color into the pixel buffer using source-over compositing.
+   *
+   * @param {Float32Array} coverage - The coverage of the shape for each pixel.
+   * @param {IColor} color - The paint color.
+   */
+  private composite(coverage: Float32Array, color: IColor): void {
+    var data = this.data;
+    var clip = this.state.clip;
+    var alpha: number = color.a * this.state.globalAlpha;
+    for (var i = 0; i < coverage.length; i++) {
+      var amount: number = coverage[i];
+      if (amount <= 0) continue;
+      if (clip) amount *= clip[i];
+      var sa: number = alpha * amount;
+      if (sa <= 0) continue;
+      var index: number = i * 4;
+      var da: number = data[index + 3] / 255;
+      var outA: number = sa + da * (1 - sa);
+      var dw: number = da * (1 - sa);
+      data[index] = (color.r * sa + data[index] * dw) / outA;
+      data[index + 1] = (color.g * sa + data[index + 1] * dw) / outA;
+      data[index + 2] = (color.b * sa + data[index + 2] * dw) / outA;
+      data[index + 3] = outA * 255;
+    }
+  }
+}
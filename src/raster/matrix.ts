@@ -0,0 +1,82 @@
+/**
+ * A 2d affine transform in the same `[a, b, c, d, e, f]` order used by the
+ * `CanvasInstruction.SetTransform` instruction.
+ */
+export type Matrix = [number, number, number, number, number, number];
+
+/** Create a new identity matrix. */
+export function identity(): Matrix {
+  return [1, 0, 0, 1, 0, 0];
+}
+
+/**
+ * Transform the x coordinate of a point by the given matrix.
+ *
+ * @param {Matrix} m - The transform.
+ * @param {number} x - The x coordinate of the point.
+ * @param {number} y - The y coordinate of the point.
+ */
+export function transformX(m: Matrix, x: number, y: number): number {
+  return m[0] * x + m[2] * y + m[4];
+}
+
+/**
+ * Transform the y coordinate of a point by the given matrix.
+ *
+ * @param {Matrix} m - The transform.
+ * @param {number} x - The x coordinate of the point.
+ * @param {number} y - The y coordinate of the point.
+ */
+export function transformY(m: Matrix, x: number, y: number): number {
+  return m[1] * x + m[3] * y + m[5];
+}
+
+/**
+ * Obtain the inverse of the given matrix, or null if the matrix is not invertible.
+ *
+ * @param {Matrix} m - The transform to invert.
+ */
+export function invert(m: Matrix): Matrix | null {
+  var det: number = m[0] * m[3] - m[1] * m[2];
+  if (det === 0 || !isFinite(det)) return null;
+  return [
+    m[3] / det,
+    -m[1] / det,
+    -m[2] / det,
+    m[0] / det,
+    (m[2] * m[5] - m[3] * m[4]) / det,
+    (m[1] * m[4] - m[0] * m[5]) / det,
+  ];
+}
+
+/**
+ * Transform a flat list of `[x0, y0, x1, y1, ...]` points by the given matrix.
+ *
+ * @param {Matrix} m - The transform.
+ * @param {number[]} points - The points to transform.
+ */
+export function transformPoints(m: Matrix, points: number[]): number[] {
+  var result: number[] = new Array(points.length);
+  for (var i = 0; i < points.length; i += 2) {
+    result[i] = transformX(m, points[i], points[i + 1]);
+    result[i + 1] = transformY(m, points[i], points[i + 1]);
+  }
+  return result;
+}
+
+/**
+ * Multiply two matrices. The result transforms a point by `n` first, then by `m`.
+ *
+ * @param {Matrix} m - The outer transform.
+ * @param {Matrix} n - The inner transform.
+ */
+export function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ];
+}
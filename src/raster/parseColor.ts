@@ -0,0 +1,97 @@
+/**
+ * A color value with red, green and blue channels in the range [0, 255] and an alpha channel in
+ * the range [0, 1].
+ */
+export interface IColor {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+const namedColors: { [name: string]: IColor; } = {
+  black: { r: 0, g: 0, b: 0, a: 1 },
+  blue: { r: 0, g: 0, b: 255, a: 1 },
+  cyan: { r: 0, g: 255, b: 255, a: 1 },
+  gray: { r: 128, g: 128, b: 128, a: 1 },
+  green: { r: 0, g: 128, b: 0, a: 1 },
+  grey: { r: 128, g: 128, b: 128, a: 1 },
+  lime: { r: 0, g: 255, b: 0, a: 1 },
+  magenta: { r: 255, g: 0, b: 255, a: 1 },
+  orange: { r: 255, g: 165, b: 0, a: 1 },
+  purple: { r: 128, g: 0, b: 128, a: 1 },
+  red: { r: 255, g: 0, b: 0, a: 1 },
+  transparent: { r: 0, g: 0, b: 0, a: 0 },
+  white: { r: 255, g: 255, b: 255, a: 1 },
+  yellow: { r: 255, g: 255, b: 0, a: 1 },
+};
+
+const hexPattern = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/;
+const functionPattern = /^rgba?\(([^)]*)\)$/;
+
+function clamp(value: number, low: number, high: number): number {
+  return value < low ? low : value > high ? high : value;
+}
+
+function parseChannel(value: string): number {
+  return value.charAt(value.length - 1) === "%"
+    ? clamp(parseFloat(value) * 255 / 100, 0, 255)
+    : clamp(parseFloat(value), 0, 255);
+}
+
+function parseAlpha(value: string): number {
+  return value.charAt(value.length - 1) === "%"
+    ? clamp(parseFloat(value) / 100, 0, 1)
+    : clamp(parseFloat(value), 0, 1);
+}
+
+/**
+ * Parse a subset of the CSS <color> syntax: hex colors, `rgb()`/`rgba()` functions and a small
+ * table of named colors. It returns null when the value cannot be parsed, which mirrors the
+ * browser behavior of ignoring invalid fillStyle and strokeStyle assignments.
+ *
+ * @param {string} value - The CSS color string.
+ */
+export function parseColor(value: string): IColor | null {
+  var color: string = value.trim().toLowerCase();
+  if (namedColors.hasOwnProperty(color)) {
+    var named: IColor = namedColors[color];
+    return { r: named.r, g: named.g, b: named.b, a: named.a };
+  }
+
+  var hex = hexPattern.exec(color);
+  if (hex) {
+    var digits: string = hex[1];
+    if (digits.length <= 4) {
+      return {
+        r: parseInt(digits.charAt(0), 16) * 17,
+        g: parseInt(digits.charAt(1), 16) * 17,
+        b: parseInt(digits.charAt(2), 16) * 17,
+        a: digits.length === 4 ? parseInt(digits.charAt(3), 16) / 15 : 1,
+      };
+    }
+    return {
+      r: parseInt(digits.substr(0, 2), 16),
+      g: parseInt(digits.substr(2, 2), 16),
+      b: parseInt(digits.substr(4, 2), 16),
+      a: digits.length === 8 ? parseInt(digits.substr(6, 2), 16) / 255 : 1,
+    };
+  }
+
+  var func = functionPattern.exec(color);
+  if (func) {
+    var args: string[] = func[1].split(/[\s,\/]+/).filter(e => e.length > 0);
+    if (args.length !== 3 && args.length !== 4) return null;
+    for (var i = 0; i < args.length; i++) {
+      if (isNaN(parseFloat(args[i]))) return null;
+    }
+    return {
+      r: parseChannel(args[0]),
+      g: parseChannel(args[1]),
+      b: parseChannel(args[2]),
+      a: args.length === 4 ? parseAlpha(args[3]) : 1,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,122 @@
+import { FillRule } from "../shared/FillRule";
+
+/**
+ * The number of sample rows taken for every row of pixels. Horizontal coverage is calculated
+ * exactly, so this value only controls the vertical anti-aliasing quality.
+ */
+const SAMPLES: number = 4;
+
+interface ICrossing {
+  x: number;
+  winding: number;
+}
+
+/**
+ * Scan convert a set of closed polygons into a coverage mask. Each polygon is a flat
+ * `[x0, y0, x1, y1, ...]` list of device space points, and is implicitly closed. Every value in the
+ * returned mask is in the range [0, 1] and represents how much of the pixel is covered.
+ *
+ * @param {number[][]} polygons - The polygons to rasterize.
+ * @param {number} width - The width of the mask.
+ * @param {number} height - The height of the mask.
+ * @param {FillRule} fillRule - The winding rule used to determine if a point is inside the shape.
+ */
+export function rasterizePolygons(polygons: number[][], width: number, height: number, fillRule: FillRule): Float32Array {
+  var coverage = new Float32Array(width * height);
+  var edges: number[] = [];
+  var top: number = Infinity;
+  var bottom: number = -Infinity;
+
+  for (var i = 0; i < polygons.length; i++) {
+    var polygon = polygons[i];
+    var length: number = polygon.length;
+    if (length < 6) continue;
+    for (var j = 0; j < length; j += 2) {
+      var x0: number = polygon[j];
+      var y0: number = polygon[j + 1];
+      var x1: number = polygon[(j + 2) % length];
+      var y1: number = polygon[(j + 3) % length];
+      if (y0 === y1) continue;
+      edges.push(x0, y0, x1, y1);
+      top = Math.min(top, y0, y1);
+      bottom = Math.max(bottom, y0, y1);
+    }
+  }
+  if (edges.length === 0) return coverage;
+
+  var startRow: number = Math.max(0, Math.floor(top));
+  var endRow: number = Math.min(height, Math.ceil(bottom));
+  var crossings: ICrossing[] = [];
+  var sampleWeight: number = 1 / SAMPLES;
+
+  for (var row = startRow; row < endRow; row++) {
+    var rowOffset: number = row * width;
+    for (var sample = 0; sample < SAMPLES; sample++) {
+      var y: number = row + (sample + 0.5) * sampleWeight;
+      crossings.length = 0;
+      for (var e = 0; e < edges.length; e += 4) {
+        var ex0: number = edges[e];
+        var ey0: number = edges[e + 1];
+        var ex1: number = edges[e + 2];
+        var ey1: number = edges[e + 3];
+        var winding: number = ey1 > ey0 ? 1 : -1;
+        var minY: number = winding === 1 ? ey0 : ey1;
+        var maxY: number = winding === 1 ? ey1 : ey0;
+        if (y < minY || y >= maxY) continue;
+        crossings.push({
+          x: ex0 + (y - ey0) * (ex1 - ex0) / (ey1 - ey0),
+          winding,
+        });
+      }
+      if (crossings.length < 2) continue;
+      crossings.sort((a, b) => a.x - b.x);
+
+      var count: number = 0;
+      for (var c = 0; c < crossings.length - 1; c++) {
+        count += crossings[c].winding;
+        var inside: boolean = fillRule === FillRule.evenodd ? (count & 1) === 1 : count !== 0;
+        if (!inside) continue;
+        var left: number = Math.max(0, crossings[c].x);
+        var right: number = Math.min(width, crossings[c + 1].x);
+        if (right <= left) continue;
+        var px: number = Math.floor(left);
+        var last: number = Math.min(width - 1, Math.floor(right));
+        for (; px <= last; px++) {
+          var covered: number = Math.min(right, px + 1) - Math.max(left, px);
+          if (covered > 0) coverage[rowOffset + px] += covered * sampleWeight;
+        }
+      }
+    }
+  }
+
+  for (var k = 0; k < coverage.length; k++) {
+    if (coverage[k] > 1) coverage[k] = 1;
+  }
+  return coverage;
+}
+
+/**
+ * Calculate the winding number of a set of closed polygons around a point.
+ *
+ * @param {number[][]} polygons - The polygons, in the same format used by `rasterizePolygons()`.
+ * @param {number} x - The x coordinate of the point.
+ * @param {number} y - The y coordinate of the point.
+ */
+export function windingNumber(polygons: number[][], x: number, y: number): number {
+  var winding: number = 0;
+  for (var i = 0; i < polygons.length; i++) {
+    var polygon = polygons[i];
+    var length: number = polygon.length;
+    if (length < 6) continue;
+    for (var j = 0; j < length; j += 2) {
+      var x0: number = polygon[j];
+      var y0: number = polygon[j + 1];
+      var x1: number = polygon[(j + 2) % length];
+      var y1: number = polygon[(j + 3) % length];
+      if ((y0 <= y) === (y1 <= y)) continue;
+      var crossX: number = x0 + (y - y0) * (x1 - x0) / (y1 - y0);
+      if (crossX > x) winding += y1 > y0 ? 1 : -1;
+    }
+  }
+  return winding;
+}
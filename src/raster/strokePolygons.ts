@@ -0,0 +1,178 @@
+import { LineCap } from "../shared/LineCap";
+import { LineJoin } from "../shared/LineJoin";
+import { ISubpath } from "./RasterPath";
+
+/**
+ * The settings used to convert a path outline into stroke polygons.
+ */
+export interface IStrokeStyle {
+  lineWidth: number;
+  lineCap: LineCap;
+  lineJoin: LineJoin;
+  miterLimit: number;
+}
+
+/**
+ * Create a polygon that approximates a circle.
+ *
+ * @param {number} x - The x coordinate of the center.
+ * @param {number} y - The y coordinate of the center.
+ * @param {number} radius - The radius of the circle.
+ */
+function circle(x: number, y: number, radius: number): number[] {
+  var count: number = Math.max(8, Math.min(256, Math.ceil(radius * 4)));
+  var result: number[] = [];
+  for (var i = 0; i < count; i++) {
+    var angle: number = Math.PI * 2 * i / count;
+    result.push(x + Math.cos(angle) * radius, y + Math.sin(angle) * radius);
+  }
+  return result;
+}
+
+/**
+ * Remove consecutive duplicate points, because zero length segments have no direction.
+ *
+ * @param {number[]} points - The points of the sub-path.
+ * @param {boolean} closed - Whether the last point connects back to the first point.
+ */
+function dedupe(points: number[], closed: boolean): number[] {
+  var result: number[] = [];
+  for (var i = 0; i < points.length; i += 2) {
+    var length: number = result.length;
+    if (length > 0 && result[length - 2] === points[i] && result[length - 1] === points[i + 1]) continue;
+    result.push(points[i], points[i + 1]);
+  }
+  if (closed && result.length > 2
+    && result[0] === result[result.length - 2]
+    && result[1] === result[result.length - 1]) {
+    result.length -= 2;
+  }
+  return result;
+}
+
+/**
+ * Add the join polygon between two connected segments meeting at (x, y).
+ */
+function join(
+  polygons: number[][],
+  style: IStrokeStyle,
+  x: number,
+  y: number,
+  inX: number,
+  inY: number,
+  outX: number,
+  outY: number,
+): void {
+  var half: number = style.lineWidth / 2;
+  var cross: number = inX * outY - inY * outX;
+  var dot: number = inX * outX + inY * outY;
+  if (Math.abs(cross) < 1e-12 && dot > 0) return;
+
+  if (style.lineJoin === LineJoin.round) {
+    polygons.push(circle(x, y, half));
+    return;
+  }
+
+  // the outer side of the turn is opposite to the turn direction
+  var side: number = cross > 0 ? -1 : 1;
+  var ax: number = x - inY * half * side;
+  var ay: number = y + inX * half * side;
+  var bx: number = x - outY * half * side;
+  var by: number = y + outX * half * side;
+
+  if (style.lineJoin === LineJoin.miter) {
+    var theta: number = Math.acos(Math.max(-1, Math.min(1, -dot)));
+    var ratio: number = 1 / Math.sin(theta / 2);
+    if (isFinite(ratio) && ratio <= style.miterLimit) {
+      var mx: number = -inY * side - outY * side;
+      var my: number = inX * side + outX * side;
+      var ml: number = Math.hypot(mx, my);
+      var length: number = half * ratio;
+      polygons.push([x, y, ax, ay, x + mx / ml * length, y + my / ml * length, bx, by]);
+      return;
+    }
+  }
+
+  polygons.push([x, y, ax, ay, bx, by]);
+}
+
+/**
+ * Add the cap polygon at the end of an open sub-path.
+ */
+function cap(polygons: number[][], style: IStrokeStyle, x: number, y: number, dirX: number, dirY: number): void {
+  var half: number = style.lineWidth / 2;
+  if (style.lineCap === LineCap.round) {
+    polygons.push(circle(x, y, half));
+  } else if (style.lineCap === LineCap.square) {
+    var nx: number = -dirY * half;
+    var ny: number = dirX * half;
+    var ex: number = dirX * half;
+    var ey: number = dirY * half;
+    polygons.push([
+      x + nx, y + ny,
+      x + nx + ex, y + ny + ey,
+      x - nx + ex, y - ny + ey,
+      x - nx, y - ny,
+    ]);
+  }
+}
+
+/**
+ * Convert a set of sub-paths into the polygons that make up their stroke. The resulting polygons
+ * overlap each other, and must be rasterized together using the nonzero fill rule after they are
+ * oriented in the same direction.
+ *
+ * @param {ISubpath[]} subpaths - The sub-paths to stroke, in the coordinate space of the stroke.
+ * @param {IStrokeStyle} style - The line settings.
+ */
+export function strokePolygons(subpaths: ISubpath[], style: IStrokeStyle): number[][] {
+  var polygons: number[][] = [];
+  var half: number = style.lineWidth / 2;
+  if (half <= 0) return polygons;
+
+  for (var i = 0; i < subpaths.length; i++) {
+    var closed: boolean = subpaths[i].closed;
+    var points: number[] = dedupe(subpaths[i].points, closed);
+    var count: number = points.length / 2;
+    if (count < 2) continue;
+
+    var segments: number = closed ? count : count - 1;
+    var directions: number[] = [];
+    for (var s = 0; s < segments; s++) {
+      var x0: number = points[s * 2];
+      var y0: number = points[s * 2 + 1];
+      var x1: number = points[((s + 1) % count) * 2];
+      var y1: number = points[((s + 1) % count) * 2 + 1];
+      var length: number = Math.hypot(x1 - x0, y1 - y0);
+      var dx: number = (x1 - x0) / length;
+      var dy: number = (y1 - y0) / length;
+      directions.push(dx, dy);
+      var nx: number = -dy * half;
+      var ny: number = dx * half;
+      polygons.push([
+        x0 + nx, y0 + ny,
+        x1 + nx, y1 + ny,
+        x1 - nx, y1 - ny,
+        x0 - nx, y0 - ny,
+      ]);
+    }
+
+    var first: number = closed ? 0 : 1;
+    for (var v = first; v < (closed ? count : count - 1); v++) {
+      var previous: number = (v - 1 + segments) % segments;
+      join(
+        polygons, style,
+        points[v * 2], points[v * 2 + 1],
+        directions[previous * 2], directions[previous * 2 + 1],
+        directions[v * 2], directions[v * 2 + 1],
+      );
+    }
+
+    if (!closed) {
+      cap(polygons, style, points[0], points[1], -directions[0], -directions[1]);
+      var end: number = (segments - 1) * 2;
+      cap(polygons, style, points[(count - 1) * 2], points[(count - 1) * 2 + 1], directions[end], directions[end + 1]);
+    }
+  }
+  return polygons;
+}
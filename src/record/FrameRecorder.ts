@@ -0,0 +1,259 @@
+import { CanvasInstructionName } from "../shared/CanvasInstructionName";
+import { CanvasPatternRepetition } from "../shared/CanvasPatternRepetition";
+import { IResourceResolver } from "../util/IResourceResolver";
+import { RECORDING_MAGIC, RECORDING_VERSION, RecordType, frameLength } from "./Recording";
+import { ImageSource } from "../util/ImageSource";
+
+/**
+ * Read the pixels of an image using a DOM canvas.
+ *
+ * @param {ImageSource} image - The image to read.
+ */
+function defaultReadImage(image: ImageSource): Uint8ClampedArray {
+  var canvas: HTMLCanvasElement = document.createElement("canvas");
+  canvas.width = image.width;
+  canvas.height = image.height;
+  var ctx: CanvasRenderingContext2D = canvas.getContext("2d")!;
+  ctx.drawImage(image, 0, 0);
+  return ctx.getImageData(0, 0, image.width, image.height).data;
+}
+
+/**
+ * Captures the frames committed by a wasm module, and the gradients, patterns and images they
+ * reference, into a versioned binary recording that can be replayed with `replayRecording()`.
+ *
+ * A recording starts with the "AS2D" magic number, the format version and the names of the
+ * `CanvasInstruction` enum it was produced with, followed by a list of records. Every value is
+ * little endian. Gradients and patterns are only recorded when they are created while the recorder
+ * is in use, and paths are only recorded when their segments are sent while the recorder is in use.
+ * Fallback elements are not recorded, so replayed frames never draw focus rings.
+ */
+export class FrameRecorder {
+  private view: DataView = new DataView(new ArrayBuffer(0x10000));
+  private offset: number = 0;
+  private recordedImages: { [id: number]: boolean; } = {};
+  private frameImages: { [id: number]: boolean; } = {};
+  private strings: { [pointer: number]: string; } = {};
+  private arrays: { [pointer: number]: Float64Array; } = {};
+  private pixels: { [pointer: number]: Uint8ClampedArray; } = {};
+
+  /**
+   * Create a recorder, and write the recording header.
+   *
+   * @param {Function} readImage - Obtain the RGBA pixels of an image. By default, images are read
+   * using a DOM canvas.
+   */
+  constructor(private readImage: (image: ImageSource) => Uint8ClampedArray = defaultReadImage) {
+    this.u32(RECORDING_MAGIC);
+    this.u16(RECORDING_VERSION);
+    var names: string[] = [];
+    for (var i = 0; typeof CanvasInstructionName[i] === "string"; i++) names.push(CanvasInstructionName[i]);
+    this.u16(names.length);
+    for (var j = 0; j < names.length; j++) this.string(names[j]);
+  }
+
+  /**
+   * Obtain a copy of the recording.
+   */
+  public toArrayBuffer(): ArrayBuffer {
+    return this.view.buffer.slice(0, this.offset);
+  }
+
+  /**
+   * Wrap a resolver, so that every string, array and pixel array resolved while a frame is
+   * dispatched is added to the next frame record, and every image is recorded the first time it is used
+   * in a frame.
+   *
+   * @param {IResourceResolver} resolver - The resolver that reads arguments out of the module.
+   */
+  public captureResources(resolver: IResourceResolver): IResourceResolver {
+    return {
+      getString: (pointer: number): string => this.strings[pointer] = resolver.getString(pointer),
+      getFloat64Array: (pointer: number): Float64Array => this.arrays[pointer] = resolver.getFloat64Array(pointer),
+      getUint8ClampedArray: (pointer: number): Uint8ClampedArray => this.pixels[pointer] = resolver.getUint8ClampedArray(pointer),
+      getImage: (id: number): ImageSource => {
+        var image: ImageSource = resolver.getImage(id);
+        // the source canvas of another context cannot be drawn into while a frame is dispatched
+        if (image && !this.frameImages[id]) {
+          this.frameImages[id] = true;
+          this.recordImage(id, image);
+        }
+        return image;
+      },
+      getGradient: (id: number): CanvasGradient => resolver.getGradient(id),
+      getPattern: (id: number): CanvasPattern => resolver.getPattern(id),
+      getPath: (id: number): Path2D => resolver.getPath(id),
+      getElement: (id: number): Element | null => resolver.getElement(id),
+    };
+  }
+
+  /**
+   * Record a buffer passed to `render()`, together with the resources captured while it was
+   * dispatched.
+   *
+   * @param {number} ctxid - The id of the context that was rendered.
+   * @param {Float64Array} data - The instruction buffer.
+   */
+  public recordFrame(ctxid: number, data: Float64Array): void {
+    var length: number = frameLength(data);
+    this.u8(RecordType.Frame);
+    this.u32(ctxid);
+    this.u32(length);
+    for (var i = 0; i < length; i++) this.f64(data[i]);
+
+    var strings = Object.keys(this.strings);
+    this.u32(strings.length);
+    for (var j = 0; j < strings.length; j++) {
+      this.f64(+strings[j]);
+      this.string(this.strings[+strings[j]]);
+    }
+    var arrays = Object.keys(this.arrays);
+    this.u32(arrays.length);
+    for (var k = 0; k < arrays.length; k++) {
+      var array: Float64Array = this.arrays[+arrays[k]];
+      this.f64(+arrays[k]);
+      this.u32(array.length);
+      for (var l = 0; l < array.length; l++) this.f64(array[l]);
+    }
+    var pixels = Object.keys(this.pixels);
+    this.u32(pixels.length);
+    for (var m = 0; m < pixels.length; m++) {
+      var bytes: Uint8ClampedArray = this.pixels[+pixels[m]];
+      this.f64(+pixels[m]);
+      this.u32(bytes.length);
+      this.reserve(bytes.length);
+      new Uint8Array(this.view.buffer, this.offset, bytes.length).set(bytes);
+      this.offset += bytes.length;
+    }
+    this.strings = {};
+    this.arrays = {};
+    this.pixels = {};
+    this.frameImages = {};
+  }
+
+  public recordLinearGradient(ctxid: number, id: number, x0: number, y0: number, x1: number, y1: number): void {
+    this.u8(RecordType.LinearGradient);
+    this.u32(ctxid);
+    this.u32(id);
+    this.f64(x0);
+    this.f64(y0);
+    this.f64(x1);
+    this.f64(y1);
+  }
+
+  public recordRadialGradient(ctxid: number, id: number, x0: number, y0: number, r0: number, x1: number, y1: number, r1: number): void {
+    this.u8(RecordType.RadialGradient);
+    this.u32(ctxid);
+    this.u32(id);
+    this.f64(x0);
+    this.f64(y0);
+    this.f64(r0);
+    this.f64(x1);
+    this.f64(y1);
+    this.f64(r1);
+  }
+
+  public recordConicGradient(ctxid: number, id: number, startAngle: number, x: number, y: number): void {
+    this.u8(RecordType.ConicGradient);
+    this.u32(ctxid);
+    this.u32(id);
+    this.f64(startAngle);
+    this.f64(x);
+    this.f64(y);
+  }
+
+  public recordColorStop(id: number, offset: number, color: string): void {
+    this.u8(RecordType.ColorStop);
+    this.u32(id);
+    this.f64(offset);
+    this.string(color);
+  }
+
+  /**
+   * Record the pixels of an image source. An ImageBitmap cannot change, so it is only recorded the
+   * first time. The canvas of a context is recorded again every time, because it might have been
+   * drawn into since it was last recorded.
+   */
+  public recordImage(id: number, image: ImageSource): void {
+    if (typeof ImageBitmap !== "undefined" && image instanceof ImageBitmap) {
+      if (this.recordedImages[id]) return;
+      this.recordedImages[id] = true;
+    }
+    var data: Uint8ClampedArray = this.readImage(image);
+    this.u8(RecordType.Image);
+    this.u32(id);
+    this.u32(image.width);
+    this.u32(image.height);
+    this.reserve(data.length);
+    new Uint8Array(this.view.buffer, this.offset, data.length).set(data);
+    this.offset += data.length;
+  }
+
+  public recordPattern(ctxid: number, id: number, imageId: number, repetition: CanvasPatternRepetition): void {
+    this.u8(RecordType.Pattern);
+    this.u32(ctxid);
+    this.u32(id);
+    this.u32(imageId);
+    this.u8(repetition);
+  }
+
+  public recordPatternTransform(id: number, a: number, b: number, c: number, d: number, e: number, f: number): void {
+    this.u8(RecordType.PatternTransform);
+    this.u32(id);
+    this.f64(a);
+    this.f64(b);
+    this.f64(c);
+    this.f64(d);
+    this.f64(e);
+    this.f64(f);
+  }
+
+  public recordPath2D(id: number, data: Float64Array): void {
+    this.u8(RecordType.Path2D);
+    this.u32(id);
+    this.u32(data.length);
+    for (var i = 0; i < data.length; i++) this.f64(data[i]);
+  }
+
+  /**
+   * Grow the recording so that the given amount of bytes can be written.
+   */
+  private reserve(bytes: number): void {
+    var required: number = this.offset + bytes;
+    if (required <= this.view.byteLength) return;
+    var size: number = this.view.byteLength;
+    while (size < required) size *= 2;
+    var buffer = new ArrayBuffer(size);
+    new Uint8Array(buffer).set(new Uint8Array(this.view.buffer, 0, this.offset));
+    this.view = new DataView(buffer);
+  }
+
+  private u8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.offset, value);
+    this.offset += 1;
+  }
+
+  private u16(value: number): void {
+    this.reserve(2);
+    this.view.setUint16(this.offset, value, true);
+    this.offset += 2;
+  }
+
+  private u32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.offset, value, true);
+    this.offset += 4;
+  }
+
+  private f64(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.offset, value, true);
+    this.offset += 8;
+  }
+
+  private string(value: string): void {
+    this.u32(value.length);
+    for (var i = 0; i < value.length; i++) this.u16(value.charCodeAt(i));
+  }
+}
@@ -0,0 +1,358 @@
+import { CanvasInstruction } from "../shared/CanvasInstruction";
+import { CanvasInstructionName } from "../shared/CanvasInstructionName";
+import { CanvasPatternRepetition } from "../shared/CanvasPatternRepetition";
+
+/**
+ * The first four bytes of every recording, "AS2D" in ASCII.
+ */
+export const RECORDING_MAGIC: number = 0x44325341;
+
+/**
+ * The version of the recording format written by `FrameRecorder`.
+ */
+export const RECORDING_VERSION: number = 1;
+
+/**
+ * The type tag written before every record of a recording.
+ */
+export const enum RecordType {
+  Frame = 0,
+  LinearGradient = 1,
+  RadialGradient = 2,
+  ColorStop = 3,
+  Image = 4,
+  Pattern = 5,
+  Path2D = 6,
+  ConicGradient = 7,
+  PatternTransform = 8,
+}
+
+/**
+ * A buffer passed to `render()`, trimmed after its `Commit` or `Flush` instruction, with the
+ * strings, arrays and pixel arrays it references indexed by pointer.
+ */
+export interface IFrameRecord {
+  type: RecordType.Frame;
+  ctxid: number;
+  data: Float64Array;
+  strings: { [pointer: number]: string; };
+  arrays: { [pointer: number]: Float64Array; };
+  pixels: { [pointer: number]: Uint8ClampedArray; };
+}
+
+export interface ILinearGradientRecord {
+  type: RecordType.LinearGradient;
+  ctxid: number;
+  id: number;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+export interface IRadialGradientRecord {
+  type: RecordType.RadialGradient;
+  ctxid: number;
+  id: number;
+  x0: number;
+  y0: number;
+  r0: number;
+  x1: number;
+  y1: number;
+  r1: number;
+}
+
+export interface IConicGradientRecord {
+  type: RecordType.ConicGradient;
+  ctxid: number;
+  id: number;
+  startAngle: number;
+  x: number;
+  y: number;
+}
+
+export interface IColorStopRecord {
+  type: RecordType.ColorStop;
+  id: number;
+  offset: number;
+  color: string;
+}
+
+/**
+ * An image, stored as non-premultiplied RGBA pixels.
+ */
+export interface IImageRecord {
+  type: RecordType.Image;
+  id: number;
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export interface IPatternRecord {
+  type: RecordType.Pattern;
+  ctxid: number;
+  id: number;
+  imageId: number;
+  repetition: CanvasPatternRepetition;
+}
+
+/**
+ * The transform of a pattern.
+ */
+export interface IPatternTransformRecord {
+  type: RecordType.PatternTransform;
+  id: number;
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+/**
+ * The segments of a path, in the layout written by the AssemblyScript `Path2D` class.
+ */
+export interface IPath2DRecord {
+  type: RecordType.Path2D;
+  id: number;
+  data: Float64Array;
+}
+
+export type RecordingEntry = IFrameRecord
+  | ILinearGradientRecord
+  | IRadialGradientRecord
+  | IConicGradientRecord
+  | IColorStopRecord
+  | IImageRecord
+  | IPatternRecord
+  | IPatternTransformRecord
+  | IPath2DRecord;
+
+/**
+ * A decoded recording.
+ */
+export interface IRecording {
+  /** The version of the format the recording was written with. */
+  version: number;
+  /** The `CanvasInstruction` names the recording was produced with, indexed by value. */
+  instructions: string[];
+  /** The records in the order they were written. */
+  records: RecordingEntry[];
+}
+
+/**
+ * Walk the instruction buffer and obtain the index right after its `Commit` or `Flush` instruction.
+ *
+ * @param {Float64Array} data - The instruction buffer.
+ */
+export function frameLength(data: Float64Array): number {
+  var i = 0;
+  while (i < data.length && data[i] !== CanvasInstruction.Commit && data[i] !== CanvasInstruction.Flush) i = data[i + 1];
+  return Math.min(data.length, i + 2);
+}
+
+/**
+ * Translate the instructions of recorded path segments in place, including the segments of nested
+ * paths, which follow the transform of every `AddPath` segment.
+ *
+ * @param {Float64Array} data - The recorded segments.
+ * @param {number[]} translation - The current value of every recorded instruction.
+ */
+function translatePath2D(data: Float64Array, translation: number[]): void {
+  for (var index = 0; index < data.length; index = data[index + 1]) {
+    var instruction: number = data[index];
+    data[index] = instruction < translation.length ? translation[instruction] : -1;
+    if (data[index + 1] <= index) throw new Error("Invalid recording: bad segment index " + data[index + 1]);
+    if (data[index] === CanvasInstruction.AddPath) translatePath2D(data.subarray(index + 8, data[index + 1]), translation);
+  }
+}
+
+/**
+ * Reads the little endian values of a recording.
+ */
+class RecordingReader {
+  private view: DataView;
+  private offset: number = 0;
+
+  constructor(buffer: ArrayBuffer) {
+    this.view = new DataView(buffer);
+  }
+
+  public get done(): boolean {
+    return this.offset >= this.view.byteLength;
+  }
+
+  public u8(): number {
+    var value: number = this.view.getUint8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  public u16(): number {
+    var value: number = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  public u32(): number {
+    var value: number = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  public f64(): number {
+    var value: number = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  public f64Array(): Float64Array {
+    var result = new Float64Array(this.u32());
+    for (var i = 0; i < result.length; i++) result[i] = this.f64();
+    return result;
+  }
+
+  public string(): string {
+    var length: number = this.u32();
+    var result: string = "";
+    for (var i = 0; i < length; i++) result += String.fromCharCode(this.u16());
+    return result;
+  }
+
+  public bytes(length: number): Uint8ClampedArray {
+    var result = new Uint8ClampedArray(this.view.buffer.slice(this.offset, this.offset + length));
+    this.offset += length;
+    return result;
+  }
+}
+
+/**
+ * Decode a recording written by `FrameRecorder`. Instructions are translated from the enum the
+ * recording was produced with to the current `CanvasInstruction` enum by name, and instructions
+ * that no longer exist are replaced with -1 so they are skipped when the frame is dispatched.
+ *
+ * @param {ArrayBuffer} buffer - The recording.
+ */
+export function readRecording(buffer: ArrayBuffer): IRecording {
+  var reader = new RecordingReader(buffer);
+  if (buffer.byteLength < 8 || reader.u32() !== RECORDING_MAGIC) throw new Error("Invalid recording: bad magic number.");
+  var version: number = reader.u16();
+  if (version > RECORDING_VERSION) throw new Error("Unsupported recording version: " + version);
+
+  var instructions: string[] = [];
+  var count: number = reader.u16();
+  for (var i = 0; i < count; i++) instructions.push(reader.string());
+  var translation: number[] = instructions.map(e => {
+    var value = (<any>CanvasInstructionName)[e];
+    return typeof value === "number" ? value : -1;
+  });
+  var commit: number = instructions.indexOf("Commit");
+  var flush: number = instructions.indexOf("Flush");
+
+  var records: RecordingEntry[] = [];
+  while (!reader.done) {
+    var type: RecordType = reader.u8();
+    switch (type) {
+      case RecordType.Frame: {
+        var ctxid: number = reader.u32();
+        var data: Float64Array = reader.f64Array();
+        var strings: { [pointer: number]: string; } = {};
+        var arrays: { [pointer: number]: Float64Array; } = {};
+        var stringCount: number = reader.u32();
+        for (var j = 0; j < stringCount; j++) strings[reader.f64()] = reader.string();
+        var arrayCount: number = reader.u32();
+        for (var k = 0; k < arrayCount; k++) arrays[reader.f64()] = reader.f64Array();
+        var pixels: { [pointer: number]: Uint8ClampedArray; } = {};
+        var pixelCount: number = reader.u32();
+        for (var l = 0; l < pixelCount; l++) {
+          var pointer: number = reader.f64();
+          pixels[pointer] = reader.bytes(reader.u32());
+        }
+        for (var index = 0; index < data.length; index = data[index + 1]) {
+          var instruction: number = data[index];
+          data[index] = instruction < translation.length ? translation[instruction] : -1;
+          if (instruction === commit || instruction === flush) break;
+          if (data[index + 1] <= index) throw new Error("Invalid recording: bad instruction index " + data[index + 1]);
+        }
+        records.push({ type, ctxid, data, strings, arrays, pixels });
+        break;
+      }
+      case RecordType.LinearGradient: {
+        records.push({
+          type,
+          ctxid: reader.u32(),
+          id: reader.u32(),
+          x0: reader.f64(),
+          y0: reader.f64(),
+          x1: reader.f64(),
+          y1: reader.f64(),
+        });
+        break;
+      }
+      case RecordType.RadialGradient: {
+        records.push({
+          type,
+          ctxid: reader.u32(),
+          id: reader.u32(),
+          x0: reader.f64(),
+          y0: reader.f64(),
+          r0: reader.f64(),
+          x1: reader.f64(),
+          y1: reader.f64(),
+          r1: reader.f64(),
+        });
+        break;
+      }
+      case RecordType.ConicGradient: {
+        records.push({
+          type,
+          ctxid: reader.u32(),
+          id: reader.u32(),
+          startAngle: reader.f64(),
+          x: reader.f64(),
+          y: reader.f64(),
+        });
+        break;
+      }
+      case RecordType.ColorStop: {
+        records.push({ type, id: reader.u32(), offset: reader.f64(), color: reader.string() });
+        break;
+      }
+      case RecordType.Image: {
+        var id: number = reader.u32();
+        var width: number = reader.u32();
+        var height: number = reader.u32();
+        records.push({ type, id, width, height, data: reader.bytes(width * height * 4) });
+        break;
+      }
+      case RecordType.Pattern: {
+        records.push({ type, ctxid: reader.u32(), id: reader.u32(), imageId: reader.u32(), repetition: reader.u8() });
+        break;
+      }
+      case RecordType.PatternTransform: {
+        records.push({
+          type,
+          id: reader.u32(),
+          a: reader.f64(),
+          b: reader.f64(),
+          c: reader.f64(),
+          d: reader.f64(),
+          e: reader.f64(),
+          f: reader.f64(),
+        });
+        break;
+      }
+      case RecordType.Path2D: {
+        var pathid: number = reader.u32();
+        var segments: Float64Array = reader.f64Array();
+        translatePath2D(segments, translation);
+        records.push({ type, id: pathid, data: segments });
+        break;
+      }
+      default: throw new Error("Invalid recording: unknown record type " + type);
+    }
+  }
+  return { version, instructions, records };
+}
@@ -0,0 +1,106 @@
+import { dispatchInstructions } from "../glue/dispatchInstructions";
+import { IRenderBackend } from "../util/IRenderBackend";
+import { IImageRecord, RecordType, readRecording } from "./Recording";
+
+/**
+ * Create an ImageBitmap out of a recorded image.
+ *
+ * @param {IImageRecord} record - The recorded image.
+ */
+function defaultCreateImage(record: IImageRecord): Promise<ImageBitmap> {
+  return createImageBitmap(new ImageData(record.data, record.width, record.height));
+}
+
+/**
+ * Replay a recording written by `FrameRecorder` without the wasm module that produced it. Every
+ * image is decoded first, then gradients and patterns are recreated on the backend of the context
+ * that created them, and frames are dispatched in the order they were committed. An image that was
+ * recorded again, like the canvas of a context, replaces the previous one from that point on. Paths
+ * are created on the backend of the frame that draws them.
+ *
+ * @param {ArrayBuffer} buffer - The recording.
+ * @param {IRenderBackend | Function} target - The backend that receives every frame, or a function
+ * that obtains the backend for a recorded context id. Records of contexts without a backend are
+ * skipped.
+ * @param {Function} createImage - Create an ImageBitmap out of a recorded image. By default,
+ * `createImageBitmap()` is used.
+ */
+export async function replayRecording(
+  buffer: ArrayBuffer,
+  target: IRenderBackend | ((ctxid: number) => IRenderBackend | undefined),
+  createImage: (record: IImageRecord) => Promise<ImageBitmap> = defaultCreateImage,
+): Promise<void> {
+  var recording = readRecording(buffer);
+  var getBackend = typeof target === "function" ? target : () => target as IRenderBackend;
+  var images: { [id: number]: ImageBitmap; } = {};
+  var gradients: { [id: number]: CanvasGradient; } = {};
+  var patterns: { [id: number]: CanvasPattern; } = {};
+  var paths: { [id: number]: Float64Array; } = {};
+
+  var decoded: (ImageBitmap | null)[] = await Promise.all(recording.records.map(e => {
+    return e.type === RecordType.Image ? createImage(e) : null;
+  }));
+
+  for (var index = 0; index < recording.records.length; index++) {
+    var record = recording.records[index];
+    switch (record.type) {
+      case RecordType.Frame: {
+        var strings = record.strings;
+        var arrays = record.arrays;
+        var pixels = record.pixels;
+        var frameBackend = getBackend(record.ctxid);
+        if (frameBackend) dispatchInstructions(record.data, frameBackend, {
+          getString: (pointer: number): string => strings[pointer],
+          getFloat64Array: (pointer: number): Float64Array => arrays[pointer],
+          getUint8ClampedArray: (pointer: number): Uint8ClampedArray => pixels[pointer],
+          getImage: (id: number): ImageBitmap => images[id],
+          getGradient: (id: number): CanvasGradient => gradients[id],
+          getPattern: (id: number): CanvasPattern => patterns[id],
+          getPath: (id: number): Path2D => paths[id] && frameBackend!.createPath2D(paths[id]),
+          getElement: (): Element | null => null,
+        });
+        break;
+      }
+      case RecordType.LinearGradient: {
+        var linearBackend = getBackend(record.ctxid);
+        if (linearBackend) gradients[record.id] = linearBackend.createLinearGradient(record.x0, record.y0, record.x1, record.y1);
+        break;
+      }
+      case RecordType.RadialGradient: {
+        var radialBackend = getBackend(record.ctxid);
+        if (radialBackend) {
+          gradients[record.id] = radialBackend.createRadialGradient(record.x0, record.y0, record.r0, record.x1, record.y1, record.r1);
+        }
+        break;
+      }
+      case RecordType.ConicGradient: {
+        var conicBackend = getBackend(record.ctxid);
+        if (conicBackend) gradients[record.id] = conicBackend.createConicGradient(record.startAngle, record.x, record.y);
+        break;
+      }
+      case RecordType.ColorStop: {
+        if (gradients[record.id]) gradients[record.id].addColorStop(record.offset, record.color);
+        break;
+      }
+      case RecordType.Pattern: {
+        var patternBackend = getBackend(record.ctxid);
+        if (patternBackend) patterns[record.id] = patternBackend.createPattern(images[record.imageId], record.repetition);
+        break;
+      }
+      case RecordType.PatternTransform: {
+        if (patterns[record.id]) {
+          patterns[record.id].setTransform({ a: record.a, b: record.b, c: record.c, d: record.d, e: record.e, f: record.f });
+        }
+        break;
+      }
+      case RecordType.Path2D: {
+        paths[record.id] = record.data;
+        break;
+      }
+      case RecordType.Image: {
+        images[record.id] = decoded[index]!;
+        break;
+      }
+    }
+  }
+}
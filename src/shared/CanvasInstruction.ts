@@ -55,4 +55,19 @@ export const enum CanvasInstruction {
   TextBaseline = 53,
   Translate = 54,
   Transform = 55,
+  Flush = 56,
+  AddPath = 57,
+  ClipPath = 58,
+  FillPath = 59,
+  StrokePath = 60,
+  PutImageData = 61,
+  DrawFocusIfNeededPath = 62,
+  RoundRect = 63,
+  FontKerning = 64,
+  FontStretch = 65,
+  FontVariantCaps = 66,
+  LetterSpacing = 67,
+  TextRendering = 68,
+  WordSpacing = 69,
+  Reset = 70,
 }
@@ -0,0 +1,78 @@
+/**
+ * A runtime copy of the `CanvasInstruction` enum, which is a const enum and has no runtime
+ * representation. `CanvasInstructionName[value]` obtains the name of an instruction, and it must be
+ * kept in sync with `CanvasInstruction`.
+ */
+export enum CanvasInstructionName {
+  Arc = 0,
+  ArcTo = 1,
+  BeginPath = 2,
+  BezierCurveTo = 3,
+  Clip = 4,
+  ClosePath = 5,
+  Commit = 6,
+  ClearRect = 7,
+  Direction = 8,
+  DrawFocusIfNeeded = 9,
+  DrawImage = 10,
+  Ellipse = 11,
+  Fill = 12,
+  FillGradient = 13,
+  FillPattern = 14,
+  FillRect = 15,
+  FillStyle = 16,
+  FillText = 17,
+  FillTextWidth = 18,
+  Filter = 19,
+  Font = 20,
+  GlobalAlpha = 21,
+  GlobalCompositeOperation = 22,
+  ImageSmoothingEnabled = 23,
+  ImageSmoothingQuality = 24,
+  Inspect = 25,
+  LineCap = 26,
+  LineDash = 27,
+  LineDashOffset = 28,
+  LineJoin = 29,
+  LineTo = 30,
+  LineWidth = 31,
+  MiterLimit = 32,
+  MoveTo = 33,
+  QuadraticCurveTo = 34,
+  Rect = 35,
+  Restore = 36,
+  Rotate = 37,
+  Save = 38,
+  Scale = 39,
+  SetTransform = 40,
+  ShadowBlur = 41,
+  ShadowColor = 42,
+  ShadowOffsetX = 43,
+  ShadowOffsetY = 44,
+  Stroke = 45,
+  StrokeGradient = 46,
+  StrokePattern = 47,
+  StrokeRect = 48,
+  StrokeStyle = 49,
+  StrokeText = 50,
+  StrokeTextWidth = 51,
+  TextAlign = 52,
+  TextBaseline = 53,
+  Translate = 54,
+  Transform = 55,
+  Flush = 56,
+  AddPath = 57,
+  ClipPath = 58,
+  FillPath = 59,
+  StrokePath = 60,
+  PutImageData = 61,
+  DrawFocusIfNeededPath = 62,
+  RoundRect = 63,
+  FontKerning = 64,
+  FontStretch = 65,
+  FontVariantCaps = 66,
+  LetterSpacing = 67,
+  TextRendering = 68,
+  WordSpacing = 69,
+  Reset = 70,
+}
@@ -0,0 +1,18 @@
+/**
+ * The CanvasRenderingContext2D.fontKerning value of the Canvas 2D API specifies how the kerning
+ * information stored in a font is used.
+ */
+export enum FontKerning {
+  /**
+   * The browser determines whether font kerning should be used or not. Default value.
+   */
+  auto = 0,
+  /**
+   * Font kerning is applied.
+   */
+  normal = 1,
+  /**
+   * Font kerning is not applied.
+   */
+  none = 2,
+}
@@ -0,0 +1,42 @@
+/**
+ * The CanvasRenderingContext2D.fontStretch value of the Canvas 2D API specifies how the font may be
+ * expanded or condensed when drawing text.
+ */
+export enum FontStretch {
+  /**
+   * A font width of 50%.
+   */
+  ultra_condensed = 0,
+  /**
+   * A font width of 62.5%.
+   */
+  extra_condensed = 1,
+  /**
+   * A font width of 75%.
+   */
+  condensed = 2,
+  /**
+   * A font width of 87.5%.
+   */
+  semi_condensed = 3,
+  /**
+   * A font width of 100%. Default value.
+   */
+  normal = 4,
+  /**
+   * A font width of 112.5%.
+   */
+  semi_expanded = 5,
+  /**
+   * A font width of 125%.
+   */
+  expanded = 6,
+  /**
+   * A font width of 150%.
+   */
+  extra_expanded = 7,
+  /**
+   * A font width of 200%.
+   */
+  ultra_expanded = 8,
+}
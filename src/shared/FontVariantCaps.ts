@@ -0,0 +1,34 @@
+/**
+ * The CanvasRenderingContext2D.fontVariantCaps value of the Canvas 2D API specifies an alternative
+ * capitalization of the rendered text.
+ */
+export enum FontVariantCaps {
+  /**
+   * No alternative capitalization is used. Default value.
+   */
+  normal = 0,
+  /**
+   * Small capitals are used for lower case letters.
+   */
+  small_caps = 1,
+  /**
+   * Small capitals are used for both upper and lower case letters.
+   */
+  all_small_caps = 2,
+  /**
+   * Petite capitals are used for lower case letters.
+   */
+  petite_caps = 3,
+  /**
+   * Petite capitals are used for both upper and lower case letters.
+   */
+  all_petite_caps = 4,
+  /**
+   * Small capitals are used for upper case letters, and lower case letters are drawn normally.
+   */
+  unicase = 5,
+  /**
+   * Titling capitals, which are designed for all-caps titles, are used for upper case letters.
+   */
+  titling_caps = 6,
+}
@@ -0,0 +1,23 @@
+/**
+ * The CanvasRenderingContext2D.textRendering value of the Canvas 2D API tells the rendering engine
+ * what to optimize for when drawing text.
+ */
+export enum TextRendering {
+  /**
+   * The browser makes educated guesses about when to optimize for speed, legibility, and geometric
+   * precision. Default value.
+   */
+  auto = 0,
+  /**
+   * The browser emphasizes rendering speed over legibility and geometric precision.
+   */
+  optimizeSpeed = 1,
+  /**
+   * The browser emphasizes legibility over rendering speed and geometric precision.
+   */
+  optimizeLegibility = 2,
+  /**
+   * The browser emphasizes geometric precision over rendering speed and legibility.
+   */
+  geometricPrecision = 3,
+}
@@ -0,0 +1,883 @@
+import { CanvasDirection } from "../shared/CanvasDirection";
+import { CanvasPatternRepetition } from "../shared/CanvasPatternRepetition";
+import { FillRule } from "../shared/FillRule";
+import { FontKerning } from "../shared/FontKerning";
+import { FontStretch } from "../shared/FontStretch";
+import { FontVariantCaps } from "../shared/FontVariantCaps";
+import { GlobalCompositeOperation } from "../shared/GlobalCompositeOperation";
+import { GlobalCompositeOperationValue } from "../shared/GlobalCompositeOperationValue";
+import { ImageSmoothingQuality } from "../shared/ImageSmoothingQuality";
+import { LineCap } from "../shared/LineCap";
+import { LineJoin } from "../shared/LineJoin";
+import { TextAlign } from "../shared/TextAlign";
+import { TextBaseline } from "../shared/TextBaseline";
+import { TextRendering } from "../shared/TextRendering";
+import { RecordedPath2D, buildTransformedPath } from "../glue/buildPath2D";
+import { roundRect } from "../glue/roundRect";
+import { createTextMetrics } from "../util/createTextMetrics";
+import { ICanvasState } from "../util/ICanvasState";
+import { IRenderBackend } from "../util/IRenderBackend";
+import { Matrix, identity, invert } from "../raster/matrix";
+import { parseColor } from "../raster/parseColor";
+import { SVGPath, formatNumber } from "./SVGPath";
+import { ImageSource } from "../util/ImageSource";
+import { ITextStyle } from "../util/ITextStyle";
+
+const LineCapValues = ["butt", "round", "square"];
+const LineJoinValues = ["bevel", "round", "miter"];
+const TextBaselineValues = ["text-before-edge", "hanging", "middle", "alphabetic", "ideographic", "text-after-edge"];
+const FontKerningValues = ["auto", "normal", "none"];
+const FontStretchValues = [
+  "ultra-condensed",
+  "extra-condensed",
+  "condensed",
+  "semi-condensed",
+  "normal",
+  "semi-expanded",
+  "expanded",
+  "extra-expanded",
+  "ultra-expanded",
+];
+const FontVariantCapsValues = [
+  "normal",
+  "small-caps",
+  "all-small-caps",
+  "petite-caps",
+  "all-petite-caps",
+  "unicase",
+  "titling-caps",
+];
+const TextRenderingValues = ["auto", "optimizeSpeed", "optimizeLegibility", "geometricPrecision"];
+
+/**
+ * Escape a string for use as XML text or inside a double quoted attribute.
+ *
+ * @param {string} value - The string to escape.
+ */
+function escapeXML(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Serialize a set of attributes, skipping the ones that are null.
+ *
+ * @param {object} attributes - The attribute values by name.
+ */
+function serializeAttributes(attributes: { [name: string]: string | null }): string {
+  var result: string = "";
+  for (var name in attributes) {
+    var value = attributes[name];
+    if (value !== null) result += " " + name + "=\"" + escapeXML(value) + "\"";
+  }
+  return result;
+}
+
+function formatMatrix(m: Matrix): string | null {
+  if (m[0] === 1 && m[1] === 0 && m[2] === 0 && m[3] === 1 && m[4] === 0 && m[5] === 0) return null;
+  return "matrix(" + m.map(formatNumber).join(" ") + ")";
+}
+
+/**
+ * Render an image into a data url using a DOM canvas.
+ *
+ * @param {ImageSource} image - The image to encode.
+ */
+function defaultImageSource(image: ImageSource): string {
+  var canvas: HTMLCanvasElement = document.createElement("canvas");
+  canvas.width = image.width;
+  canvas.height = image.height;
+  canvas.getContext("2d")!.drawImage(image, 0, 0);
+  return canvas.toDataURL();
+}
+
+/**
+ * A paint value, which is either a color with an opacity, or a reference to a paint server.
+ */
+interface ISVGPaint {
+  value: string;
+  opacity: number;
+}
+
+/**
+ * A gradient created by an `SVGExporter`, which is written to the document as a paint server.
+ */
+export class SVGGradient implements CanvasGradient {
+  /** The color stops of the gradient as `offset`, `color` and `opacity` triples. */
+  public stops: [number, string, number][] = [];
+
+  constructor(
+    public readonly id: string,
+    public readonly type: "linearGradient" | "radialGradient",
+    public readonly coordinates: { [name: string]: number },
+  ) {}
+
+  /**
+   * Add a color stop to the gradient. Colors that are not parsable CSS colors are ignored.
+   */
+  public addColorStop(offset: number, color: string): void {
+    var parsed = parseColor(color);
+    if (!parsed) return;
+    this.stops.push([offset, "rgb(" + parsed.r + "," + parsed.g + "," + parsed.b + ")", parsed.a]);
+  }
+
+  /** Serialize the gradient into a paint server element. */
+  public toString(): string {
+    var attributes: { [name: string]: string | null } = { id: this.id, gradientUnits: "userSpaceOnUse" };
+    for (var name in this.coordinates) attributes[name] = formatNumber(this.coordinates[name]);
+    return "<" + this.type + serializeAttributes(attributes) + ">"
+      + this.stops.map(e => "<stop" + serializeAttributes({
+        offset: formatNumber(e[0]),
+        "stop-color": e[1],
+        "stop-opacity": e[2] === 1 ? null : formatNumber(e[2]),
+      }) + "/>").join("")
+      + "</" + this.type + ">";
+  }
+}
+
+/**
+ * A pattern created by an `SVGExporter`, which is written to the document as a paint server.
+ */
+export class SVGPattern implements CanvasPattern {
+  /** The pattern transform. */
+  public transform: Matrix = identity();
+
+  constructor(
+    public readonly id: string,
+    public readonly imageId: string,
+    public readonly width: number,
+    public readonly height: number,
+    public readonly repetition: CanvasPatternRepetition,
+  ) {}
+
+  public setTransform(transform: DOMMatrix2DInit = {}): void {
+    this.transform = [
+      transform.a !== undefined ? transform.a : 1,
+      transform.b !== undefined ? transform.b : 0,
+      transform.c !== undefined ? transform.c : 0,
+      transform.d !== undefined ? transform.d : 1,
+      transform.e !== undefined ? transform.e : 0,
+      transform.f !== undefined ? transform.f : 0,
+    ];
+  }
+
+  /**
+   * Serialize the pattern into a paint server element. Axes that do not repeat use a tile that is
+   * large enough to never be repeated.
+   */
+  public toString(): string {
+    var repeatX: boolean = this.repetition === CanvasPatternRepetition.repeat
+      || this.repetition === CanvasPatternRepetition.repeat_x;
+    var repeatY: boolean = this.repetition === CanvasPatternRepetition.repeat
+      || this.repetition === CanvasPatternRepetition.repeat_y;
+    return "<pattern" + serializeAttributes({
+      id: this.id,
+      patternUnits: "userSpaceOnUse",
+      width: repeatX ? formatNumber(this.width) : "1000000",
+      height: repeatY ? formatNumber(this.height) : "1000000",
+      patternTransform: formatMatrix(this.transform),
+    }) + "><use xlink:href=\"#" + this.imageId + "\"/></pattern>";
+  }
+}
+
+/**
+ * The subset of the drawing state that is saved and restored by `save()` and `restore()`.
+ */
+interface ISVGState {
+  transform: Matrix;
+  fillStyle: ISVGPaint;
+  strokeStyle: ISVGPaint;
+  globalAlpha: number;
+  globalCompositeOperation: GlobalCompositeOperation;
+  filter: string;
+  lineWidth: number;
+  lineCap: LineCap;
+  lineJoin: LineJoin;
+  miterLimit: number;
+  lineDash: number[];
+  lineDashOffset: number;
+  font: string;
+  textAlign: TextAlign;
+  textBaseline: TextBaseline;
+  direction: CanvasDirection;
+  letterSpacing: string;
+  wordSpacing: string;
+  fontKerning: FontKerning;
+  fontStretch: FontStretch;
+  fontVariantCaps: FontVariantCaps;
+  textRendering: TextRendering;
+  clip: string | null;
+}
+
+function createState(): ISVGState {
+  return {
+    transform: identity(),
+    fillStyle: { value: "rgb(0,0,0)", opacity: 1 },
+    strokeStyle: { value: "rgb(0,0,0)", opacity: 1 },
+    globalAlpha: 1,
+    globalCompositeOperation: GlobalCompositeOperation.source_over,
+    filter: "none",
+    lineWidth: 1,
+    lineCap: LineCap.butt,
+    lineJoin: LineJoin.miter,
+    miterLimit: 10,
+    lineDash: [],
+    lineDashOffset: 0,
+    font: "10px sans-serif",
+    textAlign: TextAlign.start,
+    textBaseline: TextBaseline.alphabetic,
+    direction: CanvasDirection.inherit,
+    letterSpacing: "0px",
+    wordSpacing: "0px",
+    fontKerning: FontKerning.auto,
+    fontStretch: FontStretch.normal,
+    fontVariantCaps: FontVariantCaps.normal,
+    textRendering: TextRendering.auto,
+    clip: null,
+  };
+}
+
+/**
+ * Obtain the paint of a gradient, which references its paint server. Gradients that have no paint
+ * server, like conic gradients, do not paint anything.
+ */
+function gradientPaint(gradient: CanvasGradient): ISVGPaint {
+  if (!(gradient instanceof SVGGradient)) return { value: "none", opacity: 1 };
+  return { value: "url(#" + gradient.id + ")", opacity: 1 };
+}
+
+/**
+ * Format a paint as a CSS color, or as the `url()` reference of its paint server.
+ */
+function formatPaint(paint: ISVGPaint): string {
+  return paint.value.replace(/^rgb\((.*)\)$/, "rgba($1," + paint.opacity + ")");
+}
+
+function copyState(state: ISVGState): ISVGState {
+  return {
+    ...state,
+    transform: state.transform.slice() as Matrix,
+    lineDash: state.lineDash.slice(),
+  };
+}
+
+/**
+ * A render backend that converts the as2d instruction stream into an SVG document, so that frames
+ * drawn by a wasm module can be exported as vector graphics.
+ *
+ * Paths are written as `<path>` elements, colors, gradients and patterns as paints and paint
+ * servers, the current transform as `transform` attributes, clipping regions as `<clipPath>`
+ * elements, text as `<text>` elements and images as `<image>` elements. Blend modes are written as
+ * `mix-blend-mode`, and filters as the CSS `filter` property.
+ *
+ * Because SVG is a retained format, a few features are approximated. Shadows, image smoothing and
+ * focus rings are ignored, `maxWidth` is not applied to text, the other composite operations draw
+ * using `source-over`, and `clearRect()` only has an effect when it clears the whole document. SVG
+ * has no conic gradients, so shapes that use them are not painted. Hit tests always return false,
+ * `measureText()` always returns empty metrics, `putImageData()` is ignored and `getImageData()`
+ * returns transparent black pixels.
+ */
+export class SVGExporter implements IRenderBackend {
+  private state: ISVGState = createState();
+  private stack: ISVGState[] = [];
+  private path: SVGPath = new SVGPath();
+  private elements: string[] = [];
+  private clipPaths: string[] = [];
+  private paintServers: (SVGGradient | SVGPattern)[] = [];
+  private images: { image: ImageSource, id: string, element: string }[] = [];
+  private nextId: number = 0;
+  private _width: number;
+  private _height: number;
+
+  /**
+   * Create an empty document.
+   *
+   * @param {number} width - The width of the document in pixels.
+   * @param {number} height - The height of the document in pixels.
+   * @param {Function} imageSource - Obtain the url used to embed an image in the document. By
+   * default, images are rendered into a png data url using a DOM canvas.
+   */
+  constructor(
+    width: number,
+    height: number,
+    private imageSource: (image: ImageSource) => string = defaultImageSource,
+  ) {
+    this._width = width;
+    this._height = height;
+  }
+
+  /**
+   * The width of the document in pixels.
+   */
+  public get width(): number {
+    return this._width;
+  }
+
+  /**
+   * The height of the document in pixels.
+   */
+  public get height(): number {
+    return this._height;
+  }
+
+  /**
+   * Serialize everything drawn so far into a standalone SVG document.
+   */
+  public toString(): string {
+    var definitions: string[] = this.images.map(e => e.element)
+      .concat(this.paintServers.map(e => e.toString()))
+      .concat(this.clipPaths);
+    return "<svg" + serializeAttributes({
+      xmlns: "http://www.w3.org/2000/svg",
+      "xmlns:xlink": "http://www.w3.org/1999/xlink",
+      width: formatNumber(this.width),
+      height: formatNumber(this.height),
+      viewBox: "0 0 " + formatNumber(this.width) + " " + formatNumber(this.height),
+    }) + ">"
+      + (definitions.length > 0 ? "<defs>" + definitions.join("") + "</defs>" : "")
+      + this.elements.join("")
+      + "</svg>";
+  }
+
+  public arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, anticlockwise: boolean): void {
+    this.path.ellipse(this.state.transform, x, y, radius, radius, 0, startAngle, endAngle, anticlockwise);
+  }
+
+  public arcTo(x1: number, y1: number, x2: number, y2: number, radius: number): void {
+    this.path.arcTo(this.state.transform, x1, y1, x2, y2, radius);
+  }
+
+  public beginPath(): void {
+    this.path.beginPath();
+  }
+
+  public bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void {
+    this.path.bezierCurveTo(this.state.transform, cp1x, cp1y, cp2x, cp2y, x, y);
+  }
+
+  /**
+   * Remove every element drawn so far if the rectangle covers the whole document. SVG elements
+   * cannot be partially erased, so other rectangles are ignored.
+   */
+  public clearRect(x: number, y: number, width: number, height: number): void {
+    var m = this.state.transform;
+    if (m[1] !== 0 || m[2] !== 0) return;
+    var left: number = Math.min(m[0] * x, m[0] * (x + width)) + m[4];
+    var right: number = Math.max(m[0] * x, m[0] * (x + width)) + m[4];
+    var top: number = Math.min(m[3] * y, m[3] * (y + height)) + m[5];
+    var bottom: number = Math.max(m[3] * y, m[3] * (y + height)) + m[5];
+    if (left <= 0 && top <= 0 && right >= this.width && bottom >= this.height) this.elements = [];
+  }
+
+  /**
+   * Intersect the current clipping region with the current path by creating a new `<clipPath>`
+   * that is itself clipped by the previous region.
+   */
+  public clip(): void {
+    this.clipSVGPath(this.path, FillRule.nonzero);
+  }
+
+  public clipPath(path: Path2D, fillRule: FillRule): void {
+    this.clipSVGPath(this.pathOf(path), fillRule);
+  }
+
+  public closePath(): void {
+    this.path.closePath();
+  }
+
+  public direction(value: CanvasDirection): void {
+    this.state.direction = value;
+  }
+
+  public drawFocusIfNeeded(_element: Element | null): void {}
+
+  public drawFocusIfNeededPath(_path: Path2D, _element: Element | null): void {}
+
+  /**
+   * Draw the source rectangle of an image by placing it in a nested `<svg>` element whose viewBox
+   * is the source rectangle.
+   */
+  public drawImage(image: ImageSource, sx: number, sy: number, sWidth: number, sHeight: number, dx: number, dy: number, dWidth: number, dHeight: number): void {
+    var imageId: string = this.useImage(image);
+    this.draw("<g" + serializeAttributes({
+      transform: formatMatrix(this.state.transform),
+      opacity: this.state.globalAlpha === 1 ? null : formatNumber(this.state.globalAlpha),
+    }) + "><svg" + serializeAttributes({
+      x: formatNumber(dx),
+      y: formatNumber(dy),
+      width: formatNumber(dWidth),
+      height: formatNumber(dHeight),
+      viewBox: [sx, sy, sWidth, sHeight].map(formatNumber).join(" "),
+      preserveAspectRatio: "none",
+    }) + "><use xlink:href=\"#" + imageId + "\"/></svg></g>");
+  }
+
+  public ellipse(
+    x: number,
+    y: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number,
+    anticlockwise: boolean,
+  ): void {
+    this.path.ellipse(this.state.transform, x, y, radiusX, radiusY, rotation, startAngle, endAngle, anticlockwise);
+  }
+
+  public fill(fillRule: FillRule = FillRule.nonzero): void {
+    this.fillSVGPath(this.path, fillRule);
+  }
+
+  public fillGradient(value: CanvasGradient): void {
+    this.state.fillStyle = gradientPaint(value);
+  }
+
+  public fillPath(path: Path2D, fillRule: FillRule): void {
+    this.fillSVGPath(this.pathOf(path), fillRule);
+  }
+
+  public fillPattern(value: CanvasPattern): void {
+    this.state.fillStyle = { value: "url(#" + (<SVGPattern>value).id + ")", opacity: 1 };
+  }
+
+  public fillRect(x: number, y: number, width: number, height: number): void {
+    var path = new SVGPath();
+    path.rect(this.state.transform, x, y, width, height);
+    this.fillSVGPath(path, FillRule.nonzero);
+  }
+
+  /**
+   * Set the fill color. Values that are not parsable CSS colors are ignored.
+   */
+  public fillStyle(value: string): void {
+    var paint = this.parsePaint(value);
+    if (paint) this.state.fillStyle = paint;
+  }
+
+  public fillText(text: string, x: number, y: number): void {
+    this.drawText(text, x, y, true);
+  }
+
+  public fillTextWidth(text: string, x: number, y: number, _maxWidth: number): void {
+    this.drawText(text, x, y, true);
+  }
+
+  public filter(value: string): void {
+    this.state.filter = value;
+  }
+
+  public font(value: string): void {
+    this.state.font = value;
+  }
+
+  public fontKerning(value: FontKerning): void {
+    this.state.fontKerning = value;
+  }
+
+  public fontStretch(value: FontStretch): void {
+    this.state.fontStretch = value;
+  }
+
+  public fontVariantCaps(value: FontVariantCaps): void {
+    this.state.fontVariantCaps = value;
+  }
+
+  public globalAlpha(value: number): void {
+    this.state.globalAlpha = value;
+  }
+
+  public globalCompositeOperation(value: GlobalCompositeOperation): void {
+    this.state.globalCompositeOperation = value;
+  }
+
+  public imageSmoothingEnabled(_value: boolean): void {}
+
+  public imageSmoothingQuality(_value: ImageSmoothingQuality): void {}
+
+  public letterSpacing(value: string): void {
+    this.state.letterSpacing = value;
+  }
+
+  public lineCap(value: LineCap): void {
+    this.state.lineCap = value;
+  }
+
+  public lineDash(value: Float64Array): void {
+    this.state.lineDash = Array.from(value);
+  }
+
+  public lineDashOffset(value: number): void {
+    this.state.lineDashOffset = value;
+  }
+
+  public lineJoin(value: LineJoin): void {
+    this.state.lineJoin = value;
+  }
+
+  public lineTo(x: number, y: number): void {
+    this.path.lineTo(this.state.transform, x, y);
+  }
+
+  public lineWidth(value: number): void {
+    this.state.lineWidth = value;
+  }
+
+  public miterLimit(value: number): void {
+    this.state.miterLimit = value;
+  }
+
+  public moveTo(x: number, y: number): void {
+    this.path.moveTo(this.state.transform, x, y);
+  }
+
+  public putImageData(_data: Uint8ClampedArray, _width: number, _height: number, _dx: number, _dy: number, _dirtyX: number, _dirtyY: number, _dirtyWidth: number, _dirtyHeight: number): void {}
+
+  public quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+    this.path.quadraticCurveTo(this.state.transform, cpx, cpy, x, y);
+  }
+
+  public rect(x: number, y: number, width: number, height: number): void {
+    this.path.rect(this.state.transform, x, y, width, height);
+  }
+
+  /**
+   * Restore the default state, discard the saved states and the current path, and remove every
+   * element drawn so far. Paint servers and images are kept, because they can still be used.
+   */
+  public reset(): void {
+    this.state = createState();
+    this.stack = [];
+    this.path = new SVGPath();
+    this.elements = [];
+    this.clipPaths = [];
+  }
+
+  /**
+   * Change the size of the document and erase everything drawn so far, like resizing a canvas does.
+   */
+  public resize(width: number, height: number): void {
+    this._width = width;
+    this._height = height;
+    this.reset();
+  }
+
+  public restore(): void {
+    var state = this.stack.pop();
+    if (state) this.state = state;
+  }
+
+  public roundRect(x: number, y: number, width: number, height: number, radii: number[]): void {
+    roundRect(this, x, y, width, height, radii);
+  }
+
+  public save(): void {
+    this.stack.push(copyState(this.state));
+  }
+
+  public setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+    this.state.transform = [a, b, c, d, e, f];
+  }
+
+  public shadowBlur(_value: number): void {}
+
+  public shadowColor(_value: string): void {}
+
+  public shadowOffsetX(_value: number): void {}
+
+  public shadowOffsetY(_value: number): void {}
+
+  public stroke(): void {
+    this.strokeSVGPath(this.path);
+  }
+
+  public strokeGradient(value: CanvasGradient): void {
+    this.state.strokeStyle = gradientPaint(value);
+  }
+
+  public strokePath(path: Path2D): void {
+    this.strokeSVGPath(this.pathOf(path));
+  }
+
+  public strokePattern(value: CanvasPattern): void {
+    this.state.strokeStyle = { value: "url(#" + (<SVGPattern>value).id + ")", opacity: 1 };
+  }
+
+  public strokeRect(x: number, y: number, width: number, height: number): void {
+    var path = new SVGPath();
+    path.rect(this.state.transform, x, y, width, height);
+    this.strokeSVGPath(path);
+  }
+
+  /**
+   * Set the stroke color. Values that are not parsable CSS colors are ignored.
+   */
+  public strokeStyle(value: string): void {
+    var paint = this.parsePaint(value);
+    if (paint) this.state.strokeStyle = paint;
+  }
+
+  public strokeText(text: string, x: number, y: number): void {
+    this.drawText(text, x, y, false);
+  }
+
+  public strokeTextWidth(text: string, x: number, y: number, _maxWidth: number): void {
+    this.drawText(text, x, y, false);
+  }
+
+  public textAlign(value: TextAlign): void {
+    this.state.textAlign = value;
+  }
+
+  public textBaseline(value: TextBaseline): void {
+    this.state.textBaseline = value;
+  }
+
+  public textRendering(value: TextRendering): void {
+    this.state.textRendering = value;
+  }
+
+  public wordSpacing(value: string): void {
+    this.state.wordSpacing = value;
+  }
+
+  public createConicGradient(_startAngle: number, _x: number, _y: number): CanvasGradient {
+    return { addColorStop(): void {} };
+  }
+
+  public createLinearGradient(x0: number, y0: number, x1: number, y1: number): CanvasGradient {
+    var gradient = new SVGGradient(this.createId("gradient"), "linearGradient", { x1: x0, y1: y0, x2: x1, y2: y1 });
+    this.paintServers.push(gradient);
+    return gradient;
+  }
+
+  public createPath2D(data: Float64Array): Path2D {
+    return new RecordedPath2D(data);
+  }
+
+  public createPattern(image: ImageSource, repetition: CanvasPatternRepetition): CanvasPattern {
+    var pattern = new SVGPattern(this.createId("pattern"), this.useImage(image), image.width, image.height, repetition);
+    this.paintServers.push(pattern);
+    return pattern;
+  }
+
+  public createRadialGradient(x0: number, y0: number, r0: number, x1: number, y1: number, r1: number): CanvasGradient {
+    var gradient = new SVGGradient(this.createId("gradient"), "radialGradient", { fx: x0, fy: y0, fr: r0, cx: x1, cy: y1, r: r1 });
+    this.paintServers.push(gradient);
+    return gradient;
+  }
+
+  public getImageData(_sx: number, _sy: number, sw: number, sh: number): Uint8ClampedArray {
+    return new Uint8ClampedArray(Math.abs(sw * sh) * 4);
+  }
+
+  public getState(): ICanvasState {
+    var state = this.state;
+    return {
+      transform: state.transform.slice() as Matrix,
+      fillStyle: formatPaint(state.fillStyle),
+      strokeStyle: formatPaint(state.strokeStyle),
+      globalAlpha: state.globalAlpha,
+      lineWidth: state.lineWidth,
+      lineCap: state.lineCap,
+      lineJoin: state.lineJoin,
+      miterLimit: state.miterLimit,
+      lineDash: state.lineDash.slice(),
+      lineDashOffset: state.lineDashOffset,
+      globalCompositeOperation: state.globalCompositeOperation,
+      filter: state.filter,
+      font: state.font,
+      textAlign: state.textAlign,
+      textBaseline: state.textBaseline,
+      direction: state.direction,
+      letterSpacing: state.letterSpacing,
+      wordSpacing: state.wordSpacing,
+      fontKerning: state.fontKerning,
+      fontStretch: state.fontStretch,
+      fontVariantCaps: state.fontVariantCaps,
+      textRendering: state.textRendering,
+    };
+  }
+
+  public isPointInPath(_x: number, _y: number, _fillRule: FillRule): boolean {
+    return false;
+  }
+
+  public isPointInPathObject(_path: Path2D, _x: number, _y: number, _fillRule: FillRule): boolean {
+    return false;
+  }
+
+  public isPointInStroke(_x: number, _y: number): boolean {
+    return false;
+  }
+
+  public measureText(_text: string): TextMetrics {
+    return createTextMetrics();
+  }
+
+  public measureTextBatch(texts: string[], _font: string, _style: ITextStyle): TextMetrics[] {
+    return texts.map(() => createTextMetrics());
+  }
+
+  private createId(prefix: string): string {
+    return prefix + this.nextId++;
+  }
+
+  private parsePaint(value: string): ISVGPaint | null {
+    var color = parseColor(value);
+    if (!color) return null;
+    return { value: "rgb(" + color.r + "," + color.g + "," + color.b + ")", opacity: color.a };
+  }
+
+  /**
+   * Obtain the id of the `<image>` definition for the given image, creating it on first use.
+   */
+  private useImage(image: ImageSource): string {
+    for (var i = 0; i < this.images.length; i++) {
+      if (this.images[i].image === image) return this.images[i].id;
+    }
+    var id: string = this.createId("image");
+    this.images.push({
+      image,
+      id,
+      element: "<image" + serializeAttributes({
+        id,
+        width: formatNumber(image.width),
+        height: formatNumber(image.height),
+        "xlink:href": this.imageSource(image),
+      }) + "/>",
+    });
+    return id;
+  }
+
+  /**
+   * Obtain the path data of the given path in the current user space, or null if the current
+   * transform cannot be inverted.
+   */
+  private userPathData(path: SVGPath): string | null {
+    var inverse: Matrix | null = invert(this.state.transform);
+    return inverse ? path.toPathData(inverse) : null;
+  }
+
+  /**
+   * Obtain the device space path of a recorded path, using the current transform.
+   *
+   * @param {Path2D} path - A path created by `createPath2D()`.
+   */
+  private pathOf(path: Path2D): SVGPath {
+    var result = new SVGPath();
+    buildTransformedPath((<RecordedPath2D>path).data, result, this.state.transform);
+    return result;
+  }
+
+  private clipSVGPath(path: SVGPath, fillRule: FillRule): void {
+    var id: string = this.createId("clip");
+    var clip = this.state.clip;
+    this.clipPaths.push("<clipPath" + serializeAttributes({
+      id,
+      "clip-path": clip ? "url(#" + clip + ")" : null,
+    }) + "><path" + serializeAttributes({
+      d: path.toPathData(identity()),
+      "clip-rule": fillRule === FillRule.evenodd ? "evenodd" : null,
+    }) + "/></clipPath>");
+    this.state.clip = id;
+  }
+
+  private fillSVGPath(path: SVGPath, fillRule: FillRule): void {
+    var d = this.userPathData(path);
+    if (d === null) return;
+    var state = this.state;
+    this.draw("<path" + serializeAttributes({
+      d,
+      transform: formatMatrix(state.transform),
+      fill: state.fillStyle.value,
+      "fill-opacity": this.opacity(state.fillStyle),
+      "fill-rule": fillRule === FillRule.evenodd ? "evenodd" : null,
+    }) + "/>");
+  }
+
+  private strokeSVGPath(path: SVGPath): void {
+    var d = this.userPathData(path);
+    if (d === null) return;
+    this.draw("<path" + serializeAttributes({
+      d,
+      transform: formatMatrix(this.state.transform),
+      fill: "none",
+      ...this.strokeAttributes(),
+    }) + "/>");
+  }
+
+  private strokeAttributes(): { [name: string]: string | null } {
+    var state = this.state;
+    return {
+      stroke: state.strokeStyle.value,
+      "stroke-opacity": this.opacity(state.strokeStyle),
+      "stroke-width": formatNumber(state.lineWidth),
+      "stroke-linecap": state.lineCap === LineCap.butt ? null : LineCapValues[state.lineCap],
+      "stroke-linejoin": state.lineJoin === LineJoin.miter ? null : LineJoinValues[state.lineJoin],
+      "stroke-miterlimit": state.miterLimit === 10 ? null : formatNumber(state.miterLimit),
+      "stroke-dasharray": state.lineDash.length === 0 ? null : state.lineDash.map(formatNumber).join(" "),
+      "stroke-dashoffset": state.lineDashOffset === 0 ? null : formatNumber(state.lineDashOffset),
+    };
+  }
+
+  private drawText(text: string, x: number, y: number, fill: boolean): void {
+    var state = this.state;
+    var rtl: boolean = state.direction === CanvasDirection.rtl;
+    var anchor: string = "start";
+    switch (state.textAlign) {
+      case TextAlign.left: anchor = rtl ? "end" : "start"; break;
+      case TextAlign.right: anchor = rtl ? "start" : "end"; break;
+      case TextAlign.center: anchor = "middle"; break;
+      case TextAlign.end: anchor = "end"; break;
+    }
+    // the font shorthand resets the font-stretch and font-variant-caps properties, so they follow it
+    var style: string[] = ["font:" + state.font];
+    if (state.fontKerning !== FontKerning.auto) style.push("font-kerning:" + FontKerningValues[state.fontKerning]);
+    if (state.fontStretch !== FontStretch.normal) style.push("font-stretch:" + FontStretchValues[state.fontStretch]);
+    if (state.fontVariantCaps !== FontVariantCaps.normal) style.push("font-variant-caps:" + FontVariantCapsValues[state.fontVariantCaps]);
+    var paint: { [name: string]: string | null } = fill
+      ? { fill: state.fillStyle.value, "fill-opacity": this.opacity(state.fillStyle) }
+      : { fill: "none", ...this.strokeAttributes() };
+    this.draw("<text" + serializeAttributes({
+      x: formatNumber(x),
+      y: formatNumber(y),
+      transform: formatMatrix(state.transform),
+      style: style.join(";"),
+      direction: rtl ? "rtl" : null,
+      "letter-spacing": state.letterSpacing === "0px" ? null : state.letterSpacing,
+      "word-spacing": state.wordSpacing === "0px" ? null : state.wordSpacing,
+      "text-rendering": state.textRendering === TextRendering.auto ? null : TextRenderingValues[state.textRendering],
+      "text-anchor": anchor === "start" ? null : anchor,
+      "dominant-baseline": state.textBaseline === TextBaseline.alphabetic ? null : TextBaselineValues[state.textBaseline],
+      ...paint,
+    }) + ">" + escapeXML(text) + "</text>");
+  }
+
+  private opacity(paint: ISVGPaint): string | null {
+    var value: number = paint.opacity * this.state.globalAlpha;
+    return value === 1 ? null : formatNumber(value);
+  }
+
+  /**
+   * Add an element to the document, wrapping it in a group when the current clipping region, blend
+   * mode or filter apply to it. The group is never transformed, so clipping regions are always
+   * resolved in device space.
+   */
+  private draw(element: string): void {
+    var state = this.state;
+    var group: { [name: string]: string | null } = {};
+    var style: string[] = [];
+    if (state.globalCompositeOperation >= GlobalCompositeOperation.multiply) {
+      style.push("mix-blend-mode:" + GlobalCompositeOperationValue[state.globalCompositeOperation]);
+    }
+    if (state.filter !== "none") style.push("filter:" + state.filter);
+    if (style.length > 0) group.style = style.join(";");
+    if (state.clip) group["clip-path"] = "url(#" + state.clip + ")";
+    var attributes: string = serializeAttributes(group);
+    this.elements.push(attributes.length > 0 ? "<g" + attributes + ">" + element + "</g>" : element);
+  }
+}
@@ -0,0 +1,230 @@
+import { Matrix, transformX, transformY, invert, transformPoints } from "../raster/matrix";
+import { arcSweep } from "../raster/RasterPath";
+
+/**
+ * A single path segment. The points are stored in device space as a flat `[x0, y0, x1, y1, ...]`
+ * list, and `Z` segments have no points.
+ */
+export interface ISVGSegment {
+  command: "M" | "L" | "Q" | "C" | "Z";
+  points: number[];
+}
+
+/**
+ * Format a number for use in an SVG attribute, rounded to three decimal places.
+ *
+ * @param {number} value - The value to format.
+ */
+export function formatNumber(value: number): string {
+  var rounded: number = Math.round(value * 1000) / 1000;
+  return rounded === 0 ? "0" : rounded.toString();
+}
+
+/**
+ * A path that keeps every pathing operation as an SVG path segment. Like the browser, each
+ * operation is transformed by the matrix that is current when it is called, and arcs are converted
+ * to cubic bezier curves so they survive non-uniform transforms.
+ */
+export class SVGPath {
+  /** The path segments. */
+  public segments: ISVGSegment[] = [];
+
+  private hasCurrent: boolean = false;
+  private startX: number = 0;
+  private startY: number = 0;
+  private lastX: number = 0;
+  private lastY: number = 0;
+
+  /** Empty the list of segments. */
+  public beginPath(): void {
+    this.segments = [];
+    this.hasCurrent = false;
+  }
+
+  /**
+   * Begin a new sub-path at the given point.
+   *
+   * @param {Matrix} m - The current transform.
+   * @param {number} x - The x coordinate of the point.
+   * @param {number} y - The y coordinate of the point.
+   */
+  public moveTo(m: Matrix, x: number, y: number): void {
+    this.push("M", [x, y], m);
+    this.startX = this.lastX;
+    this.startY = this.lastY;
+    this.hasCurrent = true;
+  }
+
+  /**
+   * Connect the last point of the current sub-path to the given point.
+   *
+   * @param {Matrix} m - The current transform.
+   * @param {number} x - The x coordinate of the point.
+   * @param {number} y - The y coordinate of the point.
+   */
+  public lineTo(m: Matrix, x: number, y: number): void {
+    if (!this.hasCurrent) this.moveTo(m, x, y);
+    else this.push("L", [x, y], m);
+  }
+
+  /**
+   * Close the current sub-path, and start a new sub-path at its first point.
+   */
+  public closePath(): void {
+    if (!this.hasCurrent) return;
+    this.segments.push({ command: "Z", points: [] });
+    this.lastX = this.startX;
+    this.lastY = this.startY;
+  }
+
+  /**
+   * Add a quadratic bezier curve to the current sub-path.
+   *
+   * @param {Matrix} m - The current transform.
+   */
+  public quadraticCurveTo(m: Matrix, cpx: number, cpy: number, x: number, y: number): void {
+    if (!this.hasCurrent) this.moveTo(m, cpx, cpy);
+    this.push("Q", [cpx, cpy, x, y], m);
+  }
+
+  /**
+   * Add a cubic bezier curve to the current sub-path.
+   *
+   * @param {Matrix} m - The current transform.
+   */
+  public bezierCurveTo(m: Matrix, cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void {
+    if (!this.hasCurrent) this.moveTo(m, cp1x, cp1y);
+    this.push("C", [cp1x, cp1y, cp2x, cp2y, x, y], m);
+  }
+
+  /**
+   * Add an elliptical arc to the current sub-path, split into cubic bezier curves that each sweep
+   * a quarter turn or less.
+   *
+   * @param {Matrix} m - The current transform.
+   */
+  public ellipse(
+    m: Matrix,
+    x: number,
+    y: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number,
+    anticlockwise: boolean,
+  ): void {
+    var sweep: number = arcSweep(startAngle, endAngle, anticlockwise);
+    var count: number = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+    var cos: number = Math.cos(rotation);
+    var sin: number = Math.sin(rotation);
+    var pointX = (u: number, v: number): number => x + radiusX * u * cos - radiusY * v * sin;
+    var pointY = (u: number, v: number): number => y + radiusX * u * sin + radiusY * v * cos;
+
+    var a0: number = startAngle;
+    this.lineTo(m, pointX(Math.cos(a0), Math.sin(a0)), pointY(Math.cos(a0), Math.sin(a0)));
+    if (sweep === 0) return;
+    var step: number = sweep / count;
+    var k: number = 4 / 3 * Math.tan(step / 4);
+    for (var i = 0; i < count; i++) {
+      var a1: number = a0 + step;
+      var u0: number = Math.cos(a0);
+      var v0: number = Math.sin(a0);
+      var u1: number = Math.cos(a1);
+      var v1: number = Math.sin(a1);
+      this.push("C", [
+        pointX(u0 - k * v0, v0 + k * u0), pointY(u0 - k * v0, v0 + k * u0),
+        pointX(u1 + k * v1, v1 - k * u1), pointY(u1 + k * v1, v1 - k * u1),
+        pointX(u1, v1), pointY(u1, v1),
+      ], m);
+      a0 = a1;
+    }
+  }
+
+  /**
+   * Add an arc to the current sub-path using the given control points and radius.
+   *
+   * @param {Matrix} m - The current transform.
+   */
+  public arcTo(m: Matrix, x1: number, y1: number, x2: number, y2: number, radius: number): void {
+    if (!this.hasCurrent) {
+      this.moveTo(m, x1, y1);
+      return;
+    }
+    var inverse: Matrix | null = invert(m);
+    if (!inverse) return;
+    var x0: number = transformX(inverse, this.lastX, this.lastY);
+    var y0: number = transformY(inverse, this.lastX, this.lastY);
+
+    var v1x: number = x0 - x1;
+    var v1y: number = y0 - y1;
+    var v2x: number = x2 - x1;
+    var v2y: number = y2 - y1;
+    var l1: number = Math.hypot(v1x, v1y);
+    var l2: number = Math.hypot(v2x, v2y);
+    var cross: number = v1x * v2y - v1y * v2x;
+    if (radius === 0 || l1 === 0 || l2 === 0 || Math.abs(cross) < 1e-12) {
+      this.lineTo(m, x1, y1);
+      return;
+    }
+
+    v1x /= l1;
+    v1y /= l1;
+    v2x /= l2;
+    v2y /= l2;
+    var theta: number = Math.acos(Math.max(-1, Math.min(1, v1x * v2x + v1y * v2y)));
+    var tangent: number = radius / Math.tan(theta / 2);
+    var t1x: number = x1 + v1x * tangent;
+    var t1y: number = y1 + v1y * tangent;
+    var t2x: number = x1 + v2x * tangent;
+    var t2y: number = y1 + v2y * tangent;
+    var bx: number = v1x + v2x;
+    var by: number = v1y + v2y;
+    var bl: number = Math.hypot(bx, by);
+    var distance: number = radius / Math.sin(theta / 2);
+    var cx: number = x1 + bx / bl * distance;
+    var cy: number = y1 + by / bl * distance;
+    var a0: number = Math.atan2(t1y - cy, t1x - cx);
+    var a1: number = Math.atan2(t2y - cy, t2x - cx);
+    var delta: number = a1 - a0;
+    if (delta > Math.PI) delta -= Math.PI * 2;
+    else if (delta < -Math.PI) delta += Math.PI * 2;
+    this.ellipse(m, cx, cy, radius, radius, 0, a0, a0 + delta, delta < 0);
+  }
+
+  /**
+   * Add a closed rectangle sub-path, then start a new sub-path at the rectangle's origin.
+   *
+   * @param {Matrix} m - The current transform.
+   */
+  public rect(m: Matrix, x: number, y: number, width: number, height: number): void {
+    this.moveTo(m, x, y);
+    this.lineTo(m, x + width, y);
+    this.lineTo(m, x + width, y + height);
+    this.lineTo(m, x, y + height);
+    this.closePath();
+  }
+
+  /**
+   * Serialize the segments into the value of a `d` attribute, after transforming every device
+   * space point by the given matrix.
+   *
+   * @param {Matrix} m - The transform applied to every point, usually the inverse of the transform
+   * set on the element.
+   */
+  public toPathData(m: Matrix): string {
+    var result: string[] = [];
+    for (var i = 0; i < this.segments.length; i++) {
+      var segment = this.segments[i];
+      result.push(segment.command + transformPoints(m, segment.points).map(formatNumber).join(" "));
+    }
+    return result.join("");
+  }
+
+  private push(command: "M" | "L" | "Q" | "C", points: number[], m: Matrix): void {
+    var device: number[] = transformPoints(m, points);
+    this.segments.push({ command, points: device });
+    this.lastX = device[device.length - 2];
+    this.lastY = device[device.length - 1];
+  }
+}
@@ -0,0 +1,17 @@
+import { IRenderBackend } from "./IRenderBackend";
+
+/**
+ * A render backend together with the canvas it draws into, so that its context can be drawn into
+ * other contexts.
+ */
+export interface IBackendCanvas {
+  canvas: HTMLCanvasElement | OffscreenCanvas;
+  backend: IRenderBackend;
+}
+
+/**
+ * Create the canvas of a context that is created by the module. A factory returns the 2d context
+ * of a canvas, a render backend without a canvas, like a `SoftwareRasterizer`, or a render backend
+ * together with its canvas.
+ */
+export type CanvasFactory = (width: number, height: number) => CanvasRenderingContext2D | IRenderBackend | IBackendCanvas;
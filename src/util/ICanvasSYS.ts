@@ -1,9 +1,30 @@
+import { FrameRecorder } from "../record/FrameRecorder";
+import { CanvasFactory } from "./CanvasFactory";
+import { ICanvasState } from "./ICanvasState";
+import { IContextOptions } from "./IContextOptions";
+import { IRenderBackend } from "./IRenderBackend";
+
   export interface ICanvasSYS {
-    __use_context(name: number, id: number): void;
+    __use_context(name: number, id: number, bufferLength: number, retainedLength: number, pathLength: number, stackLength: number, width: number, height: number): void;
+    __use_element(name: number, id: number): void;
     __image_loaded(img: number, width: number, height: number): void;
-    useContext(name: string, ctx: CanvasRenderingContext2D): number;
+    __context_lost(name: number): void;
+    __context_restored(name: number): void;
+    __canvas_resized(id: number, width: number, height: number, clientWidth: number, clientHeight: number, devicePixelRatio: number): void;
+    contextRestored?(name: number): void;
+    canvasResized?(name: number): void;
+    useContext(name: string, ctx: CanvasRenderingContext2D, options?: IContextOptions): number;
+    useBackend(name: string, backend: IRenderBackend, options?: IContextOptions): number;
+    useCanvasFactory(factory: CanvasFactory | null): void;
+    useElement(name: string, element: Element): number;
+    useInspector(inspector: ((ctxid: number, label: string, state: ICanvasState) => void) | null): void;
+    useRecorder(recorder: FrameRecorder | null): void;
+    useTrace(trace: ((ctxid: number, disassembly: string) => void) | null): void;
+    backends: { [id: number]: IRenderBackend; };
     patterns: { [id: number]: CanvasPattern; };
+    paths: { [id: number]: Float64Array; };
     contexts: { [id: number]: CanvasRenderingContext2D; };
+    elements: { [id: number]: Element; };
     gradients: { [id: number]: CanvasGradient; };
     images: { [id: number]: ImageBitmap; };
     loading: { [id: number]: Promise<any>; };
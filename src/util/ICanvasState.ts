@@ -0,0 +1,48 @@
+import { CanvasDirection } from "../shared/CanvasDirection";
+import { FontKerning } from "../shared/FontKerning";
+import { FontStretch } from "../shared/FontStretch";
+import { FontVariantCaps } from "../shared/FontVariantCaps";
+import { GlobalCompositeOperation } from "../shared/GlobalCompositeOperation";
+import { ImageSmoothingQuality } from "../shared/ImageSmoothingQuality";
+import { LineCap } from "../shared/LineCap";
+import { LineJoin } from "../shared/LineJoin";
+import { TextAlign } from "../shared/TextAlign";
+import { TextBaseline } from "../shared/TextBaseline";
+import { TextRendering } from "../shared/TextRendering";
+
+/**
+ * A snapshot of the drawing state of a render backend, which is passed to the inspector of the
+ * glue when an `Inspect` instruction is dispatched. Every backend provides the transform, the
+ * styles and the line settings. The other properties are omitted by backends that ignore them.
+ */
+export interface ICanvasState {
+  /** The `a`, `b`, `c`, `d`, `e` and `f` values of the current transform. */
+  transform: [number, number, number, number, number, number];
+  fillStyle: string | CanvasGradient | CanvasPattern;
+  strokeStyle: string | CanvasGradient | CanvasPattern;
+  globalAlpha: number;
+  lineWidth: number;
+  lineCap: LineCap;
+  lineJoin: LineJoin;
+  miterLimit: number;
+  lineDash?: number[];
+  lineDashOffset?: number;
+  globalCompositeOperation?: GlobalCompositeOperation;
+  filter?: string;
+  font?: string;
+  textAlign?: TextAlign;
+  textBaseline?: TextBaseline;
+  direction?: CanvasDirection;
+  letterSpacing?: string;
+  wordSpacing?: string;
+  fontKerning?: FontKerning;
+  fontStretch?: FontStretch;
+  fontVariantCaps?: FontVariantCaps;
+  textRendering?: TextRendering;
+  shadowBlur?: number;
+  shadowColor?: string;
+  shadowOffsetX?: number;
+  shadowOffsetY?: number;
+  imageSmoothingEnabled?: boolean;
+  imageSmoothingQuality?: ImageSmoothingQuality;
+}
@@ -0,0 +1,27 @@
+/**
+ * The initial sizes of the memory pools of a context. Every omitted size uses the default size.
+ * The pools grow when they are full, so these sizes only tune the memory usage of a context.
+ */
+export interface IContextOptions {
+  /**
+   * The number of values the instruction buffer holds before it is flushed to the host. The
+   * default size is 0x10000.
+   */
+  bufferLength?: number;
+
+  /**
+   * The number of strings and arrays that can be referenced until the next commit. The default
+   * size is 0x10000.
+   */
+  retainedLength?: number;
+
+  /**
+   * The number of path elements the current path can hold. The default size is 0x1000.
+   */
+  pathLength?: number;
+
+  /**
+   * The number of states that can be saved with `save()`. The default size is 0xFF.
+   */
+  stackLength?: number;
+}
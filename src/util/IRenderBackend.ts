@@ -0,0 +1,107 @@
+import { CanvasDirection } from "../shared/CanvasDirection";
+import { CanvasPatternRepetition } from "../shared/CanvasPatternRepetition";
+import { FillRule } from "../shared/FillRule";
+import { FontKerning } from "../shared/FontKerning";
+import { FontStretch } from "../shared/FontStretch";
+import { FontVariantCaps } from "../shared/FontVariantCaps";
+import { GlobalCompositeOperation } from "../shared/GlobalCompositeOperation";
+import { ImageSmoothingQuality } from "../shared/ImageSmoothingQuality";
+import { LineCap } from "../shared/LineCap";
+import { LineJoin } from "../shared/LineJoin";
+import { TextAlign } from "../shared/TextAlign";
+import { TextBaseline } from "../shared/TextBaseline";
+import { TextRendering } from "../shared/TextRendering";
+import { ICanvasState } from "./ICanvasState";
+import { ImageSource } from "./ImageSource";
+import { ITextStyle } from "./ITextStyle";
+
+/**
+ * A render backend receives the decoded `CanvasInstruction` stream of a context. Every drawing
+ * method mirrors a single instruction, and every property setter is a method that receives the
+ * decoded value, with strings, images, gradients and patterns already resolved by the glue.
+ *
+ * The `create*`, `getImageData`, `measureText*` and `isPointIn*` methods are called synchronously
+ * when the AssemblyScript context requests them, and `getState` is called when an `Inspect`
+ * instruction is dispatched. `resize` is called when the module sets the size of the canvas of the
+ * context, and it resets the backend like resizing a canvas does. Pixel data uses the
+ * non-premultiplied RGBA layout of `ImageData`.
+ */
+export interface IRenderBackend {
+  arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, anticlockwise: boolean): void;
+  arcTo(x1: number, y1: number, x2: number, y2: number, radius: number): void;
+  beginPath(): void;
+  bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void;
+  clearRect(x: number, y: number, width: number, height: number): void;
+  clip(): void;
+  clipPath(path: Path2D, fillRule: FillRule): void;
+  closePath(): void;
+  direction(value: CanvasDirection): void;
+  drawFocusIfNeeded(element: Element | null): void;
+  drawFocusIfNeededPath(path: Path2D, element: Element | null): void;
+  drawImage(image: ImageSource, sx: number, sy: number, sWidth: number, sHeight: number, dx: number, dy: number, dWidth: number, dHeight: number): void;
+  ellipse(x: number, y: number, radiusX: number, radiusY: number, rotation: number, startAngle: number, endAngle: number, anticlockwise: boolean): void;
+  fill(fillRule: FillRule): void;
+  fillGradient(value: CanvasGradient): void;
+  fillPath(path: Path2D, fillRule: FillRule): void;
+  fillPattern(value: CanvasPattern): void;
+  fillRect(x: number, y: number, width: number, height: number): void;
+  fillStyle(value: string): void;
+  fillText(text: string, x: number, y: number): void;
+  fillTextWidth(text: string, x: number, y: number, maxWidth: number): void;
+  filter(value: string): void;
+  font(value: string): void;
+  fontKerning(value: FontKerning): void;
+  fontStretch(value: FontStretch): void;
+  fontVariantCaps(value: FontVariantCaps): void;
+  globalAlpha(value: number): void;
+  globalCompositeOperation(value: GlobalCompositeOperation): void;
+  imageSmoothingEnabled(value: boolean): void;
+  imageSmoothingQuality(value: ImageSmoothingQuality): void;
+  letterSpacing(value: string): void;
+  lineCap(value: LineCap): void;
+  lineDash(value: Float64Array): void;
+  lineDashOffset(value: number): void;
+  lineJoin(value: LineJoin): void;
+  lineTo(x: number, y: number): void;
+  lineWidth(value: number): void;
+  miterLimit(value: number): void;
+  moveTo(x: number, y: number): void;
+  putImageData(data: Uint8ClampedArray, width: number, height: number, dx: number, dy: number, dirtyX: number, dirtyY: number, dirtyWidth: number, dirtyHeight: number): void;
+  quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void;
+  rect(x: number, y: number, width: number, height: number): void;
+  reset(): void;
+  resize(width: number, height: number): void;
+  restore(): void;
+  roundRect(x: number, y: number, width: number, height: number, radii: number[]): void;
+  save(): void;
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void;
+  shadowBlur(value: number): void;
+  shadowColor(value: string): void;
+  shadowOffsetX(value: number): void;
+  shadowOffsetY(value: number): void;
+  stroke(): void;
+  strokeGradient(value: CanvasGradient): void;
+  strokePath(path: Path2D): void;
+  strokePattern(value: CanvasPattern): void;
+  strokeRect(x: number, y: number, width: number, height: number): void;
+  strokeStyle(value: string): void;
+  strokeText(text: string, x: number, y: number): void;
+  strokeTextWidth(text: string, x: number, y: number, maxWidth: number): void;
+  textAlign(value: TextAlign): void;
+  textBaseline(value: TextBaseline): void;
+  textRendering(value: TextRendering): void;
+  wordSpacing(value: string): void;
+
+  createConicGradient(startAngle: number, x: number, y: number): CanvasGradient;
+  createLinearGradient(x0: number, y0: number, x1: number, y1: number): CanvasGradient;
+  createPath2D(data: Float64Array): Path2D;
+  createPattern(image: ImageSource, repetition: CanvasPatternRepetition): CanvasPattern;
+  createRadialGradient(x0: number, y0: number, r0: number, x1: number, y1: number, r1: number): CanvasGradient;
+  getImageData(sx: number, sy: number, sw: number, sh: number): Uint8ClampedArray;
+  getState(): ICanvasState;
+  isPointInPath(x: number, y: number, fillRule: FillRule): boolean;
+  isPointInPathObject(path: Path2D, x: number, y: number, fillRule: FillRule): boolean;
+  isPointInStroke(x: number, y: number): boolean;
+  measureText(text: string): TextMetrics;
+  measureTextBatch(texts: string[], font: string, style: ITextStyle): TextMetrics[];
+}
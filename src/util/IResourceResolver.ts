@@ -0,0 +1,15 @@
+import { ImageSource } from "./ImageSource";
+
+/**
+ * Resolves the pointer and id arguments of the instruction stream into host values.
+ */
+export interface IResourceResolver {
+  getString(pointer: number): string;
+  getFloat64Array(pointer: number): Float64Array;
+  getUint8ClampedArray(pointer: number): Uint8ClampedArray;
+  getImage(id: number): ImageSource;
+  getGradient(id: number): CanvasGradient;
+  getPattern(id: number): CanvasPattern;
+  getPath(id: number): Path2D;
+  getElement(id: number): Element | null;
+}
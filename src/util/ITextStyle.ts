@@ -0,0 +1,18 @@
+import { FontKerning } from "../shared/FontKerning";
+import { FontStretch } from "../shared/FontStretch";
+import { FontVariantCaps } from "../shared/FontVariantCaps";
+import { TextRendering } from "../shared/TextRendering";
+
+/**
+ * The text properties of a context, besides the font, that change the metrics of measured text.
+ * They are passed to `measureTextBatch()`, because the host context does not have the current
+ * values until the pending instructions are rendered.
+ */
+export interface ITextStyle {
+  letterSpacing: string;
+  wordSpacing: string;
+  fontKerning: FontKerning;
+  fontStretch: FontStretch;
+  fontVariantCaps: FontVariantCaps;
+  textRendering: TextRendering;
+}
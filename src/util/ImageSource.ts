@@ -0,0 +1,5 @@
+/**
+ * An image that can be drawn by a render backend. Images loaded by the module are resolved into
+ * an `ImageBitmap`, and contexts used as an image are resolved into their canvas.
+ */
+export type ImageSource = ImageBitmap | HTMLCanvasElement | OffscreenCanvas;
@@ -0,0 +1,23 @@
+/**
+ * Create a TextMetrics object without a DOM canvas, for the backends that cannot measure text.
+ * Every metric that is not given is 0.
+ *
+ * @param {Partial<TextMetrics>} metrics - The metrics that are known.
+ */
+export function createTextMetrics(metrics: Partial<TextMetrics> = {}): TextMetrics {
+  return {
+    width: 0,
+    actualBoundingBoxLeft: 0,
+    actualBoundingBoxRight: 0,
+    fontBoundingBoxAscent: 0,
+    fontBoundingBoxDescent: 0,
+    actualBoundingBoxAscent: 0,
+    actualBoundingBoxDescent: 0,
+    emHeightAscent: 0,
+    emHeightDescent: 0,
+    hangingBaseline: 0,
+    alphabeticBaseline: 0,
+    ideographicBaseline: 0,
+    ...metrics,
+  };
+}